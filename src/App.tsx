@@ -8,6 +8,8 @@ import {
   ChangePasswordForm,
 } from '@/components/auth';
 import { supabase } from '@/lib/supabase';
+import { queryClient } from '@/lib/queryClient';
+import { purgeExpiredTrash } from '@/lib/trash';
 import { useAuthStore } from '@/store';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -20,11 +22,19 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { ChevronDown, KeyRound, LogOut } from 'lucide-react';
+import { SyncStatusIndicator } from '@/components/layout/SyncStatusIndicator';
 import {
   NotebooksPage,
   NotebookCreatePage,
   NotebookEditPage,
   NotebookViewPage,
+  TrashPage,
+  ImportPage,
+  BackupPage,
+  PageLinkPage,
+  GraphPage,
+  TagsPage,
+  NotebookViewsPage,
 } from '@/pages';
 
 function App() {
@@ -68,6 +78,22 @@ function App() {
     };
   }, []);
 
+  // Purge expired trash once per signed-in session
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    purgeExpiredTrash(userId)
+      .then((purged) => {
+        if (purged > 0) {
+          queryClient.invalidateQueries({ queryKey: ['trash'] });
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to purge expired trash:', error);
+      });
+  }, [userId]);
+
   const handleLogout = async () => {
     await signOut();
   };
@@ -86,27 +112,30 @@ function App() {
             <div className="container mx-auto px-4 py-4">
               <div className="flex items-center justify-between">
                 <h1 className="text-2xl font-bold">Mini Note</h1>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" className="gap-2">
-                      <span className="text-sm">{user.email}</span>
-                      <ChevronDown className="h-4 w-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end" className="w-56">
-                    <DropdownMenuLabel>My Account</DropdownMenuLabel>
-                    <DropdownMenuSeparator />
-                    <DropdownMenuItem onClick={() => setShowChangePassword(true)}>
-                      <KeyRound className="mr-2 h-4 w-4" />
-                      Change Password
-                    </DropdownMenuItem>
-                    <DropdownMenuSeparator />
-                    <DropdownMenuItem onClick={handleLogout} className="text-destructive">
-                      <LogOut className="mr-2 h-4 w-4" />
-                      Logout
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
+                <div className="flex items-center gap-4">
+                  <SyncStatusIndicator />
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" className="gap-2">
+                        <span className="text-sm">{user.email}</span>
+                        <ChevronDown className="h-4 w-4" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-56">
+                      <DropdownMenuLabel>My Account</DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={() => setShowChangePassword(true)}>
+                        <KeyRound className="mr-2 h-4 w-4" />
+                        Change Password
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem onClick={handleLogout} className="text-destructive">
+                        <LogOut className="mr-2 h-4 w-4" />
+                        Logout
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
               </div>
             </div>
           </header>
@@ -212,6 +241,16 @@ function App() {
                 <Route path="/notebooks/:notebookId/pages/:pageId" element={<NotebookViewPage />} />
                 <Route path="/notebooks/:notebookId/pages/:pageId/edit" element={<NotebookViewPage />} />
                 <Route path="/notebooks/:notebookId/edit" element={<NotebookEditPage />} />
+                <Route path="/notebooks/:notebookId/graph" element={<GraphPage />} />
+                <Route path="/notebooks/:notebookId/table" element={<NotebookViewsPage type="table" />} />
+                <Route path="/notebooks/:notebookId/board" element={<NotebookViewsPage type="board" />} />
+                <Route path="/notebooks/:notebookId/views/:viewId" element={<NotebookViewsPage />} />
+                <Route path="/pages/:pageId" element={<PageLinkPage />} />
+                <Route path="/graph" element={<GraphPage />} />
+                <Route path="/tags" element={<TagsPage />} />
+                <Route path="/trash" element={<TrashPage />} />
+                <Route path="/import" element={<ImportPage />} />
+                <Route path="/backup" element={<BackupPage />} />
                 <Route path="*" element={<Navigate to="/notebooks" replace />} />
               </Routes>
             )}
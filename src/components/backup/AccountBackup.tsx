@@ -0,0 +1,272 @@
+import { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, ArchiveRestore, DatabaseBackup, Download, Loader2, Upload } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Label } from '../ui/label';
+import { Progress } from '../ui/progress';
+import { Separator } from '../ui/separator';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog';
+import { useCreateBackup, useRestoreBackup } from '../../hooks/useBackup';
+import { parseAccountBackup, type AccountBackup as Backup, type RestoreMode } from '../../lib/accountBackup';
+
+function downloadBackup(backup: Backup) {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(backup)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `mininote-backup-${backup.createdAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function SkippedAttachments({ files, action }: { files: string[]; action: string }) {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="space-y-1 text-sm">
+      <p className="flex items-center gap-2 text-muted-foreground">
+        <AlertCircle className="h-4 w-4" />
+        {files.length} attachment{files.length === 1 ? '' : 's'} could not be {action}:
+      </p>
+      <ul className="list-disc pl-8 text-xs text-muted-foreground">
+        {files.map((file, index) => <li key={`${file}-${index}`}>{file}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+export function AccountBackup() {
+  const navigate = useNavigate();
+  const createBackup = useCreateBackup();
+  const restoreBackup = useRestoreBackup();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [backupProgress, setBackupProgress] = useState(0);
+  const [restoreProgress, setRestoreProgress] = useState(0);
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [confirmReplace, setConfirmReplace] = useState(false);
+
+  const restored = restoreBackup.data;
+
+  const handleCreateBackup = async () => {
+    setBackupProgress(0);
+    try {
+      const result = await createBackup.mutateAsync({
+        onProgress: (done, total) => setBackupProgress(Math.round((done / total) * 100)),
+      });
+      downloadBackup(result.backup);
+    } catch (error) {
+      console.error('Failed to create backup:', error);
+    }
+  };
+
+  const handleFile = async (fileList: FileList | null) => {
+    const file = fileList?.[0];
+    if (!file) return;
+
+    restoreBackup.reset();
+    setReadError(null);
+
+    try {
+      setBackup(parseAccountBackup(await file.text()));
+    } catch (error) {
+      console.error('Failed to read backup:', error);
+      setReadError(error instanceof Error ? error.message : 'Failed to read the backup file');
+      setBackup(null);
+    }
+  };
+
+  const runRestore = async () => {
+    if (!backup) return;
+
+    setConfirmReplace(false);
+    setRestoreProgress(0);
+    try {
+      await restoreBackup.mutateAsync({
+        backup,
+        mode,
+        onProgress: (done, total) => setRestoreProgress(Math.round((done / total) * 100)),
+      });
+      setBackup(null);
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+    }
+  };
+
+  const handleRestore = () => {
+    if (mode === 'replace') {
+      setConfirmReplace(true);
+    } else {
+      runRestore();
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-3xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <DatabaseBackup className="h-6 w-6 text-primary" />
+          <CardTitle>Backup &amp; Restore</CardTitle>
+        </div>
+        <CardDescription>
+          Download everything in your account - notebooks, pages, version history and attachments, including
+          the trash - as a single file, or restore such a file.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <h3 className="font-medium">Create backup</h3>
+          <Button type="button" onClick={handleCreateBackup} disabled={createBackup.isPending || restoreBackup.isPending}>
+            {createBackup.isPending
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <Download className="mr-2 h-4 w-4" />}
+            {createBackup.isPending ? 'Creating Backup...' : 'Download Backup'}
+          </Button>
+          {createBackup.isPending && <Progress value={backupProgress} />}
+          {createBackup.error && (
+            <p className="text-sm text-destructive">Backup failed: {createBackup.error.message}</p>
+          )}
+          {createBackup.data && (
+            <SkippedAttachments files={createBackup.data.skippedAttachments} action="downloaded" />
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <h3 className="font-medium">Restore backup</h3>
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            accept=".json,application/json"
+            onChange={(e) => {
+              handleFile(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={restoreBackup.isPending}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            Choose Backup File
+          </Button>
+
+          {readError && <p className="text-sm text-destructive">{readError}</p>}
+
+          {backup && (
+            <div className="space-y-4 rounded-md border p-4">
+              <p className="text-sm">
+                Backup from {new Date(backup.createdAt).toLocaleString()}: {backup.notebooks.length} notebook
+                {backup.notebooks.length === 1 ? '' : 's'}, {backup.pages.length} page{backup.pages.length === 1 ? '' : 's'},{' '}
+                {backup.pageVersions.length} version{backup.pageVersions.length === 1 ? '' : 's'} and{' '}
+                {backup.attachments.length} attachment{backup.attachments.length === 1 ? '' : 's'}.
+              </p>
+
+              <div className="space-y-2">
+                <Label>Restore mode</Label>
+                <label className="flex items-start gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="restore-mode"
+                    className="mt-1"
+                    checked={mode === 'merge'}
+                    onChange={() => setMode('merge')}
+                    disabled={restoreBackup.isPending}
+                  />
+                  <span>
+                    <span className="font-medium">Merge</span>
+                    <span className="text-muted-foreground"> - add the backed up notebooks next to your current ones</span>
+                  </span>
+                </label>
+                <label className="flex items-start gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="restore-mode"
+                    className="mt-1"
+                    checked={mode === 'replace'}
+                    onChange={() => setMode('replace')}
+                    disabled={restoreBackup.isPending}
+                  />
+                  <span>
+                    <span className="font-medium">Replace</span>
+                    <span className="text-muted-foreground"> - delete your current notebooks once the backup is restored</span>
+                  </span>
+                </label>
+              </div>
+
+              {restoreBackup.isPending && <Progress value={restoreProgress} />}
+
+              {restoreBackup.error && (
+                <p className="text-sm text-destructive">
+                  Restore failed: {restoreBackup.error.message}. Your existing data was not changed.
+                </p>
+              )}
+
+              <Button type="button" onClick={handleRestore} disabled={restoreBackup.isPending}>
+                {restoreBackup.isPending
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <ArchiveRestore className="mr-2 h-4 w-4" />}
+                {restoreBackup.isPending ? 'Restoring...' : 'Restore'}
+              </Button>
+            </div>
+          )}
+
+          {restored && (
+            <div className="space-y-3 rounded-md border p-4">
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm">
+                  Restored {restored.notebooksRestored} notebook{restored.notebooksRestored === 1 ? '' : 's'},{' '}
+                  {restored.pagesRestored} page{restored.pagesRestored === 1 ? '' : 's'} and{' '}
+                  {restored.attachmentsRestored} attachment{restored.attachmentsRestored === 1 ? '' : 's'}.
+                </p>
+                <Button type="button" size="sm" onClick={() => navigate('/notebooks')}>
+                  Go to Notebooks
+                </Button>
+              </div>
+              <SkippedAttachments files={restored.skippedAttachments} action="restored" />
+            </div>
+          )}
+        </div>
+      </CardContent>
+
+      <AlertDialog open={confirmReplace} onOpenChange={setConfirmReplace}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace All Data</AlertDialogTitle>
+            <AlertDialogDescription>
+              All of your current notebooks, including those in the trash, will be permanently deleted with their
+              pages, versions and attachments, and replaced by the backup. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                runRestore();
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Replace
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1 @@
+export { AccountBackup } from './AccountBackup';
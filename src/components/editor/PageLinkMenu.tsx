@@ -0,0 +1,97 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { FileText, Loader2 } from 'lucide-react';
+import { usePageTitleSearch } from '@/hooks/usePages';
+import type { PageTitle } from '@/lib/pageLinks';
+
+interface PageLinkMenuProps {
+  query?: string;
+  command: (item: PageTitle) => void;
+}
+
+export interface PageLinkMenuHandle {
+  onKeyDown: (props: { event: KeyboardEvent }) => boolean;
+}
+
+export const PageLinkMenu = forwardRef<PageLinkMenuHandle, PageLinkMenuProps>((props, ref) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const selectedIndexRef = useRef(0);
+  const { data: items = [], isLoading } = usePageTitleSearch(props.query || '');
+
+  const select = (index: number) => {
+    setSelectedIndex(index);
+    selectedIndexRef.current = index;
+  };
+
+  // Start from the best match whenever the results change
+  useEffect(() => {
+    select(0);
+  }, [items]);
+
+  const selectItem = (index: number) => {
+    const item = items[index];
+    if (item) {
+      props.command(item);
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    onKeyDown: ({ event }: { event: KeyboardEvent }) => {
+      if (items.length === 0) {
+        return false;
+      }
+
+      if (event.key === 'ArrowUp') {
+        event.preventDefault();
+        select((selectedIndexRef.current + items.length - 1) % items.length);
+        return true;
+      }
+
+      if (event.key === 'ArrowDown') {
+        event.preventDefault();
+        select((selectedIndexRef.current + 1) % items.length);
+        return true;
+      }
+
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        selectItem(selectedIndexRef.current);
+        return true;
+      }
+
+      return false;
+    },
+  }));
+
+  return (
+    <div className="page-link-menu bg-popover rounded-lg shadow-lg p-2 max-h-[320px] overflow-y-auto min-w-[280px] border-0">
+      {items.length > 0 ? (
+        items.map((item, index) => (
+          <button
+            key={item.id}
+            className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-left transition-colors ${index === selectedIndex
+              ? 'bg-accent text-accent-foreground'
+              : 'hover:bg-accent/50'
+              }`}
+            onClick={() => selectItem(index)}
+            onMouseEnter={() => select(index)}
+          >
+            <FileText className="flex-shrink-0 w-4 h-4 text-muted-foreground" />
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-sm text-foreground truncate">{item.title || 'Untitled'}</div>
+              {item.notebook_title && (
+                <div className="text-xs text-muted-foreground truncate">{item.notebook_title}</div>
+              )}
+            </div>
+          </button>
+        ))
+      ) : (
+        <div className="flex items-center gap-2 px-3 py-2 text-sm text-muted-foreground">
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+          {isLoading ? 'Searching pages...' : 'No pages found'}
+        </div>
+      )}
+    </div>
+  );
+});
+
+PageLinkMenu.displayName = 'PageLinkMenu';
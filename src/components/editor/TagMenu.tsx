@@ -0,0 +1,101 @@
+import { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { Hash } from 'lucide-react';
+import { useTags } from '@/hooks/useTags';
+import type { TagCount } from '@/lib/tags';
+
+const MAX_ITEMS = 8;
+
+interface TagMenuProps {
+  query?: string;
+  command: (item: TagCount) => void;
+}
+
+export interface TagMenuHandle {
+  hasItems: () => boolean;
+  onKeyDown: (props: { event: KeyboardEvent }) => boolean;
+}
+
+export const TagMenu = forwardRef<TagMenuHandle, TagMenuProps>((props, ref) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const selectedIndexRef = useRef(0);
+  const { data: tags = [] } = useTags();
+
+  // Nothing is suggested for a bare #, which may be starting a heading
+  const query = (props.query || '').toLowerCase();
+  const items = useMemo(() => {
+    if (!query) return [];
+    const matches = tags.filter(tag => tag.name.includes(query) && tag.name !== query);
+    // Tags starting with the query come first
+    return [
+      ...matches.filter(tag => tag.name.startsWith(query)),
+      ...matches.filter(tag => !tag.name.startsWith(query)),
+    ].slice(0, MAX_ITEMS);
+  }, [tags, query]);
+
+  const select = (index: number) => {
+    setSelectedIndex(index);
+    selectedIndexRef.current = index;
+  };
+
+  useEffect(() => {
+    select(0);
+  }, [items]);
+
+  const selectItem = (index: number) => {
+    const item = items[index];
+    if (item) {
+      props.command(item);
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    hasItems: () => items.length > 0,
+    onKeyDown: ({ event }: { event: KeyboardEvent }) => {
+      if (event.key === 'ArrowUp') {
+        event.preventDefault();
+        select((selectedIndexRef.current + items.length - 1) % items.length);
+        return true;
+      }
+
+      if (event.key === 'ArrowDown') {
+        event.preventDefault();
+        select((selectedIndexRef.current + 1) % items.length);
+        return true;
+      }
+
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        selectItem(selectedIndexRef.current);
+        return true;
+      }
+
+      return false;
+    },
+  }));
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="tag-menu bg-popover rounded-lg shadow-lg p-2 max-h-[320px] overflow-y-auto min-w-[200px] border-0">
+      {items.map((item, index) => (
+        <button
+          key={item.name}
+          className={`w-full flex items-center gap-2 px-3 py-1.5 rounded-md text-left transition-colors ${index === selectedIndex
+            ? 'bg-accent text-accent-foreground'
+            : 'hover:bg-accent/50'
+            }`}
+          onClick={() => selectItem(index)}
+          onMouseEnter={() => select(index)}
+        >
+          <Hash className="flex-shrink-0 w-4 h-4 text-muted-foreground" />
+          <span className="flex-1 truncate text-sm">{item.name}</span>
+          <span className="text-xs text-muted-foreground">{item.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+});
+
+TagMenu.displayName = 'TagMenu';
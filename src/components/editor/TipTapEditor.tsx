@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Placeholder from '@tiptap/extension-placeholder';
@@ -13,6 +14,8 @@ import { Markdown } from 'tiptap-markdown';
 import { MathExtension } from './extensions/MathExtension';
 import { BlockMathExtension } from './extensions/BlockMathExtension';
 import { SlashCommandExtension } from './extensions/SlashCommandExtension';
+import { PageLinkExtension } from './extensions/PageLinkExtension';
+import { TagSuggestionExtension } from './extensions/TagSuggestionExtension';
 import { CodeBlockWithLanguage } from './extensions/CodeBlockWithLanguage';
 import {
   Bold,
@@ -114,6 +117,8 @@ export function TipTapEditor({
       MathExtension,
       BlockMathExtension,
       SlashCommandExtension,
+      PageLinkExtension,
+      TagSuggestionExtension,
     ],
     content,
     editable,
@@ -131,6 +136,16 @@ export function TipTapEditor({
     },
   });
 
+  // Follow content replaced from outside (restored drafts, discarded or merged edits)
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+
+    const current = (editor.storage as any).markdown.getMarkdown();
+    if (content !== current) {
+      editor.commands.setContent(content, { emitUpdate: false });
+    }
+  }, [editor, content]);
+
   if (!editor) {
     return null;
   }
@@ -0,0 +1,54 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { Editor } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import { Markdown } from 'tiptap-markdown';
+import { PageLinkExtension } from '../extensions/PageLinkExtension';
+
+describe('PageLinkExtension', () => {
+  let editor: Editor | null = null;
+
+  const createEditor = (content: string) => {
+    editor = new Editor({
+      extensions: [StarterKit, Markdown.configure({ html: true }), PageLinkExtension],
+      content,
+    });
+    return editor;
+  };
+
+  const getMarkdown = (target: Editor) => (target.storage as any).markdown.getMarkdown();
+
+  afterEach(() => {
+    editor?.destroy();
+    editor = null;
+  });
+
+  it('reads page links from markdown as page link nodes', () => {
+    const target = createEditor('See [Project Plan](#/pages/page-1) and [docs](https://example.com)');
+
+    const paragraph = target.getJSON().content?.[0];
+    expect(paragraph?.content).toContainEqual({
+      type: 'pageLink',
+      attrs: { pageId: 'page-1', title: 'Project Plan' },
+    });
+    expect(target.getHTML()).toContain('href="https://example.com"');
+  });
+
+  it('writes page links back as the same markdown', () => {
+    const markdown = 'See [Project Plan](#/pages/page-1) and [docs](https://example.com)';
+    expect(getMarkdown(createEditor(markdown))).toBe(markdown);
+  });
+
+  it('round-trips inserted page links', () => {
+    const target = createEditor('');
+    target.commands.insertContent({ type: 'pageLink', attrs: { pageId: 'page-2', title: 'Ideas [wip]' } });
+
+    const markdown = getMarkdown(target);
+    expect(markdown).toBe('[Ideas \\[wip\\]](#/pages/page-2)');
+
+    target.commands.setContent(markdown);
+    expect(target.getJSON().content?.[0].content?.[0]).toEqual({
+      type: 'pageLink',
+      attrs: { pageId: 'page-2', title: 'Ideas [wip]' },
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { PluginKey } from '@tiptap/pm/state';
+import type { MarkdownSerializerState } from '@tiptap/pm/markdown';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { ReactNodeViewRenderer, NodeViewWrapper, ReactRenderer, type NodeViewProps } from '@tiptap/react';
+import Suggestion, { type SuggestionKeyDownProps, type SuggestionProps } from '@tiptap/suggestion';
+import tippy, { type Instance as TippyInstance } from 'tippy.js';
+import type { MarkdownNodeSpec } from 'tiptap-markdown';
+import { PageLinkMenu, type PageLinkMenuHandle } from '../PageLinkMenu';
+import { referenceRect } from './suggestionPopup';
+import { usePageTitles } from '@/hooks/usePages';
+import { pageLinkHref, parsePageLinkHref, serializePageLink, type PageTitle } from '@/lib/pageLinks';
+
+// Page link shown with the linked page's current title
+function PageLinkNodeView({ node, editor }: NodeViewProps) {
+  const { pageId, title } = node.attrs;
+  const { data: titles, isSuccess } = usePageTitles([pageId]);
+  const page = titles?.find(candidate => candidate.id === pageId);
+  const isMissing = isSuccess && !page;
+
+  const handleClick = (e: React.MouseEvent) => {
+    // Clicking into the text while editing should not leave the page
+    if (editor.isEditable && !e.metaKey && !e.ctrlKey) {
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <NodeViewWrapper as="span">
+      <a
+        href={pageLinkHref(pageId)}
+        className={`page-link ${isMissing || page?.deleted_at
+          ? 'text-muted-foreground line-through'
+          : 'text-primary underline underline-offset-4'}`}
+        onClick={handleClick}
+        title={
+          isMissing
+            ? 'Page not found'
+            : page?.deleted_at
+              ? 'Page is in the trash'
+              : editor.isEditable ? 'Ctrl+click to open' : undefined
+        }
+      >
+        {page?.title || title || 'Untitled'}
+      </a>
+    </NodeViewWrapper>
+  );
+}
+
+export const PageLinkExtension = Node.create({
+  name: 'pageLink',
+  group: 'inline',
+  inline: true,
+  atom: true,
+
+  addAttributes() {
+    return {
+      pageId: {
+        default: null,
+      },
+      title: {
+        default: '', // Title when the link was made; shown while the current one loads
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'a[href]',
+        priority: 100, // Ahead of the link mark, which would take any anchor
+        getAttrs: (node) => {
+          if (typeof node === 'string') return false;
+          const element = node as HTMLElement;
+          const pageId = parsePageLinkHref(element.getAttribute('href'));
+          return pageId ? { pageId, title: element.textContent || '' } : false;
+        },
+      },
+    ];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'a',
+      mergeAttributes(
+        {
+          href: pageLinkHref(node.attrs.pageId),
+          'data-type': 'page-link',
+          'data-page-id': node.attrs.pageId,
+        },
+        HTMLAttributes
+      ),
+      node.attrs.title,
+    ];
+  },
+
+  renderText({ node }) {
+    return node.attrs.title;
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(PageLinkNodeView);
+  },
+
+  // Stored as a plain markdown link to `#/pages/<id>`, which reads back as a page link
+  addStorage() {
+    return {
+      markdown: {
+        serialize(state: MarkdownSerializerState, node: ProseMirrorNode) {
+          state.write(serializePageLink(node.attrs.pageId, node.attrs.title || 'Untitled'));
+        },
+        parse: {},
+      } as MarkdownNodeSpec,
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion<PageTitle>({
+        pluginKey: new PluginKey('pageLinkSuggestion'),
+        editor: this.editor,
+        char: '[[',
+        allowSpaces: true,
+        allowedPrefixes: null,
+        command: ({ editor, range, props }) => {
+          editor
+            .chain()
+            .focus()
+            .insertContentAt(range, [
+              { type: this.name, attrs: { pageId: props.id, title: props.title } },
+              { type: 'text', text: ' ' },
+            ])
+            .run();
+        },
+        render: () => {
+          let component: ReactRenderer<PageLinkMenuHandle>;
+          let popup: TippyInstance[];
+
+          return {
+            onStart: (props: SuggestionProps<PageTitle>) => {
+              component = new ReactRenderer(PageLinkMenu, {
+                props: {
+                  query: props.query,
+                  command: props.command,
+                },
+                editor: props.editor,
+              });
+
+              if (!props.clientRect) {
+                return;
+              }
+
+              popup = tippy('body', {
+                getReferenceClientRect: referenceRect(props.clientRect),
+                appendTo: () => document.body,
+                content: component.element,
+                showOnCreate: true,
+                interactive: true,
+                trigger: 'manual',
+                placement: 'bottom-start',
+              });
+            },
+
+            onUpdate(props: SuggestionProps<PageTitle>) {
+              component.updateProps({
+                query: props.query,
+                command: props.command,
+              });
+
+              if (!props.clientRect) {
+                return;
+              }
+
+              popup[0].setProps({
+                getReferenceClientRect: referenceRect(props.clientRect),
+              });
+            },
+
+            onKeyDown(props: SuggestionKeyDownProps) {
+              if (props.event.key === 'Escape') {
+                popup[0].hide();
+                return true;
+              }
+
+              // Forward keyboard events to the PageLinkMenu component
+              return component?.ref?.onKeyDown(props) ?? false;
+            },
+
+            onExit() {
+              popup?.[0].destroy();
+              component.destroy();
+            },
+          };
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,96 @@
+import { Extension } from '@tiptap/core';
+import { PluginKey } from '@tiptap/pm/state';
+import { ReactRenderer } from '@tiptap/react';
+import Suggestion, { type SuggestionKeyDownProps, type SuggestionProps } from '@tiptap/suggestion';
+import tippy, { type Instance as TippyInstance } from 'tippy.js';
+import { TagMenu, type TagMenuHandle } from '../TagMenu';
+import { referenceRect } from './suggestionPopup';
+import type { TagCount } from '@/lib/tags';
+
+// Tags stay plain `#tag` text in the content; this only suggests existing ones
+export const TagSuggestionExtension = Extension.create({
+  name: 'tagSuggestion',
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion<TagCount>({
+        pluginKey: new PluginKey('tagSuggestion'),
+        editor: this.editor,
+        char: '#',
+        allowedPrefixes: [' ', '('],
+        command: ({ editor, range, props }) => {
+          editor
+            .chain()
+            .focus()
+            .insertContentAt(range, `#${props.name} `)
+            .run();
+        },
+        render: () => {
+          let component: ReactRenderer<TagMenuHandle>;
+          let popup: TippyInstance[];
+
+          return {
+            onStart: (props: SuggestionProps<TagCount>) => {
+              component = new ReactRenderer(TagMenu, {
+                props: {
+                  query: props.query,
+                  command: props.command,
+                },
+                editor: props.editor,
+              });
+
+              if (!props.clientRect) {
+                return;
+              }
+
+              popup = tippy('body', {
+                getReferenceClientRect: referenceRect(props.clientRect),
+                appendTo: () => document.body,
+                content: component.element,
+                showOnCreate: true,
+                interactive: true,
+                trigger: 'manual',
+                placement: 'bottom-start',
+              });
+            },
+
+            onUpdate(props: SuggestionProps<TagCount>) {
+              component.updateProps({
+                query: props.query,
+                command: props.command,
+              });
+
+              if (!props.clientRect) {
+                return;
+              }
+
+              popup[0].setProps({
+                getReferenceClientRect: referenceRect(props.clientRect),
+              });
+            },
+
+            onKeyDown(props: SuggestionKeyDownProps) {
+              // '#' also starts headings, so keys only go to the menu while it lists tags
+              const ref = component?.ref;
+              if (!ref?.hasItems()) {
+                return false;
+              }
+
+              if (props.event.key === 'Escape') {
+                popup[0].hide();
+                return true;
+              }
+
+              return ref.onKeyDown(props);
+            },
+
+            onExit() {
+              popup?.[0].destroy();
+              component.destroy();
+            },
+          };
+        },
+      }),
+    ];
+  },
+});
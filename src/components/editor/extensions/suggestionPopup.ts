@@ -0,0 +1,7 @@
+/**
+ * Position of a suggestion popup for tippy. Tippy needs a rect, also while
+ * the suggestion's decoration is not rendered.
+ */
+export function referenceRect(clientRect: () => DOMRect | null): () => DOMRect {
+  return () => clientRect() ?? new DOMRect();
+}
@@ -0,0 +1,137 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, Loader2, Network } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { PageGraph } from './PageGraph';
+import { useNotebooks } from '../../hooks/useNotebooks';
+import { useAllPages, usePages } from '../../hooks/usePages';
+import { buildPageGraph, layoutPageGraph } from '../../lib/pageGraph';
+import type { NotebookData } from '../../types/database';
+
+const ALL_NOTEBOOKS = '__all__';
+
+interface GraphViewProps {
+  notebookId?: string; // Graph of every notebook when omitted
+}
+
+/**
+ * Graph of pages with their hierarchy and links, for one notebook or all of them
+ */
+export function GraphView({ notebookId }: GraphViewProps) {
+  const navigate = useNavigate();
+  const [highlightOrphans, setHighlightOrphans] = useState(false);
+
+  const { data: notebooks, isLoading: notebooksLoading } = useNotebooks() as {
+    data: NotebookData[] | undefined;
+    isLoading: boolean;
+  };
+  // Links are read from page content, so whole pages are loaded
+  const { data: notebookPages, isLoading: notebookPagesLoading, error: notebookPagesError } = usePages(notebookId);
+  const { data: allPages, isLoading: allPagesLoading, error: allPagesError } = useAllPages(undefined, !notebookId);
+
+  const isLoading = notebooksLoading || (notebookId ? notebookPagesLoading : allPagesLoading);
+  const error = notebookId ? notebookPagesError : allPagesError;
+
+  const graph = useMemo(() => {
+    // Pages of notebooks in the trash are left out of the global graph
+    const notebookIds = new Set((notebooks || []).map(notebook => notebook.id));
+    const pages = notebookId
+      ? notebookPages || []
+      : (allPages || []).filter(page => notebookIds.has(page.notebook_id));
+    return buildPageGraph(pages);
+  }, [notebookId, notebookPages, allPages, notebooks]);
+
+  const positions = useMemo(() => layoutPageGraph(graph), [graph]);
+
+  const orphanCount = graph.nodes.filter(node => node.isOrphan).length;
+  const linkCount = graph.edges.filter(edge => edge.type === 'link').length;
+  const notebook = notebooks?.find(candidate => candidate.id === notebookId);
+
+  const handleNotebookChange = (value: string) => {
+    navigate(value === ALL_NOTEBOOKS ? '/graph' : `/notebooks/${value}/graph`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate(notebookId ? `/notebooks/${notebookId}` : '/notebooks')}
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <div className="flex items-center gap-3">
+            <Network className="h-6 w-6 text-primary" />
+            <h1 className="text-2xl font-bold">
+              {notebookId ? `${notebook?.title || 'Notebook'} Graph` : 'Graph'}
+            </h1>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={notebookId || ALL_NOTEBOOKS} onValueChange={handleNotebookChange}>
+            <SelectTrigger className="w-[220px]" aria-label="Notebook">
+              <SelectValue placeholder="All notebooks" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_NOTEBOOKS}>All notebooks</SelectItem>
+              {(notebooks || []).map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  {candidate.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant={highlightOrphans ? 'default' : 'outline'}
+            onClick={() => setHighlightOrphans(!highlightOrphans)}
+            aria-pressed={highlightOrphans}
+          >
+            Highlight orphans
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">
+            {graph.nodes.length} page{graph.nodes.length === 1 ? '' : 's'} • {linkCount} link{linkCount === 1 ? '' : 's'} • {orphanCount} orphan{orphanCount === 1 ? '' : 's'}
+          </CardTitle>
+          <CardDescription>
+            Solid lines are links between pages, dashed lines connect parent and child pages. Orphans are pages
+            with no links to or from other pages. Click a page to open it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex h-[600px] items-center justify-center gap-2 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin" />
+              Loading pages...
+            </div>
+          ) : error ? (
+            <div className="flex h-[600px] items-center justify-center text-destructive">
+              Failed to load pages: {error.message}
+            </div>
+          ) : graph.nodes.length === 0 ? (
+            <div className="flex h-[600px] items-center justify-center text-muted-foreground">
+              No pages to show yet.
+            </div>
+          ) : (
+            <PageGraph
+              graph={graph}
+              positions={positions}
+              highlightOrphans={highlightOrphans}
+              colorByNotebook={!notebookId}
+              onNodeClick={node => navigate(`/notebooks/${node.notebook_id}/pages/${node.id}`)}
+              className="h-[600px]"
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
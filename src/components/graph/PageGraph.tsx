@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { getGraphBounds, type GraphPosition, type PageGraph as Graph, type PageGraphNode } from '@/lib/pageGraph';
+
+interface PageGraphProps {
+  graph: Graph;
+  positions: Map<string, GraphPosition>;
+  highlightOrphans?: boolean;
+  colorByNotebook?: boolean;
+  onNodeClick: (node: PageGraphNode) => void;
+  className?: string;
+}
+
+interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 4;
+const LABEL_SCALE = 0.8; // Labels of all pages show from this zoom level
+const FIT_PADDING = 40;
+const CLICK_TOLERANCE = 4; // Pointer movement in px that still counts as a click
+const NOTEBOOK_COLORS = 5; // Number of --chart-N colors in the theme
+
+function clampScale(scale: number) {
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+function notebookColor(notebookId: string) {
+  let hash = 0;
+  for (const char of notebookId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return `hsl(var(--chart-${(Math.abs(hash) % NOTEBOOK_COLORS) + 1}))`;
+}
+
+function nodeRadius(node: PageGraphNode) {
+  return 5 + Math.min(Math.sqrt(node.degree) * 2, 10);
+}
+
+/**
+ * Zoomable, pannable drawing of a page graph.
+ * Drag the background to pan, scroll to zoom, hover a page to highlight
+ * its neighbours and click it to open it.
+ */
+export function PageGraph({
+  graph,
+  positions,
+  highlightOrphans = false,
+  colorByNotebook = false,
+  onNodeClick,
+  className,
+}: PageGraphProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; viewX: number; viewY: number; moved: boolean } | null>(null);
+  const [view, setView] = useState<View>({ x: 0, y: 0, scale: 1 });
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  const neighbours = useMemo(() => {
+    const map = new Map<string, Set<string>>();
+    for (const edge of graph.edges) {
+      if (!map.has(edge.source)) map.set(edge.source, new Set());
+      if (!map.has(edge.target)) map.set(edge.target, new Set());
+      map.get(edge.source)!.add(edge.target);
+      map.get(edge.target)!.add(edge.source);
+    }
+    return map;
+  }, [graph]);
+
+  const fitToView = useCallback(() => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return;
+
+    const { minX, minY, maxX, maxY } = getGraphBounds(positions.values());
+    const scale = clampScale(Math.min(
+      (rect.width - FIT_PADDING * 2) / Math.max(maxX - minX, 1),
+      (rect.height - FIT_PADDING * 2) / Math.max(maxY - minY, 1),
+      1.5
+    ));
+
+    setView({
+      x: rect.width / 2 - ((minX + maxX) / 2) * scale,
+      y: rect.height / 2 - ((minY + maxY) / 2) * scale,
+      scale,
+    });
+  }, [positions]);
+
+  useEffect(() => {
+    fitToView();
+  }, [fitToView]);
+
+  const zoomAt = useCallback((factor: number, originX?: number, originY?: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    const x = originX ?? (rect ? rect.width / 2 : 0);
+    const y = originY ?? (rect ? rect.height / 2 : 0);
+
+    setView(current => {
+      const scale = clampScale(current.scale * factor);
+      const ratio = scale / current.scale;
+      // Keep the point under the cursor in place
+      return { x: x - (x - current.x) * ratio, y: y - (y - current.y) * ratio, scale };
+    });
+  }, []);
+
+  // React registers wheel listeners as passive, which can't prevent page scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      zoomAt(Math.exp(-event.deltaY * 0.002), event.clientX - rect.left, event.clientY - rect.top);
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [zoomAt]);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.button !== 0) return;
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, viewX: view.x, viewY: view.y, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const deltaX = event.clientX - drag.pointerX;
+    const deltaY = event.clientY - drag.pointerY;
+    if (!drag.moved && Math.hypot(deltaX, deltaY) < CLICK_TOLERANCE) return;
+
+    if (!drag.moved) {
+      // Captured only once panning, so a click still reaches the page under the pointer
+      drag.moved = true;
+      event.currentTarget.setPointerCapture?.(event.pointerId);
+    }
+    setView(current => ({ ...current, x: drag.viewX + deltaX, y: drag.viewY + deltaY }));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    // Keep the drag state until the click that follows has seen it
+    setTimeout(() => {
+      dragRef.current = null;
+    });
+    if (event.currentTarget.hasPointerCapture?.(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+  };
+
+  const handleNodeClick = (node: PageGraphNode) => {
+    if (dragRef.current?.moved) return;
+    onNodeClick(node);
+  };
+
+  const isFaded = (id: string) => hoveredId !== null && id !== hoveredId && !neighbours.get(hoveredId)?.has(id);
+
+  return (
+    <div className={cn('relative overflow-hidden rounded-lg border bg-background', className)}>
+      <svg
+        ref={svgRef}
+        className="h-full w-full cursor-grab touch-none select-none active:cursor-grabbing"
+        role="img"
+        aria-label={`Graph of ${graph.nodes.length} pages`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>
+          {graph.edges.map(edge => {
+            const source = positions.get(edge.source);
+            const target = positions.get(edge.target);
+            if (!source || !target) return null;
+
+            const faded = hoveredId !== null && edge.source !== hoveredId && edge.target !== hoveredId;
+
+            return (
+              <line
+                key={`${edge.type}-${edge.source}-${edge.target}`}
+                x1={source.x}
+                y1={source.y}
+                x2={target.x}
+                y2={target.y}
+                className={edge.type === 'link' ? 'stroke-primary' : 'stroke-muted-foreground'}
+                strokeWidth={1.5 / view.scale}
+                strokeDasharray={edge.type === 'child' ? `${4 / view.scale} ${4 / view.scale}` : undefined}
+                strokeOpacity={faded ? 0.1 : edge.type === 'link' ? 0.6 : 0.4}
+              />
+            );
+          })}
+
+          {graph.nodes.map(node => {
+            const position = positions.get(node.id);
+            if (!position) return null;
+
+            const orphan = highlightOrphans && node.isOrphan;
+            const faded = isFaded(node.id);
+            const showLabel = view.scale >= LABEL_SCALE || (hoveredId !== null && !faded);
+
+            return (
+              <g
+                key={node.id}
+                data-testid={`graph-node-${node.id}`}
+                transform={`translate(${position.x} ${position.y})`}
+                className="cursor-pointer"
+                opacity={faded ? 0.2 : 1}
+                onClick={() => handleNodeClick(node)}
+                onPointerEnter={() => setHoveredId(node.id)}
+                onPointerLeave={() => setHoveredId(null)}
+              >
+                <title>{node.title || 'Untitled'}</title>
+                <circle
+                  r={nodeRadius(node)}
+                  className={cn(
+                    !colorByNotebook && !orphan && 'fill-primary',
+                    orphan && 'fill-amber-500 stroke-amber-700',
+                    node.id === hoveredId && 'stroke-foreground'
+                  )}
+                  style={colorByNotebook && !orphan ? { fill: notebookColor(node.notebook_id) } : undefined}
+                  strokeWidth={(orphan || node.id === hoveredId ? 2 : 0) / view.scale}
+                />
+                {showLabel && (
+                  <text
+                    y={nodeRadius(node) + 12 / view.scale}
+                    textAnchor="middle"
+                    className="pointer-events-none fill-foreground"
+                    fontSize={12 / view.scale}
+                  >
+                    {node.title || 'Untitled'}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      <div className="absolute right-3 top-3 flex flex-col gap-1">
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => zoomAt(1.25)} title="Zoom in">
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => zoomAt(0.8)} title="Zoom out">
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <Button variant="outline" size="icon" className="h-8 w-8" onClick={fitToView} title="Fit to view">
+          <Maximize className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,2 @@
+export { GraphView } from './GraphView';
+export { PageGraph } from './PageGraph';
@@ -0,0 +1,336 @@
+import { useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertCircle, FileText, Folder, FolderOpen, Loader2, Upload } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Progress } from '../ui/progress';
+import { ScrollArea } from '../ui/scroll-area';
+import { Tabs, TabsList, TabsTrigger } from '../ui/tabs';
+import { useImportNotes } from '../../hooks/useImport';
+import {
+  readImportFiles,
+  type ImportFile,
+  type ImportPlan,
+  type ImportPreview,
+  type PlannedPage,
+  type SkippedImportFile,
+} from '../../lib/importPlan';
+import { planVaultImport } from '../../lib/vaultImport';
+import { planEnexImports } from '../../lib/enexImport';
+import { planNotionImport } from '../../lib/notionImport';
+
+type ImportSource = 'markdown' | 'evernote' | 'notion';
+
+const SOURCES: Record<ImportSource, {
+  label: string;
+  description: string;
+  folder: boolean;
+  accept: string;
+  fileLabel: string;
+}> = {
+  markdown: {
+    label: 'Markdown / Obsidian',
+    description: 'Import a folder of markdown notes, such as an Obsidian vault. Subfolders become nested pages, embedded images are uploaded and [[wikilinks]] are turned into links between pages.',
+    folder: true,
+    accept: '.zip,application/zip',
+    fileLabel: 'Choose Zip File',
+  },
+  evernote: {
+    label: 'Evernote',
+    description: 'Import notes exported from Evernote as .enex files. Each file becomes a notebook; attachments are uploaded and tags are kept as #hashtags.',
+    folder: false,
+    accept: '.enex',
+    fileLabel: 'Choose ENEX Files',
+  },
+  notion: {
+    label: 'Notion',
+    description: 'Import a Notion "Markdown & CSV" export. Nested pages keep their hierarchy and databases become pages with a table of their rows.',
+    folder: true,
+    accept: '.zip,application/zip',
+    fileLabel: 'Choose Zip File',
+  },
+};
+
+function planImport(source: ImportSource, files: ImportFile[], fallbackTitle?: string): ImportPreview {
+  switch (source) {
+    case 'evernote':
+      return planEnexImports(files);
+    case 'notion':
+      return { plans: [planNotionImport(files)], skipped: [] };
+    default:
+      return { plans: [planVaultImport(files, fallbackTitle)], skipped: [] };
+  }
+}
+
+function pageDepth(page: PlannedPage, pagesById: Map<string, PlannedPage>): number {
+  let depth = 0;
+  for (let parent = page.parentId; parent; parent = pagesById.get(parent)?.parentId ?? null) {
+    depth++;
+  }
+  return depth;
+}
+
+function SkippedFiles({ files }: { files: SkippedImportFile[] }) {
+  if (files.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">Skipped files ({files.length})</h3>
+      <ScrollArea className="max-h-40 rounded-md border">
+        <ul className="p-2 space-y-1 text-xs">
+          {files.map((file, index) => (
+            <li key={`${file.path}-${index}`} className="flex gap-2">
+              <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0 text-muted-foreground" />
+              <span className="truncate">
+                <span className="font-medium">{file.path}</span>
+                <span className="text-muted-foreground"> · {file.reason}</span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    </div>
+  );
+}
+
+function PlanPreview({
+  plan,
+  onTitleChange,
+  disabled,
+}: {
+  plan: ImportPlan;
+  onTitleChange: (title: string) => void;
+  disabled: boolean;
+}) {
+  const pagesById = new Map(plan.pages.map(page => [page.id, page]));
+  const parentIds = new Set(plan.pages.map(page => page.parentId));
+  const assetCount = Object.keys(plan.assets).length;
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="space-y-2">
+        <Label>Notebook title</Label>
+        <Input value={plan.notebookTitle} onChange={(e) => onTitleChange(e.target.value)} disabled={disabled} />
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {plan.pages.length} page{plan.pages.length === 1 ? '' : 's'} and {assetCount} attached
+        file{assetCount === 1 ? '' : 's'} will be created.
+      </p>
+
+      <ScrollArea className="max-h-64 rounded-md border">
+        <ul className="p-2 space-y-1 text-sm">
+          {plan.pages.map(page => (
+            <li
+              key={page.id}
+              className="flex items-center gap-2"
+              style={{ paddingLeft: `${pageDepth(page, pagesById) * 16}px` }}
+            >
+              {parentIds.has(page.id)
+                ? <Folder className="h-4 w-4 flex-shrink-0 text-primary" />
+                : <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />}
+              <span className="truncate">{page.title}</span>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+
+      <SkippedFiles files={plan.skipped} />
+    </div>
+  );
+}
+
+export function NoteImporter() {
+  const navigate = useNavigate();
+  const importNotes = useImportNotes();
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [source, setSource] = useState<ImportSource>('markdown');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+
+  const settings = SOURCES[source];
+  const results = importNotes.data;
+  const isBusy = isReading || importNotes.isPending;
+
+  const handleSourceChange = (value: string) => {
+    setSource(value as ImportSource);
+    setPreview(null);
+    setReadError(null);
+    importNotes.reset();
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+
+    const files = Array.from(fileList);
+    setIsReading(true);
+    setReadError(null);
+    importNotes.reset();
+
+    try {
+      const fallbackTitle = files.length === 1 ? files[0].name.replace(/\.zip$/i, '') : undefined;
+      setPreview(planImport(source, await readImportFiles(files), fallbackTitle));
+    } catch (error) {
+      console.error('Failed to read import files:', error);
+      setReadError(error instanceof Error ? error.message : 'Failed to read the selected files');
+      setPreview(null);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleTitleChange = (index: number, title: string) => {
+    if (!preview) return;
+
+    setPreview({
+      ...preview,
+      plans: preview.plans.map((plan, planIndex) => (
+        planIndex === index ? { ...plan, notebookTitle: title } : plan
+      )),
+    });
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setProgress(0);
+    try {
+      await importNotes.mutateAsync({
+        plans: preview.plans,
+        onProgress: (done, total) => setProgress(Math.round((done / total) * 100)),
+      });
+    } catch (error) {
+      console.error('Failed to import notes:', error);
+    }
+  };
+
+  const pageCount = preview?.plans.reduce((count, plan) => count + plan.pages.length, 0) ?? 0;
+  const canImport = !!preview && pageCount > 0 && preview.plans.every(plan => plan.notebookTitle.trim());
+
+  return (
+    <Card className="w-full max-w-3xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Upload className="h-6 w-6 text-primary" />
+          <CardTitle>Import Notes</CardTitle>
+        </div>
+        <CardDescription>{settings.description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Tabs value={source} onValueChange={handleSourceChange}>
+          <TabsList>
+            {(Object.keys(SOURCES) as ImportSource[]).map(key => (
+              <TabsTrigger key={key} value={key} disabled={isBusy}>{SOURCES[key].label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={folderInputRef}
+            type="file"
+            className="hidden"
+            multiple
+            {...{ webkitdirectory: '' }}
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            className="hidden"
+            multiple={source === 'evernote'}
+            accept={settings.accept}
+            onChange={(e) => {
+              handleFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          {settings.folder && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => folderInputRef.current?.click()}
+              disabled={isBusy}
+            >
+              <FolderOpen className="mr-2 h-4 w-4" />
+              Choose Folder
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isBusy}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {settings.fileLabel}
+          </Button>
+          {isReading && <Loader2 className="h-5 w-5 self-center animate-spin text-muted-foreground" />}
+        </div>
+
+        {readError && <p className="text-sm text-destructive">{readError}</p>}
+
+        {preview && !results && (
+          <div className="space-y-4">
+            {preview.plans.map((plan, index) => (
+              <PlanPreview
+                key={index}
+                plan={plan}
+                onTitleChange={(title) => handleTitleChange(index, title)}
+                disabled={importNotes.isPending}
+              />
+            ))}
+
+            <SkippedFiles files={preview.skipped} />
+
+            {preview.plans.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nothing to import in the selected files.</p>
+            )}
+
+            {importNotes.isPending && <Progress value={progress} />}
+
+            {importNotes.error && (
+              <p className="text-sm text-destructive">
+                Import failed: {importNotes.error.message}
+              </p>
+            )}
+
+            <Button type="button" onClick={handleImport} disabled={importNotes.isPending || !canImport}>
+              {importNotes.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {importNotes.isPending ? 'Importing...' : 'Import'}
+            </Button>
+          </div>
+        )}
+
+        {results && (
+          <div className="space-y-4">
+            {results.map(result => (
+              <div key={result.notebookId} className="space-y-3 rounded-md border p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm">
+                    <span className="font-medium">{result.notebookTitle}</span>: imported{' '}
+                    {result.pagesCreated} page{result.pagesCreated === 1 ? '' : 's'} and{' '}
+                    {result.attachmentsUploaded} attachment{result.attachmentsUploaded === 1 ? '' : 's'}.
+                  </p>
+                  <Button type="button" size="sm" onClick={() => navigate(`/notebooks/${result.notebookId}`)}>
+                    Open Notebook
+                  </Button>
+                </div>
+                <SkippedFiles files={result.skipped} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1 @@
+export { NoteImporter } from './NoteImporter';
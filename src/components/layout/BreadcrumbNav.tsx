@@ -1,3 +1,4 @@
+import { Fragment } from 'react';
 import { Link } from 'react-router-dom';
 import { Home, ChevronRight } from 'lucide-react';
 import {
@@ -9,7 +10,7 @@ import {
   BreadcrumbSeparator,
 } from '../ui/breadcrumb';
 import { useNotebook } from '../../hooks/useNotebooks';
-import { usePage } from '../../hooks/usePages';
+import { usePage, usePagePath } from '../../hooks/usePages';
 import type { NotebookData, PageData } from '../../types/database';
 
 interface BreadcrumbNavProps {
@@ -20,6 +21,10 @@ interface BreadcrumbNavProps {
 export function BreadcrumbNav({ notebookId, pageId }: BreadcrumbNavProps) {
   const { data: notebook } = useNotebook(notebookId) as { data: NotebookData | null | undefined };
   const { data: page } = usePage(pageId) as { data: PageData | null | undefined };
+  const { data: path } = usePagePath(pageId);
+
+  // Parent pages of the current page, from the top of the notebook down
+  const ancestors = path && path[path.length - 1]?.id === pageId ? path.slice(0, -1) : [];
 
   return (
     <Breadcrumb>
@@ -52,6 +57,21 @@ export function BreadcrumbNav({ notebookId, pageId }: BreadcrumbNavProps) {
           </>
         )}
 
+        {page && ancestors.map((ancestor) => (
+          <Fragment key={ancestor.id}>
+            <BreadcrumbSeparator>
+              <ChevronRight className="h-4 w-4" />
+            </BreadcrumbSeparator>
+            <BreadcrumbItem>
+              <BreadcrumbLink asChild>
+                <Link to={`/notebooks/${ancestor.notebook_id}/pages/${ancestor.id}`}>
+                  {ancestor.title || 'Untitled'}
+                </Link>
+              </BreadcrumbLink>
+            </BreadcrumbItem>
+          </Fragment>
+        ))}
+
         {page && (
           <>
             <BreadcrumbSeparator>
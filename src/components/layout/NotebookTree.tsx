@@ -3,8 +3,8 @@ import { Link } from 'react-router-dom';
 import { ChevronRight, ChevronDown, BookOpen, FileText } from 'lucide-react';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible';
 import { Button } from '../ui/button';
-import { usePagesHierarchy } from '../../hooks/usePages';
-import type { NotebookData, PageWithChildren } from '../../types/database';
+import { usePagesHierarchy, usePrefetchPage } from '../../hooks/usePages';
+import type { NotebookData, PageSummaryWithChildren } from '../../types/database';
 import { cn } from '../../lib/utils';
 
 interface NotebookTreeProps {
@@ -79,7 +79,7 @@ export function NotebookTree({
 }
 
 interface PageTreeItemProps {
-  page: PageWithChildren;
+  page: PageSummaryWithChildren;
   notebookId: string;
   selectedPageId?: string;
   level: number;
@@ -89,6 +89,7 @@ function PageTreeItem({ page, notebookId, selectedPageId, level }: PageTreeItemP
   const [isOpen, setIsOpen] = useState(false);
   const hasChildren = page.children && page.children.length > 0;
   const isSelected = selectedPageId === page.id;
+  const prefetchPage = usePrefetchPage();
 
   return (
     <Collapsible open={isOpen} onOpenChange={setIsOpen}>
@@ -120,6 +121,8 @@ function PageTreeItem({ page, notebookId, selectedPageId, level }: PageTreeItemP
           <Link
             to={`/notebooks/${notebookId}/pages/${page.id}`}
             className="flex-1 flex items-center gap-2 px-2 py-1 rounded-md hover:bg-accent transition-colors"
+            onMouseEnter={() => prefetchPage(page.id)}
+            title={page.excerpt || undefined}
           >
             <FileText className="h-3.5 w-3.5 flex-shrink-0" />
             <span className="text-sm truncate">{page.title}</span>
@@ -5,6 +5,7 @@ import { ScrollArea } from '../ui/scroll-area';
 import { Separator } from '../ui/separator';
 import { Sheet, SheetContent, SheetTrigger } from '../ui/sheet';
 import { NotebookTree } from './NotebookTree.js';
+import { TagBrowser } from '../tags/TagBrowser';
 import { useNotebooks } from '../../hooks/useNotebooks';
 import { useAuthStore } from '../../store/authStore';
 import { cn } from '../../lib/utils';
@@ -83,6 +84,17 @@ export function Sidebar({ className, selectedNotebookId, selectedPageId }: Sideb
 
       <Separator />
 
+      {/* Tags */}
+      <div className="p-4">
+        <h3 className="mb-2 text-sm font-semibold">Tags</h3>
+        <TagBrowser
+          onTagClick={tag => navigate(`/tags?tags=${encodeURIComponent(tag)}`)}
+          className="max-h-48 overflow-y-auto"
+        />
+      </div>
+
+      <Separator />
+
       {/* User Info & Sign Out */}
       <div className="p-4">
         <div className="flex items-center justify-between">
@@ -0,0 +1,51 @@
+import { CloudOff, Loader2, RefreshCw } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { replayOutbox } from '@/lib/syncService';
+import { useSyncStore } from '@/store';
+
+/**
+ * Header indicator for connectivity and queued offline changes
+ */
+export function SyncStatusIndicator() {
+  const queryClient = useQueryClient();
+  const { isOnline, isSyncing, pendingCount } = useSyncStore();
+
+  const handleSync = async () => {
+    const { synced } = await replayOutbox();
+    if (synced > 0) {
+      queryClient.invalidateQueries();
+    }
+  };
+
+  if (!isOnline) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <CloudOff className="h-4 w-4" />
+        <span>
+          Offline{pendingCount > 0 && ` • ${pendingCount} change${pendingCount === 1 ? '' : 's'} pending`}
+        </span>
+      </div>
+    );
+  }
+
+  if (isSyncing) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>Syncing...</span>
+      </div>
+    );
+  }
+
+  if (pendingCount > 0) {
+    return (
+      <Button variant="ghost" size="sm" onClick={handleSync}>
+        <RefreshCw className="mr-2 h-4 w-4" />
+        Sync {pendingCount} change{pendingCount === 1 ? '' : 's'}
+      </Button>
+    );
+  }
+
+  return null;
+}
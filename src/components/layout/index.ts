@@ -2,3 +2,4 @@ export { AppLayout } from './AppLayout';
 export { Sidebar } from './Sidebar';
 export { NotebookTree } from './NotebookTree';
 export { BreadcrumbNav } from './BreadcrumbNav';
+export { SyncStatusIndicator } from './SyncStatusIndicator';
@@ -0,0 +1,68 @@
+import { LayoutTemplate } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { useNotebook, useUpdateNotebook } from '../../hooks/useNotebooks';
+import { usePageTemplates } from '../../hooks/useTemplates';
+import type { NotebookData } from '../../types/database';
+
+interface DefaultTemplateSettingsProps {
+  notebookId: string;
+}
+
+export function DefaultTemplateSettings({ notebookId }: DefaultTemplateSettingsProps) {
+  const { data: notebook } = useNotebook(notebookId) as { data: NotebookData | null | undefined };
+  const { data: templates = [], isLoading } = usePageTemplates();
+  const updateNotebook = useUpdateNotebook();
+
+  // A template that was deleted or unmarked falls back to a blank page
+  const current = templates.find(template => template.id === notebook?.default_template_id);
+
+  const handleChange = async (value: string) => {
+    try {
+      await updateNotebook.mutateAsync({
+        id: notebookId,
+        default_template_id: value === '__none__' ? null : value,
+      });
+    } catch (error) {
+      console.error('Failed to update default template:', error);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <LayoutTemplate className="h-6 w-6 text-primary" />
+          <CardTitle>Default Template</CardTitle>
+        </div>
+        <CardDescription>
+          New pages in this notebook start from this template. A different template can still be picked when creating a page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Select
+          value={current?.id ?? '__none__'}
+          onValueChange={handleChange}
+          disabled={isLoading || updateNotebook.isPending}
+        >
+          <SelectTrigger className="w-[280px]" aria-label="Default template">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="__none__">Blank page</SelectItem>
+            {templates.map(template => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!isLoading && templates.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No templates yet. Open a page and choose "Use as Template" from its menu.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -31,8 +31,8 @@ export function NotebookDeleteDialog({
         <AlertDialogHeader>
           <AlertDialogTitle>Delete Notebook</AlertDialogTitle>
           <AlertDialogDescription>
-            Are you sure you want to delete "{notebook?.title}"? This will permanently delete the
-            notebook and all its pages. This action cannot be undone.
+            Are you sure you want to delete "{notebook?.title}"? The notebook and all its pages
+            will move to the trash, where you can restore them until they are purged.
           </AlertDialogDescription>
         </AlertDialogHeader>
         <AlertDialogFooter>
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useExportNotebook } from '../../hooks/useNotebooks';
+import { DEFAULT_EXPORT_OPTIONS } from '../../lib/notebookExport';
+import type { ExportOptions, NotebookData } from '../../types/database';
+
+interface NotebookExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  notebook: NotebookData | null;
+}
+
+function downloadFile(filename: string, data: Uint8Array) {
+  const url = URL.createObjectURL(new Blob([data as BlobPart], { type: 'application/zip' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function NotebookExportDialog({
+  open,
+  onOpenChange,
+  notebook,
+}: NotebookExportDialogProps) {
+  const exportNotebook = useExportNotebook();
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [skippedAttachments, setSkippedAttachments] = useState<string[]>([]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      exportNotebook.reset();
+      setSkippedAttachments([]);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleExport = async () => {
+    if (!notebook) return;
+
+    try {
+      const result = await exportNotebook.mutateAsync({ notebookId: notebook.id, options });
+      downloadFile(result.filename, result.data);
+
+      if (result.skippedAttachments.length > 0) {
+        setSkippedAttachments(result.skippedAttachments);
+      } else {
+        handleOpenChange(false);
+      }
+    } catch (error) {
+      console.error('Failed to export notebook:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Notebook</DialogTitle>
+          <DialogDescription>
+            Download "{notebook?.title}" as a zip archive with one file per page.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-format">Format</Label>
+            <Select
+              value={options.format}
+              onValueChange={(value) => setOptions({ ...options, format: value as ExportOptions['format'] })}
+            >
+              <SelectTrigger id="export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="markdown">Markdown</SelectItem>
+                <SelectItem value="html">HTML</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              id="export-metadata"
+              type="checkbox"
+              className="h-4 w-4"
+              checked={options.includeMetadata}
+              onChange={(e) => setOptions({ ...options, includeMetadata: e.target.checked })}
+            />
+            <Label htmlFor="export-metadata">Include page ids and timestamps</Label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input
+              id="export-attachments"
+              type="checkbox"
+              className="h-4 w-4"
+              checked={options.includeAttachments}
+              onChange={(e) => setOptions({ ...options, includeAttachments: e.target.checked })}
+            />
+            <Label htmlFor="export-attachments">Include attachments</Label>
+          </div>
+
+          {exportNotebook.error && (
+            <p className="text-sm text-destructive">Failed to export the notebook</p>
+          )}
+
+          {skippedAttachments.length > 0 && (
+            <p className="text-sm text-muted-foreground">
+              Exported without {skippedAttachments.length} attachment
+              {skippedAttachments.length === 1 ? '' : 's'} that could not be downloaded:{' '}
+              {skippedAttachments.join(', ')}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+            {skippedAttachments.length > 0 ? 'Close' : 'Cancel'}
+          </Button>
+          <Button type="button" onClick={handleExport} disabled={exportNotebook.isPending}>
+            {exportNotebook.isPending
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <Download className="mr-2 h-4 w-4" />}
+            {exportNotebook.isPending ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
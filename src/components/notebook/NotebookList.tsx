@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { BookOpen, Grid3x3, List, MoreVertical, Trash2, Edit, Calendar, PlusCircle } from 'lucide-react';
+import { BookOpen, Grid3x3, List, MoreVertical, Trash2, Edit, Calendar, PlusCircle, Download } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import {
@@ -11,6 +11,7 @@ import {
 } from '../ui/dropdown-menu';
 import { useNotebooks, useDeleteNotebook } from '../../hooks/useNotebooks';
 import { NotebookDeleteDialog } from './NotebookDeleteDialog.js';
+import { NotebookExportDialog } from './NotebookExportDialog';
 import type { NotebookData } from '../../types/database';
 import { cn } from '../../lib/utils';
 
@@ -30,6 +31,7 @@ export function NotebookList({ onSelectNotebook, showHeaderOnly }: NotebookListP
   const [viewMode, setViewModeState] = useState<ViewMode>(sharedViewMode);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [notebookToDelete, setNotebookToDelete] = useState<NotebookData | null>(null);
+  const [notebookToExport, setNotebookToExport] = useState<NotebookData | null>(null);
 
   const setViewMode = (mode: ViewMode) => {
     sharedViewMode = mode;
@@ -93,6 +95,11 @@ export function NotebookList({ onSelectNotebook, showHeaderOnly }: NotebookListP
     setDeleteDialogOpen(true);
   };
 
+  const handleExportClick = (notebook: NotebookData, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setNotebookToExport(notebook);
+  };
+
   const handleConfirmDelete = async () => {
     if (notebookToDelete) {
       await deleteNotebook.mutateAsync(notebookToDelete.id);
@@ -194,6 +201,10 @@ export function NotebookList({ onSelectNotebook, showHeaderOnly }: NotebookListP
                           <Edit className="mr-2 h-4 w-4" />
                           Edit
                         </DropdownMenuItem>
+                        <DropdownMenuItem onClick={(e) => handleExportClick(notebook, e)}>
+                          <Download className="mr-2 h-4 w-4" />
+                          Export
+                        </DropdownMenuItem>
                         <DropdownMenuItem
                           onClick={(e) => handleDeleteClick(notebook, e)}
                           className="text-destructive"
@@ -249,6 +260,10 @@ export function NotebookList({ onSelectNotebook, showHeaderOnly }: NotebookListP
                       <Edit className="mr-2 h-4 w-4" />
                       Edit
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={(e) => handleExportClick(notebook, e)}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Export
+                    </DropdownMenuItem>
                     <DropdownMenuItem
                       onClick={(e) => handleDeleteClick(notebook, e)}
                       className="text-destructive"
@@ -272,6 +287,12 @@ export function NotebookList({ onSelectNotebook, showHeaderOnly }: NotebookListP
         onConfirm={handleConfirmDelete}
         isDeleting={deleteNotebook.isPending}
       />
+
+      <NotebookExportDialog
+        open={!!notebookToExport}
+        onOpenChange={(open) => !open && setNotebookToExport(null)}
+        notebook={notebookToExport}
+      />
     </div>
   );
 }
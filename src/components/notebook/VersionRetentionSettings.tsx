@@ -0,0 +1,374 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Archive, History, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { ScrollArea } from '../ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { useNotebook, useUpdateNotebook } from '../../hooks/useNotebooks';
+import { useApplyVersionCleanup, useCompactVersionStorage, useVersionCleanupPreview } from '../../hooks/usePageVersions';
+import { DEFAULT_VERSION_CONFIG, TIERED_RETENTION_POLICY, type VersionConfig } from '../../lib/versionManager';
+import type { NotebookData, RetentionPolicy } from '../../types/database';
+
+interface VersionRetentionSettingsProps {
+  notebookId: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const AGE_UNITS = {
+  hours: HOUR_MS,
+  days: 24 * HOUR_MS,
+  weeks: 7 * 24 * HOUR_MS,
+} as const;
+
+type AgeUnit = keyof typeof AGE_UNITS;
+
+const INTERVALS: Array<{ value: string; label: string; ms: number }> = [
+  { value: 'all', label: 'every version', ms: 0 },
+  { value: 'hour', label: 'one per hour', ms: HOUR_MS },
+  { value: 'day', label: 'one per day', ms: 24 * HOUR_MS },
+  { value: 'week', label: 'one per week', ms: 7 * 24 * HOUR_MS },
+  { value: 'month', label: 'one per 30 days', ms: 30 * 24 * HOUR_MS },
+];
+
+interface TierDraft {
+  age: number;
+  unit: AgeUnit;
+  interval: string;
+}
+
+interface PolicyDraft {
+  tiers: TierDraft[]; // Tiers with a maximum age
+  older: string; // Interval for versions older than every tier, or 'delete'
+}
+
+function intervalValue(ms: number): string {
+  return INTERVALS.find(interval => interval.ms === ms)?.value ?? 'all';
+}
+
+function intervalMs(value: string): number {
+  return INTERVALS.find(interval => interval.value === value)?.ms ?? 0;
+}
+
+function toDraft(policy: RetentionPolicy): PolicyDraft {
+  const tiers = policy.tiers.filter(tier => tier.maxAgeMs !== null).map(tier => {
+    const unit = (['weeks', 'days', 'hours'] as AgeUnit[]).find(u => tier.maxAgeMs! % AGE_UNITS[u] === 0) ?? 'hours';
+    return {
+      age: tier.maxAgeMs! / AGE_UNITS[unit],
+      unit,
+      interval: intervalValue(tier.intervalMs),
+    };
+  });
+  const forever = policy.tiers.find(tier => tier.maxAgeMs === null);
+
+  return { tiers, older: forever ? intervalValue(forever.intervalMs) : 'delete' };
+}
+
+function toPolicy(draft: PolicyDraft): RetentionPolicy {
+  const tiers = draft.tiers
+    .map(tier => ({ maxAgeMs: tier.age * AGE_UNITS[tier.unit], intervalMs: intervalMs(tier.interval) }))
+    .sort((a, b) => a.maxAgeMs - b.maxAgeMs);
+
+  return {
+    tiers: draft.older === 'delete'
+      ? tiers
+      : [...tiers, { maxAgeMs: null, intervalMs: intervalMs(draft.older) }],
+  };
+}
+
+function IntervalSelect({ value, onChange, allowDelete }: {
+  value: string;
+  onChange: (value: string) => void;
+  allowDelete?: boolean;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[170px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {INTERVALS.map(interval => (
+          <SelectItem key={interval.value} value={interval.value}>
+            {interval.label}
+          </SelectItem>
+        ))}
+        {allowDelete && <SelectItem value="delete">none (delete)</SelectItem>}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function VersionRetentionSettings({ notebookId }: VersionRetentionSettingsProps) {
+  const { data: notebook } = useNotebook(notebookId) as { data: NotebookData | null | undefined };
+  const updateNotebook = useUpdateNotebook();
+  const applyCleanup = useApplyVersionCleanup();
+  const compactStorage = useCompactVersionStorage();
+
+  const [useTiers, setUseTiers] = useState(false);
+  const [draft, setDraft] = useState<PolicyDraft>(() => toDraft(TIERED_RETENTION_POLICY));
+  const [previewConfig, setPreviewConfig] = useState<VersionConfig | undefined>();
+
+  // Load the saved policy, without clobbering edits on unrelated refetches
+  const savedPolicy = notebook ? JSON.stringify(notebook.version_retention ?? null) : undefined;
+  useEffect(() => {
+    if (savedPolicy === undefined) return;
+    const policy = JSON.parse(savedPolicy) as RetentionPolicy | null;
+    setUseTiers(!!policy);
+    setDraft(toDraft(policy ?? TIERED_RETENTION_POLICY));
+  }, [savedPolicy]);
+
+  const config = useMemo<VersionConfig>(() => ({
+    ...DEFAULT_VERSION_CONFIG,
+    retention: useTiers ? toPolicy(draft) : null,
+  }), [useTiers, draft]);
+
+  const { data: preview, isFetching: isPreviewing, error: previewError } = useVersionCleanupPreview(
+    notebookId,
+    previewConfig
+  );
+
+  // A preview only describes the policy it was made for
+  useEffect(() => {
+    setPreviewConfig(undefined);
+  }, [config]);
+
+  const updateTier = (index: number, changes: Partial<TierDraft>) => {
+    setDraft(prev => ({
+      ...prev,
+      tiers: prev.tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)),
+    }));
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateNotebook.mutateAsync({
+        id: notebookId,
+        version_retention: config.retention ?? null,
+      });
+    } catch (error) {
+      console.error('Failed to save retention policy:', error);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+
+    try {
+      await applyCleanup.mutateAsync({
+        notebook_id: notebookId,
+        version_ids: preview.pages.flatMap(page => page.prune.map(version => version.id)),
+      });
+    } catch (error) {
+      console.error('Failed to clean up versions:', error);
+    }
+  };
+
+  const handleCompact = async () => {
+    try {
+      await compactStorage.mutateAsync({ notebook_id: notebookId });
+    } catch (error) {
+      console.error('Failed to compact version storage:', error);
+    }
+  };
+
+  const isValid = draft.tiers.every(tier => Number.isFinite(tier.age) && tier.age > 0);
+
+  return (
+    <Card className="w-full max-w-2xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <History className="h-6 w-6 text-primary" />
+          <CardTitle>Version History Retention</CardTitle>
+        </div>
+        <CardDescription>
+          Choose which old page versions are kept in this notebook. The latest and pinned versions are always kept.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            variant={useTiers ? 'outline' : 'default'}
+            onClick={() => setUseTiers(false)}
+          >
+            Keep latest {DEFAULT_VERSION_CONFIG.maxVersions}
+          </Button>
+          <Button
+            type="button"
+            variant={useTiers ? 'default' : 'outline'}
+            onClick={() => setUseTiers(true)}
+          >
+            Tiered retention
+          </Button>
+        </div>
+
+        {useTiers && (
+          <div className="space-y-3">
+            {draft.tiers.map((tier, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                <span>Younger than</span>
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-20"
+                  value={Number.isNaN(tier.age) ? '' : tier.age}
+                  onChange={(e) => updateTier(index, { age: e.target.valueAsNumber })}
+                />
+                <Select value={tier.unit} onValueChange={(unit) => updateTier(index, { unit: unit as AgeUnit })}>
+                  <SelectTrigger className="w-[110px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(AGE_UNITS).map(unit => (
+                      <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span>keep</span>
+                <IntervalSelect value={tier.interval} onChange={(interval) => updateTier(index, { interval })} />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setDraft(prev => ({ ...prev, tiers: prev.tiers.filter((_, i) => i !== index) }))}
+                  title="Remove tier"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span>Anything older, keep</span>
+              <IntervalSelect
+                value={draft.older}
+                onChange={(older) => setDraft(prev => ({ ...prev, older }))}
+                allowDelete
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft(prev => ({
+                  ...prev,
+                  tiers: [...prev.tiers, { age: 1, unit: 'days', interval: 'day' }],
+                }))}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add tier
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft(toDraft(TIERED_RETENTION_POLICY))}
+              >
+                Reset to recommended
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              At most {DEFAULT_VERSION_CONFIG.maxVersions} unpinned versions are kept per page either way.
+            </p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setPreviewConfig(config)}
+            disabled={!isValid || isPreviewing}
+          >
+            {isPreviewing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Preview cleanup
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={!isValid || updateNotebook.isPending}
+          >
+            {updateNotebook.isPending ? 'Saving...' : 'Save Policy'}
+          </Button>
+        </div>
+
+        {previewError && (
+          <p className="text-sm text-destructive">Failed to preview cleanup</p>
+        )}
+
+        {previewConfig && preview && (
+          <div className="space-y-3 rounded-md border p-3">
+            <p className="text-sm">
+              {preview.pruneCount === 0
+                ? 'No versions would be removed.'
+                : `${preview.pruneCount} of ${preview.keepCount + preview.pruneCount} versions would be removed across ${
+                    preview.pages.filter(page => page.prune.length > 0).length
+                  } page(s).`}
+            </p>
+            {preview.pruneCount > 0 && (
+              <>
+                <ScrollArea className="h-[200px]">
+                  <div className="space-y-3 pr-4 text-sm">
+                    {preview.pages.filter(page => page.prune.length > 0).map(page => (
+                      <div key={page.pageId}>
+                        <div className="font-medium truncate">{page.title}</div>
+                        <ul className="text-muted-foreground">
+                          {page.prune.map(version => (
+                            <li key={version.id}>
+                              Version {version.version} · {new Date(version.created_at).toLocaleString()}
+                              {version.label && ` · ${version.label}`}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+                <Button
+                  type="button"
+                  variant="destructive"
+                  onClick={handleApply}
+                  disabled={applyCleanup.isPending}
+                >
+                  {applyCleanup.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Remove {preview.pruneCount} version{preview.pruneCount === 1 ? '' : 's'} now
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-4">
+          <p className="text-sm text-muted-foreground">
+            New versions are stored as changes to the version before them. Versions saved earlier
+            keep their full content until the history is compacted.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCompact}
+              disabled={compactStorage.isPending}
+            >
+              {compactStorage.isPending
+                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                : <Archive className="mr-2 h-4 w-4" />}
+              Compact version storage
+            </Button>
+            {compactStorage.data && (
+              <span className="text-sm text-muted-foreground">
+                {compactStorage.data.rewritten === 0
+                  ? 'Version history is already compact.'
+                  : `${compactStorage.data.rewritten} version${compactStorage.data.rewritten === 1 ? '' : 's'} compacted.`}
+              </span>
+            )}
+            {compactStorage.error && (
+              <span className="text-sm text-destructive">Failed to compact version storage</span>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,3 +2,6 @@ export { NotebookList } from './NotebookList';
 export { NotebookCreator } from './NotebookCreator';
 export { NotebookEditor } from './NotebookEditor';
 export { NotebookDeleteDialog } from './NotebookDeleteDialog';
+export { NotebookExportDialog } from './NotebookExportDialog';
+export { VersionRetentionSettings } from './VersionRetentionSettings';
+export { DefaultTemplateSettings } from './DefaultTemplateSettings';
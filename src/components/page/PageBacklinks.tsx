@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronDown, ChevronRight, FileText, Link2, Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { useBacklinks, useUnlinkedMentions } from '@/hooks/useBacklinks';
+import type { Backlink } from '@/lib/pageLinks';
+
+interface PageBacklinksProps {
+  pageId: string;
+  title: string;
+}
+
+interface BacklinkListProps {
+  items: Backlink[];
+  onSelect: (pageId: string) => void;
+}
+
+function BacklinkList({ items, onSelect }: BacklinkListProps) {
+  return (
+    <ul className="space-y-1">
+      {items.map(item => (
+        <li key={item.id}>
+          <button
+            className="w-full rounded-md px-3 py-2 text-left transition-colors hover:bg-accent/50"
+            onClick={() => onSelect(item.id)}
+          >
+            <div className="flex items-center gap-2">
+              <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+              <span className="truncate text-sm font-medium">{item.title || 'Untitled'}</span>
+              {item.notebook_title && (
+                <span className="truncate text-xs text-muted-foreground">{item.notebook_title}</span>
+              )}
+            </div>
+            {item.snippet && (
+              <p className="mt-1 line-clamp-2 pl-6 text-xs text-muted-foreground">{item.snippet}</p>
+            )}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Lists the pages linking to a page, and on request the pages that mention
+ * its title without a link
+ */
+export function PageBacklinks({ pageId, title }: PageBacklinksProps) {
+  const navigate = useNavigate();
+  const [showMentions, setShowMentions] = useState(false);
+  const { data: backlinks = [], isLoading } = useBacklinks(pageId);
+  const { data: mentions = [], isLoading: mentionsLoading, error: mentionsError } = useUnlinkedMentions(
+    pageId,
+    title,
+    showMentions
+  );
+
+  // Page links open wherever the page now lives
+  const openPage = (id: string) => navigate(`/pages/${id}`);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Link2 className="h-4 w-4" />
+          Linked from {!isLoading && `(${backlinks.length})`}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading backlinks...
+          </div>
+        ) : backlinks.length > 0 ? (
+          <BacklinkList items={backlinks} onSelect={openPage} />
+        ) : (
+          <p className="text-sm text-muted-foreground">No pages link here yet.</p>
+        )}
+
+        <Collapsible open={showMentions} onOpenChange={setShowMentions}>
+          <CollapsibleTrigger className="flex items-center gap-1 text-sm font-medium text-muted-foreground hover:text-foreground">
+            {showMentions ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            Unlinked mentions {showMentions && !mentionsLoading && !mentionsError && `(${mentions.length})`}
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-2">
+            {mentionsLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Searching for mentions...
+              </div>
+            ) : mentionsError ? (
+              <p className="text-sm text-destructive">Failed to search for mentions: {mentionsError.message}</p>
+            ) : mentions.length > 0 ? (
+              <BacklinkList items={mentions} onSelect={openPage} />
+            ) : (
+              <p className="text-sm text-muted-foreground">No other pages mention "{title}".</p>
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,9 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { FileText, Loader2 } from 'lucide-react';
 import { useCreatePage, usePagesHierarchy } from '@/hooks/usePages';
+import { useNotebook } from '@/hooks/useNotebooks';
+import { useCreatePageFromTemplate, usePageTemplates } from '@/hooks/useTemplates';
+import { TEMPLATE_VARIABLES, renderTemplate } from '@/lib/pageTemplates';
 import {
   Dialog,
   DialogContent,
@@ -30,8 +33,9 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import type { PageWithChildren, PageData } from '@/types/database';
+import type { NotebookData, PageSummaryWithChildren, PageData } from '@/types/database';
 
 const pageSchema = z.object({
   title: z.string().min(1, 'Title is required').max(255, 'Title is too long'),
@@ -54,8 +58,19 @@ export function PageCreator({
   trigger,
 }: PageCreatorProps) {
   const [open, setOpen] = useState(false);
+  // Template picked in the dialog; undefined uses the notebook's default template
+  const [templateId, setTemplateId] = useState<string | null | undefined>(undefined);
   const createPage = useCreatePage();
+  const createFromTemplate = useCreatePageFromTemplate();
   const { data: pages } = usePagesHierarchy(notebookId);
+  const { data: templates = [] } = usePageTemplates();
+  const { data: notebook } = useNotebook(notebookId) as { data: NotebookData | null | undefined };
+
+  const defaultTemplateId = templates.some(template => template.id === notebook?.default_template_id)
+    ? notebook!.default_template_id!
+    : null;
+  const selectedTemplateId = templateId === undefined ? defaultTemplateId : templateId;
+  const isPending = createPage.isPending || createFromTemplate.isPending;
 
   const form = useForm<PageFormData>({
     resolver: zodResolver(pageSchema),
@@ -67,25 +82,47 @@ export function PageCreator({
 
   const handleSubmit = async (data: PageFormData) => {
     try {
-      const newPage: PageData = await createPage.mutateAsync({
-        title: data.title,
-        content: '',
-        notebook_id: notebookId,
-        parent_page_id: data.parent_page_id || undefined,
-      });
+      const newPage: PageData | null = selectedTemplateId
+        ? await createFromTemplate.mutateAsync({
+            templateId: selectedTemplateId,
+            title: data.title,
+            notebook_id: notebookId,
+            parent_page_id: data.parent_page_id || undefined,
+          })
+        : await createPage.mutateAsync({
+            title: data.title,
+            content: '',
+            notebook_id: notebookId,
+            parent_page_id: data.parent_page_id || undefined,
+          });
 
       form.reset();
+      setTemplateId(undefined);
       setOpen(false);
       if (newPage?.id) {
         onSuccess?.(newPage.id);
       }
     } catch (error) {
       console.error('Failed to create page:', error);
+      form.setError('root', {
+        message: error instanceof Error ? error.message : 'Failed to create page',
+      });
+    }
+  };
+
+  const handleTemplateChange = (value: string) => {
+    const id = value === '__none__' ? null : value;
+    setTemplateId(id);
+
+    // Start the title from the template's own, with its variables filled in
+    const template = templates.find(candidate => candidate.id === id);
+    if (template && !form.getValues('title')) {
+      form.setValue('title', renderTemplate(template.title, { title: '', date: new Date(), notebook }).trim());
     }
   };
 
   // Flatten pages for select dropdown
-  const flattenPages = (pages: PageWithChildren[], level = 0): Array<{ id: string; title: string; level: number }> => {
+  const flattenPages = (pages: PageSummaryWithChildren[], level = 0): Array<{ id: string; title: string; level: number }> => {
     const result: Array<{ id: string; title: string; level: number }> = [];
     
     pages.forEach(p => {
@@ -167,17 +204,44 @@ export function PageCreator({
               )}
             />
 
+            {templates.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="page-template">Template</Label>
+                <Select value={selectedTemplateId || '__none__'} onValueChange={handleTemplateChange}>
+                  <SelectTrigger id="page-template">
+                    <SelectValue placeholder="Blank page" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="__none__">Blank page</SelectItem>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  The template's child pages are created too. Variables such as{' '}
+                  {TEMPLATE_VARIABLES.slice(0, 3).map(variable => `{{${variable.name}}}`).join(', ')} are filled in.
+                </p>
+              </div>
+            )}
+
+            {form.formState.errors.root && (
+              <p className="text-sm text-destructive">{form.formState.errors.root.message}</p>
+            )}
+
             <DialogFooter>
               <Button
                 type="button"
                 variant="outline"
                 onClick={() => setOpen(false)}
-                disabled={createPage.isPending}
+                disabled={isPending}
               >
                 Cancel
               </Button>
-              <Button type="submit" disabled={createPage.isPending}>
-                {createPage.isPending && (
+              <Button type="submit" disabled={isPending}>
+                {isPending && (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 )}
                 Create Page
@@ -78,7 +78,7 @@ export function PageDeleteDialog({
                   Warning: This page has {childPages.length} child page(s)
                 </p>
                 <p className="text-sm mt-2">
-                  Deleting this page will also delete all of its child pages. This action cannot be undone.
+                  Its child pages will move to the trash with it and can be restored together.
                 </p>
                 <ul className="mt-2 text-sm list-disc list-inside">
                   {childPages.slice(0, 5).map((child: { id: string; title: string }) => (
@@ -92,7 +92,7 @@ export function PageDeleteDialog({
             )}
             {!hasChildren && (
               <p className="text-sm">
-                This action cannot be undone. The page will be permanently deleted.
+                The page will move to the trash, where you can restore it until it is purged.
               </p>
             )}
           </AlertDialogDescription>
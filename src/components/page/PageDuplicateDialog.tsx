@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { Copy, Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useNotebooks } from '@/hooks/useNotebooks';
+import { useChildPages, useDuplicatePage } from '@/hooks/usePages';
+import { getDuplicateTitle } from '@/lib/pageDuplication';
+import { PageParentSelect } from './PageParentSelect';
+import type { NotebookData, PageData } from '@/types/database';
+
+interface PageDuplicateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  page: PageData;
+  onSuccess?: (copy: PageData) => void;
+}
+
+/**
+ * Dialog for copying a page, and optionally its child pages, into this or
+ * another notebook. Mount it when opening so it starts from the page.
+ */
+export function PageDuplicateDialog({
+  open,
+  onOpenChange,
+  page,
+  onSuccess,
+}: PageDuplicateDialogProps) {
+  const duplicatePage = useDuplicatePage();
+  const { data: notebooks } = useNotebooks() as { data: NotebookData[] | undefined };
+  const { data: childPages } = useChildPages(page.id);
+
+  const [title, setTitle] = useState(() => getDuplicateTitle(page.title));
+  const [notebookId, setNotebookId] = useState(page.notebook_id);
+  const [parentPageId, setParentPageId] = useState(page.parent_page_id || '');
+  const [includeChildren, setIncludeChildren] = useState(true);
+
+  const hasChildren = !!childPages && childPages.length > 0;
+
+  const handleNotebookChange = (id: string) => {
+    setNotebookId(id);
+    setParentPageId('');
+  };
+
+  const handleDuplicate = async () => {
+    try {
+      const copy = await duplicatePage.mutateAsync({
+        id: page.id,
+        notebook_id: notebookId,
+        parent_page_id: parentPageId || null,
+        title: title.trim() || getDuplicateTitle(page.title),
+        include_children: hasChildren && includeChildren,
+      });
+
+      onOpenChange(false);
+      if (copy) {
+        onSuccess?.(copy);
+      }
+    } catch (error) {
+      console.error('Failed to duplicate page:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle>Duplicate Page</DialogTitle>
+          <DialogDescription>
+            Copy <strong>{page.title}</strong> with its properties and attachments. Links between copied pages point at the copies.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-title">Title</Label>
+            <Input
+              id="duplicate-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={255}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-notebook">Notebook</Label>
+            <Select value={notebookId} onValueChange={handleNotebookChange}>
+              <SelectTrigger id="duplicate-notebook">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(notebooks || []).map((notebook) => (
+                  <SelectItem key={notebook.id} value={notebook.id}>
+                    {notebook.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-parent">Parent Page</Label>
+            <PageParentSelect
+              id="duplicate-parent"
+              notebookId={notebookId}
+              value={parentPageId}
+              onChange={setParentPageId}
+            />
+          </div>
+
+          {hasChildren && (
+            <div className="flex items-center gap-2">
+              <input
+                id="duplicate-children"
+                type="checkbox"
+                className="h-4 w-4"
+                checked={includeChildren}
+                onChange={(e) => setIncludeChildren(e.target.checked)}
+              />
+              <Label htmlFor="duplicate-children">
+                Include {childPages.length} child page{childPages.length === 1 ? '' : 's'} and their descendants
+              </Label>
+            </div>
+          )}
+
+          {duplicatePage.error && (
+            <p className="text-sm text-destructive">
+              {duplicatePage.error instanceof Error ? duplicatePage.error.message : 'Failed to duplicate the page'}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={duplicatePage.isPending}
+          >
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleDuplicate} disabled={duplicatePage.isPending}>
+            {duplicatePage.isPending
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <Copy className="mr-2 h-4 w-4" />}
+            {duplicatePage.isPending ? 'Duplicating...' : 'Duplicate'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,8 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { Save, Loader2 } from 'lucide-react';
+import { Save, Loader2, History } from 'lucide-react';
 import { useUpdatePage } from '@/hooks/usePages';
 import {
   Form,
@@ -14,8 +14,14 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { TipTapEditor } from '@/components/editor/TipTapEditor';
-import type { PageData } from '@/types/database';
+import { PageMergeDialog } from './PageMergeDialog';
+import { PagePropertiesPanel } from './PagePropertiesPanel';
+import { DatabaseError, DatabaseErrorCode } from '@/lib/database';
+import { clearDraft, loadDraft, saveDraft, type PageDraft } from '@/lib/draftStore';
+import { propertiesEqual } from '@/lib/pageProperties';
+import type { PageConflict, PageData, PageProperty } from '@/types/database';
 
 const pageEditSchema = z.object({
   title: z.string().min(1, 'Title is required').max(255, 'Title is too long'),
@@ -28,52 +34,212 @@ interface PageEditorProps {
   page: PageData;
   onSuccess?: () => void;
   onCancel?: () => void;
+  autosaveDelay?: number; // Milliseconds of inactivity before saving automatically; 0 disables autosave
 }
 
-export function PageEditor({ page, onSuccess, onCancel }: PageEditorProps) {
+const DEFAULT_AUTOSAVE_DELAY = 2000;
+
+export function PageEditor({
+  page,
+  onSuccess,
+  onCancel,
+  autosaveDelay = DEFAULT_AUTOSAVE_DELAY,
+}: PageEditorProps) {
   const updatePage = useUpdatePage();
-  const [editorContent, setEditorContent] = useState(page.content);
+  const { mutateAsync: updatePageAsync } = updatePage;
+
+  // Unsaved edits from a previous session are picked up where they were left
+  const [restoredDraft, setRestoredDraft] = useState<PageDraft | null>(() => {
+    const draft = loadDraft(page.id);
+    return draft && (
+      draft.title !== page.title ||
+      draft.content !== page.content ||
+      (draft.properties && !propertiesEqual(draft.properties, page.properties))
+    ) ? draft : null;
+  });
+
+  const [editorContent, setEditorContent] = useState(restoredDraft?.content ?? page.content);
+  const [properties, setProperties] = useState<PageProperty[]>(restoredDraft?.properties ?? page.properties ?? []);
+  // Last title, content and properties known to be saved, and their version
+  const [saved, setSaved] = useState(() => (
+    restoredDraft?.base
+      ? { ...restoredDraft.base, properties: page.properties ?? [], version: restoredDraft.baseVersion }
+      : { title: page.title, content: page.content, properties: page.properties ?? [], version: page.version }
+  ));
+  // Version the edits are based on; saves are rejected if the page moved past it
+  const [baseVersion, setBaseVersion] = useState(restoredDraft?.baseVersion ?? page.version);
+  const [conflict, setConflict] = useState<PageConflict | null>(null);
 
   const form = useForm<PageEditFormData>({
     resolver: zodResolver(pageEditSchema),
     defaultValues: {
-      title: page.title,
-      content: page.content,
+      title: restoredDraft?.title ?? page.title,
+      content: restoredDraft?.content ?? page.content,
     },
   });
 
-  // Update form and editor when page changes
-  useEffect(() => {
-    form.reset({
-      title: page.title,
-      content: page.content,
-    });
-    setEditorContent(page.content);
-  }, [page.id, page.title, page.content, form]);
+  const title = form.watch('title');
+  const hasChanges = title !== saved.title || editorContent !== saved.content || !propertiesEqual(properties, saved.properties);
 
   // Update form content when editor changes
   useEffect(() => {
     form.setValue('content', editorContent, { shouldDirty: true });
   }, [editorContent, form]);
 
-  const handleSubmit = async (data: PageEditFormData) => {
+  // Follow changes saved elsewhere while there are no local edits
+  useEffect(() => {
+    if (hasChanges || page.version <= baseVersion) return;
+
+    form.setValue('title', page.title);
+    setEditorContent(page.content);
+    setProperties(page.properties ?? []);
+    setSaved({ title: page.title, content: page.content, properties: page.properties ?? [], version: page.version });
+    setBaseVersion(page.version);
+  }, [page.title, page.content, page.properties, page.version, baseVersion, hasChanges, form]);
+
+  // The saved state the edits started from, which a merge compares both sides against.
+  // Stored versions can't stand in for it: rapid saves overwrite the latest one.
+  const base = useMemo(
+    () => (saved.version === baseVersion ? { title: saved.title, content: saved.content } : undefined),
+    [saved, baseVersion]
+  );
+
+  // Keep unsaved edits in a draft that survives a reload
+  useEffect(() => {
+    if (hasChanges) {
+      saveDraft(page.id, { title, content: editorContent, properties, baseVersion, base });
+    } else {
+      clearDraft(page.id);
+    }
+  }, [page.id, title, editorContent, properties, baseVersion, base, hasChanges]);
+
+  const savePage = useCallback(async (
+    data: { title: string; content: string; properties: PageProperty[] },
+    expectedVersion: number
+  ): Promise<boolean> => {
     try {
-      await updatePage.mutateAsync({
+      const savedPage = await updatePageAsync({
         id: page.id,
         title: data.title,
         content: data.content,
+        properties: data.properties,
+        expectedVersion,
       });
 
-      onSuccess?.();
+      setSaved({ ...data, version: (savedPage as PageData).version });
+      setBaseVersion((savedPage as PageData).version);
+      setConflict(null);
+      setRestoredDraft(null);
+      return true;
     } catch (error) {
+      if (error instanceof DatabaseError && error.code === DatabaseErrorCode.CONFLICT) {
+        setConflict(error.details as PageConflict);
+        return false;
+      }
       console.error('Failed to update page:', error);
+      return false;
+    }
+  }, [page.id, updatePageAsync]);
+
+  // Autosave once typing pauses; conflicts wait for the merge dialog
+  const isSaving = updatePage.isPending;
+  useEffect(() => {
+    if (!autosaveDelay || !hasChanges || conflict || isSaving) return;
+    if (!pageEditSchema.safeParse({ title, content: editorContent }).success) return;
+
+    const timer = setTimeout(() => {
+      savePage({ title, content: editorContent, properties }, baseVersion);
+    }, autosaveDelay);
+
+    return () => clearTimeout(timer);
+  }, [autosaveDelay, hasChanges, conflict, isSaving, title, editorContent, properties, baseVersion, savePage]);
+
+  const handleSubmit = async (data: PageEditFormData) => {
+    if (hasChanges && !(await savePage({ ...data, properties }, baseVersion))) return;
+    onSuccess?.();
+  };
+
+  const handleCancel = () => {
+    clearDraft(page.id);
+    onCancel?.();
+  };
+
+  const handleResolve = (resolved: { title: string; content: string; expectedVersion: number }) => {
+    form.setValue('title', resolved.title, { shouldDirty: true });
+    setEditorContent(resolved.content);
+    // The merge continues from their saved page
+    if (conflict) {
+      setSaved({
+        title: conflict.theirs.title,
+        content: conflict.theirs.content,
+        properties: conflict.theirs.properties ?? [],
+        version: conflict.theirs.version,
+      });
     }
+    setBaseVersion(resolved.expectedVersion);
+    // Property edits are kept; only title and content are merged
+    savePage({ ...resolved, properties }, resolved.expectedVersion);
   };
 
-  const isDirty = form.formState.isDirty;
+  // Drop local edits and continue from the saved page
+  const handleDiscard = () => {
+    if (!conflict) return;
+
+    form.reset({
+      title: conflict.theirs.title,
+      content: conflict.theirs.content,
+    });
+    setEditorContent(conflict.theirs.content);
+    setProperties(conflict.theirs.properties ?? []);
+    setSaved({
+      title: conflict.theirs.title,
+      content: conflict.theirs.content,
+      properties: conflict.theirs.properties ?? [],
+      version: conflict.theirs.version,
+    });
+    setBaseVersion(conflict.theirs.version);
+    setConflict(null);
+  };
+
+  // Throw away a restored draft and go back to the saved page
+  const handleDiscardDraft = () => {
+    form.reset({
+      title: page.title,
+      content: page.content,
+    });
+    setEditorContent(page.content);
+    setProperties(page.properties ?? []);
+    setSaved({ title: page.title, content: page.content, properties: page.properties ?? [], version: page.version });
+    setBaseVersion(page.version);
+    setRestoredDraft(null);
+  };
+
+  const status = isSaving
+    ? 'Saving...'
+    : conflict
+      ? 'Conflicting changes'
+      : hasChanges
+        ? 'Unsaved changes'
+        : autosaveDelay
+          ? 'All changes saved'
+          : null;
 
   return (
     <div className="space-y-4">
+      {restoredDraft && (
+        <Alert>
+          <History className="h-4 w-4" />
+          <AlertDescription className="flex items-center justify-between gap-4">
+            <span>
+              Restored unsaved changes from {new Date(restoredDraft.updatedAt).toLocaleString()}.
+            </span>
+            <Button type="button" variant="outline" size="sm" onClick={handleDiscardDraft}>
+              Discard draft
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Form {...form}>
         <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
           <FormField
@@ -94,6 +260,8 @@ export function PageEditor({ page, onSuccess, onCancel }: PageEditorProps) {
             )}
           />
 
+          <PagePropertiesPanel properties={properties} onChange={setProperties} />
+
           <FormField
             control={form.control}
             name="content"
@@ -118,33 +286,46 @@ export function PageEditor({ page, onSuccess, onCancel }: PageEditorProps) {
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={onCancel}
-                  disabled={updatePage.isPending}
+                  onClick={handleCancel}
+                  disabled={isSaving}
                 >
                   Cancel
                 </Button>
               )}
             </div>
             <div className="flex gap-2 items-center">
-              {isDirty && (
+              {status && (
                 <span className="text-sm text-muted-foreground">
-                  Unsaved changes
+                  {status}
                 </span>
               )}
               <Button
                 type="submit"
-                disabled={updatePage.isPending || !isDirty}
+                disabled={isSaving}
               >
-                {updatePage.isPending && (
+                {isSaving && (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 )}
                 <Save className="mr-2 h-4 w-4" />
-                Save Changes
+                {hasChanges ? 'Save Changes' : 'Done'}
               </Button>
             </div>
           </div>
         </form>
       </Form>
+
+      {conflict && (
+        <PageMergeDialog
+          open={!!conflict}
+          onOpenChange={(open) => !open && setConflict(null)}
+          conflict={conflict}
+          base={base}
+          mine={{ title: form.getValues('title'), content: editorContent }}
+          onResolve={handleResolve}
+          onDiscard={handleDiscard}
+          isSaving={isSaving}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useState } from 'react';
+import { GitMerge, Loader2, AlertTriangle } from 'lucide-react';
+import { usePageVersionByNumber } from '@/hooks/usePageVersions';
+import { threeWayMerge, resolveMerge, type MergeChunk } from '@/lib/diff';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { cn } from '@/lib/utils';
+import type { PageConflict } from '@/types/database';
+
+type Resolution = 'mine' | 'theirs' | 'both';
+
+interface PageMergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conflict: PageConflict;
+  base?: { title: string; content: string }; // State the edits started from; looked up by version when missing
+  mine: { title: string; content: string };
+  onResolve: (resolved: { title: string; content: string; expectedVersion: number }) => void;
+  onDiscard: () => void;
+  isSaving?: boolean;
+}
+
+const chunkStyles: Record<Exclude<MergeChunk['type'], 'conflict'>, { label?: string; className: string }> = {
+  stable: { className: 'border-transparent text-muted-foreground' },
+  both: { className: 'border-transparent' },
+  mine: { label: 'Yours', className: 'border-green-500 bg-green-50 dark:bg-green-950/20' },
+  theirs: { label: 'Theirs', className: 'border-blue-500 bg-blue-50 dark:bg-blue-950/20' },
+};
+
+function ChunkLines({ lines }: { lines: string[] }) {
+  if (lines.length === 0) {
+    return <div className="px-2 py-1 italic text-muted-foreground">(empty)</div>;
+  }
+
+  return (
+    <>
+      {lines.map((line, index) => (
+        <div key={index} className="px-2 whitespace-pre-wrap break-all">
+          {line || ' '}
+        </div>
+      ))}
+    </>
+  );
+}
+
+export function PageMergeDialog({
+  open,
+  onOpenChange,
+  conflict,
+  base: knownBase,
+  mine,
+  onResolve,
+  onDiscard,
+  isSaving,
+}: PageMergeDialogProps) {
+  const { data: storedBase, isLoading } = usePageVersionByNumber(
+    conflict.pageId,
+    knownBase ? undefined : conflict.baseVersion
+  );
+  const base = knownBase ?? storedBase;
+  const theirs = conflict.theirs;
+
+  const merge = useMemo(
+    () => threeWayMerge(base?.content ?? '', mine.content, theirs.content),
+    [base?.content, mine.content, theirs.content]
+  );
+
+  const conflictCount = merge.chunks.filter(chunk => chunk.type === 'conflict').length;
+  const [resolutions, setResolutions] = useState<Resolution[]>([]);
+  const [titleChoice, setTitleChoice] = useState<'mine' | 'theirs'>('mine');
+
+  // Reset choices whenever a new conflict is shown
+  useEffect(() => {
+    setResolutions(new Array(conflictCount).fill('mine'));
+  }, [conflictCount, theirs.version]);
+
+  useEffect(() => {
+    // Keep the title the other side changed if we didn't touch ours
+    setTitleChoice(base && mine.title === base.title ? 'theirs' : 'mine');
+  }, [base, mine.title, theirs.version]);
+
+  const titlesDiffer = mine.title !== theirs.title;
+
+  const handleResolve = () => {
+    onResolve({
+      title: titleChoice === 'mine' ? mine.title : theirs.title,
+      content: resolveMerge(merge, resolutions),
+      expectedVersion: theirs.version,
+    });
+  };
+
+  const setResolution = (index: number, resolution: Resolution) => {
+    setResolutions(prev => prev.map((value, i) => (i === index ? resolution : value)));
+  };
+
+  let conflictIndex = -1;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            Resolve Conflicting Changes
+          </DialogTitle>
+          <DialogDescription>
+            Version {theirs.version} was saved on {new Date(theirs.updated_at).toLocaleString()} while
+            you were editing version {conflict.baseVersion}.
+            {conflictCount > 0
+              ? ` ${conflictCount} section${conflictCount === 1 ? '' : 's'} changed on both sides.`
+              : ' The changes do not overlap and were merged automatically.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {!base && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Version {conflict.baseVersion} is no longer stored, so every difference is shown as a conflict.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Title */}
+            {titlesDiffer && (
+              <div className="p-3 rounded-lg border bg-amber-50 dark:bg-amber-950/20 space-y-2">
+                <div className="text-sm font-medium">Title changed</div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={titleChoice === 'mine' ? 'default' : 'outline'}
+                    onClick={() => setTitleChoice('mine')}
+                  >
+                    Yours: {mine.title}
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={titleChoice === 'theirs' ? 'default' : 'outline'}
+                    onClick={() => setTitleChoice('theirs')}
+                  >
+                    Theirs: {theirs.title}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {/* Content */}
+            <ScrollArea className="h-[450px] rounded-md border">
+              <div className="font-mono text-xs py-2">
+                {merge.chunks.map((chunk, index) => {
+                  if (chunk.type !== 'conflict') {
+                    const style = chunkStyles[chunk.type];
+                    return (
+                      <div key={index} className={cn('border-l-2 py-0.5', style.className)}>
+                        {style.label && (
+                          <div className="px-2 text-[10px] uppercase tracking-wide text-muted-foreground">
+                            {style.label}
+                          </div>
+                        )}
+                        <ChunkLines lines={chunk.lines} />
+                      </div>
+                    );
+                  }
+
+                  conflictIndex++;
+                  const currentIndex = conflictIndex;
+                  const resolution = resolutions[currentIndex] ?? 'mine';
+
+                  return (
+                    <div key={index} className="my-2 mx-2 rounded-md border border-amber-500">
+                      <div className="flex items-center justify-between px-2 py-1 bg-amber-50 dark:bg-amber-950/20 font-sans">
+                        <span className="text-xs font-medium">Conflict {currentIndex + 1}</span>
+                        <div className="flex gap-1">
+                          {(['mine', 'theirs', 'both'] as const).map(option => (
+                            <Button
+                              key={option}
+                              type="button"
+                              size="sm"
+                              className="h-6 text-xs"
+                              variant={resolution === option ? 'default' : 'outline'}
+                              onClick={() => setResolution(currentIndex, option)}
+                            >
+                              {option === 'mine' ? 'Use yours' : option === 'theirs' ? 'Use theirs' : 'Use both'}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-3 divide-x">
+                        <div className="py-1">
+                          <div className="px-2 text-[10px] uppercase tracking-wide text-muted-foreground">
+                            Base (v{conflict.baseVersion})
+                          </div>
+                          <ChunkLines lines={chunk.base} />
+                        </div>
+                        <div className="py-1 bg-green-50 dark:bg-green-950/20">
+                          <div className="px-2 text-[10px] uppercase tracking-wide text-muted-foreground">
+                            Yours
+                          </div>
+                          <ChunkLines lines={chunk.mine} />
+                        </div>
+                        <div className="py-1 bg-blue-50 dark:bg-blue-950/20">
+                          <div className="px-2 text-[10px] uppercase tracking-wide text-muted-foreground">
+                            Theirs (v{theirs.version})
+                          </div>
+                          <ChunkLines lines={chunk.theirs} />
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        <div className="flex justify-between">
+          <Button type="button" variant="outline" onClick={onDiscard} disabled={isSaving}>
+            Discard my changes
+          </Button>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Keep editing
+            </Button>
+            <Button type="button" onClick={handleResolve} disabled={isSaving || isLoading}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              <GitMerge className="mr-2 h-4 w-4" />
+              Save merged version
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
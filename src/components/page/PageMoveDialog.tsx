@@ -3,7 +3,8 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { Move, Loader2 } from 'lucide-react';
-import { useMovePage, usePagesHierarchy } from '@/hooks/usePages';
+import { useMovePage } from '@/hooks/usePages';
+import { useNotebooks } from '@/hooks/useNotebooks';
 import {
   Dialog,
   DialogContent,
@@ -22,17 +23,13 @@ import {
   FormLabel,
   FormMessage,
 } from '@/components/ui/form';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
-import type { PageData, PageWithChildren } from '@/types/database';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PageParentSelect } from './PageParentSelect';
+import type { NotebookData, PageData } from '@/types/database';
 
 const moveSchema = z.object({
+  notebook_id: z.string().min(1, 'Select a notebook'),
   parent_page_id: z.string().optional(),
 });
 
@@ -51,20 +48,24 @@ export function PageMoveDialog({
 }: PageMoveDialogProps) {
   const [open, setOpen] = useState(false);
   const movePage = useMovePage();
-  const { data: pages } = usePagesHierarchy(page.notebook_id);
+  const { data: notebooks } = useNotebooks() as { data: NotebookData[] | undefined };
 
   const form = useForm<MoveFormData>({
     resolver: zodResolver(moveSchema),
     defaultValues: {
+      notebook_id: page.notebook_id,
       parent_page_id: page.parent_page_id || '',
     },
   });
 
+  const notebookId = form.watch('notebook_id');
+
   const handleSubmit = async (data: MoveFormData) => {
     try {
       await movePage.mutateAsync({
         id: page.id,
         parent_page_id: data.parent_page_id || null,
+        notebook_id: data.notebook_id !== page.notebook_id ? data.notebook_id : undefined,
       });
 
       form.reset();
@@ -75,57 +76,6 @@ export function PageMoveDialog({
     }
   };
 
-  // Flatten pages for select dropdown, excluding current page and its descendants
-  const flattenPages = (
-    pages: PageWithChildren[],
-    level = 0,
-    excludeId?: string
-  ): Array<{ id: string; title: string; level: number }> => {
-    const result: Array<{ id: string; title: string; level: number }> = [];
-
-    pages.forEach((p) => {
-      // Skip the current page and its descendants
-      if (p.id === excludeId) {
-        return;
-      }
-
-      result.push({ id: p.id, title: p.title, level });
-
-      if (p.children && p.children.length > 0) {
-        result.push(...flattenPages(p.children, level + 1, excludeId));
-      }
-    });
-
-    return result;
-  };
-
-  // Check if a page is a descendant of the current page
-  const isDescendant = (
-    pages: PageWithChildren[],
-    targetId: string,
-    currentId: string
-  ): boolean => {
-    for (const p of pages) {
-      if (p.id === currentId) {
-        // Found the current page, check if target is in its descendants
-        const checkChildren = (children: PageWithChildren[]): boolean => {
-          for (const child of children) {
-            if (child.id === targetId) return true;
-            if (child.children && checkChildren(child.children)) return true;
-          }
-          return false;
-        };
-        return p.children ? checkChildren(p.children) : false;
-      }
-      if (p.children && isDescendant(p.children, targetId, currentId)) {
-        return true;
-      }
-    }
-    return false;
-  };
-
-  const flatPages = flattenPages(pages || [], 0, page.id);
-
   return (
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
@@ -140,45 +90,70 @@ export function PageMoveDialog({
         <DialogHeader>
           <DialogTitle>Move Page</DialogTitle>
           <DialogDescription>
-            Change the parent page of <strong>{page.title}</strong> to reorganize your notebook structure.
+            Change the notebook or parent page of <strong>{page.title}</strong>. Its subpages move along with it.
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
             <FormField
               control={form.control}
-              name="parent_page_id"
+              name="notebook_id"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>New Parent Page</FormLabel>
+                  <FormLabel>Notebook</FormLabel>
                   <Select
-                    onValueChange={(value) => field.onChange(value === '__none__' ? '' : value)}
-                    value={field.value || '__none__'}
+                    value={field.value}
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      form.setValue('parent_page_id', '');
+                    }}
                   >
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select a parent page" />
+                        <SelectValue />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="__none__">None (Root Level)</SelectItem>
-                      {flatPages.map((p) => (
-                        <SelectItem key={p.id} value={p.id}>
-                          <span style={{ paddingLeft: `${p.level * 16}px` }}>
-                            {p.title}
-                          </span>
+                      {(notebooks || []).map((notebook) => (
+                        <SelectItem key={notebook.id} value={notebook.id}>
+                          {notebook.title}
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="parent_page_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Parent Page</FormLabel>
+                  <FormControl>
+                    <PageParentSelect
+                      notebookId={notebookId}
+                      value={field.value || ''}
+                      onChange={field.onChange}
+                      disabledPageId={notebookId === page.notebook_id ? page.id : undefined}
+                    />
+                  </FormControl>
                   <FormDescription>
-                    Select where you want to move this page. You cannot move a page under itself or its descendants.
+                    Select where you want to move this page. A page cannot be moved under itself or one of its subpages.
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            {movePage.error && (
+              <p className="text-sm text-destructive">
+                {movePage.error instanceof Error ? movePage.error.message : 'Failed to move the page'}
+              </p>
+            )}
+
             <DialogFooter>
               <Button
                 type="button"
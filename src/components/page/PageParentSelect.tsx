@@ -0,0 +1,81 @@
+import { usePagesHierarchy } from '@/hooks/usePages';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { PageSummaryWithChildren } from '@/types/database';
+
+const ROOT_VALUE = '__none__';
+
+interface PageParentSelectProps {
+  notebookId: string;
+  value: string; // Parent page id, or '' for the root level
+  onChange: (parentPageId: string) => void;
+  disabledPageId?: string; // Page shown but not selectable, together with its descendants
+  disabled?: boolean;
+  id?: string;
+  'aria-describedby'?: string;
+  'aria-invalid'?: boolean;
+}
+
+// Flatten pages for the dropdown, marking the disabled page and its descendants
+function flattenPages(
+  pages: PageSummaryWithChildren[],
+  level = 0,
+  disabledId?: string,
+  parentDisabled = false
+): Array<{ id: string; title: string; level: number; disabled: boolean }> {
+  const result: Array<{ id: string; title: string; level: number; disabled: boolean }> = [];
+
+  pages.forEach((p) => {
+    const disabled = parentDisabled || p.id === disabledId;
+    result.push({ id: p.id, title: p.title, level, disabled });
+
+    if (p.children && p.children.length > 0) {
+      result.push(...flattenPages(p.children, level + 1, disabledId, disabled));
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Picker for the parent page in a notebook, shown as an indented tree with
+ * a root level option
+ */
+export function PageParentSelect({
+  notebookId,
+  value,
+  onChange,
+  disabledPageId,
+  disabled,
+  ...triggerProps
+}: PageParentSelectProps) {
+  const { data: pages } = usePagesHierarchy(notebookId);
+  const flatPages = flattenPages(pages || [], 0, disabledPageId);
+
+  return (
+    <Select
+      onValueChange={(selected) => onChange(selected === ROOT_VALUE ? '' : selected)}
+      value={value || ROOT_VALUE}
+      disabled={disabled}
+    >
+      <SelectTrigger {...triggerProps}>
+        <SelectValue placeholder="Select a parent page" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ROOT_VALUE}>None (Root Level)</SelectItem>
+        {flatPages.map((p) => (
+          <SelectItem key={p.id} value={p.id} disabled={p.disabled}>
+            <span style={{ paddingLeft: `${p.level * 16}px` }}>
+              {p.title}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
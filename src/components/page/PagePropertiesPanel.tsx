@@ -0,0 +1,389 @@
+import { useId, useState } from 'react';
+import {
+  Calendar,
+  CheckSquare,
+  CircleChevronDown,
+  ExternalLink,
+  Hash,
+  Link,
+  ListChecks,
+  Plus,
+  Type,
+  X,
+  type LucideIcon,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  PAGE_PROPERTY_TYPES,
+  convertPropertyValue,
+  emptyPropertyValue,
+  validatePropertyName,
+} from '@/lib/pageProperties';
+import type { PageProperty, PagePropertyType } from '@/types/database';
+
+interface PagePropertiesPanelProps {
+  properties: PageProperty[];
+  onChange: (properties: PageProperty[]) => void;
+}
+
+const PROPERTY_TYPE_LABELS: Record<PagePropertyType, { label: string; icon: LucideIcon }> = {
+  text: { label: 'Text', icon: Type },
+  number: { label: 'Number', icon: Hash },
+  date: { label: 'Date', icon: Calendar },
+  select: { label: 'Select', icon: CircleChevronDown },
+  multi_select: { label: 'Multi-select', icon: ListChecks },
+  checkbox: { label: 'Checkbox', icon: CheckSquare },
+  url: { label: 'URL', icon: Link },
+};
+
+function addOption(options: string[] | undefined, option: string): string[] {
+  const current = options || [];
+  return current.some(existing => existing.toLowerCase() === option.toLowerCase()) ? current : [...current, option];
+}
+
+// Keep Enter in property inputs from submitting the page form
+function preventSubmit(e: React.KeyboardEvent<HTMLInputElement>) {
+  if (e.key === 'Enter') {
+    e.preventDefault();
+    e.currentTarget.blur();
+  }
+}
+
+interface PropertyValueInputProps {
+  property: PageProperty;
+  onChange: (property: PageProperty) => void;
+}
+
+/**
+ * Editor for the value of one property, by its type
+ */
+function PropertyValueInput({ property, onChange }: PropertyValueInputProps) {
+  const listId = useId();
+  const [newOption, setNewOption] = useState('');
+  const label = `${property.name} value`;
+
+  switch (property.type) {
+    case 'checkbox':
+      return (
+        <input
+          type="checkbox"
+          className="h-4 w-4 accent-primary"
+          checked={property.value === true}
+          onChange={e => onChange({ ...property, value: e.target.checked })}
+          aria-label={label}
+        />
+      );
+
+    case 'number':
+      return (
+        <Input
+          type="number"
+          className="h-8"
+          value={typeof property.value === 'number' ? property.value : ''}
+          onChange={e => onChange({ ...property, value: e.target.value === '' ? null : convertPropertyValue(e.target.value, 'number') })}
+          onKeyDown={preventSubmit}
+          aria-label={label}
+        />
+      );
+
+    case 'date':
+      return (
+        <Input
+          type="date"
+          className="h-8 w-auto"
+          value={typeof property.value === 'string' ? property.value : ''}
+          onChange={e => onChange({ ...property, value: e.target.value || null })}
+          onKeyDown={preventSubmit}
+          aria-label={label}
+        />
+      );
+
+    case 'url': {
+      const url = typeof property.value === 'string' ? property.value : '';
+      return (
+        <div className="flex items-center gap-1">
+          <Input
+            type="url"
+            className="h-8"
+            placeholder="https://"
+            value={url}
+            onChange={e => onChange({ ...property, value: e.target.value || null })}
+            onKeyDown={preventSubmit}
+            aria-label={label}
+          />
+          {/^https?:\/\//i.test(url) && (
+            <Button type="button" variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" asChild>
+              <a href={url} target="_blank" rel="noopener noreferrer" title="Open link">
+                <ExternalLink className="h-4 w-4" />
+              </a>
+            </Button>
+          )}
+        </div>
+      );
+    }
+
+    case 'select':
+      return (
+        <>
+          <Input
+            className="h-8"
+            list={listId}
+            placeholder="Pick or type an option"
+            value={typeof property.value === 'string' ? property.value : ''}
+            onChange={e => onChange({ ...property, value: e.target.value || null })}
+            onBlur={e => {
+              const option = e.target.value.trim();
+              if (option) {
+                onChange({ ...property, value: option, options: addOption(property.options, option) });
+              }
+            }}
+            onKeyDown={preventSubmit}
+            aria-label={label}
+          />
+          <datalist id={listId}>
+            {(property.options || []).map(option => <option key={option} value={option} />)}
+          </datalist>
+        </>
+      );
+
+    case 'multi_select': {
+      const values = Array.isArray(property.value) ? property.value : [];
+      const add = () => {
+        const option = newOption.trim().replace(/,$/, '').trim();
+        setNewOption('');
+        if (!option || values.some(value => value.toLowerCase() === option.toLowerCase())) return;
+        onChange({ ...property, value: [...values, option], options: addOption(property.options, option) });
+      };
+
+      return (
+        <div className="flex flex-wrap items-center gap-1">
+          {values.map(value => (
+            <span
+              key={value}
+              className="inline-flex items-center gap-1 rounded-full bg-secondary px-2 py-0.5 text-xs font-medium text-secondary-foreground"
+            >
+              {value}
+              <button
+                type="button"
+                className="rounded-full hover:text-destructive"
+                onClick={() => onChange({ ...property, value: values.filter(candidate => candidate !== value) })}
+                aria-label={`Remove ${value}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <Input
+            className="h-8 w-40"
+            list={listId}
+            placeholder="Add option"
+            value={newOption}
+            onChange={e => setNewOption(e.target.value)}
+            onBlur={add}
+            onKeyDown={e => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault();
+                add();
+              }
+            }}
+            aria-label={label}
+          />
+          <datalist id={listId}>
+            {(property.options || []).filter(option => !values.includes(option)).map(option => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        </div>
+      );
+    }
+
+    default:
+      return (
+        <Input
+          className="h-8"
+          value={typeof property.value === 'string' ? property.value : ''}
+          onChange={e => onChange({ ...property, value: e.target.value || null })}
+          onKeyDown={preventSubmit}
+          aria-label={label}
+        />
+      );
+  }
+}
+
+interface PropertyTypeSelectProps {
+  value: PagePropertyType;
+  onChange: (type: PagePropertyType) => void;
+  label: string;
+}
+
+function PropertyTypeSelect({ value, onChange, label }: PropertyTypeSelectProps) {
+  return (
+    <Select value={value} onValueChange={type => onChange(type as PagePropertyType)}>
+      <SelectTrigger className="h-8 w-[140px]" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {PAGE_PROPERTY_TYPES.map(type => {
+          const { label: typeLabel, icon: Icon } = PROPERTY_TYPE_LABELS[type];
+          return (
+            <SelectItem key={type} value={type}>
+              <span className="flex items-center gap-2">
+                <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+                {typeLabel}
+              </span>
+            </SelectItem>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Typed properties of a page, edited above its content.
+ * Changes go to `onChange`; the page editor saves them with the page.
+ */
+export function PagePropertiesPanel({ properties, onChange }: PagePropertiesPanelProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<PagePropertyType>('text');
+  const [nameError, setNameError] = useState<string | null>(null);
+  // Name being edited, by property index
+  const [renaming, setRenaming] = useState<{ index: number; name: string } | null>(null);
+
+  const updateProperty = (index: number, property: PageProperty) => {
+    onChange(properties.map((current, i) => (i === index ? property : current)));
+  };
+
+  const changeType = (index: number, type: PagePropertyType) => {
+    const property = properties[index];
+    if (property.type === type) return;
+    updateProperty(index, { ...property, type, value: convertPropertyValue(property.value, type) });
+  };
+
+  const commitRename = () => {
+    if (!renaming) return;
+    const error = validatePropertyName(renaming.name, properties, renaming.index);
+    if (!error) {
+      updateProperty(renaming.index, { ...properties[renaming.index], name: renaming.name.trim() });
+    }
+    setNameError(error);
+    setRenaming(null);
+  };
+
+  const handleAdd = () => {
+    const error = validatePropertyName(newName, properties);
+    if (error) {
+      setNameError(error);
+      return;
+    }
+
+    onChange([...properties, { name: newName.trim(), type: newType, value: emptyPropertyValue(newType) }]);
+    setNewName('');
+    setNewType('text');
+    setNameError(null);
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      {properties.length > 0 && (
+        <>
+          <Label>Properties</Label>
+          <div className="space-y-1.5 rounded-md border p-3">
+            {properties.map((property, index) => {
+              const Icon = PROPERTY_TYPE_LABELS[property.type].icon;
+              return (
+                <div key={index} className="grid grid-cols-[minmax(0,11rem)_minmax(0,1fr)_auto_auto] items-center gap-2">
+                  <div className="flex min-w-0 items-center gap-1.5">
+                    <Icon className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <Input
+                      className="h-8 border-transparent px-1 shadow-none hover:border-input focus-visible:border-input"
+                      value={renaming?.index === index ? renaming.name : property.name}
+                      onChange={e => setRenaming({ index, name: e.target.value })}
+                      onBlur={commitRename}
+                      onKeyDown={preventSubmit}
+                      aria-label="Property name"
+                    />
+                  </div>
+                  <PropertyValueInput property={property} onChange={updated => updateProperty(index, updated)} />
+                  <PropertyTypeSelect
+                    value={property.type}
+                    onChange={type => changeType(index, type)}
+                    label={`${property.name} type`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => onChange(properties.filter((_, i) => i !== index))}
+                    title="Remove property"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      {isAdding ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            autoFocus
+            className="h-8 w-48"
+            placeholder="Property name"
+            value={newName}
+            onChange={e => {
+              setNewName(e.target.value);
+              setNameError(null);
+            }}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAdd();
+              } else if (e.key === 'Escape') {
+                setIsAdding(false);
+                setNameError(null);
+              }
+            }}
+            aria-label="New property name"
+          />
+          <PropertyTypeSelect value={newType} onChange={setNewType} label="New property type" />
+          <Button type="button" size="sm" onClick={handleAdd}>
+            Add
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setIsAdding(false);
+              setNameError(null);
+            }}
+          >
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-muted-foreground"
+          onClick={() => setIsAdding(true)}
+        >
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          Add property
+        </Button>
+      )}
+
+      {nameError && <p className="text-sm text-destructive">{nameError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import { Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatPropertyValue, isEmptyPropertyValue } from '@/lib/pageProperties';
+import type { PageProperty } from '@/types/database';
+
+interface PagePropertyValuesProps {
+  properties: PageProperty[] | undefined;
+  className?: string;
+}
+
+interface PropertyValueProps {
+  property: Pick<PageProperty, 'type' | 'value'>;
+}
+
+/**
+ * Read-only display of one property value
+ */
+export function PropertyValue({ property }: PropertyValueProps) {
+  if (property.type === 'checkbox') {
+    return property.value ? <Check className="h-4 w-4 text-primary" aria-label="Yes" /> : <span className="text-muted-foreground">No</span>;
+  }
+
+  if (property.type === 'multi_select' && Array.isArray(property.value)) {
+    return (
+      <span className="flex flex-wrap gap-1">
+        {property.value.map(value => (
+          <span key={value} className="rounded-full bg-secondary px-2 py-0.5 text-xs font-medium text-secondary-foreground">
+            {value}
+          </span>
+        ))}
+      </span>
+    );
+  }
+
+  if (property.type === 'url' && typeof property.value === 'string' && /^https?:\/\//i.test(property.value)) {
+    return (
+      <a
+        href={property.value}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="break-all text-primary hover:underline"
+        onClick={e => e.stopPropagation()}
+      >
+        {property.value}
+      </a>
+    );
+  }
+
+  return <span className="break-words">{formatPropertyValue(property)}</span>;
+}
+
+/**
+ * Read-only list of the properties of a page that have a value
+ */
+export function PagePropertyValues({ properties, className }: PagePropertyValuesProps) {
+  const shown = (properties || []).filter(property => property.type === 'checkbox' || !isEmptyPropertyValue(property.value));
+
+  if (shown.length === 0) {
+    return null;
+  }
+
+  return (
+    <dl className={cn('grid grid-cols-[minmax(0,10rem)_minmax(0,1fr)] gap-x-4 gap-y-1 text-sm', className)}>
+      {shown.map(property => (
+        <div key={property.name} className="contents">
+          <dt className="truncate text-muted-foreground">{property.name}</dt>
+          <dd className="min-w-0">
+            <PropertyValue property={property} />
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,52 @@
+import { AlertCircle, CloudOff, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useSyncStore } from '@/store';
+
+interface PageSyncBadgeProps {
+  pageId: string;
+  className?: string;
+}
+
+/**
+ * Shows whether a page has local changes that are not on the server yet
+ */
+export function PageSyncBadge({ pageId, className }: PageSyncBadgeProps) {
+  const status = useSyncStore((state) => state.pageStatus[pageId]);
+  const error = useSyncStore((state) => state.pageErrors[pageId]);
+
+  if (!status || status === 'synced') {
+    return null;
+  }
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium',
+        status === 'error'
+          ? 'bg-destructive/10 text-destructive'
+          : 'bg-amber-100 text-amber-800 dark:bg-amber-950/40 dark:text-amber-300',
+        className
+      )}
+      title={error}
+    >
+      {status === 'pending' && (
+        <>
+          <CloudOff className="h-3 w-3" />
+          Saved offline
+        </>
+      )}
+      {status === 'syncing' && (
+        <>
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Syncing
+        </>
+      )}
+      {status === 'error' && (
+        <>
+          <AlertCircle className="h-3 w-3" />
+          Sync failed
+        </>
+      )}
+    </span>
+  );
+}
@@ -79,6 +79,7 @@ export function PageTreeExample({ notebookId }: PageTreeExampleProps) {
         </CardHeader>
         <CardContent>
           <PageTree
+            notebookId={notebookId}
             pages={pages || []}
             selectedPageId={selectedPageId}
             onPageSelect={handlePageSelect}
@@ -1,174 +1,211 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { ChevronRight, ChevronDown, FileText, GripVertical } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
-import { ScrollArea } from '@/components/ui/scroll-area';
-import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
-import type { PageWithChildren } from '@/types/database';
+import {
+  flattenPageTree,
+  getCollapsedPageIds,
+  getPageTreeParents,
+  isPageTreeDescendant,
+  setCollapsedPageIds,
+  type PageTreeRow,
+} from '@/lib/pageTree';
+import type { PageSummaryWithChildren } from '@/types/database';
+import type { PageSyncStatus } from '@/store';
+
+const ROW_HEIGHT = 32; // Every row has the same height, so rows can be placed without measuring
+const OVERSCAN = 10; // Rows rendered above and below the visible ones
+const DEFAULT_VIEWPORT_HEIGHT = 600; // Until the tree has been measured
+
+type DropPosition = 'before' | 'after' | 'child';
 
 interface PageTreeProps {
-  pages: PageWithChildren[];
+  notebookId: string; // Collapsed pages are remembered per notebook
+  pages: PageSummaryWithChildren[];
   selectedPageId?: string;
   onPageSelect?: (pageId: string) => void;
-  onPageMove?: (pageId: string, newParentId: string | null, position?: 'before' | 'after') => void;
+  onPageHover?: (pageId: string) => void; // E.g. to start loading the page
+  onPageMove?: (pageId: string, newParentId: string | null, position?: 'before' | 'after', targetPageId?: string) => void;
+  syncStatus?: Record<string, PageSyncStatus>;
   className?: string;
 }
 
 interface PageTreeItemProps {
-  page: PageWithChildren;
-  level: number;
-  selectedPageId?: string;
-  onPageSelect?: (pageId: string) => void;
-  onPageMove?: (pageId: string, newParentId: string | null, position?: 'before' | 'after') => void;
-  onDragStart?: (pageId: string) => void;
-  onDragOver?: (e: React.DragEvent, pageId: string, position: 'before' | 'after' | 'child') => void;
-  onDrop?: (e: React.DragEvent, targetPageId: string, position: 'before' | 'after' | 'child') => void;
-  isDragging?: boolean;
-  draggedPageId?: string | null;
-  dropTarget?: { pageId: string; position: 'before' | 'after' | 'child' } | null;
+  row: PageTreeRow;
+  top: number;
+  isSelected: boolean;
+  isFocused: boolean;
+  isDragging: boolean;
+  dropPosition?: DropPosition;
+  syncStatus?: PageSyncStatus;
+  onSelect: (pageId: string) => void;
+  onHover?: (pageId: string) => void;
+  onToggle: (pageId: string, expanded: boolean) => void;
+  onDragStart: (pageId: string) => void;
+  onDragOver: (pageId: string, position: DropPosition) => void;
+  onDrop: (e: React.DragEvent, targetPageId: string, position: DropPosition) => void;
+}
+
+// Drop zone from the pointer position: top quarter before, bottom quarter after, otherwise child
+function getDropPosition(e: React.DragEvent): DropPosition {
+  const rect = e.currentTarget.getBoundingClientRect();
+  const y = e.clientY - rect.top;
+
+  if (y < rect.height * 0.25) {
+    return 'before';
+  }
+  if (y > rect.height * 0.75) {
+    return 'after';
+  }
+  return 'child';
+}
+
+function pageTreeItemId(pageId: string): string {
+  return `page-tree-item-${pageId}`;
+}
+
+/**
+ * Collapsed pages of a notebook's tree, kept in localStorage
+ */
+function useCollapsedPages(notebookId: string) {
+  const [state, setState] = useState(() => ({
+    notebookId,
+    ids: getCollapsedPageIds(notebookId),
+  }));
+
+  let collapsedIds = state.ids;
+  if (state.notebookId !== notebookId) {
+    // Another notebook: start from its saved state
+    collapsedIds = getCollapsedPageIds(notebookId);
+    setState({ notebookId, ids: collapsedIds });
+  }
+
+  useEffect(() => {
+    setCollapsedPageIds(state.notebookId, state.ids);
+  }, [state]);
+
+  const setExpanded = useCallback((pageId: string, expanded: boolean) => {
+    setState(current => {
+      if (current.ids.has(pageId) !== expanded) {
+        return current;
+      }
+
+      const ids = new Set(current.ids);
+      if (expanded) {
+        ids.delete(pageId);
+      } else {
+        ids.add(pageId);
+      }
+      return { ...current, ids };
+    });
+  }, []);
+
+  return [collapsedIds, setExpanded] as const;
 }
 
 function PageTreeItem({
-  page,
-  level,
-  selectedPageId,
-  onPageSelect,
-  onPageMove,
+  row,
+  top,
+  isSelected,
+  isFocused,
+  isDragging,
+  dropPosition,
+  syncStatus,
+  onSelect,
+  onHover,
+  onToggle,
   onDragStart,
   onDragOver,
   onDrop,
-  isDragging,
-  draggedPageId,
-  dropTarget,
 }: PageTreeItemProps) {
-  const [isOpen, setIsOpen] = useState(true);
-  const hasChildren = page.children && page.children.length > 0;
-  const isSelected = selectedPageId === page.id;
-  const isDropTarget = dropTarget?.pageId === page.id;
-
-  const handleClick = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    onPageSelect?.(page.id);
-  };
+  const { page, level, hasChildren, isExpanded } = row;
 
   const handleDragStart = (e: React.DragEvent) => {
     e.stopPropagation();
     e.dataTransfer.effectAllowed = 'move';
     e.dataTransfer.setData('text/plain', page.id);
-    onDragStart?.(page.id);
+    onDragStart(page.id);
   };
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    
+
     // Don't allow dropping on itself
-    if (draggedPageId === page.id) {
+    if (isDragging) {
       e.dataTransfer.dropEffect = 'none';
-      console.log('Blocked drop on self:', page.title);
       return;
     }
-    
+
     e.dataTransfer.dropEffect = 'move';
-    
-    // Calculate position based on mouse Y position within the element
-    const rect = e.currentTarget.getBoundingClientRect();
-    const y = e.clientY - rect.top;
-    const height = rect.height;
-    
-    let position: 'before' | 'after' | 'child';
-    if (y < height * 0.25) {
-      position = 'before';
-    } else if (y > height * 0.75) {
-      position = 'after';
-    } else {
-      position = 'child';
-    }
-    
-    // console.log('DragOver on', page.title, position, draggedPageId);
-    onDragOver?.(e, page.id, position);
+    onDragOver(page.id, getDropPosition(e));
   };
 
   const handleDrop = (e: React.DragEvent) => {
-    console.log('PageTreeItem handleDrop:', page.title);
     e.preventDefault();
     e.stopPropagation();
-    
-    // Calculate position based on mouse Y position within the element
-    const rect = e.currentTarget.getBoundingClientRect();
-    const y = e.clientY - rect.top;
-    const height = rect.height;
-    
-    let position: 'before' | 'after' | 'child';
-    if (y < height * 0.25) {
-      position = 'before';
-    } else if (y > height * 0.75) {
-      position = 'after';
-    } else {
-      position = 'child';
-    }
-    
-    // console.log('PageTreeItem handleDrop:', { title: page.title, position, y, rect, clientY: e.clientY });
-    onDrop?.(e, page.id, position);
+    onDrop(e, page.id, getDropPosition(e));
   };
 
   return (
     <div
-      className={cn(
-        'select-none',
-        isDragging && 'opacity-50'
-      )}
-      style={{ paddingLeft: level > 0 ? `${level * 20}px` : '0' }}
+      id={pageTreeItemId(page.id)}
+      role="treeitem"
+      aria-level={level + 1}
+      aria-expanded={hasChildren ? isExpanded : undefined}
+      aria-selected={isSelected}
+      className={cn('absolute left-0 right-0 select-none', isDragging && 'opacity-50')}
+      style={{ top, height: ROW_HEIGHT, paddingLeft: level > 0 ? `${level * 20}px` : '0' }}
     >
-      <div className="relative">
-        {/* Drop indicator - before */}
-        {isDropTarget && dropTarget?.position === 'before' && (
-          <div className="absolute -top-0.5 left-0 right-0 h-0.5 bg-primary z-10 pointer-events-none">
-            <div className="absolute -top-2 right-2 bg-primary text-primary-foreground text-xs px-2 py-0.5 rounded whitespace-nowrap">
-              Drop as sibling
-            </div>
+      {/* Drop indicator - before */}
+      {dropPosition === 'before' && (
+        <div className="absolute top-0 left-0 right-0 h-0.5 bg-primary z-10 pointer-events-none">
+          <div className="absolute top-0.5 right-2 bg-primary text-primary-foreground text-xs px-2 py-0.5 rounded whitespace-nowrap">
+            Drop as sibling
+          </div>
+        </div>
+      )}
+
+      <div
+        className={cn(
+          'group flex items-center justify-start gap-1 py-1 px-2 rounded-md hover:bg-accent cursor-pointer transition-colors relative',
+          isSelected && 'bg-accent',
+          isFocused && 'ring-1 ring-ring',
+          level > 0 && 'border-l-2 border-muted ml-2',
+          dropPosition === 'child' && 'ring-2 ring-primary bg-primary/10'
+        )}
+        onClick={() => onSelect(page.id)}
+        onMouseEnter={() => onHover?.(page.id)}
+        draggable
+        onDragStart={handleDragStart}
+        onDragOver={handleDragOver}
+        onDrop={handleDrop}
+      >
+        {dropPosition === 'child' && (
+          <div className="absolute -right-2 top-1/2 -translate-y-1/2 bg-primary text-primary-foreground text-xs px-2 py-0.5 rounded-full whitespace-nowrap z-10 pointer-events-none">
+            Drop as child
           </div>
         )}
-        
-        <div
-          className={cn(
-            'group flex items-center justify-start gap-1 py-1 px-2 rounded-md hover:bg-accent cursor-pointer transition-colors relative',
-            isSelected && 'bg-accent',
-            level > 0 && 'border-l-2 border-muted ml-2',
-            isDropTarget && dropTarget?.position === 'child' && 'ring-2 ring-primary bg-primary/10'
-          )}
-          onClick={handleClick}
-          draggable
-          onDragStart={handleDragStart}
-          onDragOver={handleDragOver}
-          onDrop={handleDrop}
-        >
-          {isDropTarget && dropTarget?.position === 'child' && (
-            <div className="absolute -right-2 top-1/2 -translate-y-1/2 bg-primary text-primary-foreground text-xs px-2 py-0.5 rounded-full whitespace-nowrap z-10 pointer-events-none">
-              Drop as child
-            </div>
-          )}
+
         {/* Expand/Collapse Button */}
         {hasChildren ? (
-          <Collapsible open={isOpen} onOpenChange={setIsOpen}>
-            <CollapsibleTrigger asChild>
-              <Button
-                variant="ghost"
-                size="sm"
-                className="h-6 w-6 p-0 flex-shrink-0"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  setIsOpen(!isOpen);
-                }}
-              >
-                {isOpen ? (
-                  <ChevronDown className="h-4 w-4" />
-                ) : (
-                  <ChevronRight className="h-4 w-4" />
-                )}
-              </Button>
-            </CollapsibleTrigger>
-          </Collapsible>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 flex-shrink-0"
+            tabIndex={-1}
+            aria-label={isExpanded ? 'Collapse' : 'Expand'}
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggle(page.id, !isExpanded);
+            }}
+          >
+            {isExpanded ? (
+              <ChevronDown className="h-4 w-4" />
+            ) : (
+              <ChevronRight className="h-4 w-4" />
+            )}
+          </Button>
         ) : (
           <div className="h-6 w-6 flex-shrink-0" />
         )}
@@ -182,117 +219,183 @@ function PageTreeItem({
         <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
 
         {/* Page Title */}
-        <span className="flex-1 truncate text-sm">{page.title}</span>
+        <span className="flex-1 truncate text-sm" title={page.excerpt || undefined}>{page.title}</span>
+
+        {/* Sync Status */}
+        {syncStatus && syncStatus !== 'synced' && (
+          <span
+            className={cn(
+              'h-2 w-2 rounded-full flex-shrink-0',
+              syncStatus === 'error' ? 'bg-destructive' : 'bg-amber-500',
+              syncStatus === 'syncing' && 'animate-pulse'
+            )}
+            title={syncStatus === 'error' ? 'Sync failed' : 'Changes not synced yet'}
+          />
+        )}
       </div>
-      
+
       {/* Drop indicator - after */}
-      {isDropTarget && dropTarget?.position === 'after' && (
-        <div className="absolute -bottom-0.5 left-0 right-0 h-0.5 bg-primary z-10 pointer-events-none">
-          <div className="absolute -top-2 right-2 bg-primary text-primary-foreground text-xs px-2 py-0.5 rounded whitespace-nowrap">
+      {dropPosition === 'after' && (
+        <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-primary z-10 pointer-events-none">
+          <div className="absolute -top-5 right-2 bg-primary text-primary-foreground text-xs px-2 py-0.5 rounded whitespace-nowrap">
             Drop as sibling
           </div>
         </div>
       )}
     </div>
-
-    {/* Children */}
-    {hasChildren && (
-      <Collapsible open={isOpen}>
-        <CollapsibleContent>
-          <div className="mt-1">
-            {page.children!.map((child) => (
-              <PageTreeItem
-                key={child.id}
-                page={child}
-                level={level + 1}
-                selectedPageId={selectedPageId}
-                onPageSelect={onPageSelect}
-                onPageMove={onPageMove}
-                onDragStart={onDragStart}
-                onDragOver={onDragOver}
-                onDrop={onDrop}
-                draggedPageId={draggedPageId}
-                dropTarget={dropTarget}
-              />
-            ))}
-          </div>
-        </CollapsibleContent>
-      </Collapsible>
-    )}
-  </div>
   );
 }
 
+/**
+ * Tree of a notebook's pages. Only the rows in view are rendered, so large
+ * notebooks stay fast. Pages can be dragged before, after or into other
+ * pages; collapsed pages are remembered per notebook. With the tree focused,
+ * arrow keys move between pages and expand or collapse them, and Enter opens
+ * the page.
+ */
 export function PageTree({
+  notebookId,
   pages,
   selectedPageId,
   onPageSelect,
+  onPageHover,
   onPageMove,
+  syncStatus,
   className,
 }: PageTreeProps) {
+  const [collapsedIds, setExpanded] = useCollapsedPages(notebookId);
+
+  const rows = useMemo(() => flattenPageTree(pages || [], collapsedIds), [pages, collapsedIds]);
+  const rowIndexes = useMemo(() => new Map(rows.map((row, index) => [row.page.id, index])), [rows]);
+  const parents = useMemo(() => getPageTreeParents(pages || []), [pages]);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const scrolledSelectionRef = useRef<string | undefined>(undefined);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [focusedPageId, setFocusedPageId] = useState<string | null>(null);
+  const [hasFocus, setHasFocus] = useState(false);
   const [draggedPageId, setDraggedPageId] = useState<string | null>(null);
-  const [dropTarget, setDropTarget] = useState<{ pageId: string; position: 'before' | 'after' | 'child' } | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ pageId: string; position: DropPosition } | null>(null);
 
-  const handleDragStart = (pageId: string) => {
-    setDraggedPageId(pageId);
-  };
+  const hasRows = rows.length > 0;
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const measure = () => setViewportHeight(element.clientHeight);
+    measure();
+
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasRows]);
+
+  const scrollToRow = useCallback((index: number) => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const top = index * ROW_HEIGHT;
+    if (top < element.scrollTop) {
+      element.scrollTop = top;
+    } else if (top + ROW_HEIGHT > element.scrollTop + element.clientHeight) {
+      element.scrollTop = top + ROW_HEIGHT - element.clientHeight;
+    }
+  }, []);
+
+  // Bring a newly selected page into view, expanding the pages above it first
+  useEffect(() => {
+    if (!selectedPageId || scrolledSelectionRef.current === selectedPageId) return;
+
+    const index = rowIndexes.get(selectedPageId);
+    if (index !== undefined) {
+      scrolledSelectionRef.current = selectedPageId;
+      scrollToRow(index);
+      return;
+    }
+
+    for (let parentId = parents.get(selectedPageId); parentId; parentId = parents.get(parentId)) {
+      setExpanded(parentId, true);
+    }
+  }, [selectedPageId, rowIndexes, parents, setExpanded, scrollToRow]);
+
+  // Row that keyboard navigation starts from
+  const activePageId = [focusedPageId, selectedPageId].find(id => id && rowIndexes.has(id)) ?? rows[0]?.page.id;
 
-  const handleDragOver = (_e: React.DragEvent, pageId: string, position: 'before' | 'after' | 'child') => {
-    setDropTarget({ pageId, position });
+  const handleSelect = (pageId: string) => {
+    setFocusedPageId(pageId);
+    onPageSelect?.(pageId);
   };
 
-  const handleDrop = (e: React.DragEvent, targetPageId: string, position: 'before' | 'after' | 'child') => {
-    const draggedId = e.dataTransfer.getData('text/plain');
-    
-    if (draggedId && draggedId !== targetPageId) {
-      // Check if target is a descendant of dragged page
-      const isDescendant = (pages: PageWithChildren[], targetId: string, draggedId: string): boolean => {
-        for (const page of pages) {
-          if (page.id === draggedId) {
-            const checkChildren = (children: PageWithChildren[]): boolean => {
-              for (const child of children) {
-                if (child.id === targetId) return true;
-                if (child.children && checkChildren(child.children)) return true;
-              }
-              return false;
-            };
-            return page.children ? checkChildren(page.children) : false;
-          }
-          if (page.children && isDescendant(page.children, targetId, draggedId)) {
-            return true;
-          }
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!activePageId) return;
+
+    const index = rowIndexes.get(activePageId)!;
+    const row = rows[index];
+    let nextIndex: number | undefined;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        nextIndex = Math.min(rows.length - 1, index + 1);
+        break;
+      case 'ArrowUp':
+        nextIndex = Math.max(0, index - 1);
+        break;
+      case 'Home':
+        nextIndex = 0;
+        break;
+      case 'End':
+        nextIndex = rows.length - 1;
+        break;
+      case 'ArrowRight':
+        if (row.hasChildren && !row.isExpanded) {
+          setExpanded(row.page.id, true);
+        } else if (row.isExpanded) {
+          nextIndex = index + 1;
         }
-        return false;
-      };
-
-      // Prevent moving a page under itself or its descendants
-      if (!isDescendant(pages, targetPageId, draggedId)) {
-        if (position === 'child') {
-          // Drop as child - set target as parent
-          onPageMove?.(draggedId, targetPageId);
-        } else {
-          // Drop as sibling - need to find the parent
-          // This makes the dragged page a sibling of the target
-          // This makes the dragged page a sibling of the target
-          const findParent = (pages: PageWithChildren[], targetId: string, parentId: string | null = null): string | null | undefined => {
-            for (const page of pages) {
-              if (page.id === targetId) return parentId;
-              if (page.children) {
-                const found = findParent(page.children, targetId, page.id);
-                if (found !== undefined) return found;
-              }
-            }
-            return undefined;
-          };
-          
-          const targetParent = findParent(pages, targetPageId);
-          
-          if (targetParent !== undefined) {
-            onPageMove?.(draggedId, targetParent, position);
-          } else {
-            console.warn('Could not find parent for target page:', targetPageId);
-          }
+        break;
+      case 'ArrowLeft':
+        if (row.isExpanded) {
+          setExpanded(row.page.id, false);
+        } else if (row.parentId) {
+          nextIndex = rowIndexes.get(row.parentId);
         }
+        break;
+      case 'Enter':
+        handleSelect(row.page.id);
+        break;
+      default:
+        return;
+    }
+
+    e.preventDefault();
+    if (nextIndex !== undefined) {
+      setFocusedPageId(rows[nextIndex].page.id);
+      scrollToRow(nextIndex);
+    }
+  };
+
+  const handleDragOver = (pageId: string, position: DropPosition) => {
+    setDropTarget(current =>
+      current?.pageId === pageId && current.position === position ? current : { pageId, position }
+    );
+  };
+
+  const handleDrop = (e: React.DragEvent, targetPageId: string, position: DropPosition) => {
+    const draggedId = e.dataTransfer.getData('text/plain');
+
+    // Prevent moving a page under itself or its descendants
+    if (draggedId && draggedId !== targetPageId && !isPageTreeDescendant(parents, targetPageId, draggedId)) {
+      if (position === 'child') {
+        // Drop as child - set target as parent
+        onPageMove?.(draggedId, targetPageId);
+      } else if (parents.has(targetPageId)) {
+        // Drop as sibling - the dragged page joins the target's parent
+        onPageMove?.(draggedId, parents.get(targetPageId)!, position, targetPageId);
+      } else {
+        console.warn('Could not find parent for target page:', targetPageId);
       }
     }
 
@@ -305,7 +408,7 @@ export function PageTree({
     setDropTarget(null);
   };
 
-  if (!pages || pages.length === 0) {
+  if (!hasRows) {
     return (
       <div className={cn('flex items-center justify-center py-8 text-sm text-muted-foreground', className)}>
         No pages yet. Create your first page to get started.
@@ -313,26 +416,43 @@ export function PageTree({
     );
   }
 
+  const height = viewportHeight || DEFAULT_VIEWPORT_HEIGHT;
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(rows.length, Math.ceil((scrollTop + height) / ROW_HEIGHT) + OVERSCAN);
+
   return (
-    <ScrollArea className={cn('h-full', className)}>
-      <div className="space-y-1 p-1" onDragEnd={handleDragEnd}>
-        {pages.map((page) => (
+    <div
+      ref={scrollRef}
+      role="tree"
+      aria-label="Pages"
+      aria-activedescendant={hasFocus && activePageId ? pageTreeItemId(activePageId) : undefined}
+      tabIndex={0}
+      className={cn('h-full overflow-y-auto outline-none', className)}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      onKeyDown={handleKeyDown}
+      onFocus={() => setHasFocus(true)}
+      onBlur={() => setHasFocus(false)}
+    >
+      <div className="relative m-1" style={{ height: rows.length * ROW_HEIGHT }} onDragEnd={handleDragEnd}>
+        {rows.slice(start, end).map((row, offset) => (
           <PageTreeItem
-            key={page.id}
-            page={page}
-            level={0}
-            selectedPageId={selectedPageId}
-            onPageSelect={onPageSelect}
-            onPageMove={onPageMove}
-            onDragStart={handleDragStart}
+            key={row.page.id}
+            row={row}
+            top={(start + offset) * ROW_HEIGHT}
+            isSelected={selectedPageId === row.page.id}
+            isFocused={hasFocus && activePageId === row.page.id}
+            isDragging={draggedPageId === row.page.id}
+            dropPosition={dropTarget?.pageId === row.page.id ? dropTarget.position : undefined}
+            syncStatus={syncStatus?.[row.page.id]}
+            onSelect={handleSelect}
+            onHover={onPageHover}
+            onToggle={setExpanded}
+            onDragStart={setDraggedPageId}
             onDragOver={handleDragOver}
             onDrop={handleDrop}
-            isDragging={draggedPageId === page.id}
-            draggedPageId={draggedPageId}
-            dropTarget={dropTarget}
           />
         ))}
       </div>
-    </ScrollArea>
+    </div>
   );
 }
@@ -1,9 +1,11 @@
-import { useMemo } from 'react';
-import { ArrowLeftRight, X } from 'lucide-react';
+import { Fragment, useMemo, useState } from 'react';
+import { ArrowLeftRight, ChevronsUpDown, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
+import { compareVersions, diffLines, diffWords, foldUnchanged, type LineDiffRow, type WordDiffSegment } from '@/lib/diff';
+import { cn } from '@/lib/utils';
 import type { PageVersionData } from '@/types/database';
 
 interface VersionComparisonProps {
@@ -12,80 +14,120 @@ interface VersionComparisonProps {
   onClose: () => void;
 }
 
-interface DiffLine {
-  type: 'added' | 'removed' | 'unchanged';
-  content: string;
-  lineNumber1?: number;
-  lineNumber2?: number;
+type DiffMode = 'lines' | 'words';
+
+const CONTEXT_LINES = 3;
+
+const lineStyles = {
+  added: {
+    prefix: '+',
+    className: 'bg-green-50 dark:bg-green-950/20 text-green-700 dark:text-green-300 border-green-500',
+  },
+  removed: {
+    prefix: '-',
+    className: 'bg-red-50 dark:bg-red-950/20 text-red-700 dark:text-red-300 border-red-500',
+  },
+  changed: {
+    prefix: '~',
+    className: 'bg-amber-50 dark:bg-amber-950/20 border-amber-500',
+  },
+  unchanged: {
+    prefix: ' ',
+    className: 'border-transparent',
+  },
+};
+
+function WordSegments({ segments }: { segments: WordDiffSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) => (
+        <span
+          key={index}
+          className={cn(
+            segment.type === 'insert' && 'bg-green-200 text-green-900 dark:bg-green-900/60 dark:text-green-100',
+            segment.type === 'delete' && 'bg-red-200 text-red-900 line-through dark:bg-red-900/60 dark:text-red-100'
+          )}
+        >
+          {segment.text}
+        </span>
+      ))}
+    </>
+  );
 }
 
-export function VersionComparison({ version1, version2, onClose }: VersionComparisonProps) {
-  // Simple line-by-line diff algorithm
-  const diff = useMemo(() => {
-    const lines1 = version1.content.split('\n');
-    const lines2 = version2.content.split('\n');
-    const result: DiffLine[] = [];
-
-    // Simple diff: compare line by line
-    const maxLength = Math.max(lines1.length, lines2.length);
-    let lineNum1 = 1;
-    let lineNum2 = 1;
-
-    for (let i = 0; i < maxLength; i++) {
-      const line1 = lines1[i];
-      const line2 = lines2[i];
-
-      if (line1 === line2) {
-        // Lines are the same
-        if (line1 !== undefined) {
-          result.push({
-            type: 'unchanged',
-            content: line1,
-            lineNumber1: lineNum1++,
-            lineNumber2: lineNum2++,
-          });
-        }
-      } else {
-        // Lines are different
-        if (line1 !== undefined && line2 === undefined) {
-          // Line removed in version 2
-          result.push({
-            type: 'removed',
-            content: line1,
-            lineNumber1: lineNum1++,
-          });
-        } else if (line1 === undefined && line2 !== undefined) {
-          // Line added in version 2
-          result.push({
-            type: 'added',
-            content: line2,
-            lineNumber2: lineNum2++,
-          });
-        } else if (line1 !== undefined && line2 !== undefined) {
-          // Line changed
-          result.push({
-            type: 'removed',
-            content: line1,
-            lineNumber1: lineNum1++,
-          });
-          result.push({
-            type: 'added',
-            content: line2,
-            lineNumber2: lineNum2++,
-          });
-        }
-      }
+function DiffRow({
+  type,
+  lineNumber,
+  children,
+}: {
+  type: keyof typeof lineStyles;
+  lineNumber?: number;
+  children: React.ReactNode;
+}) {
+  const style = lineStyles[type];
+
+  return (
+    <div className={cn('flex border-l-2', style.className)}>
+      <div className="flex-shrink-0 w-12 px-2 py-1 text-right text-muted-foreground select-none">
+        {lineNumber || ''}
+      </div>
+      <div className="flex-shrink-0 w-6 px-1 py-1 text-center select-none">
+        {style.prefix}
+      </div>
+      <div className="flex-1 px-2 py-1 whitespace-pre-wrap break-all">
+        {children}
+      </div>
+    </div>
+  );
+}
+
+function DiffLineRow({ row, mode }: { row: LineDiffRow; mode: DiffMode }) {
+  if (row.type === 'changed') {
+    if (mode === 'words') {
+      return (
+        <DiffRow type="changed" lineNumber={row.newNumber}>
+          <WordSegments segments={diffWords(row.oldLine!, row.newLine!)} />
+        </DiffRow>
+      );
     }
 
-    return result;
-  }, [version1.content, version2.content]);
+    return (
+      <>
+        <DiffRow type="removed" lineNumber={row.oldNumber}>{row.oldLine || ' '}</DiffRow>
+        <DiffRow type="added" lineNumber={row.newNumber}>{row.newLine || ' '}</DiffRow>
+      </>
+    );
+  }
+
+  if (row.type === 'removed') {
+    return <DiffRow type="removed" lineNumber={row.oldNumber}>{row.oldLine || ' '}</DiffRow>;
+  }
+
+  return (
+    <DiffRow type={row.type} lineNumber={row.newNumber}>
+      {row.newLine || ' '}
+    </DiffRow>
+  );
+}
+
+export function VersionComparison({ version1, version2, onClose }: VersionComparisonProps) {
+  // Always show changes from the older version to the newer one
+  const [from, to] = version1.version <= version2.version ? [version1, version2] : [version2, version1];
+
+  const [mode, setMode] = useState<DiffMode>('words');
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
 
-  const stats = useMemo(() => {
-    const added = diff.filter(d => d.type === 'added').length;
-    const removed = diff.filter(d => d.type === 'removed').length;
-    const unchanged = diff.filter(d => d.type === 'unchanged').length;
-    return { added, removed, unchanged, total: diff.length };
-  }, [diff]);
+  const rows = useMemo(() => diffLines(from.content, to.content), [from.content, to.content]);
+  const hunks = useMemo(() => foldUnchanged(rows, CONTEXT_LINES), [rows]);
+  const versionDiff = useMemo(() => compareVersions(from, to), [from, to]);
+  const titleDiff = useMemo(() => diffWords(from.title, to.title), [from.title, to.title]);
+
+  const stats = {
+    added: versionDiff.additions.length,
+    removed: versionDiff.deletions.length,
+    changed: versionDiff.changes.length,
+    unchanged: rows.filter(row => row.type === 'unchanged').length,
+  };
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -98,7 +140,12 @@ export function VersionComparison({ version1, version2, onClose }: VersionCompar
     });
   };
 
-  const titleChanged = version1.title !== version2.title;
+  const titleChanged = from.title !== to.title;
+  const hasChanges = stats.added + stats.removed + stats.changed > 0;
+
+  const expandHunk = (start: number) => {
+    setExpanded(prev => new Set(prev).add(start));
+  };
 
   return (
     <Dialog open={true} onOpenChange={onClose}>
@@ -109,7 +156,7 @@ export function VersionComparison({ version1, version2, onClose }: VersionCompar
             Compare Versions
           </DialogTitle>
           <DialogDescription>
-            Comparing version {version1.version} with version {version2.version}
+            Changes from version {from.version} to version {to.version}
           </DialogDescription>
         </DialogHeader>
 
@@ -117,14 +164,14 @@ export function VersionComparison({ version1, version2, onClose }: VersionCompar
           {/* Version Info */}
           <div className="grid grid-cols-2 gap-4">
             <div className="p-3 rounded-lg border bg-muted/50">
-              <div className="text-sm font-medium mb-1">Version {version1.version}</div>
-              <div className="text-xs text-muted-foreground">{formatDate(version1.created_at)}</div>
-              <div className="text-sm mt-2 font-medium truncate">{version1.title}</div>
+              <div className="text-sm font-medium mb-1">Version {from.version}</div>
+              <div className="text-xs text-muted-foreground">{formatDate(from.created_at)}</div>
+              <div className="text-sm mt-2 font-medium truncate">{from.title}</div>
             </div>
             <div className="p-3 rounded-lg border bg-muted/50">
-              <div className="text-sm font-medium mb-1">Version {version2.version}</div>
-              <div className="text-xs text-muted-foreground">{formatDate(version2.created_at)}</div>
-              <div className="text-sm mt-2 font-medium truncate">{version2.title}</div>
+              <div className="text-sm font-medium mb-1">Version {to.version}</div>
+              <div className="text-xs text-muted-foreground">{formatDate(to.created_at)}</div>
+              <div className="text-sm mt-2 font-medium truncate">{to.title}</div>
             </div>
           </div>
 
@@ -132,30 +179,49 @@ export function VersionComparison({ version1, version2, onClose }: VersionCompar
           {titleChanged && (
             <div className="p-3 rounded-lg border bg-amber-50 dark:bg-amber-950/20">
               <div className="text-sm font-medium mb-2">Title Changed</div>
-              <div className="space-y-1">
-                <div className="text-sm">
-                  <span className="text-red-600 dark:text-red-400">- {version1.title}</span>
-                </div>
-                <div className="text-sm">
-                  <span className="text-green-600 dark:text-green-400">+ {version2.title}</span>
-                </div>
+              <div className="text-sm">
+                <WordSegments segments={titleDiff} />
               </div>
             </div>
           )}
 
           {/* Stats */}
-          <div className="flex items-center gap-4 text-sm">
-            <div className="flex items-center gap-2">
-              <div className="w-3 h-3 rounded-full bg-green-500" />
-              <span>{stats.added} added</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="w-3 h-3 rounded-full bg-red-500" />
-              <span>{stats.removed} removed</span>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-4 text-sm">
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full bg-green-500" />
+                <span>{stats.added} added</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full bg-red-500" />
+                <span>{stats.removed} removed</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full bg-amber-500" />
+                <span>{stats.changed} changed</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded-full bg-gray-400" />
+                <span>{stats.unchanged} unchanged</span>
+              </div>
             </div>
-            <div className="flex items-center gap-2">
-              <div className="w-3 h-3 rounded-full bg-gray-400" />
-              <span>{stats.unchanged} unchanged</span>
+            <div className="flex gap-1">
+              <Button
+                type="button"
+                size="sm"
+                variant={mode === 'words' ? 'default' : 'outline'}
+                onClick={() => setMode('words')}
+              >
+                Inline
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={mode === 'lines' ? 'default' : 'outline'}
+                onClick={() => setMode('lines')}
+              >
+                Lines
+              </Button>
             </div>
           </div>
 
@@ -164,42 +230,32 @@ export function VersionComparison({ version1, version2, onClose }: VersionCompar
           {/* Content Diff */}
           <ScrollArea className="h-[400px]">
             <div className="font-mono text-xs">
-              {diff.map((line, index) => {
-                let bgColor = '';
-                let textColor = '';
-                let prefix = ' ';
-
-                if (line.type === 'added') {
-                  bgColor = 'bg-green-50 dark:bg-green-950/20';
-                  textColor = 'text-green-700 dark:text-green-300';
-                  prefix = '+';
-                } else if (line.type === 'removed') {
-                  bgColor = 'bg-red-50 dark:bg-red-950/20';
-                  textColor = 'text-red-700 dark:text-red-300';
-                  prefix = '-';
+              {!hasChanges && (
+                <div className="px-2 py-4 text-center text-muted-foreground font-sans text-sm">
+                  The content of these versions is identical
+                </div>
+              )}
+              {hunks.map((hunk, hunkIndex) => {
+                if (hunk.type === 'folded' && !expanded.has(hunk.start)) {
+                  return (
+                    <button
+                      key={hunkIndex}
+                      type="button"
+                      className="flex w-full items-center gap-2 px-2 py-1 bg-muted/50 text-muted-foreground hover:bg-muted font-sans"
+                      onClick={() => expandHunk(hunk.start)}
+                    >
+                      <ChevronsUpDown className="h-3 w-3" />
+                      Show {hunk.rows.length} unchanged line{hunk.rows.length === 1 ? '' : 's'}
+                    </button>
+                  );
                 }
 
                 return (
-                  <div
-                    key={index}
-                    className={`flex ${bgColor} ${textColor} border-l-2 ${
-                      line.type === 'added'
-                        ? 'border-green-500'
-                        : line.type === 'removed'
-                        ? 'border-red-500'
-                        : 'border-transparent'
-                    }`}
-                  >
-                    <div className="flex-shrink-0 w-12 px-2 py-1 text-right text-muted-foreground select-none">
-                      {line.lineNumber1 || line.lineNumber2 || ''}
-                    </div>
-                    <div className="flex-shrink-0 w-6 px-1 py-1 text-center select-none">
-                      {prefix}
-                    </div>
-                    <div className="flex-1 px-2 py-1 whitespace-pre-wrap break-all">
-                      {line.content || ' '}
-                    </div>
-                  </div>
+                  <Fragment key={hunkIndex}>
+                    {hunk.rows.map((row, index) => (
+                      <DiffLineRow key={index} row={row} mode={mode} />
+                    ))}
+                  </Fragment>
                 );
               })}
             </div>
@@ -1,7 +1,8 @@
 import { useState } from 'react';
-import { Clock, RotateCcw, Eye, GitCompare, Loader2 } from 'lucide-react';
-import { usePageVersions, useRestorePageVersion } from '@/hooks/usePageVersions';
+import { Clock, RotateCcw, Eye, GitCompare, Loader2, Pin, PinOff, Tag } from 'lucide-react';
+import { usePageVersions, useRestorePageVersion, useUpdatePageVersion } from '@/hooks/usePageVersions';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
@@ -20,6 +21,7 @@ export function VersionHistory({ pageId, currentVersion, onVersionRestore }: Ver
   const { data: versionsData, isLoading, error } = usePageVersions(pageId);
   const versions = (versionsData || []) as PageVersionData[];
   const restoreVersion = useRestorePageVersion();
+  const updateVersion = useUpdatePageVersion();
 
   const [selectedVersion, setSelectedVersion] = useState<PageVersionData | null>(null);
   const [viewingVersion, setViewingVersion] = useState<PageVersionData | null>(null);
@@ -29,6 +31,11 @@ export function VersionHistory({ pageId, currentVersion, onVersionRestore }: Ver
   } | null>(null);
   const [restoreDialogOpen, setRestoreDialogOpen] = useState(false);
   const [versionToRestore, setVersionToRestore] = useState<PageVersionData | null>(null);
+  const [showLabeledOnly, setShowLabeledOnly] = useState(false);
+  const [labelingVersion, setLabelingVersion] = useState<PageVersionData | null>(null);
+  const [labelText, setLabelText] = useState('');
+
+  const visibleVersions = showLabeledOnly ? versions.filter(version => version.label) : versions;
 
   const handleViewVersion = (version: PageVersionData) => {
     setViewingVersion(version);
@@ -68,6 +75,38 @@ export function VersionHistory({ pageId, currentVersion, onVersionRestore }: Ver
     }
   };
 
+  const handleLabelClick = (version: PageVersionData) => {
+    setLabelingVersion(version);
+    setLabelText(version.label || '');
+  };
+
+  const handleLabelSave = async (label: string | null) => {
+    if (!labelingVersion) return;
+
+    try {
+      await updateVersion.mutateAsync({
+        id: labelingVersion.id,
+        page_id: pageId,
+        label,
+      });
+      setLabelingVersion(null);
+    } catch (error) {
+      console.error('Failed to label version:', error);
+    }
+  };
+
+  const handleTogglePin = async (version: PageVersionData) => {
+    try {
+      await updateVersion.mutateAsync({
+        id: version.id,
+        page_id: pageId,
+        is_pinned: !version.is_pinned,
+      });
+    } catch (error) {
+      console.error('Failed to pin version:', error);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     const now = new Date();
@@ -156,11 +195,35 @@ export function VersionHistory({ pageId, currentVersion, onVersionRestore }: Ver
               </span>
             )}
           </CardDescription>
+          <div className="flex gap-1 pt-2">
+            <Button
+              type="button"
+              size="sm"
+              variant={showLabeledOnly ? 'outline' : 'default'}
+              onClick={() => setShowLabeledOnly(false)}
+            >
+              All
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={showLabeledOnly ? 'default' : 'outline'}
+              onClick={() => setShowLabeledOnly(true)}
+            >
+              <Tag className="mr-2 h-4 w-4" />
+              Labeled
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <ScrollArea className="h-[400px] pr-4">
             <div className="space-y-2">
-              {versions.map((version, index) => {
+              {visibleVersions.length === 0 && (
+                <p className="py-8 text-center text-sm text-muted-foreground">
+                  No labeled versions yet
+                </p>
+              )}
+              {visibleVersions.map((version, index) => {
                 const isCurrentVersion = version.version === currentVersion;
                 const isSelected = selectedVersion?.id === version.id;
 
@@ -183,7 +246,16 @@ export function VersionHistory({ pageId, currentVersion, onVersionRestore }: Ver
                                 Current
                               </span>
                             )}
+                            {version.is_pinned && (
+                              <Pin className="h-3 w-3 text-muted-foreground" aria-label="Pinned" />
+                            )}
                           </div>
+                          {version.label && (
+                            <div className="flex items-center gap-1 mb-1 text-sm text-primary">
+                              <Tag className="h-3 w-3" />
+                              <span className="truncate">{version.label}</span>
+                            </div>
+                          )}
                           <p className="text-sm text-muted-foreground mb-2">
                             {formatDate(version.created_at)}
                           </p>
@@ -208,6 +280,23 @@ export function VersionHistory({ pageId, currentVersion, onVersionRestore }: Ver
                           >
                             <GitCompare className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleLabelClick(version)}
+                            title={version.label ? 'Rename label' : 'Add label'}
+                          >
+                            <Tag className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleTogglePin(version)}
+                            disabled={updateVersion.isPending}
+                            title={version.is_pinned ? 'Unpin version' : 'Pin version (never cleaned up)'}
+                          >
+                            {version.is_pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                          </Button>
                           {!isCurrentVersion && (
                             <Button
                               variant="ghost"
@@ -221,7 +310,7 @@ export function VersionHistory({ pageId, currentVersion, onVersionRestore }: Ver
                         </div>
                       </div>
                     </div>
-                    {index < versions.length - 1 && <Separator className="my-2" />}
+                    {index < visibleVersions.length - 1 && <Separator className="my-2" />}
                   </div>
                 );
               })}
@@ -274,6 +363,51 @@ export function VersionHistory({ pageId, currentVersion, onVersionRestore }: Ver
         />
       )}
 
+      {/* Label Version Dialog */}
+      <Dialog open={!!labelingVersion} onOpenChange={(open) => !open && setLabelingVersion(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Label Version {labelingVersion?.version}</DialogTitle>
+            <DialogDescription>
+              Name this version so it is easy to find later, e.g. "Before refactor".
+              Pin it as well to keep it from being cleaned up.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleLabelSave(labelText);
+            }}
+          >
+            <Input
+              value={labelText}
+              onChange={(e) => setLabelText(e.target.value)}
+              placeholder="Version label"
+              maxLength={100}
+              autoFocus
+            />
+            <DialogFooter className="mt-4">
+              {labelingVersion?.label && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleLabelSave(null)}
+                  disabled={updateVersion.isPending}
+                >
+                  Remove Label
+                </Button>
+              )}
+              <Button type="submit" disabled={updateVersion.isPending || !labelText.trim()}>
+                {updateVersion.isPending && (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                )}
+                Save Label
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* Restore Confirmation Dialog */}
       <Dialog open={restoreDialogOpen} onOpenChange={setRestoreDialogOpen}>
         <DialogContent>
@@ -4,6 +4,8 @@ import userEvent from '@testing-library/user-event';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { PageCreator } from '../PageCreator';
 import * as usePages from '@/hooks/usePages';
+import * as useNotebooks from '@/hooks/useNotebooks';
+import * as useTemplates from '@/hooks/useTemplates';
 
 // Mock the hooks
 vi.mock('@/hooks/usePages', () => ({
@@ -11,6 +13,20 @@ vi.mock('@/hooks/usePages', () => ({
   usePagesHierarchy: vi.fn(),
 }));
 
+vi.mock('@/hooks/useNotebooks', () => ({
+  useNotebook: vi.fn(),
+}));
+
+vi.mock('@/hooks/useTemplates', () => ({
+  useCreatePageFromTemplate: vi.fn(),
+  usePageTemplates: vi.fn(),
+}));
+
+// Hooks return far more than PageCreator reads, so only the fields it uses are mocked
+function mockHook<T extends (...args: never[]) => unknown>(hook: T, value: Partial<ReturnType<T>>) {
+  vi.mocked(hook).mockReturnValue(value as ReturnType<T>);
+}
+
 describe('PageCreator', () => {
   let queryClient: QueryClient;
 
@@ -23,6 +39,13 @@ describe('PageCreator', () => {
     });
 
     vi.clearAllMocks();
+
+    mockHook(useNotebooks.useNotebook, { data: undefined });
+    mockHook(useTemplates.usePageTemplates, { data: [] });
+    mockHook(useTemplates.useCreatePageFromTemplate, {
+      mutateAsync: vi.fn(),
+      isPending: false,
+    });
   });
 
   const renderWithProviders = (component: React.ReactElement) => {
@@ -34,14 +57,14 @@ describe('PageCreator', () => {
   };
 
   it('renders the trigger button', () => {
-    vi.mocked(usePages.useCreatePage).mockReturnValue({
+    mockHook(usePages.useCreatePage, {
       mutateAsync: vi.fn(),
       isPending: false,
-    } as any);
+    });
 
-    vi.mocked(usePages.usePagesHierarchy).mockReturnValue({
+    mockHook(usePages.usePagesHierarchy, {
       data: [],
-    } as any);
+    });
 
     renderWithProviders(<PageCreator notebookId="test-notebook" />);
 
@@ -51,14 +74,14 @@ describe('PageCreator', () => {
   it('opens dialog when trigger is clicked', async () => {
     const user = userEvent.setup();
 
-    vi.mocked(usePages.useCreatePage).mockReturnValue({
+    mockHook(usePages.useCreatePage, {
       mutateAsync: vi.fn(),
       isPending: false,
-    } as any);
+    });
 
-    vi.mocked(usePages.usePagesHierarchy).mockReturnValue({
+    mockHook(usePages.usePagesHierarchy, {
       data: [],
-    } as any);
+    });
 
     renderWithProviders(<PageCreator notebookId="test-notebook" />);
 
@@ -73,14 +96,14 @@ describe('PageCreator', () => {
   it('displays form fields', async () => {
     const user = userEvent.setup();
 
-    vi.mocked(usePages.useCreatePage).mockReturnValue({
+    mockHook(usePages.useCreatePage, {
       mutateAsync: vi.fn(),
       isPending: false,
-    } as any);
+    });
 
-    vi.mocked(usePages.usePagesHierarchy).mockReturnValue({
+    mockHook(usePages.usePagesHierarchy, {
       data: [],
-    } as any);
+    });
 
     renderWithProviders(<PageCreator notebookId="test-notebook" />);
 
@@ -102,14 +125,14 @@ describe('PageCreator', () => {
       notebook_id: 'test-notebook',
     });
 
-    vi.mocked(usePages.useCreatePage).mockReturnValue({
+    mockHook(usePages.useCreatePage, {
       mutateAsync: mockMutateAsync,
       isPending: false,
-    } as any);
+    });
 
-    vi.mocked(usePages.usePagesHierarchy).mockReturnValue({
+    mockHook(usePages.usePagesHierarchy, {
       data: [],
-    } as any);
+    });
 
     renderWithProviders(
       <PageCreator notebookId="test-notebook" onSuccess={onSuccess} />
@@ -134,4 +157,64 @@ describe('PageCreator', () => {
       expect(onSuccess).toHaveBeenCalledWith('new-page-id');
     });
   });
+
+  it('creates the page from the notebook default template', async () => {
+    const user = userEvent.setup();
+    const onSuccess = vi.fn();
+    const createPage = vi.fn();
+    const createFromTemplate = vi.fn().mockResolvedValue({ id: 'new-page-id' });
+
+    mockHook(usePages.useCreatePage, {
+      mutateAsync: createPage,
+      isPending: false,
+    });
+
+    mockHook(usePages.usePagesHierarchy, {
+      data: [],
+    });
+
+    mockHook(useNotebooks.useNotebook, {
+      data: {
+        id: 'test-notebook',
+        title: 'Work',
+        default_template_id: 'template-1',
+        user_id: 'user-1',
+        created_at: '2024-01-01T00:00:00Z',
+        updated_at: '2024-01-01T00:00:00Z',
+      },
+    });
+
+    mockHook(useTemplates.usePageTemplates, {
+      data: [{ id: 'template-1', title: 'Meeting', notebook_id: 'test-notebook' }],
+    });
+
+    mockHook(useTemplates.useCreatePageFromTemplate, {
+      mutateAsync: createFromTemplate,
+      isPending: false,
+    });
+
+    renderWithProviders(
+      <PageCreator notebookId="test-notebook" onSuccess={onSuccess} />
+    );
+
+    await user.click(screen.getByRole('button', { name: /new page/i }));
+
+    await waitFor(() => {
+      expect(screen.getByLabelText(/template/i)).toHaveTextContent('Meeting');
+    });
+
+    await user.type(screen.getByLabelText(/page title/i), 'Weekly sync');
+    await user.click(screen.getByRole('button', { name: /create page/i }));
+
+    await waitFor(() => {
+      expect(createFromTemplate).toHaveBeenCalledWith({
+        templateId: 'template-1',
+        title: 'Weekly sync',
+        notebook_id: 'test-notebook',
+        parent_page_id: undefined,
+      });
+      expect(createPage).not.toHaveBeenCalled();
+      expect(onSuccess).toHaveBeenCalledWith('new-page-id');
+    });
+  });
 });
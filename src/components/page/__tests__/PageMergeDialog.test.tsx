@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { PageMergeDialog } from '../PageMergeDialog';
+import * as usePageVersions from '@/hooks/usePageVersions';
+import type { PageConflict } from '@/types/database';
+
+vi.mock('@/hooks/usePageVersions', () => ({
+  usePageVersionByNumber: vi.fn(),
+}));
+
+describe('PageMergeDialog', () => {
+  // Another tab saved twice within the coalescing window, so the version
+  // the editor loaded was overwritten in place and is no longer stored
+  const conflict: PageConflict = {
+    pageId: 'page-1',
+    baseVersion: 3,
+    theirs: {
+      title: 'Plan',
+      content: 'Intro\nMiddle\nTheir ending',
+      properties: [],
+      version: 5,
+      updated_at: '2024-01-01T00:00:00Z',
+    },
+  };
+
+  const renderDialog = (base?: { title: string; content: string }) => render(
+    <PageMergeDialog
+      open
+      onOpenChange={vi.fn()}
+      conflict={conflict}
+      base={base}
+      mine={{ title: 'Plan', content: 'My intro\nMiddle\nEnding' }}
+      onResolve={vi.fn()}
+      onDiscard={vi.fn()}
+    />
+  );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(usePageVersions.usePageVersionByNumber).mockReturnValue(
+      { data: null, isLoading: false } as unknown as ReturnType<typeof usePageVersions.usePageVersionByNumber>
+    );
+  });
+
+  it('merges against the state the editor loaded after the other side coalesced its saves', () => {
+    renderDialog({ title: 'Plan', content: 'Intro\nMiddle\nEnding' });
+
+    expect(usePageVersions.usePageVersionByNumber).toHaveBeenCalledWith('page-1', undefined);
+    expect(screen.getByText(/The changes do not overlap/)).toBeInTheDocument();
+    expect(screen.queryByText(/is no longer stored/)).not.toBeInTheDocument();
+  });
+
+  it('looks up the base version when the editor does not know it', () => {
+    renderDialog();
+
+    expect(usePageVersions.usePageVersionByNumber).toHaveBeenCalledWith('page-1', 3);
+    expect(screen.getByText('Version 3 is no longer stored, so every difference is shown as a conflict.')).toBeInTheDocument();
+  });
+});
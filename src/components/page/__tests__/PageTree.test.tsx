@@ -1,6 +1,7 @@
-import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
 import { PageTree } from '../PageTree';
+import { getCollapsedPageIds } from '@/lib/pageTree';
 import type { PageWithChildren } from '@/types/database';
 
 const mockPages: PageWithChildren[] = [
@@ -54,40 +55,44 @@ const mockPages: PageWithChildren[] = [
 ];
 
 describe('PageTree', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
   it('renders empty state when no pages provided', () => {
-    render(<PageTree pages={[]} />);
+    render(<PageTree notebookId="notebook-1" pages={[]} />);
     expect(screen.getByText(/no pages yet/i)).toBeInTheDocument();
   });
 
   it('renders all root pages', () => {
-    render(<PageTree pages={mockPages} />);
+    render(<PageTree notebookId="notebook-1" pages={mockPages} />);
     expect(screen.getByText('Root Page 1')).toBeInTheDocument();
     expect(screen.getByText('Root Page 2')).toBeInTheDocument();
   });
 
   it('renders child pages', () => {
-    render(<PageTree pages={mockPages} />);
+    render(<PageTree notebookId="notebook-1" pages={mockPages} />);
     expect(screen.getByText('Child Page 1-1')).toBeInTheDocument();
     expect(screen.getByText('Child Page 1-2')).toBeInTheDocument();
   });
 
   it('calls onPageSelect when page is clicked', () => {
     const onPageSelect = vi.fn();
-    render(<PageTree pages={mockPages} onPageSelect={onPageSelect} />);
+    render(<PageTree notebookId="notebook-1" pages={mockPages} onPageSelect={onPageSelect} />);
     
     fireEvent.click(screen.getByText('Root Page 1'));
     expect(onPageSelect).toHaveBeenCalledWith('1');
   });
 
   it('highlights selected page', () => {
-    render(<PageTree pages={mockPages} selectedPageId="1" />);
+    render(<PageTree notebookId="notebook-1" pages={mockPages} selectedPageId="1" />);
     
     const selectedPage = screen.getByText('Root Page 1').closest('div');
     expect(selectedPage).toHaveClass('bg-accent');
   });
 
   it('shows expand/collapse button for pages with children', () => {
-    render(<PageTree pages={mockPages} />);
+    render(<PageTree notebookId="notebook-1" pages={mockPages} />);
     
     // Root Page 1 has children, should have expand button
     const rootPage1 = screen.getByText('Root Page 1').closest('div');
@@ -101,7 +106,7 @@ describe('PageTree', () => {
 
   it('supports drag and drop', () => {
     const onPageMove = vi.fn();
-    render(<PageTree pages={mockPages} onPageMove={onPageMove} />);
+    render(<PageTree notebookId="notebook-1" pages={mockPages} onPageMove={onPageMove} />);
     
     const draggedPage = screen.getByText('Root Page 2').closest('div');
     const dropTarget = screen.getByText('Root Page 1').closest('div');
@@ -128,18 +133,85 @@ describe('PageTree', () => {
   });
 
   it('applies correct indentation for nested pages', () => {
-    render(<PageTree pages={mockPages} />);
+    render(<PageTree notebookId="notebook-1" pages={mockPages} />);
     
     const childPage = screen.getByText('Child Page 1-1').closest('div');
     expect(childPage).toHaveClass('ml-2');
   });
 
   it('shows drag handle on hover', () => {
-    render(<PageTree pages={mockPages} />);
+    render(<PageTree notebookId="notebook-1" pages={mockPages} />);
     
     const page = screen.getByText('Root Page 1').closest('div');
     const dragHandle = page?.querySelector('svg[class*="lucide-grip-vertical"]');
     
     expect(dragHandle).toBeInTheDocument();
   });
+
+  it('remembers collapsed pages for the notebook', () => {
+    const { unmount } = render(<PageTree notebookId="notebook-1" pages={mockPages} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Collapse' }));
+    expect(screen.queryByText('Child Page 1-1')).not.toBeInTheDocument();
+    unmount();
+
+    render(<PageTree notebookId="notebook-1" pages={mockPages} />);
+    expect(screen.queryByText('Child Page 1-1')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Expand' })).toBeInTheDocument();
+  });
+
+  it('remembers collapsed pages for a notebook that starts out empty', () => {
+    const { rerender } = render(<PageTree notebookId="notebook-2" pages={[]} />);
+    rerender(<PageTree notebookId="notebook-2" pages={mockPages} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Collapse' }));
+
+    expect(getCollapsedPageIds('notebook-2')).toEqual(new Set(['1']));
+  });
+
+  it('expands the pages above the selected page', () => {
+    const { rerender } = render(<PageTree notebookId="notebook-1" pages={mockPages} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Collapse' }));
+    expect(screen.queryByText('Child Page 1-2')).not.toBeInTheDocument();
+
+    rerender(<PageTree notebookId="notebook-1" pages={mockPages} selectedPageId="1-2" />);
+
+    expect(screen.getByText('Child Page 1-2')).toBeInTheDocument();
+  });
+
+  it('supports keyboard navigation', () => {
+    const onPageSelect = vi.fn();
+    render(<PageTree notebookId="notebook-1" pages={mockPages} onPageSelect={onPageSelect} />);
+    const tree = screen.getByRole('tree');
+
+    act(() => tree.focus());
+    fireEvent.keyDown(tree, { key: 'ArrowDown' });
+    fireEvent.keyDown(tree, { key: 'Enter' });
+    expect(onPageSelect).toHaveBeenLastCalledWith('1-1');
+
+    // Left moves to the parent, then collapses it
+    fireEvent.keyDown(tree, { key: 'ArrowLeft' });
+    fireEvent.keyDown(tree, { key: 'ArrowLeft' });
+    expect(screen.queryByText('Child Page 1-1')).not.toBeInTheDocument();
+
+    fireEvent.keyDown(tree, { key: 'ArrowRight' });
+    expect(screen.getByText('Child Page 1-1')).toBeInTheDocument();
+
+    fireEvent.keyDown(tree, { key: 'End' });
+    fireEvent.keyDown(tree, { key: 'Enter' });
+    expect(onPageSelect).toHaveBeenLastCalledWith('2');
+  });
+
+  it('only renders the rows in view', () => {
+    const pages = Array.from({ length: 1000 }, (_, i) => ({
+      ...mockPages[1],
+      id: `page-${i}`,
+      title: `Page ${i}`,
+    }));
+    render(<PageTree notebookId="notebook-1" pages={pages} />);
+
+    expect(screen.getByText('Page 0')).toBeInTheDocument();
+    expect(screen.queryByText('Page 999')).not.toBeInTheDocument();
+    expect(screen.getAllByRole('treeitem').length).toBeLessThan(100);
+  });
 });
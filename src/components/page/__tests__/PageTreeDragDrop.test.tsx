@@ -44,7 +44,7 @@ const mockPages: PageWithChildren[] = [
 describe('PageTree Drag and Drop', () => {
   it('should handle dropping as a sibling (before)', () => {
     const onPageMove = vi.fn();
-    render(<PageTree pages={mockPages} onPageMove={onPageMove} />);
+    render(<PageTree notebookId="nb1" pages={mockPages} onPageMove={onPageMove} />);
 
     const childPageTitle = screen.getByText('Child Page');
     const draggableRow = childPageTitle.parentElement!;
@@ -79,12 +79,12 @@ describe('PageTree Drag and Drop', () => {
     fireEvent(draggableRow, dropEvent);
 
     // Expect 'Sibling Page' (3) to become sibling of 'Child Page' (2), so new parent is '1'
-    expect(onPageMove).toHaveBeenCalledWith('3', '1', 'before');
+    expect(onPageMove).toHaveBeenCalledWith('3', '1', 'before', '2');
   });
 
   it('should handle dropping as a sibling (after)', () => {
     const onPageMove = vi.fn();
-    render(<PageTree pages={mockPages} onPageMove={onPageMove} />);
+    render(<PageTree notebookId="nb1" pages={mockPages} onPageMove={onPageMove} />);
 
     const childPageTitle = screen.getByText('Child Page');
     const draggableRow = childPageTitle.parentElement!;
@@ -119,12 +119,12 @@ describe('PageTree Drag and Drop', () => {
     fireEvent(draggableRow, dropEvent);
 
     // Expect 'Sibling Page' (3) to become sibling of 'Child Page' (2)
-    expect(onPageMove).toHaveBeenCalledWith('3', '1', 'after');
+    expect(onPageMove).toHaveBeenCalledWith('3', '1', 'after', '2');
   });
 
   it('should handle dropping as a child', () => {
     const onPageMove = vi.fn();
-    render(<PageTree pages={mockPages} onPageMove={onPageMove} />);
+    render(<PageTree notebookId="nb1" pages={mockPages} onPageMove={onPageMove} />);
 
     const parentPageTitle = screen.getByText('Parent Page');
     const draggableRow = parentPageTitle.parentElement!;
@@ -160,7 +160,7 @@ describe('PageTree Drag and Drop', () => {
 
     // Expect 'Sibling Page' (3) to become child of 'Parent Page' (1)
     // When position is 'child', the newParentId is the target page ID itself (1)
-    // The onPageMove signature is (pageId, newParentId, position)
+    // The onPageMove signature is (pageId, newParentId, position, targetPageId)
     // But wait, look at PageTree logic for 'child' position:
     // if (position === 'child') { onPageMove?.(draggedId, targetPageId); }
     // It calls with 2 arguments!
@@ -1,7 +1,14 @@
 export { PageCreator } from './PageCreator';
 export { PageEditor } from './PageEditor';
+export { PageMergeDialog } from './PageMergeDialog';
 export { PageDeleteDialog } from './PageDeleteDialog';
 export { PageMoveDialog } from './PageMoveDialog';
+export { PageDuplicateDialog } from './PageDuplicateDialog';
+export { PageParentSelect } from './PageParentSelect';
 export { PageTree } from './PageTree';
+export { PageSyncBadge } from './PageSyncBadge';
+export { PageBacklinks } from './PageBacklinks';
+export { PagePropertiesPanel } from './PagePropertiesPanel';
+export { PagePropertyValues, PropertyValue } from './PagePropertyValues';
 export { VersionHistory } from './VersionHistory';
 export { VersionComparison } from './VersionComparison';
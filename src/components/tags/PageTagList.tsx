@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Hash, Plus, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { useAddPageTag, usePageTags, useRemovePageTag } from '../../hooks/useTags';
+
+interface PageTagListProps {
+  pageId: string;
+}
+
+/**
+ * Tags of a page, with adding to and removing from its own tag list.
+ * Tags written as #tag in the content are shown but edited in the content.
+ */
+export function PageTagList({ pageId }: PageTagListProps) {
+  const navigate = useNavigate();
+  const { data: tags = [] } = usePageTags(pageId);
+  const addTag = useAddPageTag();
+  const removeTag = useRemovePageTag();
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState('');
+
+  const handleAdd = async () => {
+    if (!name.trim()) {
+      setIsAdding(false);
+      return;
+    }
+
+    try {
+      await addTag.mutateAsync({ pageId, name });
+      setName('');
+      setIsAdding(false);
+    } catch (error) {
+      console.error('Failed to add tag:', error);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleAdd();
+    } else if (e.key === 'Escape') {
+      setName('');
+      setIsAdding(false);
+      addTag.reset();
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {tags.map(tag => (
+        <span
+          key={tag.name}
+          className="inline-flex items-center gap-1 rounded-full bg-secondary px-2 py-0.5 text-xs font-medium text-secondary-foreground"
+          title={tag.source === 'content' ? 'Tagged in the page content' : undefined}
+        >
+          <button
+            className="inline-flex items-center hover:underline"
+            onClick={() => navigate(`/tags?tags=${encodeURIComponent(tag.name)}`)}
+          >
+            <Hash className="h-3 w-3" />
+            {tag.name}
+          </button>
+          {tag.source === 'manual' && (
+            <button
+              className="rounded-full hover:text-destructive"
+              onClick={() => removeTag.mutate({ pageId, name: tag.name })}
+              aria-label={`Remove tag ${tag.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      ))}
+
+      {isAdding ? (
+        <Input
+          autoFocus
+          value={name}
+          onChange={e => setName(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={handleAdd}
+          placeholder="tag-name"
+          className="h-6 w-32 text-xs"
+          disabled={addTag.isPending}
+          aria-label="New tag"
+        />
+      ) : (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs text-muted-foreground"
+          onClick={() => setIsAdding(true)}
+        >
+          <Plus className="mr-1 h-3 w-3" />
+          Add tag
+        </Button>
+      )}
+
+      {addTag.error && <span className="text-xs text-destructive">{addTag.error.message}</span>}
+    </div>
+  );
+}
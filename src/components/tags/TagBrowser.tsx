@@ -0,0 +1,77 @@
+import { useState } from 'react';
+import { Hash, Loader2 } from 'lucide-react';
+import { Input } from '../ui/input';
+import { cn } from '../../lib/utils';
+import { useTags } from '../../hooks/useTags';
+
+const FILTER_THRESHOLD = 10; // Tag lists longer than this get a filter box
+
+interface TagBrowserProps {
+  selectedTags?: string[];
+  onTagClick: (tag: string) => void;
+  className?: string;
+}
+
+/**
+ * Every tag in use with its number of pages, most used first
+ */
+export function TagBrowser({ selectedTags = [], onTagClick, className }: TagBrowserProps) {
+  const { data: tags = [], isLoading, error } = useTags();
+  const [filter, setFilter] = useState('');
+
+  const visibleTags = filter
+    ? tags.filter(tag => tag.name.includes(filter.trim().replace(/^#/, '').toLowerCase()))
+    : tags;
+
+  if (isLoading) {
+    return (
+      <div className={cn('flex items-center gap-2 py-2 text-sm text-muted-foreground', className)}>
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading tags...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className={cn('py-2 text-sm text-destructive', className)}>Failed to load tags: {error.message}</p>;
+  }
+
+  if (tags.length === 0) {
+    return (
+      <p className={cn('py-2 text-sm text-muted-foreground', className)}>
+        No tags yet. Write #tag in a page or add tags to it.
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {tags.length > FILTER_THRESHOLD && (
+        <Input
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+          placeholder="Filter tags..."
+          className="h-8"
+        />
+      )}
+      <ul className="space-y-0.5">
+        {visibleTags.map(tag => (
+          <li key={tag.name}>
+            <button
+              className={cn(
+                'flex w-full items-center gap-2 rounded-md px-2 py-1 text-left text-sm transition-colors',
+                selectedTags.includes(tag.name) ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+              )}
+              onClick={() => onTagClick(tag.name)}
+              aria-pressed={selectedTags.includes(tag.name)}
+            >
+              <Hash className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" />
+              <span className="flex-1 truncate">{tag.name}</span>
+              <span className="text-xs text-muted-foreground">{tag.count}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, FileText, Hash, Loader2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { TagBrowser } from './TagBrowser';
+import { useNotebooks } from '../../hooks/useNotebooks';
+import { useAllPages } from '../../hooks/usePages';
+import type { NotebookData, TagMatchMode } from '../../types/database';
+
+/**
+ * Tag screen: pick tags from the tag browser and list the pages carrying
+ * all or any of them. The selection lives in the URL (`/tags?tags=a,b&mode=any`).
+ */
+export function TagView() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const selectedTags = useMemo(
+    () => (searchParams.get('tags') || '').split(',').filter(Boolean),
+    [searchParams]
+  );
+  const tagMode: TagMatchMode = searchParams.get('mode') === 'any' ? 'any' : 'all';
+
+  const { data: notebooks } = useNotebooks() as { data: NotebookData[] | undefined };
+  const { data: pages, isLoading, error } = useAllPages(
+    { tags: selectedTags, tagMode, sortBy: 'title', sortOrder: 'asc' },
+    selectedTags.length > 0
+  );
+
+  const notebookTitles = useMemo(
+    () => new Map((notebooks || []).map(notebook => [notebook.id, notebook.title])),
+    [notebooks]
+  );
+  // Pages of notebooks in the trash are left out
+  const visiblePages = (pages || []).filter(page => notebookTitles.has(page.notebook_id));
+
+  const updateParams = (tags: string[], mode: TagMatchMode) => {
+    const params: Record<string, string> = {};
+    if (tags.length > 0) params.tags = tags.join(',');
+    if (mode === 'any') params.mode = mode;
+    setSearchParams(params);
+  };
+
+  const toggleTag = (tag: string) => {
+    updateParams(
+      selectedTags.includes(tag) ? selectedTags.filter(selected => selected !== tag) : [...selectedTags, tag],
+      tagMode
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="sm" onClick={() => navigate('/notebooks')}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back
+        </Button>
+        <div className="flex items-center gap-3">
+          <Hash className="h-6 w-6 text-primary" />
+          <h1 className="text-2xl font-bold">Tags</h1>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
+        <Card className="lg:col-span-1">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">All tags</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TagBrowser selectedTags={selectedTags} onTagClick={toggleTag} />
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3">
+          <CardHeader className="pb-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <CardTitle className="text-base">
+                  {selectedTags.length > 0
+                    ? selectedTags.map(tag => `#${tag}`).join(tagMode === 'all' ? ' and ' : ' or ')
+                    : 'No tags selected'}
+                </CardTitle>
+                <CardDescription>
+                  {selectedTags.length > 0
+                    ? `${visiblePages.length} page${visiblePages.length === 1 ? '' : 's'}`
+                    : 'Pick one or more tags to list their pages.'}
+                </CardDescription>
+              </div>
+              {selectedTags.length > 1 && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant={tagMode === 'all' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => updateParams(selectedTags, 'all')}
+                    aria-pressed={tagMode === 'all'}
+                  >
+                    Match all
+                  </Button>
+                  <Button
+                    variant={tagMode === 'any' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => updateParams(selectedTags, 'any')}
+                    aria-pressed={tagMode === 'any'}
+                  >
+                    Match any
+                  </Button>
+                </div>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {selectedTags.length === 0 ? null : isLoading ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading pages...
+              </div>
+            ) : error ? (
+              <p className="text-sm text-destructive">Failed to load pages: {error.message}</p>
+            ) : visiblePages.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No pages have these tags.</p>
+            ) : (
+              <ul className="space-y-1">
+                {visiblePages.map(page => (
+                  <li key={page.id}>
+                    <button
+                      className="flex w-full items-center gap-2 rounded-md px-3 py-2 text-left transition-colors hover:bg-accent/50"
+                      onClick={() => navigate(`/notebooks/${page.notebook_id}/pages/${page.id}`)}
+                    >
+                      <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                      <span className="truncate text-sm font-medium">{page.title || 'Untitled'}</span>
+                      <span className="truncate text-xs text-muted-foreground">
+                        {notebookTitles.get(page.notebook_id)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
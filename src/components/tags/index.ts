@@ -0,0 +1,3 @@
+export { TagBrowser } from './TagBrowser';
+export { PageTagList } from './PageTagList';
+export { TagView } from './TagView';
@@ -0,0 +1,255 @@
+import { useState } from 'react';
+import { BookOpen, FileText, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog';
+import {
+  useEmptyTrash,
+  usePurgeTrashItem,
+  useRestoreNotebook,
+  useRestorePage,
+  useTrash,
+} from '../../hooks/useTrash';
+import { getTrashRetentionDays, setTrashRetentionDays } from '../../lib/trash';
+
+const RETENTION_OPTIONS = [7, 30, 90, 365];
+
+type PendingPurge =
+  | { type: 'notebook' | 'page'; id: string; title: string }
+  | { type: 'all' };
+
+function formatDate(dateString: string) {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(dateString));
+}
+
+function TrashRow({
+  icon,
+  title,
+  details,
+  onRestore,
+  onPurge,
+  isRestoring,
+}: {
+  icon: React.ReactNode;
+  title: string;
+  details: string;
+  onRestore: () => void;
+  onPurge: () => void;
+  isRestoring: boolean;
+}) {
+  return (
+    <div className="flex items-center gap-3 rounded-md border p-3">
+      {icon}
+      <div className="flex-1 min-w-0">
+        <div className="font-medium truncate">{title || 'Untitled'}</div>
+        <div className="text-xs text-muted-foreground truncate">{details}</div>
+      </div>
+      <Button type="button" variant="outline" size="sm" onClick={onRestore} disabled={isRestoring}>
+        {isRestoring
+          ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          : <RotateCcw className="mr-2 h-4 w-4" />}
+        Restore
+      </Button>
+      <Button type="button" variant="ghost" size="sm" onClick={onPurge} title="Delete forever">
+        <Trash2 className="h-4 w-4 text-destructive" />
+      </Button>
+    </div>
+  );
+}
+
+export function TrashView() {
+  const { data: trash, isLoading, error } = useTrash();
+  const restorePage = useRestorePage();
+  const restoreNotebook = useRestoreNotebook();
+  const purgeItem = usePurgeTrashItem();
+  const emptyTrash = useEmptyTrash();
+
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays);
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null);
+
+  const isEmpty = !trash || (trash.notebooks.length === 0 && trash.pages.length === 0);
+  const isPurging = purgeItem.isPending || emptyTrash.isPending;
+
+  const handleRetentionChange = (value: string) => {
+    const days = Number(value);
+    setTrashRetentionDays(days);
+    setRetentionDays(days);
+  };
+
+  const handleRestorePage = async (pageId: string) => {
+    try {
+      await restorePage.mutateAsync(pageId);
+    } catch (error) {
+      console.error('Failed to restore page:', error);
+    }
+  };
+
+  const handleRestoreNotebook = async (notebookId: string) => {
+    try {
+      await restoreNotebook.mutateAsync(notebookId);
+    } catch (error) {
+      console.error('Failed to restore notebook:', error);
+    }
+  };
+
+  const handleConfirmPurge = async () => {
+    if (!pendingPurge) return;
+
+    try {
+      if (pendingPurge.type === 'all') {
+        if (trash) {
+          await emptyTrash.mutateAsync(trash);
+        }
+      } else {
+        await purgeItem.mutateAsync({ type: pendingPurge.type, id: pendingPurge.id });
+      }
+      setPendingPurge(null);
+    } catch (error) {
+      console.error('Failed to delete from trash:', error);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-3xl mx-auto">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <div className="flex items-center gap-2">
+              <Trash2 className="h-6 w-6 text-primary" />
+              <CardTitle>Trash</CardTitle>
+            </div>
+            <CardDescription>
+              {retentionDays > 0
+                ? `Deleted notebooks and pages are permanently deleted after ${retentionDays} days.`
+                : 'Deleted notebooks and pages are kept until you empty the trash.'}
+            </CardDescription>
+          </div>
+          <Button
+            type="button"
+            variant="destructive"
+            size="sm"
+            onClick={() => setPendingPurge({ type: 'all' })}
+            disabled={isEmpty || isPurging}
+          >
+            Empty Trash
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-2 text-sm">
+          <span>Keep deleted items for</span>
+          <Select value={String(retentionDays)} onValueChange={handleRetentionChange}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RETENTION_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+              ))}
+              <SelectItem value="0">forever</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-destructive">Failed to load the trash</p>
+        )}
+
+        {!isLoading && !error && isEmpty && (
+          <p className="py-8 text-center text-sm text-muted-foreground">The trash is empty</p>
+        )}
+
+        {trash && trash.notebooks.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Notebooks</h3>
+            {trash.notebooks.map(notebook => (
+              <TrashRow
+                key={notebook.id}
+                icon={<BookOpen className="h-5 w-5 text-primary flex-shrink-0" />}
+                title={notebook.title}
+                details={`Deleted ${formatDate(notebook.deleted_at!)} · all pages included`}
+                onRestore={() => handleRestoreNotebook(notebook.id)}
+                onPurge={() => setPendingPurge({ type: 'notebook', id: notebook.id, title: notebook.title })}
+                isRestoring={restoreNotebook.isPending && restoreNotebook.variables === notebook.id}
+              />
+            ))}
+          </div>
+        )}
+
+        {trash && trash.pages.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Pages</h3>
+            {trash.pages.map(page => (
+              <TrashRow
+                key={page.id}
+                icon={<FileText className="h-5 w-5 text-muted-foreground flex-shrink-0" />}
+                title={page.title}
+                details={[
+                  `In ${page.notebook_title}`,
+                  `Deleted ${formatDate(page.deleted_at)}`,
+                  page.descendant_count > 0 &&
+                    `${page.descendant_count} subpage${page.descendant_count === 1 ? '' : 's'}`,
+                ].filter(Boolean).join(' · ')}
+                onRestore={() => handleRestorePage(page.id)}
+                onPurge={() => setPendingPurge({ type: 'page', id: page.id, title: page.title })}
+                isRestoring={restorePage.isPending && restorePage.variables === page.id}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingPurge} onOpenChange={(open) => !open && setPendingPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingPurge?.type === 'all' ? 'Empty Trash' : 'Delete Forever'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingPurge?.type === 'all'
+                ? 'Everything in the trash will be permanently deleted. This action cannot be undone.'
+                : `"${pendingPurge?.title}" will be permanently deleted${
+                    pendingPurge?.type === 'notebook' ? ' with all its pages' : ' with its subpages'
+                  }. This action cannot be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPurging}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirmPurge();
+              }}
+              disabled={isPurging}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isPurging ? 'Deleting...' : 'Delete Forever'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,361 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { ArrowLeft, FolderTree, Kanban, Loader2, MoreVertical, Pencil, Save, Table2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { PropertyFilterBar } from './PropertyFilterBar';
+import { PageTableView } from './PageTableView';
+import { PageBoardView } from './PageBoardView';
+import { useNotebook, useUpdateNotebook } from '@/hooks/useNotebooks';
+import { usePages, useUpdatePage } from '@/hooks/usePages';
+import {
+  collectPropertyColumns,
+  collectPropertyOptions,
+  createNotebookView,
+  findGroupableProperties,
+  getActiveViewFilters,
+  saveNotebookView,
+  setGroupValue,
+} from '@/lib/notebookViews';
+import type { NotebookData, NotebookView, NotebookViewType, PageData, PageProperty } from '@/types/database';
+
+interface NotebookViewsProps {
+  notebookId: string;
+  type?: NotebookViewType; // Layout of the unsaved view shown when no view is given
+  viewId?: string; // Saved view to show
+}
+
+const VIEW_ICONS = { table: Table2, board: Kanban };
+const DEFAULT_GROUP_BY = 'status';
+
+/**
+ * Table and board views of a notebook's pages, with filters, sorting and
+ * saved views. Key it by the route so each view starts from its own settings.
+ */
+export function NotebookViews({ notebookId, type = 'table', viewId }: NotebookViewsProps) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const updateNotebook = useUpdateNotebook();
+  const updatePage = useUpdatePage();
+
+  const { data: notebook, isLoading: notebookLoading } = useNotebook(notebookId) as {
+    data: NotebookData | null | undefined;
+    isLoading: boolean;
+  };
+  const savedView = viewId ? notebook?.views?.find(candidate => candidate.id === viewId) : undefined;
+  const defaultView = useMemo(() => createNotebookView(type, type === 'table' ? 'Table' : 'Board', ''), [type]);
+
+  // Edits to the view not saved yet
+  const [draft, setDraft] = useState<NotebookView | null>(null);
+  const view = draft ?? savedView ?? defaultView;
+  const hasUnsavedChanges = !!savedView && !!draft && JSON.stringify(draft) !== JSON.stringify(savedView);
+
+  const [nameDialog, setNameDialog] = useState<'create' | 'rename' | null>(null);
+  const [viewName, setViewName] = useState('');
+  // Board moves shown while they are saved
+  const [pendingMoves, setPendingMoves] = useState<Record<string, PageProperty[]>>({});
+  const [moveError, setMoveError] = useState<string | null>(null);
+
+  const { data: allPages = [] } = usePages(notebookId);
+  const activeFilters = useMemo(() => getActiveViewFilters(view.filters), [view.filters]);
+  const { data: pages, isLoading: pagesLoading, error: pagesError } = usePages(notebookId, activeFilters);
+
+  // Keep showing the last result while changed filters load
+  const [shownPages, setShownPages] = useState<PageData[] | undefined>(pages);
+  useEffect(() => {
+    if (pages) setShownPages(pages);
+  }, [pages]);
+
+  const columns = useMemo(() => collectPropertyColumns(allPages), [allPages]);
+  const groupableProperties = useMemo(() => findGroupableProperties(allPages), [allPages]);
+  const groupBy = view.groupBy
+    ?? groupableProperties.find(name => name.toLowerCase() === DEFAULT_GROUP_BY)
+    ?? groupableProperties[0]
+    ?? null;
+  const groupOptions = useMemo(() => (groupBy ? collectPropertyOptions(allPages, groupBy) : []), [allPages, groupBy]);
+
+  const visiblePages = (shownPages || []).map(page => (
+    pendingMoves[page.id] ? { ...page, properties: pendingMoves[page.id] } : page
+  ));
+
+  const updateView = (changes: Partial<NotebookView>) => {
+    setDraft({ ...view, ...changes });
+  };
+
+  const openPage = (page: PageData) => navigate(`/notebooks/${notebookId}/pages/${page.id}`);
+
+  const handleMovePage = async (page: PageData, value: string | null) => {
+    if (!groupBy) return;
+
+    const properties = setGroupValue(page.properties, groupBy, value, groupOptions);
+    setPendingMoves(current => ({ ...current, [page.id]: properties }));
+    setMoveError(null);
+
+    try {
+      await updatePage.mutateAsync({ id: page.id, properties, createVersion: false });
+      await queryClient.invalidateQueries({ queryKey: ['pages', notebookId] });
+    } catch (error) {
+      console.error('Failed to move page:', error);
+      setMoveError(`Failed to move "${page.title || 'Untitled'}". Please try again.`);
+    } finally {
+      setPendingMoves(current => {
+        const next = { ...current };
+        delete next[page.id];
+        return next;
+      });
+    }
+  };
+
+  const saveViews = async (views: NotebookView[]) => {
+    await updateNotebook.mutateAsync({ id: notebookId, views });
+  };
+
+  const handleSave = async () => {
+    if (!savedView) return;
+    try {
+      await saveViews(saveNotebookView(notebook?.views, view));
+      setDraft(null);
+    } catch (error) {
+      console.error('Failed to save view:', error);
+    }
+  };
+
+  const handleNameSubmit = async () => {
+    const name = viewName.trim();
+    if (!name) return;
+
+    try {
+      if (nameDialog === 'rename' && savedView) {
+        await saveViews(saveNotebookView(notebook?.views, { ...savedView, name }));
+        setDraft(draft ? { ...draft, name } : null);
+      } else {
+        // A board keeps the grouping it shows, even when it was picked automatically
+        const created = { ...view, id: crypto.randomUUID(), name, groupBy: view.type === 'board' ? groupBy : view.groupBy };
+        await saveViews(saveNotebookView(notebook?.views, created));
+        navigate(`/notebooks/${notebookId}/views/${created.id}`);
+      }
+      setNameDialog(null);
+    } catch (error) {
+      console.error('Failed to save view:', error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!savedView || !window.confirm(`Delete the view "${savedView.name}"? Pages are not affected.`)) return;
+
+    try {
+      await saveViews((notebook?.views || []).filter(candidate => candidate.id !== savedView.id));
+      navigate(`/notebooks/${notebookId}/${savedView.type}`);
+    } catch (error) {
+      console.error('Failed to delete view:', error);
+    }
+  };
+
+  const openNameDialog = (mode: 'create' | 'rename') => {
+    setViewName(mode === 'rename' ? view.name : '');
+    setNameDialog(mode);
+  };
+
+  if (notebookLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        Loading notebook...
+      </div>
+    );
+  }
+
+  if (!notebook) {
+    return <p className="py-12 text-center text-destructive">Notebook not found.</p>;
+  }
+
+  if (viewId && !savedView) {
+    return (
+      <div className="space-y-4 py-12 text-center">
+        <p className="text-muted-foreground">This view no longer exists.</p>
+        <Button variant="outline" onClick={() => navigate(`/notebooks/${notebookId}/table`)}>
+          Open the table view
+        </Button>
+      </div>
+    );
+  }
+
+  const switcherItems: Array<{ key: string; label: string; icon: typeof Table2; path: string; active: boolean }> = [
+    { key: 'table', label: 'Table', icon: Table2, path: `/notebooks/${notebookId}/table`, active: !viewId && type === 'table' },
+    { key: 'board', label: 'Board', icon: Kanban, path: `/notebooks/${notebookId}/board`, active: !viewId && type === 'board' },
+    ...(notebook.views || []).map(saved => ({
+      key: saved.id,
+      label: saved.name,
+      icon: VIEW_ICONS[saved.type],
+      path: `/notebooks/${notebookId}/views/${saved.id}`,
+      active: saved.id === viewId,
+    })),
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="sm" onClick={() => navigate(`/notebooks/${notebookId}`)}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">{notebook.title}</h1>
+            <p className="text-sm text-muted-foreground">
+              {view.name}
+              {hasUnsavedChanges && ' • Unsaved changes'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {savedView ? (
+            <>
+              <Button onClick={handleSave} disabled={!hasUnsavedChanges || updateNotebook.isPending}>
+                {updateNotebook.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save view
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="icon" title="View options">
+                    <MoreVertical className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => openNameDialog('rename')}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Rename view
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => openNameDialog('create')}>
+                    <Save className="mr-2 h-4 w-4" />
+                    Save as new view
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={handleDelete} className="text-destructive focus:text-destructive">
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete view
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </>
+          ) : (
+            <Button onClick={() => openNameDialog('create')}>
+              <Save className="mr-2 h-4 w-4" />
+              Save view
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <nav className="flex flex-wrap items-center gap-1 border-b pb-2" aria-label="Notebook views">
+        <Button variant="ghost" size="sm" onClick={() => navigate(`/notebooks/${notebookId}`)}>
+          <FolderTree className="mr-2 h-4 w-4" />
+          Pages
+        </Button>
+        {switcherItems.map(item => (
+          <Button
+            key={item.key}
+            variant={item.active ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => navigate(item.path)}
+            aria-current={item.active ? 'page' : undefined}
+          >
+            <item.icon className="mr-2 h-4 w-4" />
+            {item.label}
+          </Button>
+        ))}
+      </nav>
+
+      <Card>
+        <CardContent className="space-y-4 pt-6">
+          <PropertyFilterBar
+            filters={view.filters}
+            columns={columns}
+            onChange={filters => updateView({ filters })}
+          />
+
+          {moveError && <p className="text-sm text-destructive">{moveError}</p>}
+
+          {pagesError ? (
+            <p className="text-sm text-destructive">Failed to load pages: {pagesError.message}</p>
+          ) : pagesLoading && !shownPages ? (
+            <div className="flex items-center gap-2 py-8 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading pages...
+            </div>
+          ) : view.type === 'table' ? (
+            <PageTableView
+              pages={visiblePages}
+              columns={columns}
+              hiddenColumns={view.hiddenColumns || []}
+              filters={view.filters}
+              onSortChange={sort => updateView({ filters: { ...view.filters, ...sort } })}
+              onHiddenColumnsChange={hiddenColumns => updateView({ hiddenColumns })}
+              onOpenPage={openPage}
+            />
+          ) : (
+            <PageBoardView
+              pages={visiblePages}
+              groupBy={groupBy}
+              groupableProperties={groupableProperties}
+              options={groupOptions}
+              onGroupByChange={name => updateView({ groupBy: name })}
+              onMovePage={handleMovePage}
+              onOpenPage={openPage}
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={nameDialog !== null} onOpenChange={open => !open && setNameDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{nameDialog === 'rename' ? 'Rename view' : 'Save view'}</DialogTitle>
+            <DialogDescription>
+              Saved views keep their filters, sorting{view.type === 'table' ? ' and columns' : ' and grouping'} and are
+              listed next to the table and board of this notebook.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            autoFocus
+            value={viewName}
+            onChange={e => setViewName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleNameSubmit()}
+            placeholder="e.g. Open tasks"
+            maxLength={100}
+            aria-label="View name"
+          />
+          {updateNotebook.error && (
+            <p className="text-sm text-destructive">Failed to save the view: {updateNotebook.error.message}</p>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleNameSubmit} disabled={!viewName.trim() || updateNotebook.isPending}>
+              {updateNotebook.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { FileText } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PropertyValue } from '@/components/page/PagePropertyValues';
+import { cn } from '@/lib/utils';
+import { isEmptyPropertyValue } from '@/lib/pageProperties';
+import { getBoardGroups } from '@/lib/notebookViews';
+import type { PageData } from '@/types/database';
+
+interface PageBoardViewProps {
+  pages: PageData[];
+  groupBy: string | null;
+  groupableProperties: string[];
+  options: string[]; // Options of the group property across the notebook
+  onGroupByChange: (groupBy: string) => void;
+  onMovePage: (page: PageData, value: string | null) => void;
+  onOpenPage: (page: PageData) => void;
+}
+
+const MAX_CARD_PROPERTIES = 3;
+
+/**
+ * Kanban board with a column per option of a select property.
+ * Drag a card to another column to change the page's property.
+ */
+export function PageBoardView({
+  pages,
+  groupBy,
+  groupableProperties,
+  options,
+  onGroupByChange,
+  onMovePage,
+  onOpenPage,
+}: PageBoardViewProps) {
+  const [draggedPageId, setDraggedPageId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  if (!groupBy) {
+    return (
+      <div className="rounded-md border px-4 py-8 text-center text-sm text-muted-foreground">
+        {groupableProperties.length > 0
+          ? 'Pick a select property to group the board by.'
+          : 'Add a select property, such as Status, to pages of this notebook to see them on a board.'}
+        {groupableProperties.length > 0 && (
+          <div className="mt-4 flex justify-center">
+            <Select onValueChange={onGroupByChange}>
+              <SelectTrigger className="h-8 w-[200px]" aria-label="Group by">
+                <SelectValue placeholder="Group by..." />
+              </SelectTrigger>
+              <SelectContent>
+                {groupableProperties.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const groups = getBoardGroups(pages, groupBy, options);
+  const groupKey = (value: string | null) => value ?? '';
+
+  const handleDrop = (e: React.DragEvent, value: string | null) => {
+    e.preventDefault();
+    const page = pages.find(candidate => candidate.id === (draggedPageId || e.dataTransfer.getData('text/plain')));
+    setDraggedPageId(null);
+    setDropTarget(null);
+    if (page && !groups.find(group => group.value === value)?.pages.includes(page)) {
+      onMovePage(page, value);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-end gap-2 text-sm text-muted-foreground">
+        Group by
+        <Select value={groupBy} onValueChange={onGroupByChange}>
+          <SelectTrigger className="h-8 w-[180px]" aria-label="Group by">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {!groupableProperties.includes(groupBy) && <SelectItem value={groupBy}>{groupBy}</SelectItem>}
+            {groupableProperties.map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {groups.map(group => (
+          <div
+            key={groupKey(group.value)}
+            className={cn(
+              'flex w-72 flex-shrink-0 flex-col rounded-lg border bg-muted/30',
+              dropTarget === groupKey(group.value) && 'border-primary bg-primary/5'
+            )}
+            onDragOver={e => {
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'move';
+              setDropTarget(groupKey(group.value));
+            }}
+            onDragLeave={e => {
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+            }}
+            onDrop={e => handleDrop(e, group.value)}
+            data-testid={`board-column-${groupKey(group.value) || 'none'}`}
+          >
+            <div className="flex items-center justify-between px-3 py-2 text-sm font-medium">
+              <span className={cn('truncate', group.value === null && 'text-muted-foreground')}>
+                {group.value ?? `No ${groupBy}`}
+              </span>
+              <span className="text-xs text-muted-foreground">{group.pages.length}</span>
+            </div>
+            <div className="flex min-h-[4rem] flex-1 flex-col gap-2 px-2 pb-2">
+              {group.pages.map(page => {
+                const shown = (page.properties || [])
+                  .filter(property => property.name.toLowerCase() !== groupBy.toLowerCase())
+                  .filter(property => property.type !== 'checkbox' && !isEmptyPropertyValue(property.value))
+                  .slice(0, MAX_CARD_PROPERTIES);
+
+                return (
+                  <div
+                    key={page.id}
+                    draggable
+                    onDragStart={e => {
+                      e.dataTransfer.setData('text/plain', page.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggedPageId(page.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedPageId(null);
+                      setDropTarget(null);
+                    }}
+                    onClick={() => onOpenPage(page)}
+                    className={cn(
+                      'cursor-pointer rounded-md border bg-background p-3 text-sm shadow-sm transition-colors hover:bg-accent/50',
+                      draggedPageId === page.id && 'opacity-50'
+                    )}
+                  >
+                    <div className="flex items-center gap-2 font-medium">
+                      <FileText className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                      <span className="truncate">{page.title || 'Untitled'}</span>
+                    </div>
+                    {shown.length > 0 && (
+                      <dl className="mt-2 space-y-1 text-xs">
+                        {shown.map(property => (
+                          <div key={property.name} className="flex gap-2">
+                            <dt className="w-20 flex-shrink-0 truncate text-muted-foreground">{property.name}</dt>
+                            <dd className="min-w-0">
+                              <PropertyValue property={property} />
+                            </dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
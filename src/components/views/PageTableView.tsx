@@ -0,0 +1,196 @@
+import { ArrowDown, ArrowUp, Columns3 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { PropertyValue } from '@/components/page/PagePropertyValues';
+import { getPageProperty } from '@/lib/pageProperties';
+import type { PropertyColumn } from '@/lib/notebookViews';
+import type { NotebookViewFilters, PageData } from '@/types/database';
+
+type BuiltInColumn = 'created_at' | 'updated_at' | 'version';
+
+interface PageTableViewProps {
+  pages: PageData[];
+  columns: PropertyColumn[];
+  hiddenColumns: string[];
+  filters: NotebookViewFilters;
+  onSortChange: (sort: Pick<NotebookViewFilters, 'sortBy' | 'sortByProperty' | 'sortOrder'>) => void;
+  onHiddenColumnsChange: (hiddenColumns: string[]) => void;
+  onOpenPage: (page: PageData) => void;
+}
+
+const BUILT_IN_COLUMNS: Array<{ key: BuiltInColumn; label: string }> = [
+  { key: 'created_at', label: 'Created' },
+  { key: 'updated_at', label: 'Updated' },
+  { key: 'version', label: 'Version' },
+];
+
+function formatBuiltIn(page: PageData, key: BuiltInColumn): string {
+  return key === 'version' ? String(page.version) : new Date(page[key]).toLocaleString();
+}
+
+interface SortHeaderProps {
+  label: string;
+  active: boolean;
+  order: 'asc' | 'desc';
+  onClick: () => void;
+}
+
+function SortHeader({ label, active, order, onClick }: SortHeaderProps) {
+  const Icon = order === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <th className="whitespace-nowrap px-3 py-2 text-left font-medium" aria-sort={active ? (order === 'asc' ? 'ascending' : 'descending') : 'none'}>
+      <button className="inline-flex items-center gap-1 hover:text-foreground" onClick={onClick}>
+        {label}
+        {active && <Icon className="h-3.5 w-3.5" />}
+      </button>
+    </th>
+  );
+}
+
+/**
+ * Table with a row per page: title, dates, version and the page properties.
+ * Click a header to sort by it, click a row to open the page.
+ */
+export function PageTableView({
+  pages,
+  columns,
+  hiddenColumns,
+  filters,
+  onSortChange,
+  onHiddenColumnsChange,
+  onOpenPage,
+}: PageTableViewProps) {
+  const isHidden = (key: string) => hiddenColumns.some(hidden => hidden.toLowerCase() === key.toLowerCase());
+  const builtIns = BUILT_IN_COLUMNS.filter(column => !isHidden(column.key));
+  const properties = columns.filter(column => !isHidden(column.name));
+  const order = filters.sortOrder || 'asc';
+
+  const sortBy = (sort: { sortBy?: NotebookViewFilters['sortBy']; sortByProperty?: string }) => {
+    const active = sort.sortByProperty
+      ? filters.sortByProperty?.toLowerCase() === sort.sortByProperty.toLowerCase()
+      : !filters.sortByProperty && filters.sortBy === sort.sortBy;
+    onSortChange({
+      sortBy: sort.sortBy ?? filters.sortBy,
+      sortByProperty: sort.sortByProperty,
+      sortOrder: active && order === 'asc' ? 'desc' : 'asc',
+    });
+  };
+
+  const toggleColumn = (key: string) => {
+    onHiddenColumnsChange(isHidden(key)
+      ? hiddenColumns.filter(hidden => hidden.toLowerCase() !== key.toLowerCase())
+      : [...hiddenColumns, key]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8">
+              <Columns3 className="mr-1 h-3.5 w-3.5" />
+              Columns
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Show columns</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {BUILT_IN_COLUMNS.map(column => (
+              <DropdownMenuCheckboxItem
+                key={column.key}
+                checked={!isHidden(column.key)}
+                onCheckedChange={() => toggleColumn(column.key)}
+                onSelect={e => e.preventDefault()}
+              >
+                {column.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+            {columns.length > 0 && <DropdownMenuSeparator />}
+            {columns.map(column => (
+              <DropdownMenuCheckboxItem
+                key={column.name}
+                checked={!isHidden(column.name)}
+                onCheckedChange={() => toggleColumn(column.name)}
+                onSelect={e => e.preventDefault()}
+              >
+                {column.name}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full text-sm">
+          <thead className="border-b bg-muted/50 text-muted-foreground">
+            <tr>
+              <SortHeader
+                label="Title"
+                active={!filters.sortByProperty && (filters.sortBy || 'updated_at') === 'title'}
+                order={order}
+                onClick={() => sortBy({ sortBy: 'title' })}
+              />
+              {builtIns.map(column => (
+                <SortHeader
+                  key={column.key}
+                  label={column.label}
+                  active={!filters.sortByProperty && (filters.sortBy || 'updated_at') === column.key}
+                  order={order}
+                  onClick={() => sortBy({ sortBy: column.key })}
+                />
+              ))}
+              {properties.map(column => (
+                <SortHeader
+                  key={column.name}
+                  label={column.name}
+                  active={filters.sortByProperty?.toLowerCase() === column.name.toLowerCase()}
+                  order={order}
+                  onClick={() => sortBy({ sortByProperty: column.name })}
+                />
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {pages.length === 0 ? (
+              <tr>
+                <td colSpan={1 + builtIns.length + properties.length} className="px-3 py-8 text-center text-muted-foreground">
+                  No pages match this view.
+                </td>
+              </tr>
+            ) : (
+              pages.map(page => (
+                <tr
+                  key={page.id}
+                  className="cursor-pointer border-b last:border-0 hover:bg-accent/50"
+                  onClick={() => onOpenPage(page)}
+                >
+                  <td className="px-3 py-2 font-medium">{page.title || 'Untitled'}</td>
+                  {builtIns.map(column => (
+                    <td key={column.key} className="whitespace-nowrap px-3 py-2 text-muted-foreground">
+                      {formatBuiltIn(page, column.key)}
+                    </td>
+                  ))}
+                  {properties.map(column => {
+                    const property = getPageProperty(page.properties, column.name);
+                    return (
+                      <td key={column.name} className="px-3 py-2">
+                        {property && <PropertyValue property={property} />}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
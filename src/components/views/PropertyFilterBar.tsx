@@ -0,0 +1,173 @@
+import { Filter, Plus, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { PropertyColumn } from '@/lib/notebookViews';
+import type { NotebookViewFilters, PropertyFilter, PropertyFilterOperator } from '@/types/database';
+
+interface PropertyFilterBarProps {
+  filters: NotebookViewFilters;
+  columns: PropertyColumn[];
+  onChange: (filters: NotebookViewFilters) => void;
+}
+
+const OPERATOR_LABELS: Record<PropertyFilterOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  greater_than: 'is above',
+  less_than: 'is below',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+};
+
+// Operators that make sense for each kind of property
+function operatorsFor(column: PropertyColumn | undefined): PropertyFilterOperator[] {
+  switch (column?.type) {
+    case 'number':
+    case 'date':
+      return ['equals', 'not_equals', 'greater_than', 'less_than', 'is_empty', 'is_not_empty'];
+    case 'checkbox':
+      return ['equals'];
+    case 'select':
+      return ['equals', 'not_equals', 'is_empty', 'is_not_empty'];
+    case 'multi_select':
+      return ['contains', 'is_empty', 'is_not_empty'];
+    default:
+      return ['contains', 'equals', 'not_equals', 'is_empty', 'is_not_empty'];
+  }
+}
+
+function defaultFilter(column: PropertyColumn): PropertyFilter {
+  const operator = operatorsFor(column)[0];
+  return { name: column.name, operator, value: column.type === 'checkbox' ? true : null };
+}
+
+interface FilterValueInputProps {
+  filter: PropertyFilter;
+  column: PropertyColumn | undefined;
+  onChange: (filter: PropertyFilter) => void;
+}
+
+function FilterValueInput({ filter, column, onChange }: FilterValueInputProps) {
+  if (filter.operator === 'is_empty' || filter.operator === 'is_not_empty') {
+    return null;
+  }
+
+  if (column?.type === 'checkbox') {
+    return (
+      <Select value={filter.value === false ? 'no' : 'yes'} onValueChange={value => onChange({ ...filter, value: value === 'yes' })}>
+        <SelectTrigger className="h-8 w-[90px]" aria-label={`${filter.name} filter value`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="yes">Checked</SelectItem>
+          <SelectItem value="no">Unchecked</SelectItem>
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  return (
+    <Input
+      type={column?.type === 'number' ? 'number' : column?.type === 'date' ? 'date' : 'text'}
+      className="h-8 w-40"
+      value={typeof filter.value === 'string' || typeof filter.value === 'number' ? filter.value : ''}
+      onChange={e => onChange({ ...filter, value: e.target.value || null })}
+      aria-label={`${filter.name} filter value`}
+    />
+  );
+}
+
+/**
+ * Title search and property filters of a notebook view
+ */
+export function PropertyFilterBar({ filters, columns, onChange }: PropertyFilterBarProps) {
+  const propertyFilters = filters.properties || [];
+  const columnFor = (name: string) => columns.find(column => column.name.toLowerCase() === name.toLowerCase());
+
+  const setPropertyFilters = (next: PropertyFilter[]) => {
+    onChange({ ...filters, properties: next });
+  };
+
+  const updateFilter = (index: number, filter: PropertyFilter) => {
+    setPropertyFilters(propertyFilters.map((current, i) => (i === index ? filter : current)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative">
+          <Search className="absolute left-2 top-2 h-4 w-4 text-muted-foreground" />
+          <Input
+            className="h-8 w-56 pl-8"
+            placeholder="Filter by title..."
+            value={filters.search || ''}
+            onChange={e => onChange({ ...filters, search: e.target.value || undefined })}
+          />
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8"
+          disabled={columns.length === 0}
+          onClick={() => setPropertyFilters([...propertyFilters, defaultFilter(columns[0])])}
+          title={columns.length === 0 ? 'Add properties to pages to filter by them' : undefined}
+        >
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          Add filter
+        </Button>
+      </div>
+
+      {propertyFilters.map((filter, index) => {
+        const column = columnFor(filter.name);
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <Filter className="h-4 w-4 text-muted-foreground" />
+            <Select
+              value={column?.name ?? filter.name}
+              onValueChange={name => updateFilter(index, defaultFilter(columnFor(name)!))}
+            >
+              <SelectTrigger className="h-8 w-[160px]" aria-label="Filter property">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {!column && <SelectItem value={filter.name}>{filter.name}</SelectItem>}
+                {columns.map(candidate => (
+                  <SelectItem key={candidate.name} value={candidate.name}>
+                    {candidate.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={filter.operator}
+              onValueChange={operator => updateFilter(index, { ...filter, operator: operator as PropertyFilterOperator })}
+            >
+              <SelectTrigger className="h-8 w-[130px]" aria-label="Filter condition">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {operatorsFor(column).map(operator => (
+                  <SelectItem key={operator} value={operator}>
+                    {OPERATOR_LABELS[operator]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FilterValueInput filter={filter} column={column} onChange={updated => updateFilter(index, updated)} />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              onClick={() => setPropertyFilters(propertyFilters.filter((_, i) => i !== index))}
+              title="Remove filter"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
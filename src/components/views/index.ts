@@ -0,0 +1,4 @@
+export { NotebookViews } from './NotebookViews';
+export { PageTableView } from './PageTableView';
+export { PageBoardView } from './PageBoardView';
+export { PropertyFilterBar } from './PropertyFilterBar';
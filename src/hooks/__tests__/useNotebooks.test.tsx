@@ -57,9 +57,11 @@ describe('useNotebooks', () => {
     const mockFrom = vi.fn().mockReturnValue({
       select: vi.fn().mockReturnValue({
         eq: vi.fn().mockReturnValue({
-          order: vi.fn().mockResolvedValue({
-            data: mockNotebooks,
-            error: null,
+          is: vi.fn().mockReturnValue({
+            order: vi.fn().mockResolvedValue({
+              data: mockNotebooks,
+              error: null,
+            }),
           }),
         }),
       }),
@@ -83,9 +85,11 @@ describe('useNotebooks', () => {
     const mockFrom = vi.fn().mockReturnValue({
       select: vi.fn().mockReturnValue({
         eq: vi.fn().mockReturnValue({
-          order: vi.fn().mockResolvedValue({
-            data: null,
-            error: mockError,
+          is: vi.fn().mockReturnValue({
+            order: vi.fn().mockResolvedValue({
+              data: null,
+              error: mockError,
+            }),
           }),
         }),
       }),
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { usePageVersions, useCreatePageVersion, useRestorePageVersion } from '../usePageVersions';
+import { usePageVersions, useCreatePageVersion, useUpdatePageVersion, useRestorePageVersion } from '../usePageVersions';
+import { updatePageIndexes } from '../../lib/pageIndex';
 import type { ReactNode } from 'react';
 
 // Mock Supabase
@@ -19,6 +20,10 @@ vi.mock('../../lib/database', () => ({
   requireAuth: vi.fn().mockResolvedValue('test-user-id'),
 }));
 
+vi.mock('../../lib/pageIndex', () => ({
+  updatePageIndexes: vi.fn(),
+}));
+
 describe('usePageVersions', () => {
   let queryClient: QueryClient;
 
@@ -153,6 +158,51 @@ describe('useCreatePageVersion', () => {
 
     expect(result.current.data).toEqual(newVersion);
   });
+
+  it('should label and pin a page version', async () => {
+    const labeledVersion = {
+      id: '1',
+      page_id: 'page-1',
+      title: 'Version 2',
+      content: 'Updated content',
+      version: 2,
+      label: 'Sent to client',
+      is_pinned: true,
+      user_id: 'test-user-id',
+      created_at: '2024-01-02',
+    };
+
+    const { supabase } = await import('../../lib/supabase');
+
+    const mockUpdate = vi.fn().mockReturnValue({
+      eq: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          select: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({
+              data: labeledVersion,
+              error: null,
+            }),
+          }),
+        }),
+      }),
+    });
+
+    (supabase.from as any) = vi.fn().mockReturnValue({ update: mockUpdate });
+
+    const { result } = renderHook(() => useUpdatePageVersion(), { wrapper });
+
+    result.current.mutate({
+      id: '1',
+      page_id: 'page-1',
+      label: '  Sent to client ',
+      is_pinned: true,
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(mockUpdate).toHaveBeenCalledWith({ label: 'Sent to client', is_pinned: true });
+    expect(result.current.data).toEqual(labeledVersion);
+  });
 });
 
 describe('useRestorePageVersion', () => {
@@ -266,5 +316,6 @@ describe('useRestorePageVersion', () => {
     await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
     expect(result.current.data).toEqual(restoredPage);
+    expect(updatePageIndexes).toHaveBeenCalledWith('page-1', 'Old content', 'test-user-id');
   });
 });
@@ -1,7 +1,9 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { usePages, useCreatePage, usePagesHierarchy } from '../usePages';
+import { usePages, useCreatePage, useDeletePage, useMovePage, usePagePath, usePageSummaries, usePagesHierarchy, usePrefetchPage, useReorderPage } from '../usePages';
+import { DatabaseError, DatabaseErrorCode } from '../../lib/database';
+import { localStore } from '../../lib/localStore';
 import type { ReactNode } from 'react';
 
 // Mock Supabase
@@ -11,11 +13,13 @@ vi.mock('../../lib/supabase', () => ({
       getUser: vi.fn(),
     },
     from: vi.fn(),
+    rpc: vi.fn(),
   },
 }));
 
 // Mock database utilities
-vi.mock('../../lib/database', () => ({
+vi.mock('../../lib/database', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../lib/database')>()),
   requireAuth: vi.fn().mockResolvedValue('test-user-id'),
 }));
 
@@ -59,9 +63,11 @@ describe('usePages', () => {
       select: vi.fn().mockReturnValue({
         eq: vi.fn().mockReturnValue({
           eq: vi.fn().mockReturnValue({
-            order: vi.fn().mockResolvedValue({
-              data: mockPages,
-              error: null,
+            is: vi.fn().mockReturnValue({
+              order: vi.fn().mockResolvedValue({
+                data: mockPages,
+                error: null,
+              }),
             }),
           }),
         }),
@@ -137,9 +143,11 @@ describe('usePagesHierarchy', () => {
       select: vi.fn().mockReturnValue({
         eq: vi.fn().mockReturnValue({
           eq: vi.fn().mockReturnValue({
-            order: vi.fn().mockResolvedValue({
-              data: mockPages,
-              error: null,
+            is: vi.fn().mockReturnValue({
+              order: vi.fn().mockResolvedValue({
+                data: mockPages,
+                error: null,
+              }),
             }),
           }),
         }),
@@ -158,6 +166,94 @@ describe('usePagesHierarchy', () => {
     expect(result.current.data?.[0].children?.[0].id).toBe('2');
     expect(result.current.flatPages).toEqual(mockPages);
   });
+
+  it('should list pages without their content', async () => {
+    const { supabase } = await import('../../lib/supabase');
+
+    const select = vi.fn().mockReturnValue({
+      eq: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          is: vi.fn().mockReturnValue({
+            order: vi.fn().mockResolvedValue({ data: [], error: null }),
+          }),
+        }),
+      }),
+    });
+
+    (supabase.from as any) = vi.fn().mockReturnValue({ select });
+
+    const { result } = renderHook(() => usePagesHierarchy('notebook-1'), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    const columns = select.mock.calls[0][0].split(', ');
+    expect(columns).toEqual(expect.arrayContaining(['id', 'title', 'parent_page_id', 'sort_order', 'excerpt']));
+    expect(columns).not.toContain('content');
+    expect(columns).not.toContain('*');
+  });
+
+  it('should sort siblings by sort order', async () => {
+    const mockPages = [
+      {
+        id: '1',
+        title: 'Unordered Page',
+        content: '',
+        version: 1,
+        sort_order: null,
+        notebook_id: 'notebook-1',
+        user_id: 'test-user-id',
+        created_at: '2024-01-01',
+        updated_at: '2024-01-05',
+      },
+      {
+        id: '2',
+        title: 'Second Page',
+        content: '',
+        version: 1,
+        sort_order: 'b',
+        notebook_id: 'notebook-1',
+        user_id: 'test-user-id',
+        created_at: '2024-01-02',
+        updated_at: '2024-01-04',
+      },
+      {
+        id: '3',
+        title: 'First Page',
+        content: '',
+        version: 1,
+        sort_order: 'a',
+        notebook_id: 'notebook-1',
+        user_id: 'test-user-id',
+        created_at: '2024-01-03',
+        updated_at: '2024-01-03',
+      },
+    ];
+
+    const { supabase } = await import('../../lib/supabase');
+
+    const mockFrom = vi.fn().mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            is: vi.fn().mockReturnValue({
+              order: vi.fn().mockResolvedValue({
+                data: mockPages,
+                error: null,
+              }),
+            }),
+          }),
+        }),
+      }),
+    });
+
+    (supabase.from as any) = mockFrom;
+
+    const { result } = renderHook(() => usePagesHierarchy('notebook-1'), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(result.current.data.map(page => page.id)).toEqual(['3', '2', '1']);
+  });
 });
 
 describe('useCreatePage', () => {
@@ -220,3 +316,343 @@ describe('useCreatePage', () => {
     expect(result.current.data).toEqual(newPage);
   });
 });
+
+describe('useMovePage', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+
+    vi.clearAllMocks();
+  });
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  );
+
+  it('should report a move under a descendant as a validation error', async () => {
+    const { supabase } = await import('../../lib/supabase');
+
+    const rpc = vi.fn().mockResolvedValue({
+      data: null,
+      error: { code: 'MN001', message: 'page cannot be moved under itself or a descendant', details: null, hint: null },
+    });
+
+    (supabase.rpc as any) = rpc;
+
+    const { result } = renderHook(() => useMovePage(), { wrapper });
+
+    result.current.mutate({ id: 'parent', parent_page_id: 'child' });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+
+    expect(rpc).toHaveBeenCalledWith('move_page_subtree', {
+      target_page_id: 'parent',
+      new_parent_page_id: 'child',
+      new_notebook_id: null,
+    });
+    expect(result.current.error).toBeInstanceOf(DatabaseError);
+    expect((result.current.error as DatabaseError).code).toBe(DatabaseErrorCode.VALIDATION);
+    expect(result.current.error?.message).toBe('A page cannot be moved under itself or one of its subpages.');
+  });
+});
+
+describe('useReorderPage', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+
+    vi.clearAllMocks();
+  });
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  );
+
+  it('should place the page among the siblings that are not in the trash', async () => {
+    const { supabase } = await import('../../lib/supabase');
+
+    const siblings = {
+      data: [
+        { id: 'a', sort_order: 'a1', created_at: '2024-01-01' },
+        { id: 'b', sort_order: 'a2', created_at: '2024-01-01' },
+      ],
+      error: null,
+    };
+    const siblingsQuery = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      is: vi.fn().mockReturnThis(),
+      then: (resolve: (value: typeof siblings) => unknown) => Promise.resolve(siblings).then(resolve),
+    };
+    const update = vi.fn().mockReturnValue({
+      eq: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          select: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({ data: { id: 'moved' }, error: null }),
+          }),
+        }),
+      }),
+    });
+
+    vi.mocked(supabase.from)
+      .mockReturnValueOnce(siblingsQuery as unknown as ReturnType<typeof supabase.from>)
+      .mockReturnValueOnce({ update } as unknown as ReturnType<typeof supabase.from>);
+
+    const { result } = renderHook(() => useReorderPage(), { wrapper });
+
+    result.current.mutate({
+      id: 'moved',
+      notebook_id: 'notebook-1',
+      parent_page_id: null,
+      anchor_page_id: 'a',
+      position: 'after',
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(siblingsQuery.is).toHaveBeenCalledWith('deleted_at', null);
+    const { sort_order: sortOrder } = update.mock.calls[0][0];
+    expect(sortOrder > 'a1' && sortOrder < 'a2').toBe(true);
+  });
+});
+
+describe('usePageSummaries', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  );
+
+  it('should list stored summaries offline, updated by replica pages and without trashed pages', async () => {
+    const summary = (id: string, title: string, updated_at: string) => ({
+      id,
+      title,
+      notebook_id: 'notebook-1',
+      sort_order: null,
+      excerpt: null,
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at,
+    });
+    const replicaPage = (id: string, title: string, updated_at: string, deleted_at: string | null = null) => ({
+      ...summary(id, title, updated_at),
+      content: '',
+      version: 2,
+      user_id: 'test-user-id',
+      deleted_at,
+    });
+
+    const { supabase } = await import('../../lib/supabase');
+    const offlineQuery = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      is: vi.fn().mockReturnThis(),
+      order: vi.fn().mockRejectedValue(new TypeError('Failed to fetch')),
+    };
+    vi.mocked(supabase.from).mockReturnValueOnce(offlineQuery as unknown as ReturnType<typeof supabase.from>);
+
+    vi.spyOn(localStore, 'isAvailable').mockReturnValue(true);
+    vi.spyOn(localStore, 'getAll').mockImplementation(async storeName => (
+      storeName === 'page_summaries'
+        ? [
+            summary('a', 'Listed', '2024-01-02T00:00:00Z'),
+            summary('b', 'Old title', '2024-01-01T00:00:00Z'),
+            summary('c', 'Trashed offline', '2024-01-01T00:00:00Z'),
+          ]
+        : [
+            replicaPage('b', 'Edited offline', '2024-01-03T00:00:00Z'),
+            replicaPage('c', 'Trashed offline', '2024-01-03T00:00:00Z', '2024-01-03T00:00:00Z'),
+          ]
+    ) as never);
+
+    const { result } = renderHook(() => usePageSummaries('notebook-1'), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(result.current.data?.map(page => [page.id, page.title])).toEqual([
+      ['b', 'Edited offline'],
+      ['a', 'Listed'],
+    ]);
+  });
+
+  it('should leave out a page deleted offline along with descendants that were never opened', async () => {
+    const summary = (id: string, parent_page_id: string | null) => ({
+      id,
+      title: id,
+      notebook_id: 'notebook-1',
+      parent_page_id,
+      sort_order: null,
+      excerpt: null,
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+    });
+
+    // In-memory replica: only the notebook's listing, no page was opened
+    const stores = new Map<string, Map<IDBValidKey, Record<string, unknown>>>([
+      ['page_summaries', new Map([
+        ['project', summary('project', null)],
+        ['plan', summary('plan', 'project')],
+        ['tasks', summary('tasks', 'plan')],
+        ['notes', summary('notes', null)],
+      ])],
+      ['pages', new Map()],
+      ['outbox', new Map()],
+    ]);
+    const store = (name: string) => stores.get(name)!;
+
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    vi.spyOn(localStore, 'isAvailable').mockReturnValue(true);
+    vi.spyOn(localStore, 'get').mockImplementation(async (name, key) => store(name).get(key) as never);
+    vi.spyOn(localStore, 'getAll').mockImplementation(async (name, index) => (
+      [...store(name).values()].filter(record => !index || record[index.name] === index.value) as never
+    ));
+    vi.spyOn(localStore, 'put').mockImplementation(async (name, records) => (
+      (Array.isArray(records) ? records : [records]).map(record => {
+        const key = (record as { id?: IDBValidKey }).id ?? store(name).size + 1;
+        store(name).set(key, { ...(record as Record<string, unknown>), id: key });
+        return key;
+      })
+    ));
+    vi.spyOn(localStore, 'delete').mockImplementation(async (name, keys) => {
+      (Array.isArray(keys) ? keys : [keys]).forEach(key => store(name).delete(key));
+    });
+
+    const { result: deletion } = renderHook(() => useDeletePage(), { wrapper });
+    await deletion.current.mutateAsync('project');
+
+    expect([...store('outbox').values()].map(entry => [entry.recordId, entry.values])).toEqual([
+      ['project', expect.objectContaining({ deleted_root_id: 'project' })],
+      ['plan', expect.objectContaining({ deleted_root_id: 'project' })],
+      ['tasks', expect.objectContaining({ deleted_root_id: 'project' })],
+    ]);
+
+    const { result } = renderHook(() => usePageSummaries('notebook-1'), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(result.current.data?.map(page => page.id)).toEqual(['notes']);
+  });
+});
+
+describe('usePagePath', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+
+    vi.clearAllMocks();
+  });
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  );
+
+  it('should fetch the path to a page with the tree function', async () => {
+    const path = [
+      { id: 'root', title: 'Root', parent_page_id: null, notebook_id: 'notebook-1', depth: 0 },
+      { id: 'child', title: 'Child', parent_page_id: 'root', notebook_id: 'notebook-1', depth: 1 },
+    ];
+
+    const { supabase } = await import('../../lib/supabase');
+    const rpc = vi.fn().mockResolvedValue({ data: path, error: null });
+    (supabase.rpc as any) = rpc;
+
+    const { result } = renderHook(() => usePagePath('child'), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(rpc).toHaveBeenCalledWith('get_page_path', { target_page_id: 'child' });
+    expect(result.current.data).toEqual(path);
+  });
+});
+
+describe('usePrefetchPage', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+
+    vi.clearAllMocks();
+  });
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+  );
+
+  it('should load a page into the cache used by usePage', async () => {
+    const page = {
+      id: 'page-1',
+      title: 'Page',
+      content: 'Long content',
+      version: 1,
+      notebook_id: 'notebook-1',
+      user_id: 'test-user-id',
+      created_at: '2024-01-01',
+      updated_at: '2024-01-01',
+    };
+
+    const { supabase } = await import('../../lib/supabase');
+
+    (supabase.from as any) = vi.fn().mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            single: vi.fn().mockResolvedValue({ data: page, error: null }),
+          }),
+        }),
+      }),
+    });
+
+    const { result } = renderHook(() => usePrefetchPage(), { wrapper });
+
+    result.current('page-1');
+
+    await waitFor(() => expect(queryClient.getQueryData(['page', 'page-1'])).toEqual(page));
+  });
+});
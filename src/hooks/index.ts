@@ -9,32 +9,70 @@ export {
   useCreateNotebook,
   useUpdateNotebook,
   useDeleteNotebook,
+  useExportNotebook,
 } from './useNotebooks';
 
 // Page hooks
 export {
   usePages,
+  useAllPages,
+  usePageSummaries,
   usePage,
+  usePrefetchPage,
   usePagesHierarchy,
   useChildPages,
+  usePagePath,
+  usePageTitles,
+  usePageTitleSearch,
   useCreatePage,
   useUpdatePage,
   useMovePage,
+  useDuplicatePage,
+  useReorderPage,
   useDeletePage,
 } from './usePages';
 
+// Backlink hooks
+export { useBacklinks, useUnlinkedMentions } from './useBacklinks';
+
+// Tag hooks
+export { useTags, usePageTags, useAddPageTag, useRemovePageTag } from './useTags';
+
+// Template hooks
+export { usePageTemplates, useSetPageTemplate, useCreatePageFromTemplate } from './useTemplates';
+
 // Page version hooks
 export {
   usePageVersions,
   usePageVersion,
+  usePageVersionByNumber,
   useCreatePageVersion,
+  useUpdatePageVersion,
   useRestorePageVersion,
   useComparePageVersions,
   useDeletePageVersions,
   useDeletePageVersion,
   usePageVersionCount,
+  useVersionCleanupPreview,
+  useApplyVersionCleanup,
+  useCompactVersionStorage,
 } from './usePageVersions';
 
+// Trash hooks
+export {
+  useTrash,
+  useRestorePage,
+  useRestoreNotebook,
+  usePurgeTrashItem,
+  useEmptyTrash,
+} from './useTrash';
+
+// Import hooks
+export { useImportNotes } from './useImport';
+
+// Backup hooks
+export { useCreateBackup, useRestoreBackup } from './useBackup';
+
 // Attachment hooks
 export {
   useAttachments,
@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { requireAuth } from '../lib/database';
+import { fetchBacklinks, type Backlink } from '../lib/pageLinks';
+import { searchService } from '../lib/searchService';
+
+/**
+ * Hook for fetching the pages that link to a page
+ */
+export function useBacklinks(pageId: string | undefined) {
+  return useQuery<Backlink[], Error>({
+    queryKey: ['backlinks', pageId],
+    queryFn: async () => {
+      const userId = await requireAuth();
+      return fetchBacklinks(pageId!, userId);
+    },
+    enabled: !!pageId,
+  });
+}
+
+/**
+ * Hook for finding pages that mention a page's title without linking to it
+ */
+export function useUnlinkedMentions(pageId: string | undefined, title: string, enabled: boolean = true) {
+  return useQuery<Backlink[], Error>({
+    queryKey: ['backlinks', 'unlinked', pageId, title],
+    queryFn: () => searchService.findUnlinkedMentions(pageId!, title),
+    enabled: enabled && !!pageId,
+    staleTime: 30000, // Same as search results
+  });
+}
@@ -0,0 +1,42 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { requireAuth } from '../lib/database';
+import {
+  createAccountBackup,
+  restoreAccountBackup,
+  type AccountBackup,
+  type RestoreMode,
+} from '../lib/accountBackup';
+
+/**
+ * Hook for backing up the whole account
+ */
+export function useCreateBackup() {
+  return useMutation({
+    mutationFn: async (data: { onProgress?: (done: number, total: number) => void } = {}) => {
+      const userId = await requireAuth();
+      return createAccountBackup(userId, data.onProgress);
+    },
+  });
+}
+
+/**
+ * Hook for restoring a backup, merging it into or replacing the account
+ */
+export function useRestoreBackup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      backup: AccountBackup;
+      mode: RestoreMode;
+      onProgress?: (done: number, total: number) => void;
+    }) => {
+      const userId = await requireAuth();
+      return restoreAccountBackup(data.backup, userId, data.mode, data.onProgress);
+    },
+    onSuccess: () => {
+      // Notebooks, pages, versions and attachments may all have changed
+      queryClient.invalidateQueries();
+    },
+  });
+}
@@ -0,0 +1,43 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { requireAuth } from '../lib/database';
+import { runImportPlan, type ImportPlan, type ImportResult } from '../lib/importPlan';
+
+/**
+ * Hook for running import plans, creating one notebook per plan
+ */
+export function useImportNotes() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      plans: ImportPlan[];
+      onProgress?: (done: number, total: number) => void;
+    }) => {
+      const userId = await requireAuth();
+      const total = data.plans.reduce((count, plan) => count + plan.pages.length, 0);
+      const results: ImportResult[] = [];
+      let done = 0;
+
+      for (const plan of data.plans) {
+        try {
+          results.push(await runImportPlan(plan, userId, (pagesDone) => {
+            data.onProgress?.(done + pagesDone, total);
+          }));
+        } catch (error) {
+          // A failed plan is rolled back, but the notebooks before it stay
+          if (results.length === 0 || !(error instanceof Error)) {
+            throw error;
+          }
+          const imported = results.map(result => `"${result.notebookTitle}"`).join(', ');
+          throw new Error(`${error.message} Already imported: ${imported}.`);
+        }
+        done += plan.pages.length;
+      }
+
+      return results;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['notebooks'] });
+    },
+  });
+}
@@ -1,7 +1,10 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { requireAuth } from '../lib/database';
-import type { NotebookData, NotebookFilters } from '../types/database';
+import { localStore } from '../lib/localStore';
+import { getPendingRecordIds, queueMutations, readThrough, writeThrough } from '../lib/syncService';
+import { exportNotebook } from '../lib/notebookExport';
+import type { ExportOptions, NotebookData, NotebookFilters, NotebookView, PageData, RetentionPolicy } from '../types/database';
 
 /**
  * Hook for fetching all notebooks for the current user
@@ -12,28 +15,63 @@ export function useNotebooks(filters?: NotebookFilters) {
     queryFn: async () => {
       const userId = await requireAuth();
       
-      let query = supabase
-        .from('notebooks')
-        .select('*')
-        .eq('user_id', userId);
-      
-      // Apply search filter
-      if (filters?.search) {
-        query = query.ilike('title', `%${filters.search}%`);
-      }
-      
-      // Apply sorting
-      const sortBy = filters?.sortBy || 'updated_at';
-      const sortOrder = filters?.sortOrder || 'desc';
-      query = query.order(sortBy, { ascending: sortOrder === 'asc' });
-      
-      const { data, error } = await query;
-      
-      if (error) {
-        throw error;
-      }
-      
-      return data || [];
+      return readThrough<NotebookData[]>({
+        remote: async () => {
+          let query = supabase
+            .from('notebooks')
+            .select('*')
+            .eq('user_id', userId)
+            .is('deleted_at', null);
+          
+          // Apply search filter
+          if (filters?.search) {
+            query = query.ilike('title', `%${filters.search}%`);
+          }
+          
+          // Apply sorting
+          const sortBy = filters?.sortBy || 'updated_at';
+          const sortOrder = filters?.sortOrder || 'desc';
+          query = query.order(sortBy, { ascending: sortOrder === 'asc' });
+          
+          const { data, error } = await query;
+          
+          if (error) {
+            throw error;
+          }
+          
+          return data || [];
+        },
+        local: async () => {
+          const notebooks = await localStore.getAll<NotebookData>('notebooks');
+          if (notebooks.length === 0) return undefined;
+          
+          const search = filters?.search?.toLowerCase();
+          const sortBy = filters?.sortBy || 'updated_at';
+          const direction = (filters?.sortOrder || 'desc') === 'asc' ? 1 : -1;
+          
+          return notebooks
+            .filter(notebook => !search || notebook.title.toLowerCase().includes(search))
+            .sort((a, b) => a[sortBy].localeCompare(b[sortBy]) * direction);
+        },
+        persist: async (notebooks) => {
+          if (filters?.search) {
+            await localStore.put('notebooks', notebooks);
+            return;
+          }
+          
+          // Drop notebooks deleted elsewhere, keeping ones with queued changes
+          const pendingIds = await getPendingRecordIds();
+          const freshIds = new Set(notebooks.map(notebook => notebook.id));
+          const existing = await localStore.getAll<NotebookData>('notebooks');
+          await localStore.delete(
+            'notebooks',
+            existing
+              .filter(notebook => !freshIds.has(notebook.id) && !pendingIds.has(notebook.id))
+              .map(notebook => notebook.id)
+          );
+          await localStore.put('notebooks', notebooks);
+        },
+      });
     },
   });
 }
@@ -49,18 +87,28 @@ export function useNotebook(notebookId: string | undefined) {
       
       const userId = await requireAuth();
       
-      const { data, error } = await supabase
-        .from('notebooks')
-        .select('*')
-        .eq('id', notebookId)
-        .eq('user_id', userId)
-        .single();
-      
-      if (error) {
-        throw error;
-      }
-      
-      return data;
+      return readThrough<NotebookData | null>({
+        remote: async () => {
+          const { data, error } = await supabase
+            .from('notebooks')
+            .select('*')
+            .eq('id', notebookId)
+            .eq('user_id', userId)
+            .single();
+          
+          if (error) {
+            throw error;
+          }
+          
+          return data;
+        },
+        local: () => localStore.get<NotebookData>('notebooks', notebookId),
+        persist: async (notebook) => {
+          if (notebook) {
+            await localStore.put('notebooks', notebook);
+          }
+        },
+      });
     },
     enabled: !!notebookId,
   });
@@ -76,21 +124,53 @@ export function useCreateNotebook() {
     mutationFn: async (data: { title: string; description?: string }) => {
       const userId = await requireAuth();
       
-      const { data: notebook, error } = await supabase
-        .from('notebooks')
-        .insert({
-          title: data.title,
-          description: data.description,
-          user_id: userId,
-        } as any)
-        .select()
-        .single();
-      
-      if (error) {
-        throw error;
-      }
-      
-      return notebook;
+      return writeThrough<NotebookData | null>({
+        remote: async () => {
+          const { data: notebook, error } = await supabase
+            .from('notebooks')
+            .insert({
+              title: data.title,
+              description: data.description,
+              user_id: userId,
+            } as any)
+            .select()
+            .single();
+          
+          if (error) {
+            throw error;
+          }
+          
+          return notebook;
+        },
+        offline: async () => {
+          const now = new Date().toISOString();
+          const notebook: NotebookData = {
+            id: crypto.randomUUID(),
+            title: data.title,
+            description: data.description,
+            user_id: userId,
+            created_at: now,
+            updated_at: now,
+          };
+          
+          await localStore.put('notebooks', notebook);
+          await queueMutations([
+            {
+              table: 'notebooks',
+              operation: 'insert',
+              recordId: notebook.id,
+              values: {
+                id: notebook.id,
+                title: notebook.title,
+                description: notebook.description,
+                user_id: userId,
+              },
+            },
+          ]);
+          
+          return notebook;
+        },
+      });
     },
     onMutate: async (newNotebook) => {
       // Cancel outgoing refetches
@@ -138,27 +218,80 @@ export function useUpdateNotebook() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async (data: { id: string; title?: string; description?: string }) => {
+    mutationFn: async (data: {
+      id: string;
+      title?: string;
+      description?: string;
+      version_retention?: RetentionPolicy | null; // Null restores the default retention
+      views?: NotebookView[];
+      default_template_id?: string | null; // Null starts new pages blank
+    }) => {
       const userId = await requireAuth();
       
-      const result: any = await (supabase
-        .from('notebooks')
-        .update as any)({
-          title: data.title,
-          description: data.description,
-        })
-        .eq('id', data.id)
-        .eq('user_id', userId)
-        .select()
-        .single();
-      
-      const { data: notebook, error } = result;
-      
-      if (error) {
-        throw error;
-      }
-      
-      return notebook;
+      return writeThrough({
+        remote: async () => {
+          const result: any = await (supabase
+            .from('notebooks')
+            .update as any)({
+              title: data.title,
+              description: data.description,
+              version_retention: data.version_retention,
+              views: data.views,
+              default_template_id: data.default_template_id,
+            })
+            .eq('id', data.id)
+            .eq('user_id', userId)
+            .select()
+            .single();
+          
+          const { data: notebook, error } = result;
+          
+          if (error) {
+            throw error;
+          }
+          
+          return notebook;
+        },
+        offline: async () => {
+          const currentNotebook = await localStore.get<NotebookData>('notebooks', data.id);
+          
+          if (!currentNotebook) {
+            throw new Error('Notebook not found');
+          }
+          
+          const notebook: NotebookData = {
+            ...currentNotebook,
+            title: data.title ?? currentNotebook.title,
+            description: data.description ?? currentNotebook.description,
+            version_retention: data.version_retention === undefined
+              ? currentNotebook.version_retention
+              : data.version_retention,
+            views: data.views ?? currentNotebook.views,
+            default_template_id: data.default_template_id === undefined
+              ? currentNotebook.default_template_id
+              : data.default_template_id,
+            updated_at: new Date().toISOString(),
+          };
+          
+          await localStore.put('notebooks', notebook);
+          await queueMutations([
+            {
+              table: 'notebooks',
+              operation: 'update',
+              recordId: notebook.id,
+              values: {
+                title: data.title,
+                description: data.description,
+                version_retention: data.version_retention,
+                views: data.views,
+                default_template_id: data.default_template_id,
+              },
+            },
+          ]);
+          
+          return notebook;
+        },
+      });
     },
     onMutate: async (updatedNotebook) => {
       await queryClient.cancelQueries({ queryKey: ['notebooks'] });
@@ -206,6 +339,7 @@ export function useUpdateNotebook() {
 
 /**
  * Hook for deleting a notebook
+ * The notebook moves to the trash with its pages and can be restored from there
  */
 export function useDeleteNotebook() {
   const queryClient = useQueryClient();
@@ -213,18 +347,34 @@ export function useDeleteNotebook() {
   return useMutation({
     mutationFn: async (notebookId: string) => {
       const userId = await requireAuth();
+      const deletedAt = new Date().toISOString();
       
-      const { error } = await supabase
-        .from('notebooks')
-        .delete()
-        .eq('id', notebookId)
-        .eq('user_id', userId);
-      
-      if (error) {
-        throw error;
-      }
-      
-      return notebookId;
+      return writeThrough({
+        remote: async () => {
+          const { error } = await (supabase
+            .from('notebooks')
+            .update as any)({ deleted_at: deletedAt })
+            .eq('id', notebookId)
+            .eq('user_id', userId);
+          
+          if (error) {
+            throw error;
+          }
+          
+          return notebookId;
+        },
+        offline: async () => {
+          // The replica only holds notebooks and pages outside the trash
+          const pages = await localStore.getAll<PageData>('pages', { name: 'notebook_id', value: notebookId });
+          await localStore.delete('pages', pages.map(page => page.id));
+          await localStore.delete('notebooks', notebookId);
+          await queueMutations([
+            { table: 'notebooks', operation: 'update', recordId: notebookId, values: { deleted_at: deletedAt } },
+          ]);
+          
+          return notebookId;
+        },
+      });
     },
     onMutate: async (notebookId) => {
       await queryClient.cancelQueries({ queryKey: ['notebooks'] });
@@ -250,6 +400,19 @@ export function useDeleteNotebook() {
       queryClient.invalidateQueries({ queryKey: ['notebooks'] });
       queryClient.invalidateQueries({ queryKey: ['notebook', notebookId] });
       queryClient.invalidateQueries({ queryKey: ['pages'] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+  });
+}
+
+/**
+ * Hook for exporting a notebook as a zip archive of Markdown or HTML files
+ */
+export function useExportNotebook() {
+  return useMutation({
+    mutationFn: async (data: { notebookId: string; options: ExportOptions }) => {
+      const userId = await requireAuth();
+      return exportNotebook(data.notebookId, userId, data.options);
     },
   });
 }
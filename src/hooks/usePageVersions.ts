@@ -1,6 +1,20 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
 import { requireAuth } from '../lib/database';
+import { localStore } from '../lib/localStore';
+import { getPendingRecordIds, readThrough } from '../lib/syncService';
+import { compareVersions } from '../lib/diff';
+import { reconstructVersions } from '../lib/versionDelta';
+import { updatePageIndexes } from '../lib/pageIndex';
+import {
+  compactNotebookVersions,
+  deletePageVersions,
+  planVersionCleanup,
+  resolveVersion,
+  selectVersionsToPrune,
+  type VersionConfig,
+} from '../lib/versionManager';
+import type { PageVersionData, VersionCleanupPreview, VersionSummary } from '../types/database';
 
 /**
  * Hook for fetching all versions of a page
@@ -13,18 +27,37 @@ export function usePageVersions(pageId: string | undefined) {
 
       const userId = await requireAuth();
 
-      const { data, error } = await supabase
-        .from('page_versions')
-        .select('*')
-        .eq('page_id', pageId)
-        .eq('user_id', userId)
-        .order('version', { ascending: false });
-
-      if (error) {
-        throw error;
-      }
-
-      return data || [];
+      return readThrough<PageVersionData[]>({
+        remote: async () => {
+          const { data, error } = await supabase
+            .from('page_versions')
+            .select('*')
+            .eq('page_id', pageId)
+            .eq('user_id', userId)
+            .order('version', { ascending: false });
+
+          if (error) {
+            throw error;
+          }
+
+          return reconstructVersions(data || []);
+        },
+        local: async () => {
+          const versions = await localStore.getAll<PageVersionData>('page_versions', { name: 'page_id', value: pageId });
+          return versions.length > 0
+            ? versions.sort((a, b) => b.version - a.version)
+            : undefined;
+        },
+        persist: async (versions) => {
+          const pendingIds = await getPendingRecordIds();
+          await localStore.replaceByIndex(
+            'page_versions',
+            { name: 'page_id', value: pageId },
+            versions,
+            version => pendingIds.has(version.id)
+          );
+        },
+      });
     },
     enabled: !!pageId,
   });
@@ -41,20 +74,61 @@ export function usePageVersion(versionId: string | undefined) {
 
       const userId = await requireAuth();
 
+      return readThrough<PageVersionData | null>({
+        remote: async () => {
+          const { data, error } = await supabase
+            .from('page_versions')
+            .select('*')
+            .eq('id', versionId)
+            .eq('user_id', userId)
+            .single();
+
+          if (error) {
+            throw error;
+          }
+
+          return data ? resolveVersion(data, userId) : null;
+        },
+        local: () => localStore.get<PageVersionData>('page_versions', versionId),
+        persist: async (version) => {
+          if (version) {
+            await localStore.put('page_versions', version);
+          }
+        },
+      });
+    },
+    enabled: !!versionId,
+  });
+}
+
+/**
+ * Hook for fetching the stored snapshot of a page at a given version number
+ */
+export function usePageVersionByNumber(pageId: string | undefined, version: number | undefined) {
+  return useQuery({
+    queryKey: ['page-version-number', pageId, version],
+    queryFn: async () => {
+      if (!pageId || version === undefined) return null;
+
+      const userId = await requireAuth();
+
       const { data, error } = await supabase
         .from('page_versions')
         .select('*')
-        .eq('id', versionId)
+        .eq('page_id', pageId)
+        .eq('version', version)
         .eq('user_id', userId)
-        .single();
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
       if (error) {
         throw error;
       }
 
-      return data;
+      return data ? resolveVersion(data as PageVersionData, userId) : null;
     },
-    enabled: !!versionId,
+    enabled: !!pageId && version !== undefined,
   });
 }
 
@@ -70,6 +144,8 @@ export function useCreatePageVersion() {
       title: string;
       content: string;
       version: number;
+      label?: string;
+      is_pinned?: boolean;
     }) => {
       const userId = await requireAuth();
 
@@ -80,6 +156,8 @@ export function useCreatePageVersion() {
           title: data.title,
           content: data.content,
           version: data.version,
+          label: data.label?.trim() || null,
+          is_pinned: data.is_pinned ?? false,
           user_id: userId,
         } as any)
         .select()
@@ -97,6 +175,48 @@ export function useCreatePageVersion() {
   });
 }
 
+/**
+ * Hook for labeling and pinning a page version
+ * Pinned versions are never removed by version cleanup
+ */
+export function useUpdatePageVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      id: string;
+      page_id: string;
+      label?: string | null; // Empty or null clears the label
+      is_pinned?: boolean;
+    }) => {
+      const userId = await requireAuth();
+
+      const result: any = await (supabase
+        .from('page_versions')
+        .update as any)({
+          label: data.label === undefined ? undefined : data.label?.trim() || null,
+          is_pinned: data.is_pinned,
+        })
+        .eq('id', data.id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      const { data: version, error } = result;
+
+      if (error) {
+        throw error;
+      }
+
+      return version as PageVersionData;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['page-versions', data.page_id] });
+      queryClient.invalidateQueries({ queryKey: ['page-version', data.id] });
+    },
+  });
+}
+
 /**
  * Hook for restoring a page to a previous version
  */
@@ -111,17 +231,19 @@ export function useRestorePageVersion() {
       const userId = await requireAuth();
 
       // Get the version to restore
-      const { data: version, error: versionError } = await supabase
+      const { data: storedVersion, error: versionError } = await supabase
         .from('page_versions')
         .select('*')
         .eq('id', data.version_id)
         .eq('user_id', userId)
-        .single() as { data: { title: string; content: string } | null; error: any };
+        .single() as { data: PageVersionData | null; error: any };
 
-      if (versionError || !version) {
+      if (versionError || !storedVersion) {
         throw versionError || new Error('Version not found');
       }
 
+      const version = await resolveVersion(storedVersion, userId);
+
       // Get current page to increment version
       const { data: currentPage, error: pageError } = await supabase
         .from('pages')
@@ -153,12 +275,22 @@ export function useRestorePageVersion() {
         throw error;
       }
 
+      // Same as a save: stale links or tags don't fail the restore
+      try {
+        await updatePageIndexes(data.page_id, version.content, userId);
+      } catch (indexError) {
+        console.error('Failed to update page links and tags:', indexError);
+      }
+
       return page;
     },
     onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ['page', data?.id] });
       queryClient.invalidateQueries({ queryKey: ['pages', data?.notebook_id] });
+      queryClient.invalidateQueries({ queryKey: ['pages', 'titles'] });
       queryClient.invalidateQueries({ queryKey: ['page-versions', data?.id] });
+      queryClient.invalidateQueries({ queryKey: ['backlinks'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
     },
   });
 }
@@ -198,9 +330,15 @@ export function useComparePageVersions(versionId1: string | undefined, versionId
         throw version2Result.error;
       }
 
+      const [version1, version2] = await Promise.all([
+        resolveVersion(version1Result.data, userId),
+        resolveVersion(version2Result.data, userId),
+      ]);
+
       return {
-        version1: version1Result.data,
-        version2: version2Result.data,
+        version1,
+        version2,
+        diff: compareVersions(version1, version2),
       };
     },
     enabled: !!versionId1 && !!versionId2,
@@ -224,32 +362,20 @@ export function useDeletePageVersions() {
       // Get all versions for the page
       const { data: versions, error: fetchError } = await supabase
         .from('page_versions')
-        .select('id, version')
+        .select('id, version, is_pinned')
         .eq('page_id', data.page_id)
         .eq('user_id', userId)
-        .order('version', { ascending: false }) as { data: Array<{ id: string; version: number }> | null; error: any };
+        .order('version', { ascending: false }) as { data: Array<{ id: string; version: number; is_pinned?: boolean }> | null; error: any };
 
       if (fetchError) {
         throw fetchError;
       }
 
-      const versionList = versions || [];
-
-      // Keep only the latest N versions
-      if (versionList.length > keepLatest) {
-        const versionsToDelete = versionList.slice(keepLatest);
-        const idsToDelete = versionsToDelete.map(v => v.id);
-
-        const { error } = await supabase
-          .from('page_versions')
-          .delete()
-          .in('id', idsToDelete)
-          .eq('user_id', userId);
-
-        if (error) {
-          throw error;
-        }
+      // Keep only the latest N unpinned versions
+      const idsToDelete = selectVersionsToPrune(versions || [], keepLatest);
 
+      if (idsToDelete.length > 0) {
+        await deletePageVersions(idsToDelete, userId);
         return { deleted: idsToDelete.length };
       }
 
@@ -274,15 +400,7 @@ export function useDeletePageVersion() {
     }) => {
       const userId = await requireAuth();
 
-      const { error } = await supabase
-        .from('page_versions')
-        .delete()
-        .eq('id', data.version_id)
-        .eq('user_id', userId);
-
-      if (error) {
-        throw error;
-      }
+      await deletePageVersions([data.version_id], userId);
 
       return { version_id: data.version_id, page_id: data.page_id };
     },
@@ -319,3 +437,103 @@ export function usePageVersionCount(pageId: string | undefined) {
     enabled: !!pageId,
   });
 }
+
+/**
+ * Hook for previewing which versions a cleanup with `config` would remove
+ * across a notebook. Nothing is deleted.
+ */
+export function useVersionCleanupPreview(notebookId: string | undefined, config: VersionConfig | undefined) {
+  return useQuery({
+    queryKey: ['version-cleanup-preview', notebookId, config],
+    queryFn: async (): Promise<VersionCleanupPreview | null> => {
+      if (!notebookId || !config) return null;
+
+      const userId = await requireAuth();
+
+      const { data: pages, error: pagesError } = await supabase
+        .from('pages')
+        .select('id, title')
+        .eq('notebook_id', notebookId)
+        .eq('user_id', userId) as { data: Array<{ id: string; title: string }> | null; error: any };
+
+      if (pagesError) {
+        throw pagesError;
+      }
+
+      const pageList = pages || [];
+      const preview: VersionCleanupPreview = { pages: [], keepCount: 0, pruneCount: 0 };
+
+      if (pageList.length === 0) {
+        return preview;
+      }
+
+      const { data: versions, error } = await supabase
+        .from('page_versions')
+        .select('id, page_id, version, created_at, label, is_pinned')
+        .in('page_id', pageList.map(page => page.id))
+        .eq('user_id', userId) as { data: VersionSummary[] | null; error: any };
+
+      if (error) {
+        throw error;
+      }
+
+      const now = Date.now();
+      pageList.forEach(page => {
+        const pageVersions = (versions || []).filter(version => version.page_id === page.id);
+        if (pageVersions.length === 0) return;
+
+        const plan = planVersionCleanup(pageVersions, config, now);
+        preview.pages.push({ pageId: page.id, title: page.title, ...plan });
+        preview.keepCount += plan.keep.length;
+        preview.pruneCount += plan.prune.length;
+      });
+
+      return preview;
+    },
+    enabled: !!notebookId && !!config,
+  });
+}
+
+/**
+ * Hook for deleting the versions a cleanup preview selected
+ * Pinned versions are skipped even if they were pinned after the preview
+ */
+export function useApplyVersionCleanup() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      notebook_id: string;
+      version_ids: string[];
+    }) => {
+      const userId = await requireAuth();
+
+      await deletePageVersions(data.version_ids, userId, { keepPinned: true });
+
+      return { deleted: data.version_ids.length };
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['page-versions'] });
+      queryClient.invalidateQueries({ queryKey: ['version-cleanup-preview', variables.notebook_id] });
+    },
+  });
+}
+
+/**
+ * Hook for storing the version history of a notebook's pages as deltas
+ * Versions saved before delta storage hold their full content until compacted
+ */
+export function useCompactVersionStorage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { notebook_id: string }) => {
+      const userId = await requireAuth();
+
+      return { rewritten: await compactNotebookVersions(data.notebook_id, userId) };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['page-versions'] });
+    },
+  });
+}
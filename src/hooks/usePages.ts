@@ -1,8 +1,141 @@
+import { useCallback } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '../lib/supabase';
-import { requireAuth } from '../lib/database';
-import { cleanupOldVersions, DEFAULT_VERSION_CONFIG } from '../lib/versionManager';
-import type { PageData, PageFilters, PageWithChildren } from '../types/database';
+import { DatabaseError, DatabaseErrorCode, handleDatabaseError, requireAuth } from '../lib/database';
+import { DEFAULT_VERSION_CONFIG, getNotebookVersionConfig, planVersionWrite, recordPageVersion } from '../lib/versionManager';
+import { comparePageOrder } from '../lib/pageOrder';
+import { localStore } from '../lib/localStore';
+import { collectSubtreeToTrash } from '../lib/trash';
+import { createPageWithInitialVersion, generateSiblingSortKey } from '../lib/pageCreation';
+import { duplicatePage } from '../lib/pageDuplication';
+import { fetchPageTitles, searchPageTitles, type PageTitle } from '../lib/pageLinks';
+import { updatePageIndexes } from '../lib/pageIndex';
+import { extractContentTags, fetchTaggedPageIds, matchesTags } from '../lib/tags';
+import { applyPropertyFilters } from '../lib/pageProperties';
+import { getPendingRecordIds, queueMutations, readThrough, writeThrough, type OutboxEntry } from '../lib/syncService';
+import type { PageConflict, PageData, PageFilters, PagePathEntry, PageProperty, PageSummary, PageSummaryWithChildren, PageVersionData } from '../types/database';
+
+// Columns listed for page trees: everything but the content
+const PAGE_SUMMARY_COLUMNS = 'id, title, notebook_id, parent_page_id, sort_order, excerpt, created_at, updated_at';
+const EXCERPT_LENGTH = 200; // Same as page_excerpt() in supabase-setup.sql
+const PREFETCH_STALE_TIME = 30000; // Hovering again within this time doesn't refetch
+
+/**
+ * Summary of a page from the local replica, which holds whole pages
+ */
+function toPageSummary(page: PageData): PageSummary {
+  return {
+    id: page.id,
+    title: page.title,
+    notebook_id: page.notebook_id,
+    parent_page_id: page.parent_page_id,
+    sort_order: page.sort_order,
+    excerpt: page.content.replace(/\s+/g, ' ').trim().slice(0, EXCERPT_LENGTH),
+    created_at: page.created_at,
+    updated_at: page.updated_at,
+  };
+}
+
+/**
+ * Apply page filters to pages read from the local replica
+ */
+function filterLocalPages(pages: PageData[], filters?: PageFilters): PageData[] {
+  let result = pages;
+  
+  if (filters?.parentPageId !== undefined) {
+    result = result.filter(page => (page.parent_page_id ?? null) === filters.parentPageId);
+  }
+  
+  if (filters?.search) {
+    const search = filters.search.toLowerCase();
+    result = result.filter(page => page.title.toLowerCase().includes(search));
+  }
+  
+  // Only content tags can be matched offline; a page's own tag list isn't in the replica
+  if (filters?.tags?.length) {
+    const tags = filters.tags;
+    result = result.filter(page => matchesTags(extractContentTags(page.content), tags, filters.tagMode));
+  }
+  
+  const sortBy = filters?.sortBy || 'updated_at';
+  const direction = (filters?.sortOrder || 'desc') === 'asc' ? 1 : -1;
+  
+  const compare = (a: PageData, b: PageData) => (
+    sortBy === 'version' ? a.version - b.version : a[sortBy].localeCompare(b[sortBy])
+  );
+  
+  return applyPropertyFilters([...result].sort((a, b) => compare(a, b) * direction), filters);
+}
+
+/**
+ * Keep the pages matching the tag filter, if there is one
+ */
+async function applyTagFilter(pages: PageData[], filters: PageFilters | undefined, userId: string): Promise<PageData[]> {
+  if (!filters?.tags?.length) {
+    return pages;
+  }
+  
+  const pageIds = await fetchTaggedPageIds(filters.tags, filters.tagMode || 'all', userId);
+  return pages.filter(page => pageIds.has(page.id));
+}
+
+/**
+ * Collect a page and all of its descendants from the local replica: the
+ * notebook's last listing, updated by the pages opened or created since
+ */
+async function getLocalSubtreeIds(notebookId: string, pageId: string): Promise<string[]> {
+  const index = { name: 'notebook_id', value: notebookId };
+  const [summaries, pages] = await Promise.all([
+    localStore.getAll<PageSummary>('page_summaries', index),
+    localStore.getAll<PageData>('pages', index),
+  ]);
+  return collectSubtreeToTrash(mergePageSummaries(summaries, pages), pageId);
+}
+
+/**
+ * Walk up from a page to the notebook root in the local replica
+ */
+async function getLocalPagePath(pageId: string): Promise<PagePathEntry[] | undefined> {
+  const path: PagePathEntry[] = [];
+  const seen = new Set<string>();
+  let page = await localStore.get<PageData>('pages', pageId);
+  
+  if (!page) {
+    return undefined;
+  }
+  
+  while (page && !seen.has(page.id)) {
+    seen.add(page.id);
+    path.unshift({
+      id: page.id,
+      title: page.title,
+      parent_page_id: page.parent_page_id ?? null,
+      notebook_id: page.notebook_id,
+      depth: 0,
+    });
+    page = page.parent_page_id ? await localStore.get<PageData>('pages', page.parent_page_id) : undefined;
+  }
+  
+  return path.map((entry, depth) => ({ ...entry, depth }));
+}
+
+/**
+ * Create the CONFLICT error raised when a page changed since the editor loaded it
+ */
+function createPageConflictError(
+  pageId: string,
+  baseVersion: number,
+  theirs: PageConflict['theirs']
+): DatabaseError {
+  const details: PageConflict = { pageId, baseVersion, theirs };
+  
+  return new DatabaseError(
+    'This page was changed somewhere else since you started editing.',
+    DatabaseErrorCode.CONFLICT,
+    details,
+    false
+  );
+}
 
 /**
  * Hook for fetching all pages for a notebook
@@ -15,54 +148,198 @@ export function usePages(notebookId: string | undefined, filters?: PageFilters)
       
       const userId = await requireAuth();
       
-      let query = supabase
-        .from('pages')
-        .select('*')
-        .eq('notebook_id', notebookId)
-        .eq('user_id', userId);
-      
-      // Apply parent filter
-      if (filters?.parentPageId !== undefined) {
-        if (filters.parentPageId === null) {
-          query = query.is('parent_page_id', null);
-        } else {
-          query = query.eq('parent_page_id', filters.parentPageId);
-        }
-      }
-      
-      // Apply search filter
-      if (filters?.search) {
-        query = query.ilike('title', `%${filters.search}%`);
-      }
-      
-      // Apply sorting
-      const sortBy = filters?.sortBy || 'updated_at';
-      const sortOrder = filters?.sortOrder || 'desc';
-      query = query.order(sortBy, { ascending: sortOrder === 'asc' });
-      
-      const { data, error } = await query;
-      
-      if (error) {
-        throw error;
-      }
-      
-      return data || [];
+      return readThrough<PageData[]>({
+        remote: async () => {
+          let query = supabase
+            .from('pages')
+            .select('*')
+            .eq('notebook_id', notebookId)
+            .eq('user_id', userId)
+            .is('deleted_at', null);
+          
+          // Apply parent filter
+          if (filters?.parentPageId !== undefined) {
+            if (filters.parentPageId === null) {
+              query = query.is('parent_page_id', null);
+            } else {
+              query = query.eq('parent_page_id', filters.parentPageId);
+            }
+          }
+          
+          // Apply search filter
+          if (filters?.search) {
+            query = query.ilike('title', `%${filters.search}%`);
+          }
+          
+          // Apply sorting
+          const sortBy = filters?.sortBy || 'updated_at';
+          const sortOrder = filters?.sortOrder || 'desc';
+          query = query.order(sortBy, { ascending: sortOrder === 'asc' });
+          
+          const { data, error } = await query;
+          
+          if (error) {
+            throw error;
+          }
+          
+          return applyPropertyFilters(await applyTagFilter(data || [], filters, userId), filters);
+        },
+        local: async () => {
+          const pages = await localStore.getAll<PageData>('pages', { name: 'notebook_id', value: notebookId });
+          return pages.length > 0 ? filterLocalPages(pages, filters) : undefined;
+        },
+        persist: async (pages) => {
+          // Only a complete listing can replace the notebook's replica
+          if (filters?.parentPageId !== undefined || filters?.search || filters?.tags?.length || filters?.properties?.length) {
+            await localStore.put('pages', pages);
+            return;
+          }
+          
+          const pendingIds = await getPendingRecordIds();
+          await localStore.replaceByIndex(
+            'pages',
+            { name: 'notebook_id', value: notebookId },
+            pages,
+            page => pendingIds.has(page.id)
+          );
+        },
+      });
     },
     enabled: !!notebookId,
   });
 }
 
 /**
- * Hook for fetching a single page by ID
+ * Hook for fetching the pages of every notebook
  */
-export function usePage(pageId: string | undefined) {
+export function useAllPages(filters?: PageFilters, enabled: boolean = true) {
   return useQuery({
-    queryKey: ['page', pageId],
+    queryKey: ['pages', 'all', filters],
     queryFn: async () => {
-      if (!pageId) return null;
+      const userId = await requireAuth();
+      
+      return readThrough<PageData[]>({
+        remote: async () => {
+          let query = supabase
+            .from('pages')
+            .select('*')
+            .eq('user_id', userId)
+            .is('deleted_at', null);
+          
+          if (filters?.search) {
+            query = query.ilike('title', `%${filters.search}%`);
+          }
+          
+          const sortBy = filters?.sortBy || 'updated_at';
+          const sortOrder = filters?.sortOrder || 'desc';
+          const { data, error } = await query.order(sortBy, { ascending: sortOrder === 'asc' });
+          
+          if (error) {
+            throw error;
+          }
+          
+          return applyPropertyFilters(await applyTagFilter(data || [], filters, userId), filters);
+        },
+        local: async () => {
+          const pages = await localStore.getAll<PageData>('pages');
+          return pages.length > 0 ? filterLocalPages(pages, filters) : undefined;
+        },
+        persist: async (pages) => {
+          await localStore.put('pages', pages);
+        },
+      });
+    },
+    enabled,
+  });
+}
+
+/**
+ * Page summaries from the last listing of a notebook combined with the whole
+ * pages in the replica, which include offline edits. The newer of the two is
+ * used for each page; pages in the trash are left out.
+ */
+function mergePageSummaries(summaries: PageSummary[], pages: PageData[]): PageSummary[] {
+  const merged = new Map<string, { summary: PageSummary; deleted: boolean }>(
+    summaries.map(summary => [summary.id, { summary, deleted: false }])
+  );
+
+  pages.forEach(page => {
+    const listed = merged.get(page.id);
+    if (!listed || Date.parse(page.updated_at) >= Date.parse(listed.summary.updated_at)) {
+      merged.set(page.id, { summary: toPageSummary(page), deleted: !!page.deleted_at });
+    }
+  });
+
+  return [...merged.values()]
+    .filter(entry => !entry.deleted)
+    .map(entry => entry.summary)
+    .sort((a, b) => Date.parse(b.updated_at) - Date.parse(a.updated_at));
+}
+
+/**
+ * Hook for listing the pages of a notebook without their content, for page
+ * trees. Pages are loaded whole when opened, through usePage.
+ */
+export function usePageSummaries(notebookId: string | undefined) {
+  return useQuery({
+    queryKey: ['pages', notebookId, 'summaries'],
+    queryFn: async () => {
+      if (!notebookId) return [];
       
       const userId = await requireAuth();
       
+      return readThrough<PageSummary[]>({
+        remote: async () => {
+          const { data, error } = await supabase
+            .from('pages')
+            .select(PAGE_SUMMARY_COLUMNS)
+            .eq('notebook_id', notebookId)
+            .eq('user_id', userId)
+            .is('deleted_at', null)
+            .order('updated_at', { ascending: false });
+          
+          if (error) {
+            throw error;
+          }
+          
+          return data || [];
+        },
+        local: async () => {
+          const index = { name: 'notebook_id', value: notebookId };
+          const [summaries, pages] = await Promise.all([
+            localStore.getAll<PageSummary>('page_summaries', index),
+            localStore.getAll<PageData>('pages', index),
+          ]);
+          return summaries.length > 0 || pages.length > 0 ? mergePageSummaries(summaries, pages) : undefined;
+        },
+        persist: async (summaries) => {
+          await localStore.replaceByIndex('page_summaries', { name: 'notebook_id', value: notebookId }, summaries);
+
+          // Whole pages are added as they are opened, so only pages that
+          // left the notebook are dropped
+          const listedIds = new Set(summaries.map(page => page.id));
+          const pendingIds = await getPendingRecordIds();
+          const pages = await localStore.getAll<PageData>('pages', { name: 'notebook_id', value: notebookId });
+          
+          await localStore.delete(
+            'pages',
+            pages.filter(page => !listedIds.has(page.id) && !pendingIds.has(page.id)).map(page => page.id)
+          );
+        },
+      });
+    },
+    enabled: !!notebookId,
+  });
+}
+
+/**
+ * Load a page, keeping the local replica up to date
+ */
+async function fetchPage(pageId: string): Promise<PageData | null> {
+  const userId = await requireAuth();
+  
+  return readThrough<PageData | null>({
+    remote: async () => {
       const { data, error } = await supabase
         .from('pages')
         .select('*')
@@ -76,19 +353,56 @@ export function usePage(pageId: string | undefined) {
       
       return data;
     },
+    local: () => localStore.get<PageData>('pages', pageId),
+    persist: async (page) => {
+      if (page) {
+        await localStore.put('pages', page);
+      }
+    },
+  });
+}
+
+/**
+ * Hook for fetching a single page by ID
+ */
+export function usePage(pageId: string | undefined) {
+  return useQuery({
+    queryKey: ['page', pageId],
+    queryFn: async () => {
+      if (!pageId) return null;
+      
+      return fetchPage(pageId);
+    },
     enabled: !!pageId,
   });
 }
 
 /**
- * Hook for fetching pages in hierarchical structure
+ * Hook for loading a page ahead of opening it, e.g. when the pointer rests
+ * on it in a page tree
+ */
+export function usePrefetchPage() {
+  const queryClient = useQueryClient();
+  
+  return useCallback((pageId: string) => {
+    queryClient.prefetchQuery({
+      queryKey: ['page', pageId],
+      queryFn: () => fetchPage(pageId),
+      staleTime: PREFETCH_STALE_TIME,
+    });
+  }, [queryClient]);
+}
+
+/**
+ * Hook for fetching the pages of a notebook in hierarchical structure,
+ * without their content
  */
 export function usePagesHierarchy(notebookId: string | undefined) {
-  const { data: pages, ...rest } = usePages(notebookId);
+  const { data: pages, ...rest } = usePageSummaries(notebookId);
   
-  const buildHierarchy = (pages: PageData[]): PageWithChildren[] => {
-    const pageMap = new Map<string, PageWithChildren>();
-    const rootPages: PageWithChildren[] = [];
+  const buildHierarchy = (pages: PageSummary[]): PageSummaryWithChildren[] => {
+    const pageMap = new Map<string, PageSummaryWithChildren>();
+    const rootPages: PageSummaryWithChildren[] = [];
     
     // Create map of all pages
     pages.forEach(page => {
@@ -113,6 +427,18 @@ export function usePagesHierarchy(notebookId: string | undefined) {
       }
     });
     
+    // Sort siblings by their persisted order
+    const sortSiblings = (siblings: PageSummaryWithChildren[]) => {
+      siblings.sort(comparePageOrder);
+      siblings.forEach(page => {
+        if (page.children && page.children.length > 0) {
+          sortSiblings(page.children);
+        }
+      });
+    };
+    
+    sortSiblings(rootPages);
+    
     return rootPages;
   };
   
@@ -139,6 +465,7 @@ export function useChildPages(parentPageId: string | undefined) {
         .select('*')
         .eq('parent_page_id', parentPageId)
         .eq('user_id', userId)
+        .is('deleted_at', null)
         .order('title', { ascending: true });
       
       if (error) {
@@ -151,6 +478,73 @@ export function useChildPages(parentPageId: string | undefined) {
   });
 }
 
+/**
+ * Hook for fetching the pages from the notebook root down to a page, for
+ * breadcrumbs. The page itself comes last.
+ */
+export function usePagePath(pageId: string | undefined) {
+  return useQuery({
+    queryKey: ['pages', 'path', pageId],
+    queryFn: async () => {
+      if (!pageId) return [];
+      
+      await requireAuth();
+      
+      return readThrough<PagePathEntry[]>({
+        remote: async () => {
+          const { data, error } = await supabase
+            .rpc('get_page_path', { target_page_id: pageId });
+          
+          if (error) {
+            throw error;
+          }
+          
+          return data || [];
+        },
+        local: () => getLocalPagePath(pageId),
+      });
+    },
+    enabled: !!pageId,
+  });
+}
+
+/**
+ * Hook for fetching the current titles of linked pages
+ */
+export function usePageTitles(pageIds: string[]) {
+  return useQuery({
+    queryKey: ['pages', 'titles', pageIds],
+    queryFn: async () => {
+      const userId = await requireAuth();
+
+      return readThrough<PageTitle[]>({
+        remote: () => fetchPageTitles(pageIds, userId),
+        local: async () => {
+          const pages = await Promise.all(pageIds.map(id => localStore.get<PageData>('pages', id)));
+          return pages.filter((page): page is PageData => !!page);
+        },
+      });
+    },
+    enabled: pageIds.length > 0,
+  });
+}
+
+/**
+ * Hook for finding pages to link to by title, across all notebooks
+ */
+export function usePageTitleSearch(query: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['pages', 'title-search', query],
+    queryFn: async () => {
+      const userId = await requireAuth();
+      return searchPageTitles(query, userId);
+    },
+    enabled,
+    staleTime: 30000,
+    placeholderData: (previous) => previous,
+  });
+}
+
 /**
  * Hook for creating a new page
  */
@@ -166,43 +560,68 @@ export function useCreatePage() {
     }) => {
       const userId = await requireAuth();
       
-      const { data: page, error } = await supabase
-        .from('pages')
-        .insert({
-          title: data.title,
-          content: data.content || '',
-          version: 1,
-          notebook_id: data.notebook_id,
-          parent_page_id: data.parent_page_id,
-          user_id: userId,
-        } as any)
-        .select()
-        .single();
-      
-      if (error) {
-        throw error;
-      }
-      
-      // Save the initial version to page_versions
-      if (page) {
-        const newPage = page as any;
-        const { error: versionError } = await supabase
-          .from('page_versions')
-          .insert({
-            page_id: newPage.id,
-            title: newPage.title,
-            content: newPage.content,
-            version: newPage.version,
+      return writeThrough<PageData | null>({
+        remote: () => createPageWithInitialVersion(data, userId),
+        offline: async () => {
+          const now = new Date().toISOString();
+          const page: PageData = {
+            id: crypto.randomUUID(),
+            title: data.title,
+            content: data.content || '',
+            version: 1,
+            notebook_id: data.notebook_id,
+            parent_page_id: data.parent_page_id,
             user_id: userId,
-          } as any);
-        
-        if (versionError) {
-          console.error('Failed to save initial version:', versionError);
-          // Don't throw - page was created successfully
-        }
-      }
-      
-      return page;
+            created_at: now,
+            updated_at: now,
+          };
+          const initialVersion: PageVersionData = {
+            id: crypto.randomUUID(),
+            page_id: page.id,
+            title: page.title,
+            content: page.content,
+            version: page.version,
+            user_id: userId,
+            created_at: now,
+          };
+          
+          await localStore.put('pages', page);
+          await localStore.put('page_versions', initialVersion);
+          await queueMutations([
+            {
+              table: 'pages',
+              operation: 'insert',
+              recordId: page.id,
+              pageId: page.id,
+              values: {
+                id: page.id,
+                title: page.title,
+                content: page.content,
+                version: page.version,
+                notebook_id: page.notebook_id,
+                parent_page_id: page.parent_page_id,
+                user_id: userId,
+              },
+            },
+            {
+              table: 'page_versions',
+              operation: 'insert',
+              recordId: initialVersion.id,
+              pageId: page.id,
+              values: {
+                id: initialVersion.id,
+                page_id: page.id,
+                title: page.title,
+                content: page.content,
+                version: page.version,
+                user_id: userId,
+              },
+            },
+          ]);
+          
+          return page;
+        },
+      });
     },
     onMutate: async (newPage) => {
       await queryClient.cancelQueries({ queryKey: ['pages', newPage.notebook_id] });
@@ -256,103 +675,184 @@ export function useUpdatePage() {
       id: string;
       title?: string;
       content?: string;
+      properties?: PageProperty[];
       parent_page_id?: string;
       createVersion?: boolean; // Optional flag to control version creation
+      expectedVersion?: number; // Version the editor loaded; the save fails with CONFLICT if the page moved on
     }) => {
       const userId = await requireAuth();
       
-      // Get current page to increment version and create snapshot
-      const { data: currentPage, error: fetchError } = await supabase
-        .from('pages')
-        .select('version, notebook_id, title, content')
-        .eq('id', data.id)
-        .eq('user_id', userId)
-        .single() as { data: { version: number; notebook_id: string; title: string; content: string } | null; error: any };
-      
-      if (fetchError || !currentPage) {
-        throw fetchError || new Error('Page not found');
-      }
-      
-      // Create version snapshot before updating (default: true)
-      const shouldCreateVersion = data.createVersion !== false;
-      
-      if (shouldCreateVersion && (data.title !== undefined || data.content !== undefined)) {
-        // Only create version if title or content is being changed
-        const contentChanged = data.content !== undefined && data.content !== currentPage.content;
-        const titleChanged = data.title !== undefined && data.title !== currentPage.title;
-        
-        if (contentChanged || titleChanged) {
-          const { error: versionError } = await supabase
-            .from('page_versions')
-            .insert({
-              page_id: data.id,
-              title: currentPage.title,
-              content: currentPage.content,
-              version: currentPage.version,
-              user_id: userId,
-            } as any);
-          
-          if (versionError) {
-            console.error('Failed to create version snapshot:', versionError);
-            // Don't throw - continue with update even if version creation fails
-          } else {
-            // Cleanup old versions after successful version creation
-            cleanupOldVersions(data.id, userId, DEFAULT_VERSION_CONFIG).catch((err) => {
-              console.error('Failed to cleanup old versions:', err);
-              // Don't throw - cleanup failure shouldn't block the update
-            });
+      return writeThrough({
+        remote: async () => {
+          // Get current page to increment version and create snapshot
+          const { data: currentPage, error: fetchError } = await supabase
+            .from('pages')
+            .select('version, notebook_id, title, content, properties, updated_at')
+            .eq('id', data.id)
+            .eq('user_id', userId)
+            .single() as { data: { version: number; notebook_id: string; title: string; content: string; properties?: PageProperty[]; updated_at: string } | null; error: any };
+          
+          if (fetchError || !currentPage) {
+            throw fetchError || new Error('Page not found');
           }
-        }
-      }
-      
-      const result: any = await (supabase
-        .from('pages')
-        .update as any)({
-          title: data.title,
-          content: data.content,
-          parent_page_id: data.parent_page_id,
-          version: currentPage.version + 1,
-        })
-        .eq('id', data.id)
-        .eq('user_id', userId)
-        .select()
-        .single();
-      
-      const { data: page, error } = result;
-      
-      if (error) {
-        throw error;
-      }
-      
-      // Save the new current version to page_versions as well
-      if (shouldCreateVersion && page && (data.title !== undefined || data.content !== undefined)) {
-        const contentChanged = data.content !== undefined && data.content !== currentPage.content;
-        const titleChanged = data.title !== undefined && data.title !== currentPage.title;
-        
-        if (contentChanged || titleChanged) {
-          const updatedPage = page as any;
-          const { error: currentVersionError } = await supabase
-            .from('page_versions')
-            .insert({
-              page_id: updatedPage.id,
-              title: updatedPage.title,
-              content: updatedPage.content,
-              version: updatedPage.version,
-              user_id: userId,
-            } as any);
-          
-          if (currentVersionError) {
-            console.error('Failed to save current version:', currentVersionError);
-            // Don't throw - this shouldn't block the update
+          
+          if (data.expectedVersion !== undefined && currentPage.version !== data.expectedVersion) {
+            throw createPageConflictError(data.id, data.expectedVersion, currentPage);
           }
-        }
-      }
-      
-      if (error) {
-        throw error;
-      }
-      
-      return page;
+          
+          const result: any = await (supabase
+            .from('pages')
+            .update as any)({
+              title: data.title,
+              content: data.content,
+              properties: data.properties,
+              parent_page_id: data.parent_page_id,
+              version: currentPage.version + 1,
+            })
+            .eq('id', data.id)
+            .eq('user_id', userId)
+            // Only update the version we read, so concurrent saves can't overwrite each other
+            .eq('version', currentPage.version)
+            .select()
+            .maybeSingle();
+          
+          const { data: page, error } = result;
+          
+          if (error) {
+            throw error;
+          }
+          
+          if (!page) {
+            // Another save landed between our read and write
+            const { data: latestPage, error: latestError } = await supabase
+              .from('pages')
+              .select('title, content, properties, version, updated_at')
+              .eq('id', data.id)
+              .eq('user_id', userId)
+              .single() as { data: PageConflict['theirs'] | null; error: any };
+            
+            if (latestError || !latestPage) {
+              throw latestError || new Error('Page not found');
+            }
+            
+            throw createPageConflictError(data.id, data.expectedVersion ?? currentPage.version, latestPage);
+          }
+          
+          const contentChanged = data.content !== undefined && data.content !== currentPage.content;
+          const titleChanged = data.title !== undefined && data.title !== currentPage.title;
+          
+          // Record the save in the version history (default: true)
+          if (data.createVersion !== false && (contentChanged || titleChanged)) {
+            const versionConfig = await getNotebookVersionConfig(currentPage.notebook_id, userId);
+            await recordPageVersion(data.id, currentPage, page as PageData, userId, versionConfig);
+          }
+          
+          // Stale links or tags only affect backlinks and tag filters, so they don't fail the save
+          if (contentChanged) {
+            try {
+              await updatePageIndexes(data.id, (page as PageData).content, userId);
+            } catch (indexError) {
+              console.error('Failed to update page links and tags:', indexError);
+            }
+          }
+
+          return page;
+        },
+        offline: async () => {
+          const currentPage = await localStore.get<PageData>('pages', data.id);
+          
+          if (!currentPage) {
+            throw new Error('Page not found');
+          }
+          
+          if (data.expectedVersion !== undefined && currentPage.version !== data.expectedVersion) {
+            throw createPageConflictError(data.id, data.expectedVersion, currentPage);
+          }
+          
+          const now = new Date().toISOString();
+          const page: PageData = {
+            ...currentPage,
+            title: data.title ?? currentPage.title,
+            content: data.content ?? currentPage.content,
+            properties: data.properties ?? currentPage.properties,
+            parent_page_id: data.parent_page_id ?? currentPage.parent_page_id,
+            version: currentPage.version + 1,
+            updated_at: now,
+          };
+          
+          const contentChanged = data.content !== undefined && data.content !== currentPage.content;
+          const titleChanged = data.title !== undefined && data.title !== currentPage.title;
+          
+          await localStore.put('pages', page);
+          
+          const versionEntries: Array<Omit<OutboxEntry, 'id' | 'createdAt'>> = [];
+          
+          // Same history policy as the online path
+          if (data.createVersion !== false && (contentChanged || titleChanged)) {
+            const localVersions = await localStore.getAll<PageVersionData>('page_versions', { name: 'page_id', value: page.id });
+            const latest = localVersions.sort((a, b) => b.version - a.version || b.created_at.localeCompare(a.created_at))[0];
+            const write = planVersionWrite(latest, currentPage, page, DEFAULT_VERSION_CONFIG);
+            
+            if (write.type === 'coalesce') {
+              await localStore.put('page_versions', { ...latest, title: page.title, content: page.content, version: page.version });
+              // Stored in full, since the delta base may not be available offline
+              versionEntries.push({
+                table: 'page_versions',
+                operation: 'update',
+                recordId: write.versionId,
+                pageId: page.id,
+                values: { title: page.title, content: page.content, version: page.version, base_version_id: null, delta: null },
+              });
+            } else {
+              const versions: PageVersionData[] = write.snapshots.map(snapshot => ({
+                id: crypto.randomUUID(),
+                page_id: page.id,
+                title: snapshot.title,
+                content: snapshot.content,
+                version: snapshot.version,
+                user_id: userId,
+                created_at: now,
+              }));
+              
+              await localStore.put('page_versions', versions);
+              versionEntries.push(...versions.map(version => ({
+                table: 'page_versions' as const,
+                operation: 'insert' as const,
+                recordId: version.id,
+                pageId: page.id,
+                values: {
+                  id: version.id,
+                  page_id: version.page_id,
+                  title: version.title,
+                  content: version.content,
+                  version: version.version,
+                  user_id: userId,
+                },
+              })));
+            }
+          }
+          
+          await queueMutations([
+            {
+              table: 'pages',
+              operation: 'update',
+              recordId: page.id,
+              pageId: page.id,
+              condition: { version: currentPage.version },
+              values: {
+                title: data.title,
+                content: data.content,
+                properties: data.properties,
+                parent_page_id: data.parent_page_id,
+                version: page.version,
+              },
+            },
+            ...versionEntries,
+          ]);
+          
+          return page;
+        },
+      });
     },
     onMutate: async (updatedPage) => {
       await queryClient.cancelQueries({ queryKey: ['page', updatedPage.id] });
@@ -382,7 +882,10 @@ export function useUpdatePage() {
     onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ['page', data?.id] });
       queryClient.invalidateQueries({ queryKey: ['pages', data?.notebook_id] });
+      queryClient.invalidateQueries({ queryKey: ['pages', 'titles'] });
       queryClient.invalidateQueries({ queryKey: ['page-versions', data?.id] });
+      queryClient.invalidateQueries({ queryKey: ['backlinks'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
       if (data?.parent_page_id) {
         queryClient.invalidateQueries({ queryKey: ['pages', 'children', data.parent_page_id] });
       }
@@ -391,7 +894,9 @@ export function useUpdatePage() {
 }
 
 /**
- * Hook for moving a page to a different parent or notebook
+ * Hook for moving a page to a different parent or notebook. The page's
+ * subtree moves along to the new notebook; the database rejects moving a
+ * page under itself or one of its descendants with a DatabaseError.
  */
 export function useMovePage() {
   const queryClient = useQueryClient();
@@ -399,16 +904,98 @@ export function useMovePage() {
   return useMutation({
     mutationFn: async (data: {
       id: string;
-      parent_page_id?: string | null;
+      parent_page_id: string | null;
       notebook_id?: string;
+    }) => {
+      await requireAuth();
+      
+      const { data: page, error } = await supabase
+        .rpc('move_page_subtree', {
+          target_page_id: data.id,
+          new_parent_page_id: data.parent_page_id,
+          new_notebook_id: data.notebook_id ?? null,
+        });
+      
+      if (error) {
+        throw handleDatabaseError(error);
+      }
+      
+      return page;
+    },
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['pages'] });
+      // Every page of the subtree changes notebook, not just the moved one
+      queryClient.invalidateQueries({ queryKey: variables.notebook_id ? ['page'] : ['page', data?.id] });
+    },
+  });
+}
+
+/**
+ * Hook for copying a page, and by default its subtree, into the same or
+ * another notebook. Attachments are copied and links between the copied
+ * pages point at the copies.
+ */
+export function useDuplicatePage() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (data: {
+      id: string;
+      notebook_id: string; // Notebook the copy goes to
+      parent_page_id?: string | null; // Null or omitted copies to the root level
+      title?: string; // Defaults to "<title> (copy)"
+      include_children?: boolean; // Defaults to true
     }) => {
       const userId = await requireAuth();
       
+      return duplicatePage(
+        data.id,
+        {
+          notebook_id: data.notebook_id,
+          parent_page_id: data.parent_page_id ?? undefined,
+          title: data.title,
+        },
+        data.include_children ?? true,
+        userId
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pages'] });
+      queryClient.invalidateQueries({ queryKey: ['attachments'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+    },
+  });
+}
+
+/**
+ * Hook for reordering a page among its siblings, optionally under a new parent.
+ * The page is placed before or after `anchor_page_id`, or appended to the end
+ * of the parent's children when no anchor is given.
+ */
+export function useReorderPage() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async (data: {
+      id: string;
+      notebook_id: string;
+      parent_page_id: string | null;
+      anchor_page_id?: string;
+      position?: 'before' | 'after';
+    }) => {
+      const userId = await requireAuth();
+      
+      const sortOrder = await generateSiblingSortKey(data, userId, {
+        anchorId: data.anchor_page_id,
+        position: data.position,
+        excludeId: data.id,
+      });
+      
       const result: any = await (supabase
         .from('pages')
         .update as any)({
           parent_page_id: data.parent_page_id,
-          notebook_id: data.notebook_id,
+          sort_order: sortOrder,
         })
         .eq('id', data.id)
         .eq('user_id', userId)
@@ -418,7 +1005,7 @@ export function useMovePage() {
       const { data: page, error } = result;
       
       if (error) {
-        throw error;
+        throw handleDatabaseError(error);
       }
       
       return page;
@@ -432,37 +1019,58 @@ export function useMovePage() {
 
 /**
  * Hook for deleting a page
+ * The page and its subtree move to the trash and can be restored from there
  */
 export function useDeletePage() {
   const queryClient = useQueryClient();
   
   return useMutation({
     mutationFn: async (pageId: string) => {
-      const userId = await requireAuth();
-      
-      // Get page info before deletion
-      const { data: pageInfo, error: fetchError } = await supabase
-        .from('pages')
-        .select('notebook_id, parent_page_id')
-        .eq('id', pageId)
-        .eq('user_id', userId)
-        .single() as { data: { notebook_id: string; parent_page_id?: string } | null; error: any };
+      await requireAuth();
+      const deletedAt = new Date().toISOString();
       
-      if (fetchError || !pageInfo) {
-        throw fetchError || new Error('Page not found');
-      }
-      
-      const { error } = await supabase
-        .from('pages')
-        .delete()
-        .eq('id', pageId)
-        .eq('user_id', userId);
-      
-      if (error) {
-        throw error;
-      }
-      
-      return { pageId, ...pageInfo };
+      return writeThrough({
+        remote: async () => {
+          // Moves the page and its subtree to the trash in one statement
+          const { data: trashed, error } = await supabase
+            .rpc('delete_page_subtree', { target_page_id: pageId });
+          
+          if (error) {
+            throw error;
+          }
+          
+          const pageInfo = trashed?.find(page => page.id === pageId);
+          
+          if (!pageInfo) {
+            throw new Error('Page not found');
+          }
+          
+          return { pageId, notebook_id: pageInfo.notebook_id, parent_page_id: pageInfo.parent_page_id };
+        },
+        offline: async () => {
+          // Pages never opened are only known from the notebook's listing
+          const page = await localStore.get<PageData>('pages', pageId)
+            ?? await localStore.get<PageSummary>('page_summaries', pageId);
+          
+          if (!page) {
+            throw new Error('Page not found');
+          }
+          
+          // The replica only holds pages outside the trash
+          const subtreeIds = await getLocalSubtreeIds(page.notebook_id, pageId);
+          await localStore.delete('pages', subtreeIds);
+          await localStore.delete('page_summaries', subtreeIds);
+          await queueMutations(subtreeIds.map(id => ({
+            table: 'pages' as const,
+            operation: 'update' as const,
+            recordId: id,
+            pageId: id,
+            values: { deleted_at: deletedAt, deleted_root_id: pageId },
+          })));
+          
+          return { pageId, notebook_id: page.notebook_id, parent_page_id: page.parent_page_id };
+        },
+      });
     },
     onMutate: async (pageId) => {
       await queryClient.cancelQueries({ queryKey: ['pages'] });
@@ -472,6 +1080,7 @@ export function useDeletePage() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['pages', data.notebook_id] });
       queryClient.invalidateQueries({ queryKey: ['page', data.pageId] });
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
       if (data.parent_page_id) {
         queryClient.invalidateQueries({ queryKey: ['pages', 'children', data.parent_page_id] });
       }
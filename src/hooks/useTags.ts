@@ -0,0 +1,67 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { requireAuth } from '../lib/database';
+import { addPageTag, fetchPageTags, fetchTagCounts, removePageTag, type PageTag, type TagCount } from '../lib/tags';
+
+/**
+ * Hook for fetching every tag in use with its number of pages
+ */
+export function useTags() {
+  return useQuery<TagCount[], Error>({
+    queryKey: ['tags'],
+    queryFn: async () => {
+      const userId = await requireAuth();
+      return fetchTagCounts(userId);
+    },
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Hook for fetching the tags of a page, from its content and its own tag list
+ */
+export function usePageTags(pageId: string | undefined) {
+  return useQuery<PageTag[], Error>({
+    queryKey: ['tags', 'page', pageId],
+    queryFn: async () => {
+      const userId = await requireAuth();
+      return fetchPageTags(pageId!, userId);
+    },
+    enabled: !!pageId,
+  });
+}
+
+/**
+ * Hook for adding a tag to a page's own tag list
+ */
+export function useAddPageTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { pageId: string; name: string }) => {
+      const userId = await requireAuth();
+      return addPageTag(data.pageId, data.name, userId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      queryClient.invalidateQueries({ queryKey: ['pages'] });
+    },
+  });
+}
+
+/**
+ * Hook for removing a tag from a page's own tag list
+ */
+export function useRemovePageTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { pageId: string; name: string }) => {
+      const userId = await requireAuth();
+      await removePageTag(data.pageId, data.name, userId);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      queryClient.invalidateQueries({ queryKey: ['pages'] });
+    },
+  });
+}
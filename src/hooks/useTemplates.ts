@@ -0,0 +1,83 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { requireAuth } from '../lib/database';
+import { createPageFromTemplate, fetchPageTemplates, type PageTemplate } from '../lib/pageTemplates';
+
+/**
+ * Hook for fetching every page marked as a template
+ */
+export function usePageTemplates() {
+  return useQuery<PageTemplate[], Error>({
+    queryKey: ['templates'],
+    queryFn: async () => {
+      const userId = await requireAuth();
+      return fetchPageTemplates(userId);
+    },
+    staleTime: 30000,
+  });
+}
+
+/**
+ * Hook for marking a page as a template, or no longer a template
+ */
+export function useSetPageTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { id: string; is_template: boolean }) => {
+      const userId = await requireAuth();
+
+      const { data: page, error } = await supabase
+        .from('pages')
+        .update({ is_template: data.is_template })
+        .eq('id', data.id)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return page;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+      queryClient.invalidateQueries({ queryKey: ['pages'] });
+      queryClient.invalidateQueries({ queryKey: ['page', data?.id] });
+    },
+  });
+}
+
+/**
+ * Hook for creating a page, and the template's child pages, from a template
+ */
+export function useCreatePageFromTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: {
+      templateId: string;
+      title: string;
+      notebook_id: string;
+      parent_page_id?: string;
+    }) => {
+      const userId = await requireAuth();
+      const { data: { session } } = await supabase.auth.getSession();
+
+      return createPageFromTemplate(
+        data.templateId,
+        { title: data.title, notebook_id: data.notebook_id, parent_page_id: data.parent_page_id },
+        { date: new Date(), user: { email: session?.user?.email } },
+        userId
+      );
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['pages'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      if (data?.parent_page_id) {
+        queryClient.invalidateQueries({ queryKey: ['pages', 'children', data.parent_page_id] });
+      }
+    },
+  });
+}
@@ -0,0 +1,230 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { requireAuth } from '../lib/database';
+import { purgeTrashedNotebooks, purgeTrashedPages } from '../lib/trash';
+import type { TrashContents, TrashedPage } from '../types/database';
+
+/**
+ * Hook for listing deleted notebooks and page subtrees, most recent first
+ */
+export function useTrash() {
+  return useQuery({
+    queryKey: ['trash'],
+    queryFn: async (): Promise<TrashContents> => {
+      const userId = await requireAuth();
+
+      const [notebooksResult, pagesResult] = await Promise.all([
+        supabase
+          .from('notebooks')
+          .select('*')
+          .eq('user_id', userId)
+          .not('deleted_at', 'is', null)
+          .order('deleted_at', { ascending: false }),
+        supabase
+          .from('pages')
+          .select('id, title, notebook_id, parent_page_id, deleted_at, deleted_root_id')
+          .eq('user_id', userId)
+          .not('deleted_at', 'is', null),
+      ]);
+
+      if (notebooksResult.error) {
+        throw notebooksResult.error;
+      }
+
+      if (pagesResult.error) {
+        throw pagesResult.error;
+      }
+
+      const notebooks = notebooksResult.data || [];
+      const trashedNotebookIds = new Set(notebooks.map(notebook => notebook.id));
+
+      // Pages inside a deleted notebook come back with the notebook
+      const rows = (pagesResult.data || []).filter(page => !trashedNotebookIds.has(page.notebook_id));
+      const roots = rows.filter(page => page.id === page.deleted_root_id);
+
+      const notebookIds = [...new Set(roots.map(page => page.notebook_id))];
+      const notebookTitles = new Map<string, string>();
+
+      if (notebookIds.length > 0) {
+        const { data: owners, error } = await supabase
+          .from('notebooks')
+          .select('id, title')
+          .in('id', notebookIds)
+          .eq('user_id', userId);
+
+        if (error) {
+          throw error;
+        }
+
+        (owners || []).forEach(notebook => notebookTitles.set(notebook.id, notebook.title));
+      }
+
+      const pages: TrashedPage[] = roots
+        .map(page => ({
+          id: page.id,
+          title: page.title,
+          notebook_id: page.notebook_id,
+          notebook_title: notebookTitles.get(page.notebook_id) || 'Unknown Notebook',
+          parent_page_id: page.parent_page_id,
+          deleted_at: page.deleted_at!,
+          descendant_count: rows.filter(row => row.deleted_root_id === page.id).length - 1,
+        }))
+        .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+
+      return { notebooks, pages };
+    },
+  });
+}
+
+/**
+ * Hook for restoring a deleted page and the pages deleted with it.
+ * The page goes back under its original parent, or to the notebook root if
+ * the parent has been deleted since.
+ */
+export function useRestorePage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (pageId: string) => {
+      const userId = await requireAuth();
+
+      const { data: page, error: fetchError } = await supabase
+        .from('pages')
+        .select('id, notebook_id, parent_page_id')
+        .eq('id', pageId)
+        .eq('user_id', userId)
+        .single();
+
+      if (fetchError || !page) {
+        throw fetchError || new Error('Page not found');
+      }
+
+      let parentPageId = page.parent_page_id ?? null;
+
+      if (parentPageId) {
+        const { data: parent, error: parentError } = await supabase
+          .from('pages')
+          .select('id, deleted_at')
+          .eq('id', parentPageId)
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        if (parentError) {
+          throw parentError;
+        }
+
+        if (!parent || parent.deleted_at) {
+          parentPageId = null;
+        }
+      }
+
+      if (parentPageId !== (page.parent_page_id ?? null)) {
+        const { error } = await supabase
+          .from('pages')
+          .update({ parent_page_id: parentPageId })
+          .eq('id', pageId)
+          .eq('user_id', userId);
+
+        if (error) {
+          throw error;
+        }
+      }
+
+      const { error } = await supabase
+        .from('pages')
+        .update({ deleted_at: null, deleted_root_id: null })
+        .eq('deleted_root_id', pageId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw error;
+      }
+
+      return { pageId, notebook_id: page.notebook_id, parent_page_id: parentPageId };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      queryClient.invalidateQueries({ queryKey: ['pages', data.notebook_id] });
+      queryClient.invalidateQueries({ queryKey: ['page', data.pageId] });
+      if (data.parent_page_id) {
+        queryClient.invalidateQueries({ queryKey: ['pages', 'children', data.parent_page_id] });
+      }
+    },
+  });
+}
+
+/**
+ * Hook for restoring a deleted notebook with its pages
+ */
+export function useRestoreNotebook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (notebookId: string) => {
+      const userId = await requireAuth();
+
+      const { error } = await supabase
+        .from('notebooks')
+        .update({ deleted_at: null })
+        .eq('id', notebookId)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw error;
+      }
+
+      return notebookId;
+    },
+    onSuccess: (notebookId) => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+      queryClient.invalidateQueries({ queryKey: ['notebooks'] });
+      queryClient.invalidateQueries({ queryKey: ['notebook', notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['pages', notebookId] });
+    },
+  });
+}
+
+/**
+ * Hook for permanently deleting an item from the trash
+ */
+export function usePurgeTrashItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: { type: 'notebook' | 'page'; id: string }) => {
+      const userId = await requireAuth();
+
+      if (data.type === 'notebook') {
+        await purgeTrashedNotebooks([data.id], userId);
+      } else {
+        await purgeTrashedPages([data.id], userId);
+      }
+
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+  });
+}
+
+/**
+ * Hook for permanently deleting everything in the trash
+ */
+export function useEmptyTrash() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (trash: TrashContents) => {
+      const userId = await requireAuth();
+
+      await purgeTrashedNotebooks(trash.notebooks.map(notebook => notebook.id), userId);
+      await purgeTrashedPages(trash.pages.map(page => page.id), userId);
+
+      return { purged: trash.notebooks.length + trash.pages.length };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['trash'] });
+    },
+  });
+}
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  BACKUP_SCHEMA_VERSION,
+  decodeBase64,
+  encodeBase64,
+  parseAccountBackup,
+  planAccountRestore,
+  remapStoragePath,
+  rewriteBackupLinks,
+  type AccountBackup,
+  type BackupPage,
+} from '../accountBackup';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    storage: { from: vi.fn() },
+  },
+}));
+
+const STORAGE_URL = 'https://project.supabase.co/storage/v1/object/public/user-files';
+
+function page(id: string, parent_page_id?: string, content = ''): BackupPage {
+  return {
+    id,
+    title: id,
+    content,
+    version: 1,
+    parent_page_id,
+    sort_order: 'a0',
+    notebook_id: 'nb-old',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-02T00:00:00Z',
+  };
+}
+
+function backup(overrides: Partial<AccountBackup> = {}): AccountBackup {
+  return {
+    format: 'mininote-backup',
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    createdAt: '2024-03-01T00:00:00Z',
+    notebooks: [{
+      id: 'nb-old',
+      title: 'Notes',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-02T00:00:00Z',
+    }],
+    pages: [],
+    pageVersions: [],
+    attachments: [],
+    ...overrides,
+  };
+}
+
+function sequentialIds() {
+  let next = 0;
+  return () => `new-${++next}`;
+}
+
+describe('accountBackup', () => {
+  describe('base64', () => {
+    it('round-trips binary data', () => {
+      const data = Uint8Array.from({ length: 70000 }, (_, i) => i % 256);
+      expect(decodeBase64(encodeBase64(data))).toEqual(data);
+    });
+  });
+
+  describe('parseAccountBackup', () => {
+    it('accepts a backup of the current schema', () => {
+      const parsed = parseAccountBackup(JSON.stringify(backup()));
+      expect(parsed.notebooks).toHaveLength(1);
+    });
+
+    it('rejects files that are not backups', () => {
+      expect(() => parseAccountBackup('not json')).toThrow('not valid JSON');
+      expect(() => parseAccountBackup('{"notebooks": []}')).toThrow('Not a Mini Note backup');
+    });
+
+    it('rejects backups from a newer schema', () => {
+      const newer = { ...backup(), schemaVersion: BACKUP_SCHEMA_VERSION + 1 };
+      expect(() => parseAccountBackup(JSON.stringify(newer))).toThrow('newer than this app supports');
+    });
+
+    it('rejects backups with missing collections', () => {
+      const incomplete: Partial<AccountBackup> = backup();
+      delete incomplete.pages;
+      expect(() => parseAccountBackup(JSON.stringify(incomplete))).toThrow('missing its pages');
+    });
+  });
+
+  describe('rewriteBackupLinks', () => {
+    const ids = new Map([['nb-old', 'nb-new'], ['page-old', 'page-new']]);
+
+    it('remaps links to restored pages and notebooks', () => {
+      const content = '[A](#/notebooks/nb-old/pages/page-old) and [B](#/notebooks/nb-old) and [C](#/pages/page-old)';
+      expect(rewriteBackupLinks(content, ids, new Map())).toBe(
+        '[A](#/notebooks/nb-new/pages/page-new) and [B](#/notebooks/nb-new) and [C](#/pages/page-new)'
+      );
+    });
+
+    it('leaves links to records outside the backup alone', () => {
+      const content = '[A](#/notebooks/nb-old/pages/missing) [B](#/notebooks/other/pages/page-old)';
+      expect(rewriteBackupLinks(content, ids, new Map())).toBe(content);
+    });
+
+    it('points attachment URLs at the restored files', () => {
+      const content = `![cat](${STORAGE_URL}/user-old/page-old/image/1-cat.png)`;
+      const urls = new Map([['user-old/page-old/image/1-cat.png', 'https://new/user-files/u/p/image/1-cat.png']]);
+      expect(rewriteBackupLinks(content, ids, urls)).toBe('![cat](https://new/user-files/u/p/image/1-cat.png)');
+    });
+  });
+
+  describe('remapStoragePath', () => {
+    it('moves the file under the restoring user and page', () => {
+      expect(remapStoragePath('user-old/page-old/image/1-cat.png', 'user-1', 'page-new'))
+        .toBe('user-1/page-new/image/1-cat.png');
+    });
+  });
+
+  describe('planAccountRestore', () => {
+    it('gives every record a new id and keeps the page tree', () => {
+      const plan = planAccountRestore(
+        backup({ pages: [page('child', 'parent'), page('parent'), page('grandchild', 'child')] }),
+        'user-1',
+        path => `${STORAGE_URL}/${path}`,
+        sequentialIds()
+      );
+
+      expect(plan.notebooks).toEqual([expect.objectContaining({ id: 'new-1', user_id: 'user-1' })]);
+      expect(plan.pages.map(p => p.title)).toEqual(['parent', 'child', 'grandchild']);
+
+      const [parent, child, grandchild] = plan.pages;
+      expect(parent.parent_page_id).toBeUndefined();
+      expect(child.parent_page_id).toBe(parent.id);
+      expect(grandchild.parent_page_id).toBe(child.id);
+      expect(plan.pages.every(p => p.notebook_id === 'new-1' && p.user_id === 'user-1')).toBe(true);
+      expect(new Set(plan.pages.map(p => p.id)).size).toBe(3);
+    });
+
+    it('remaps trash groups and links in pages and versions', () => {
+      const plan = planAccountRestore(
+        backup({
+          pages: [
+            { ...page('a', undefined, '[B](#/notebooks/nb-old/pages/b)'), deleted_at: '2024-02-01T00:00:00Z', deleted_root_id: 'a' },
+            page('b'),
+          ],
+          pageVersions: [{
+            id: 'v-old',
+            page_id: 'a',
+            title: 'a',
+            content: 'see #/notebooks/nb-old/pages/b',
+            version: 1,
+            created_at: '2024-01-01T00:00:00Z',
+          }],
+        }),
+        'user-1',
+        path => `${STORAGE_URL}/${path}`,
+        sequentialIds()
+      );
+
+      const [a, b] = plan.pages;
+      expect(a.deleted_at).toBe('2024-02-01T00:00:00Z');
+      expect(a.deleted_root_id).toBe(a.id);
+      expect(a.content).toBe(`[B](#/notebooks/new-1/pages/${b.id})`);
+      expect(plan.pageVersions).toEqual([expect.objectContaining({
+        page_id: a.id,
+        content: `see #/notebooks/new-1/pages/${b.id}`,
+        base_version_id: null,
+        delta: null,
+        user_id: 'user-1',
+      })]);
+      expect(plan.pageVersions[0].id).not.toBe('v-old');
+    });
+
+    it('moves attachments to the restored pages', () => {
+      const plan = planAccountRestore(
+        backup({
+          pages: [page('a', undefined, `![cat](${STORAGE_URL}/user-old/a/image/1-cat.png)`)],
+          attachments: [{
+            id: 'att-old',
+            filename: 'cat.png',
+            file_type: 'image/png',
+            file_size: 3,
+            storage_path: 'user-old/a/image/1-cat.png',
+            page_id: 'a',
+            created_at: '2024-01-01T00:00:00Z',
+            data: 'AQID',
+          }],
+        }),
+        'user-1',
+        path => `${STORAGE_URL}/${path}`,
+        sequentialIds()
+      );
+
+      const [a] = plan.pages;
+      const newPath = `user-1/${a.id}/image/1-cat.png`;
+      expect(plan.attachments).toEqual([{
+        attachment: expect.objectContaining({ page_id: a.id, storage_path: newPath, user_id: 'user-1' }),
+        data: 'AQID',
+      }]);
+      expect(a.content).toBe(`![cat](${STORAGE_URL}/${newPath})`);
+    });
+
+    it('drops parents that would form a cycle', () => {
+      const plan = planAccountRestore(
+        backup({ pages: [page('a', 'b'), page('b', 'a')] }),
+        'user-1',
+        path => path,
+        sequentialIds()
+      );
+
+      expect(plan.pages).toHaveLength(2);
+      expect(plan.pages.every(p => p.parent_page_id === undefined)).toBe(true);
+    });
+  });
+});
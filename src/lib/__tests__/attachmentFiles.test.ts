@@ -0,0 +1,31 @@
+import { describe, it, expect, vi } from 'vitest';
+import { replaceAttachmentUrls } from '../attachmentFiles';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+describe('attachmentFiles', () => {
+  describe('replaceAttachmentUrls', () => {
+    it('should replace URLs of the given files on any host', () => {
+      const content = [
+        '![a](https://old.supabase.co/storage/v1/object/public/user-files/u1/p1/a.png)',
+        '[b](http://localhost:54321/storage/v1/object/public/user-files/u1/p1/b(1).pdf)',
+        '![c](https://old.supabase.co/storage/v1/object/public/user-files/u1/p1/c.png)',
+      ].join('\n');
+
+      const result = replaceAttachmentUrls(content, new Map([
+        ['u1/p1/a.png', 'attachments/a.png'],
+        ['u1/p1/b(1).pdf', 'attachments/b$1.pdf'],
+      ]));
+
+      expect(result).toBe([
+        '![a](attachments/a.png)',
+        '[b](attachments/b$1.pdf)',
+        '![c](https://old.supabase.co/storage/v1/object/public/user-files/u1/p1/c.png)',
+      ].join('\n'));
+    });
+  });
+});
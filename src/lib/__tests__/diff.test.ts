@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffSequences,
+  diffSequencesWithin,
+  diffWords,
+  diffLines,
+  foldUnchanged,
+  compareVersions,
+  threeWayMerge,
+  resolveMerge,
+} from '../diff';
+import type { PageVersionData } from '../../types/database';
+
+describe('diff', () => {
+  describe('diffSequences', () => {
+    it('should report an insertion at the start without touching other lines', () => {
+      const edits = diffSequences(['a', 'b', 'c'], ['new', 'a', 'b', 'c']);
+
+      expect(edits.map(edit => edit.type)).toEqual(['insert', 'equal', 'equal', 'equal']);
+    });
+
+    it('should produce a minimal edit script', () => {
+      const edits = diffSequences('ABCABBA'.split(''), 'CBABAC'.split(''));
+      const changes = edits.filter(edit => edit.type !== 'equal');
+
+      expect(changes).toHaveLength(5);
+    });
+
+    it('should track indexes in both sequences', () => {
+      const edits = diffSequences(['a', 'x', 'c'], ['a', 'y', 'c']);
+
+      expect(edits).toEqual([
+        { type: 'equal', value: 'a', oldIndex: 0, newIndex: 0 },
+        { type: 'delete', value: 'x', oldIndex: 1 },
+        { type: 'insert', value: 'y', newIndex: 1 },
+        { type: 'equal', value: 'c', oldIndex: 2, newIndex: 2 },
+      ]);
+    });
+
+    it('should handle empty sequences', () => {
+      expect(diffSequences([], [])).toEqual([]);
+      expect(diffSequences([], ['a']).map(edit => edit.type)).toEqual(['insert']);
+      expect(diffSequences(['a'], []).map(edit => edit.type)).toEqual(['delete']);
+    });
+
+    it('should diff large unrelated inputs', () => {
+      const a = Array.from({ length: 5000 }, (_, i) => `old line ${i}`);
+      const b = Array.from({ length: 5000 }, (_, i) => `new line ${i}`);
+      const edits = diffSequences(a, b);
+
+      expect(edits.filter(edit => edit.type === 'delete')).toHaveLength(5000);
+      expect(edits.filter(edit => edit.type === 'insert')).toHaveLength(5000);
+      expect(diffSequencesWithin(a, b, 1000)).toBeNull();
+    });
+  });
+
+  describe('diffSequencesWithin', () => {
+    it('should return the edit script only when it fits the limit', () => {
+      const a = 'ABCABBA'.split('');
+      const b = 'CBABAC'.split('');
+
+      expect(diffSequencesWithin(a, b, 5)).toEqual(diffSequences(a, b));
+      expect(diffSequencesWithin(a, b, 4)).toBeNull();
+    });
+  });
+
+  describe('diffWords', () => {
+    it('should highlight only the words that changed', () => {
+      expect(diffWords('the quick fox', 'the slow fox')).toEqual([
+        { type: 'equal', text: 'the ' },
+        { type: 'delete', text: 'quick' },
+        { type: 'insert', text: 'slow' },
+        { type: 'equal', text: ' fox' },
+      ]);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should not mark shifted lines as changed after an insertion', () => {
+      const rows = diffLines('a\nb\nc', 'new\na\nb\nc');
+
+      expect(rows.map(row => row.type)).toEqual(['added', 'unchanged', 'unchanged', 'unchanged']);
+      expect(rows[1]).toMatchObject({ oldNumber: 1, newNumber: 2 });
+    });
+
+    it('should pair replaced lines as changed rows', () => {
+      const rows = diffLines('a\nold\nc', 'a\nnew\nextra\nc');
+
+      expect(rows.map(row => row.type)).toEqual(['unchanged', 'changed', 'added', 'unchanged']);
+      expect(rows[1]).toMatchObject({ oldLine: 'old', newLine: 'new' });
+    });
+  });
+
+  describe('foldUnchanged', () => {
+    const rows = (types: string) => types.split('').map(t => ({ type: t === 'u' ? 'unchanged' : 'added' }));
+
+    it('should fold long unchanged runs but keep context around changes', () => {
+      const hunks = foldUnchanged(rows('uuuuuuuuuuauuuuuuuuuu'), 2);
+
+      expect(hunks.map(hunk => [hunk.type, hunk.rows.length])).toEqual([
+        ['folded', 8],
+        ['visible', 5],
+        ['folded', 8],
+      ]);
+      expect(hunks[2]).toMatchObject({ start: 13 });
+    });
+
+    it('should leave short unchanged runs visible', () => {
+      const hunks = foldUnchanged(rows('auuuuua'), 2);
+
+      expect(hunks).toHaveLength(1);
+      expect(hunks[0].type).toBe('visible');
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should populate additions, deletions and changes', () => {
+      const version = (content: string) => ({ content } as PageVersionData);
+      const diff = compareVersions(version('keep\nedit me\ndrop'), version('added\nkeep\nedited'));
+
+      expect(diff.additions).toEqual(['added']);
+      expect(diff.deletions).toEqual(['drop']);
+      expect(diff.changes).toEqual(['edited']);
+    });
+  });
+
+  describe('threeWayMerge', () => {
+    const base = 'one\ntwo\nthree\nfour';
+
+    it('should merge non-overlapping changes automatically', () => {
+      const result = threeWayMerge(base, 'ONE\ntwo\nthree\nfour', 'one\ntwo\nthree\nFOUR');
+
+      expect(result.hasConflicts).toBe(false);
+      expect(resolveMerge(result, [])).toBe('ONE\ntwo\nthree\nFOUR');
+    });
+
+    it('should accept identical changes on both sides', () => {
+      const result = threeWayMerge(base, 'one\n2\nthree\nfour', 'one\n2\nthree\nfour');
+
+      expect(result.hasConflicts).toBe(false);
+      expect(resolveMerge(result, [])).toBe('one\n2\nthree\nfour');
+    });
+
+    it('should report overlapping changes as conflicts', () => {
+      const result = threeWayMerge(base, 'one\nmine\nthree\nfour', 'one\ntheirs\nthree\nfour');
+
+      expect(result.hasConflicts).toBe(true);
+      expect(result.chunks).toContainEqual({
+        type: 'conflict',
+        base: ['two'],
+        mine: ['mine'],
+        theirs: ['theirs'],
+      });
+    });
+
+    it('should resolve conflicts with the chosen side', () => {
+      const result = threeWayMerge(base, 'one\nmine\nthree\nfour', 'one\ntheirs\nthree\nfour');
+
+      expect(resolveMerge(result, ['mine'])).toBe('one\nmine\nthree\nfour');
+      expect(resolveMerge(result, ['theirs'])).toBe('one\ntheirs\nthree\nfour');
+      expect(resolveMerge(result, ['both'])).toBe('one\nmine\ntheirs\nthree\nfour');
+    });
+  });
+});
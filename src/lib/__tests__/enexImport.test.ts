@@ -0,0 +1,76 @@
+import { describe, it, expect, vi } from 'vitest';
+import { planEnexImports } from '../enexImport';
+import { md5 } from '../md5';
+import type { ImportFile } from '../importPlan';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+const encoder = new TextEncoder();
+const image = new Uint8Array([137, 80, 78, 71]);
+
+function enex(notes: string): ImportFile {
+  return {
+    path: 'Travel.enex',
+    data: encoder.encode(`<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE en-export SYSTEM "http://xml.evernote.com/pub/evernote-export3.dtd">
+<en-export>${notes}</en-export>`),
+  };
+}
+
+function sequentialIds() {
+  let next = 0;
+  return () => `page-${++next}`;
+}
+
+describe('enexImport', () => {
+  it('should compute MD5 digests', () => {
+    expect(md5(encoder.encode('hello'))).toBe('5d41402abc4b2a76b9719d911017c592');
+    expect(md5(new Uint8Array())).toBe('d41d8cd98f00b204e9800998ecf8427e');
+  });
+
+  it('should plan a notebook per file with a page per note', () => {
+    const { plans, skipped } = planEnexImports([
+      enex(`
+        <note>
+          <title>Paris</title>
+          <content><![CDATA[<en-note><div>Louvre <en-media hash="${md5(image)}" type="image/png"/></div></en-note>]]></content>
+          <tag>europe</tag>
+          <tag>city trips</tag>
+          <resource>
+            <data encoding="base64">${btoa(String.fromCharCode(...image))}</data>
+            <mime>image/png</mime>
+            <resource-attributes><file-name>louvre (1).png</file-name></resource-attributes>
+          </resource>
+        </note>
+        <note>
+          <title>Rome</title>
+          <content><![CDATA[<en-note><div>Colosseum</div></en-note>]]></content>
+        </note>`),
+      { path: 'notes.txt', data: encoder.encode('') },
+    ], sequentialIds());
+
+    expect(skipped.map(file => file.path)).toEqual(['notes.txt']);
+    expect(plans).toHaveLength(1);
+
+    const [plan] = plans;
+    expect(plan.notebookTitle).toBe('Travel');
+    expect(plan.pages.map(page => page.title)).toEqual(['Paris', 'Rome']);
+    expect(plan.pages[0].content).toBe(
+      'Louvre ![1-louvre (1).png](1-Paris/1-louvre%20%281%29.png)\n\n#europe #city-trips'
+    );
+    expect(plan.pages[0].references).toEqual({ '1-Paris/1-louvre (1).png': '1-Paris/1-louvre (1).png' });
+    expect(plan.assets['1-Paris/1-louvre (1).png']).toEqual(image);
+    expect(plan.pages[1].content).toBe('Colosseum');
+  });
+
+  it('should skip files that are not Evernote exports', () => {
+    const { plans, skipped } = planEnexImports([{ path: 'broken.enex', data: encoder.encode('<html></html>') }]);
+
+    expect(plans).toEqual([]);
+    expect(skipped[0].reason).toContain('not an Evernote export');
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { htmlToMarkdown } from '../htmlToMarkdown';
+
+describe('htmlToMarkdown', () => {
+  it('should convert headings, paragraphs and emphasis', () => {
+    expect(htmlToMarkdown('<h2>Title</h2><p>Some <b>bold</b> and <em>italic </em>text</p>'))
+      .toBe('## Title\n\nSome **bold** and *italic* text');
+  });
+
+  it('should convert links, images and escape markdown characters', () => {
+    expect(htmlToMarkdown('<div><a href="https://example.com/a b">site</a> <img src="pic.png" alt="pic"> 2*3</div>'))
+      .toBe('[site](https://example.com/a%20b) ![pic](pic.png) 2\\*3');
+  });
+
+  it('should convert nested lists and task items', () => {
+    expect(htmlToMarkdown('<ul><li>One<ul><li>Nested</li></ul></li><li><en-todo checked="true"/>Done</li></ul><ol><li>First</li></ol>'))
+      .toBe('- One\n  - Nested\n- [x] Done\n\n1. First');
+  });
+
+  it('should convert tables and code blocks', () => {
+    expect(htmlToMarkdown('<table><tr><th>A</th><th>B</th></tr><tr><td>1|2</td><td>3</td></tr></table><pre>let x = 1;\n</pre>'))
+      .toBe('| A | B |\n| --- | --- |\n| 1\\|2 | 3 |\n\n```\nlet x = 1;\n```');
+  });
+
+  it('should let custom elements be converted without swallowing what follows', () => {
+    const markdown = htmlToMarkdown('<en-note><div><en-media hash="abc" type="image/png"/> after</div></en-note>', {
+      convertElement: element => (element.tagName.toLowerCase() === 'en-media' ? `![](${element.getAttribute('hash')})` : null),
+    });
+
+    expect(markdown).toBe('![](abc) after');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { runImportPlan, type ImportPlan } from '../importPlan';
+import { supabase } from '../supabase';
+import { fileUploadService } from '../fileUploadService';
+import { createPageWithInitialVersion } from '../pageCreation';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    storage: { from: vi.fn() },
+  },
+}));
+
+vi.mock('../fileUploadService', () => ({
+  fileUploadService: { storeFile: vi.fn() },
+}));
+
+vi.mock('../pageCreation', () => ({
+  createPageWithInitialVersion: vi.fn(),
+}));
+
+const STORAGE_URL = 'https://project.supabase.co/storage/v1/object/public/user-files';
+
+// Query builder whose chained calls all resolve to `result`
+function query(result: { data?: unknown; error: unknown }) {
+  const builder = {
+    insert: vi.fn(() => builder),
+    delete: vi.fn(() => builder),
+    select: vi.fn(() => builder),
+    eq: vi.fn(() => builder),
+    single: vi.fn(() => Promise.resolve(result)),
+    then: (resolve: (value: typeof result) => unknown) => Promise.resolve(result).then(resolve),
+  };
+  return builder;
+}
+
+function mockFrom(builder: ReturnType<typeof query>) {
+  vi.mocked(supabase.from).mockReturnValueOnce(builder as unknown as ReturnType<typeof supabase.from>);
+}
+
+const plan: ImportPlan = {
+  notebookTitle: 'Vault',
+  pages: [
+    {
+      id: 'page-1',
+      path: 'Cats.md',
+      title: 'Cats',
+      content: '![[cat.png]] and [[Dogs]]',
+      parentId: null,
+      sortOrder: 'a1',
+      references: { 'cat.png': 'cat.png', Dogs: 'Dogs.md' },
+    },
+    {
+      id: 'page-2',
+      path: 'Dogs.md',
+      title: 'Dogs',
+      content: 'Woof',
+      parentId: null,
+      sortOrder: 'a2',
+      references: {},
+    },
+  ],
+  pageIdsByPath: { 'Cats.md': 'page-1', 'Dogs.md': 'page-2' },
+  assets: { 'cat.png': new Uint8Array([1, 2, 3]) },
+  skipped: [],
+};
+
+describe('runImportPlan', () => {
+  const remove = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    remove.mockResolvedValue({ error: null });
+    vi.mocked(supabase.storage.from).mockReturnValue(
+      { remove } as unknown as ReturnType<typeof supabase.storage.from>
+    );
+    vi.mocked(fileUploadService.storeFile).mockResolvedValue({
+      storagePath: 'user-1/page-1/images/1-cat.png',
+      url: `${STORAGE_URL}/user-1/page-1/images/1-cat.png`,
+    });
+  });
+
+  it('creates each page once with links to its uploaded files', async () => {
+    const attachments = query({ error: null });
+    mockFrom(query({ data: { id: 'notebook-1', title: 'Vault' }, error: null }));
+    mockFrom(attachments);
+
+    const result = await runImportPlan(plan, 'user-1');
+
+    expect(createPageWithInitialVersion).toHaveBeenCalledTimes(2);
+    expect(createPageWithInitialVersion).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'page-1',
+      notebook_id: 'notebook-1',
+      content: `![cat.png](${STORAGE_URL}/user-1/page-1/images/1-cat.png) and [Dogs](#/notebooks/notebook-1/pages/page-2)`,
+    }), 'user-1');
+    expect(attachments.insert).toHaveBeenCalledWith([expect.objectContaining({
+      filename: 'cat.png',
+      file_type: 'image/png',
+      storage_path: 'user-1/page-1/images/1-cat.png',
+      page_id: 'page-1',
+      user_id: 'user-1',
+    })]);
+    expect(result).toMatchObject({ notebookId: 'notebook-1', pagesCreated: 2, attachmentsUploaded: 1, skipped: [] });
+  });
+
+  it('removes the notebook and its files when a page fails', async () => {
+    const notebookDelete = query({ error: null });
+    mockFrom(query({ data: { id: 'notebook-1', title: 'Vault' }, error: null }));
+    mockFrom(query({ error: null }));
+    mockFrom(notebookDelete);
+    vi.mocked(createPageWithInitialVersion)
+      .mockResolvedValueOnce(null)
+      .mockRejectedValueOnce(new Error('insert failed'));
+
+    await expect(runImportPlan(plan, 'user-1'))
+      .rejects.toThrow('Could not import "Dogs.md": insert failed. Nothing from "Vault" was imported.');
+
+    expect(remove).toHaveBeenCalledWith(['user-1/page-1/images/1-cat.png']);
+    expect(notebookDelete.delete).toHaveBeenCalled();
+    expect(notebookDelete.eq).toHaveBeenCalledWith('id', 'notebook-1');
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildFrontMatter,
+  buildNotebookExport,
+  buildPagePaths,
+  relativePath,
+  rewriteExportLinks,
+  sanitizeFileName,
+} from '../notebookExport';
+import type { AttachmentData, PageData } from '../../types/database';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+function page(id: string, title: string, parent_page_id?: string, sort_order?: string): PageData {
+  return {
+    id,
+    title,
+    content: `# ${title}`,
+    version: 1,
+    parent_page_id,
+    sort_order,
+    notebook_id: 'nb-1',
+    user_id: 'user-1',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-02T00:00:00Z',
+  };
+}
+
+describe('notebookExport', () => {
+  it('should make titles safe as file names', () => {
+    expect(sanitizeFileName('a/b: c?')).toBe('a-b- c-');
+    expect(sanitizeFileName('  ')).toBe('Untitled');
+    expect(sanitizeFileName('notes...')).toBe('notes');
+  });
+
+  it('should mirror the page hierarchy as folders', () => {
+    const paths = buildPagePaths([
+      page('root', 'Root', undefined, 'a0'),
+      page('child', 'Child', 'root'),
+      page('grandchild', 'Grandchild', 'child'),
+      page('orphan', 'Orphan', 'missing', 'a1'),
+    ], 'md', 'Notebook');
+
+    expect(paths.get('root')).toBe('Notebook/Root.md');
+    expect(paths.get('child')).toBe('Notebook/Root/Child.md');
+    expect(paths.get('grandchild')).toBe('Notebook/Root/Child/Grandchild.md');
+    expect(paths.get('orphan')).toBe('Notebook/Orphan.md');
+  });
+
+  it('should give siblings with the same title distinct names', () => {
+    const paths = buildPagePaths([
+      page('a', 'Notes', undefined, 'a0'),
+      page('b', 'notes', undefined, 'a1'),
+    ], 'md', 'Notebook');
+
+    expect(paths.get('a')).toBe('Notebook/Notes.md');
+    expect(paths.get('b')).toBe('Notebook/notes (2).md');
+  });
+
+  it('should compute relative paths between archive files', () => {
+    expect(relativePath('Notebook/Root', 'Notebook/Other.md')).toBe('../Other.md');
+    expect(relativePath('Notebook', 'Notebook/Root/Child.md')).toBe('Root/Child.md');
+  });
+
+  it('should write front matter with ids and timestamps', () => {
+    const frontMatter = buildFrontMatter(page('child', 'Child: "one"', 'root'));
+
+    expect(frontMatter).toContain('id: "child"\n');
+    expect(frontMatter).toContain('title: "Child: \\"one\\""\n');
+    expect(frontMatter).toContain('parent_page_id: "root"\n');
+    expect(frontMatter).toContain('version: 1\n');
+    expect(frontMatter).toContain('updated_at: "2024-01-02T00:00:00Z"\n');
+    expect(frontMatter.startsWith('---\n')).toBe(true);
+  });
+
+  it('should write page properties as front matter', () => {
+    const frontMatter = buildFrontMatter({
+      ...page('a', 'Task'),
+      properties: [
+        { name: 'Status', type: 'select', value: 'In progress', options: ['Todo', 'In progress'] },
+        { name: 'Due date', type: 'date', value: '2024-03-01' },
+        { name: 'Estimate', type: 'number', value: 2.5 },
+        { name: 'Done', type: 'checkbox', value: false },
+        { name: 'Labels', type: 'multi_select', value: ['work', 'urgent'] },
+        { name: 'yes', type: 'text', value: null },
+      ],
+    }, false);
+
+    expect(frontMatter).toBe([
+      '---',
+      'Status: "In progress"',
+      'Due date: 2024-03-01',
+      'Estimate: 2.5',
+      'Done: false',
+      'Labels:',
+      '  - "work"',
+      '  - "urgent"',
+      '"yes": null',
+      '---',
+      '',
+      '',
+    ].join('\n'));
+  });
+
+  it('should leave out front matter when there is nothing to write', () => {
+    expect(buildFrontMatter(page('a', 'Plain'), false)).toBe('');
+  });
+
+  it('should rewrite attachment and page links to relative paths', () => {
+    const content = [
+      '![diagram](https://project.supabase.co/storage/v1/object/public/user-files/user-1/page-1/diagram.png)',
+      '[Other](#/notebooks/nb-1/pages/other)',
+      '[Linked](#/pages/other)',
+      '[Missing](#/notebooks/nb-1/pages/missing)',
+    ].join('\n');
+
+    const result = rewriteExportLinks(content, 'Notebook/Root/Child.md', {
+      pages: new Map([['other', 'Notebook/My Other.md']]),
+      attachments: new Map([['user-1/page-1/diagram.png', 'Notebook/attachments/att-1-diagram.png']]),
+    });
+
+    expect(result).toContain('![diagram](../attachments/att-1-diagram.png)');
+    expect(result).toContain('[Other](../My%20Other.md)');
+    expect(result).toContain('[Linked](../My%20Other.md)');
+    expect(result).toContain('[Missing](#/notebooks/nb-1/pages/missing)');
+  });
+
+  it('should build html files with attachments', () => {
+    const attachment: AttachmentData = {
+      id: 'att-1234-5678',
+      filename: 'photo.png',
+      file_type: 'image/png',
+      file_size: 3,
+      storage_path: 'user-1/root/photo.png',
+      page_id: 'root',
+      user_id: 'user-1',
+      created_at: '2024-01-01T00:00:00Z',
+    };
+
+    const entries = buildNotebookExport(
+      { title: 'Notebook' },
+      [page('root', 'Root')],
+      [{ attachment, data: new Uint8Array([1, 2, 3]) }],
+      { format: 'html', includeMetadata: false, includeAttachments: true }
+    );
+
+    expect(entries.map(entry => entry.path)).toEqual([
+      'Notebook/attachments/att-1234-photo.png',
+      'Notebook/Root.html',
+    ]);
+    expect(entries[1].data).toContain('<title>Root</title>');
+    expect(entries[1].data).not.toContain('mininote:id');
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectPropertyColumns,
+  collectPropertyOptions,
+  createNotebookView,
+  getActiveViewFilters,
+  getBoardGroups,
+  saveNotebookView,
+  setGroupValue,
+} from '../notebookViews';
+import type { PageProperty } from '../../types/database';
+
+const task = (id: string, properties: PageProperty[]) => ({ id, properties });
+
+const pages = [
+  task('a', [{ name: 'Status', type: 'select', value: 'Done', options: ['Todo', 'Doing', 'Done'] }]),
+  task('b', [
+    { name: 'status', type: 'select', value: 'todo' },
+    { name: 'Estimate', type: 'number', value: 2 },
+  ]),
+  task('c', [{ name: 'Estimate', type: 'number', value: 5 }]),
+  task('d', [{ name: 'Status', type: 'select', value: 'Blocked' }]),
+];
+
+describe('notebookViews', () => {
+  describe('collectPropertyColumns', () => {
+    it('lists each property once in order of first use', () => {
+      expect(collectPropertyColumns(pages)).toEqual([
+        { name: 'Status', type: 'select' },
+        { name: 'Estimate', type: 'number' },
+      ]);
+    });
+  });
+
+  describe('collectPropertyOptions', () => {
+    it('lists recorded options before other values in use', () => {
+      expect(collectPropertyOptions(pages, 'status')).toEqual(['Todo', 'Doing', 'Done', 'Blocked']);
+    });
+  });
+
+  describe('getBoardGroups', () => {
+    it('groups pages by option with pages without a value first', () => {
+      const groups = getBoardGroups(pages, 'Status');
+
+      expect(groups.map(group => [group.value, group.pages.map(page => page.id)])).toEqual([
+        [null, ['c']],
+        ['Todo', ['b']],
+        ['Doing', []],
+        ['Done', ['a']],
+        ['Blocked', ['d']],
+      ]);
+    });
+
+    it('keeps columns for options no page uses', () => {
+      const groups = getBoardGroups([pages[2]], 'Status', ['Todo', 'Done']);
+      expect(groups.map(group => group.value)).toEqual([null, 'Todo', 'Done']);
+    });
+  });
+
+  describe('setGroupValue', () => {
+    it('changes the value of the group property', () => {
+      const properties = setGroupValue(pages[1].properties, 'Status', 'Done', ['Todo', 'Done']);
+
+      expect(properties[0]).toEqual({ name: 'status', type: 'select', value: 'Done', options: ['Todo', 'Done'] });
+      expect(properties[1]).toBe(pages[1].properties[1]);
+    });
+
+    it('adds the property to pages without it', () => {
+      expect(setGroupValue(pages[2].properties, 'Status', 'Todo', ['Todo'])).toEqual([
+        ...pages[2].properties,
+        { name: 'Status', type: 'select', value: 'Todo', options: ['Todo'] },
+      ]);
+      expect(setGroupValue(pages[2].properties, 'Status', null, ['Todo'])).toEqual(pages[2].properties);
+    });
+
+    it('records values missing from the options', () => {
+      const [status] = setGroupValue(pages[0].properties, 'Status', 'Blocked', []);
+      expect(status.options).toEqual(['Todo', 'Doing', 'Done', 'Blocked']);
+    });
+  });
+
+  describe('getActiveViewFilters', () => {
+    it('drops filters still waiting for a value', () => {
+      const filters = getActiveViewFilters({
+        search: '  ',
+        properties: [
+          { name: 'Status', operator: 'equals', value: null },
+          { name: 'Status', operator: 'is_empty' },
+          { name: 'Estimate', operator: 'greater_than', value: 1 },
+        ],
+      });
+
+      expect(filters.search).toBeUndefined();
+      expect(filters.properties).toEqual([
+        { name: 'Status', operator: 'is_empty' },
+        { name: 'Estimate', operator: 'greater_than', value: 1 },
+      ]);
+    });
+  });
+
+  describe('saveNotebookView', () => {
+    it('replaces a view with the same id or adds a new one', () => {
+      const table = createNotebookView('table', 'Tasks', 'one');
+      const board = createNotebookView('board', 'Board', 'two');
+
+      const views = saveNotebookView(saveNotebookView(undefined, table), board);
+      expect(views.map(view => view.id)).toEqual(['one', 'two']);
+
+      const renamed = saveNotebookView(views, { ...table, name: 'Open tasks' });
+      expect(renamed.map(view => view.name)).toEqual(['Open tasks', 'Board']);
+    });
+  });
+});
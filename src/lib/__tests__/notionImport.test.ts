@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseCsv, planNotionImport, stripNotionId } from '../notionImport';
+import type { ImportFile } from '../importPlan';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+const encoder = new TextEncoder();
+const ID = '0123456789abcdef0123456789abcdef';
+const ROW_ID = 'fedcba9876543210fedcba9876543210';
+
+function file(path: string, content: string): ImportFile {
+  return { path, data: encoder.encode(content) };
+}
+
+describe('notionImport', () => {
+  it('should strip page ids from names', () => {
+    expect(stripNotionId(`Meeting Notes ${ID}`)).toBe('Meeting Notes');
+    expect(stripNotionId('Plain')).toBe('Plain');
+  });
+
+  it('should parse quoted CSV fields', () => {
+    expect(parseCsv('\uFEFFName,Notes\r\n"Smith, J","said ""hi""\nthen left"\r\n')).toEqual([
+      ['Name', 'Notes'],
+      ['Smith, J', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('should nest pages and turn databases into tables', () => {
+    const plan = planNotionImport([
+      file(`Projects ${ID}.md`, `# Projects\n\nSee [Tasks](Projects%20${ID}/Tasks%20${ID}.csv)`),
+      file(`Projects ${ID}/Tasks ${ID}.csv`, 'Name,Status\nWrite docs,Done\n'),
+      file(`Projects ${ID}/Tasks ${ID}_all.csv`, 'Name,Status\nWrite docs,Done\nShip,Open\n'),
+      file(`Projects ${ID}/Tasks ${ID}/Write docs ${ROW_ID}.md`, '# Write docs\n\nStatus: Done'),
+    ], 'Notion Import', (() => {
+      let next = 0;
+      return () => `page-${++next}`;
+    })());
+
+    expect(plan.notebookTitle).toBe('Notion Import');
+    expect(plan.pages.map(page => [page.title, page.parentId])).toEqual([
+      ['Projects', null],
+      ['Tasks', 'page-1'],
+      ['Write docs', 'page-2'],
+    ]);
+    expect(plan.pages[0].content).toBe(`See [Tasks](Projects%20${ID}/Tasks%20${ID}.md)`);
+    expect(plan.pages[0].references).toEqual({
+      [`Projects ${ID}/Tasks ${ID}.md`]: `Projects ${ID}/Tasks ${ID}.md`,
+    });
+    expect(plan.pages[1].content).toBe([
+      '| Name | Status |',
+      '| --- | --- |',
+      `| [Write docs](Tasks%20${ID}/Write%20docs%20${ROW_ID}.md) | Done |`,
+      '| Ship | Open |',
+    ].join('\n'));
+    expect(plan.pages[1].references).toEqual({
+      [`Tasks ${ID}/Write docs ${ROW_ID}.md`]: `Projects ${ID}/Tasks ${ID}/Write docs ${ROW_ID}.md`,
+    });
+    expect(plan.pages[2].content).toBe('Status: Done');
+  });
+});
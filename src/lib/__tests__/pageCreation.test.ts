@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createPages } from '../pageCreation';
+import { supabase } from '../supabase';
+
+vi.mock('../supabase', () => ({
+  supabase: { from: vi.fn() },
+}));
+
+vi.mock('../pageIndex', () => ({
+  indexNewPages: vi.fn(),
+}));
+
+// Query builder whose chained calls all resolve to `result`
+function query(result: { data?: unknown; error: unknown }) {
+  const builder = {
+    insert: vi.fn(() => builder),
+    delete: vi.fn(() => builder),
+    select: vi.fn(() => builder),
+    in: vi.fn(() => builder),
+    eq: vi.fn(() => builder),
+    single: vi.fn(() => Promise.resolve(result)),
+    then: (resolve: (value: typeof result) => unknown) => Promise.resolve(result).then(resolve),
+  };
+  return builder;
+}
+
+function mockFrom(builder: ReturnType<typeof query>) {
+  vi.mocked(supabase.from).mockReturnValueOnce(builder as unknown as ReturnType<typeof supabase.from>);
+}
+
+describe('createPages', () => {
+  const planned = [
+    { id: 'page-1', title: 'Project', notebook_id: 'notebook-1' },
+    { id: 'page-2', title: 'Plan', notebook_id: 'notebook-1', parent_page_id: 'page-1' },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates the pages in order and returns the first', async () => {
+    mockFrom(query({ data: { id: 'page-1', title: 'Project', content: '', version: 1 }, error: null }));
+    mockFrom(query({ error: null }));
+    mockFrom(query({ data: { id: 'page-2', title: 'Plan', content: '', version: 1 }, error: null }));
+    mockFrom(query({ error: null }));
+
+    const page = await createPages(planned, 'user-1');
+
+    expect(page).toMatchObject({ id: 'page-1' });
+    expect(vi.mocked(supabase.from).mock.calls.map(([table]) => table))
+      .toEqual(['pages', 'page_versions', 'pages', 'page_versions']);
+  });
+
+  it('deletes the pages created so far when one fails', async () => {
+    const failure = { message: 'insert failed' };
+    const removal = query({ error: null });
+    mockFrom(query({ data: { id: 'page-1', title: 'Project', content: '', version: 1 }, error: null }));
+    mockFrom(query({ error: null }));
+    mockFrom(query({ data: null, error: failure }));
+    mockFrom(removal);
+
+    await expect(createPages(planned, 'user-1')).rejects.toBe(failure);
+
+    expect(removal.delete).toHaveBeenCalled();
+    expect(removal.in).toHaveBeenCalledWith('id', ['page-1']);
+    expect(removal.eq).toHaveBeenCalledWith('user_id', 'user-1');
+  });
+});
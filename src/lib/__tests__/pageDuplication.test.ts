@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { duplicatePage, getDuplicateTitle, planPageDuplicate, rewriteDuplicateLinks } from '../pageDuplication';
+import { createPages, deletePages, generateSiblingSortKey } from '../pageCreation';
+import { supabase } from '../supabase';
+import type { PageData } from '../../types/database';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+    storage: { from: vi.fn() },
+  },
+}));
+
+vi.mock('../pageCreation', async (importOriginal) => ({
+  ...await importOriginal<typeof import('../pageCreation')>(),
+  createPages: vi.fn(),
+  deletePages: vi.fn(),
+  generateSiblingSortKey: vi.fn(),
+}));
+
+// Query builder whose chained calls all resolve to `result`
+function query(result: { data?: unknown; error: unknown }) {
+  const builder = {
+    insert: vi.fn(() => builder),
+    select: vi.fn(() => builder),
+    in: vi.fn(() => builder),
+    eq: vi.fn(() => builder),
+    single: vi.fn(() => Promise.resolve(result)),
+    then: (resolve: (value: typeof result) => unknown) => Promise.resolve(result).then(resolve),
+  };
+  return builder;
+}
+
+function mockFrom(builder: ReturnType<typeof query>) {
+  vi.mocked(supabase.from).mockReturnValueOnce(builder as unknown as ReturnType<typeof supabase.from>);
+}
+
+const page = (id: string, values: Partial<PageData> = {}): PageData => ({
+  id,
+  title: id,
+  content: '',
+  version: 3,
+  notebook_id: 'notebook-1',
+  user_id: 'user-1',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...values,
+});
+
+describe('pageDuplication', () => {
+  const source = page('project', {
+    title: 'Project',
+    parent_page_id: 'parent',
+    properties: [{ name: 'Status', type: 'select', value: 'Doing' }],
+  });
+  const pages = [
+    page('parent'),
+    source,
+    page('notes', { parent_page_id: 'project', sort_order: 'b' }),
+    page('plan', { parent_page_id: 'project', sort_order: 'a' }),
+    page('tasks', { parent_page_id: 'plan' }),
+    page('old', { parent_page_id: 'project', deleted_at: '2024-02-01T00:00:00Z' }),
+    page('sibling', { parent_page_id: 'parent' }),
+  ];
+
+  describe('planPageDuplicate', () => {
+    const createIds = () => {
+      let next = 0;
+      return () => `copy-${++next}`;
+    };
+
+    it('copies the page and its subtree, keeping the structure', () => {
+      const plan = planPageDuplicate(source, pages, { notebook_id: 'notebook-2' }, true, createIds());
+
+      expect(plan.pages.map(values => [values.id, values.title, values.parent_page_id, values.sort_order])).toEqual([
+        ['copy-1', 'Project (copy)', undefined, undefined],
+        ['copy-2', 'plan', 'copy-1', 'a'],
+        ['copy-3', 'notes', 'copy-1', 'b'],
+        ['copy-4', 'tasks', 'copy-2', null],
+      ]);
+      expect(plan.pages.every(values => values.notebook_id === 'notebook-2')).toBe(true);
+      expect(plan.pages[0].properties).toEqual(source.properties);
+      expect([...plan.ids]).toEqual([
+        ['project', 'copy-1'],
+        ['plan', 'copy-2'],
+        ['notes', 'copy-3'],
+        ['tasks', 'copy-4'],
+      ]);
+    });
+
+    it('copies only the page without its children', () => {
+      const plan = planPageDuplicate(
+        source,
+        pages,
+        { notebook_id: 'notebook-1', parent_page_id: 'parent', title: 'Project v2' },
+        false,
+        createIds()
+      );
+
+      expect(plan.pages).toHaveLength(1);
+      expect(plan.pages[0]).toMatchObject({ title: 'Project v2', parent_page_id: 'parent' });
+    });
+  });
+
+  describe('rewriteDuplicateLinks', () => {
+    const ids = new Map([['plan', 'copy-2']]);
+    const attachmentUrls = new Map([
+      ['user-1/plan/images/1-chart.png', 'https://example.supabase.co/storage/v1/object/public/user-files/user-1/copy-2/images/1-chart.png'],
+    ]);
+
+    it('points links to copied pages at the copies', () => {
+      expect(rewriteDuplicateLinks('[Plan](#/pages/plan) and [Parent](#/pages/parent)', ids, attachmentUrls))
+        .toBe('[Plan](#/pages/copy-2) and [Parent](#/pages/parent)');
+      expect(rewriteDuplicateLinks('[Plan](#/notebooks/notebook-1/pages/plan)', ids, attachmentUrls))
+        .toBe('[Plan](#/pages/copy-2)');
+    });
+
+    it('points attachment URLs at the copied files', () => {
+      const content = '![Chart](https://example.supabase.co/storage/v1/object/public/user-files/user-1/plan/images/1-chart.png)';
+      expect(rewriteDuplicateLinks(content, ids, attachmentUrls))
+        .toBe(`![Chart](${attachmentUrls.get('user-1/plan/images/1-chart.png')})`);
+    });
+  });
+
+  it('marks copied titles', () => {
+    expect(getDuplicateTitle('Project')).toBe('Project (copy)');
+    expect(getDuplicateTitle('')).toBe('Untitled (copy)');
+  });
+
+  describe('duplicatePage', () => {
+    const storage = {
+      copy: vi.fn(),
+      remove: vi.fn(),
+      getPublicUrl: vi.fn((path: string) => ({ data: { publicUrl: `https://example.supabase.co/${path}` } })),
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      storage.copy.mockResolvedValue({ error: null });
+      storage.remove.mockResolvedValue({ error: null });
+      vi.mocked(supabase.storage.from).mockReturnValue(storage as unknown as ReturnType<typeof supabase.storage.from>);
+      vi.mocked(generateSiblingSortKey).mockResolvedValue('a1V');
+      vi.mocked(createPages).mockImplementation(async planned => planned[0] as unknown as PageData);
+    });
+
+    it('removes the copied pages and files when the attachments fail to save', async () => {
+      const failure = { message: 'insert failed' };
+      mockFrom(query({ data: source, error: null }));
+      mockFrom(query({
+        data: [{
+          id: 'attachment-1',
+          filename: 'chart.png',
+          file_type: 'image/png',
+          file_size: 3,
+          storage_path: 'user-1/project/images/1-chart.png',
+          page_id: 'project',
+          user_id: 'user-1',
+        }],
+        error: null,
+      }));
+      mockFrom(query({ error: failure }));
+
+      await expect(duplicatePage('project', { notebook_id: 'notebook-1', parent_page_id: 'parent' }, false, 'user-1'))
+        .rejects.toBe(failure);
+
+      expect(generateSiblingSortKey).toHaveBeenCalledWith(
+        { notebook_id: 'notebook-1', parent_page_id: 'parent' },
+        'user-1',
+        { anchorId: 'project', position: 'after' }
+      );
+      expect(createPages).toHaveBeenCalledWith([expect.objectContaining({ title: 'Project (copy)', sort_order: 'a1V' })], 'user-1');
+
+      const [copyId] = vi.mocked(createPages).mock.calls[0][0].map(values => values.id);
+      expect(deletePages).toHaveBeenCalledWith([copyId], 'user-1');
+      expect(storage.remove).toHaveBeenCalledWith([expect.stringContaining(`/${copyId}/`)]);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildPageGraph, getGraphBounds, layoutPageGraph, type GraphPageInput } from '../pageGraph';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+const A = '11111111-1111-4111-8111-111111111111';
+const B = '22222222-2222-4222-8222-222222222222';
+const C = '33333333-3333-4333-8333-333333333333';
+const D = '44444444-4444-4444-8444-444444444444';
+
+function page(id: string, content = '', parent_page_id?: string): GraphPageInput {
+  return { id, title: id.slice(0, 1), content, notebook_id: 'nb', parent_page_id };
+}
+
+describe('pageGraph', () => {
+  describe('buildPageGraph', () => {
+    it('connects parents to children and linking pages to linked pages', () => {
+      const graph = buildPageGraph([
+        page(A, `[B](#/pages/${B}) and [C](#/notebooks/nb/pages/${C})`),
+        page(B, '', A),
+        page(C),
+      ]);
+
+      expect(graph.edges).toEqual([
+        { source: A, target: B, type: 'link' },
+        { source: A, target: C, type: 'link' },
+        { source: A, target: B, type: 'child' },
+      ]);
+      expect(graph.nodes.find(node => node.id === A)?.degree).toBe(3);
+    });
+
+    it('leaves out links to pages outside the graph', () => {
+      const graph = buildPageGraph([page(A, `[Elsewhere](#/pages/${D})`), page(B, '', D)]);
+
+      expect(graph.edges).toEqual([]);
+    });
+
+    it('marks pages without links as orphans, whatever their parent', () => {
+      const graph = buildPageGraph([
+        page(A, `[B](#/pages/${B})`),
+        page(B),
+        page(C, '', A),
+        page(D),
+      ]);
+
+      expect(graph.nodes.filter(node => node.isOrphan).map(node => node.id)).toEqual([C, D]);
+    });
+  });
+
+  describe('layoutPageGraph', () => {
+    it('gives every page a distinct position centered on the origin', () => {
+      const graph = buildPageGraph([page(A, `[B](#/pages/${B})`), page(B), page(C), page(D)]);
+      const positions = layoutPageGraph(graph);
+
+      expect(positions.size).toBe(4);
+      const keys = new Set([...positions.values()].map(({ x, y }) => `${Math.round(x)},${Math.round(y)}`));
+      expect(keys.size).toBe(4);
+
+      const { minX, maxX, minY, maxY } = getGraphBounds(positions.values());
+      expect(Math.abs(minX + maxX)).toBeLessThan(maxX - minX);
+      expect(Math.abs(minY + maxY)).toBeLessThan(maxY - minY);
+    });
+
+    it('places linked pages closer together than unrelated ones', () => {
+      const graph = buildPageGraph([page(A, `[B](#/pages/${B})`), page(B), page(C), page(D)]);
+      const positions = layoutPageGraph(graph);
+      const distance = (from: string, to: string) => {
+        const a = positions.get(from)!;
+        const b = positions.get(to)!;
+        return Math.hypot(a.x - b.x, a.y - b.y);
+      };
+
+      expect(distance(A, B)).toBeLessThan(distance(C, D));
+    });
+
+    it('is deterministic', () => {
+      const graph = buildPageGraph([page(A), page(B, '', A), page(C, '', A)]);
+
+      expect(layoutPageGraph(graph)).toEqual(layoutPageGraph(graph));
+    });
+  });
+});
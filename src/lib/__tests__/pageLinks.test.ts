@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  extractLinkTargets,
+  extractPageLinkIds,
+  getLinkSnippet,
+  getSnippet,
+  pageLinkHref,
+  parsePageLinkHref,
+  serializePageLink,
+} from '../pageLinks';
+import { renderPageLinksInHtml } from '../../utils/pageLinkRenderer';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+describe('pageLinks', () => {
+  it('builds and parses page link URLs', () => {
+    expect(pageLinkHref('page-1')).toBe('#/pages/page-1');
+    expect(parsePageLinkHref('#/pages/page-1')).toBe('page-1');
+    expect(parsePageLinkHref('#/notebooks/nb-1/pages/page-1')).toBeNull();
+    expect(parsePageLinkHref('https://example.com')).toBeNull();
+    expect(parsePageLinkHref(null)).toBeNull();
+  });
+
+  it('serializes page links as markdown links, escaping brackets', () => {
+    expect(serializePageLink('page-1', 'Notes [draft]')).toBe('[Notes \\[draft\\]](#/pages/page-1)');
+  });
+
+  it('extracts linked page ids once each', () => {
+    const content = '[A](#/pages/a) [B](#/pages/b) [A again](#/pages/a) [Other](#/notebooks/nb/pages/c)';
+    expect(extractPageLinkIds(content)).toEqual(['a', 'b']);
+  });
+
+  describe('extractLinkTargets', () => {
+    const a = '11111111-1111-4111-8111-111111111111';
+    const b = '22222222-2222-4222-8222-222222222222';
+
+    it('finds page links and in-app page URLs once each', () => {
+      const content = `[A](#/pages/${a}) see #/notebooks/${b}/pages/${b}/edit and [A](#/pages/${a})`;
+      expect(extractLinkTargets(content)).toEqual([a, b]);
+    });
+
+    it('leaves out self-links and ids that are not page ids', () => {
+      expect(extractLinkTargets(`[Me](#/pages/${a}) [X](#/pages/not-a-page)`, a)).toEqual([]);
+    });
+  });
+
+  describe('snippets', () => {
+    it('shows the line around a link as plain text', () => {
+      const content = 'Intro\n\n- See **[Target](#/pages/t)** and [other](https://example.com)\nMore';
+      expect(getLinkSnippet(content, 't')).toBe('See Target and other');
+    });
+
+    it('finds links written as in-app URLs', () => {
+      expect(getLinkSnippet('Go to #/notebooks/nb/pages/t now', 't')).toBe('Go to #/notebooks/nb/pages/t now');
+      expect(getLinkSnippet('No link here', 't')).toBe('');
+    });
+
+    it('centers long lines on the match', () => {
+      const line = `${'a '.repeat(150)}needle${' b'.repeat(150)}`;
+      const index = line.indexOf('needle');
+      const snippet = getSnippet(line, index, index + 6);
+
+      expect(snippet).toContain('needle');
+      expect(snippet.startsWith('...')).toBe(true);
+      expect(snippet.endsWith('...')).toBe(true);
+      expect(snippet.length).toBeLessThanOrEqual(166);
+    });
+  });
+
+  describe('renderPageLinksInHtml', () => {
+    const html = '<p><a href="#/pages/a">Old title</a> and <a href="#/pages/gone">Gone</a></p>';
+
+    it('shows the current title of linked pages', () => {
+      const result = renderPageLinksInHtml(html, [{ id: 'a', title: 'New <title>', notebook_id: 'nb' }]);
+      expect(result).toContain('data-page-id="a">New &lt;title&gt;</a>');
+    });
+
+    it('marks links to missing and trashed pages', () => {
+      const result = renderPageLinksInHtml(html, [
+        { id: 'a', title: 'A', notebook_id: 'nb', deleted_at: '2024-01-01T00:00:00Z' },
+      ]);
+      expect(result).toContain('title="Page is in the trash">A</a>');
+      expect(result).toContain('title="Page not found">Gone</a>');
+    });
+
+    it('keeps the written text while titles are loading', () => {
+      const result = renderPageLinksInHtml(html, undefined);
+      expect(result).toContain('>Old title</a>');
+      expect(result).not.toContain('Page not found');
+    });
+  });
+});
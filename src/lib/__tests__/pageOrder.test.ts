@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { comparePageOrder, generateKeyBetween, generateKeysBetween } from '../pageOrder';
+
+describe('pageOrder', () => {
+  describe('generateKeyBetween', () => {
+    it('should generate a key for an empty list', () => {
+      const key = generateKeyBetween(null, null);
+
+      expect(key).toBeTruthy();
+    });
+
+    it('should generate keys before and after an existing key', () => {
+      const key = generateKeyBetween(null, null);
+      const before = generateKeyBetween(null, key);
+      const after = generateKeyBetween(key, null);
+
+      expect(before < key).toBe(true);
+      expect(after > key).toBe(true);
+    });
+
+    it('should generate a key between two adjacent keys', () => {
+      const key = generateKeyBetween('a', 'b');
+
+      expect(key > 'a').toBe(true);
+      expect(key < 'b').toBe(true);
+    });
+
+    it('should keep ordering after repeated inserts at the same spot', () => {
+      let lower = generateKeyBetween(null, null);
+      const upper = generateKeyBetween(lower, null);
+
+      for (let i = 0; i < 50; i++) {
+        const key = generateKeyBetween(lower, upper);
+        expect(key > lower).toBe(true);
+        expect(key < upper).toBe(true);
+        lower = key;
+      }
+    });
+
+    it('should reject bounds in the wrong order', () => {
+      expect(() => generateKeyBetween('b', 'a')).toThrow();
+    });
+  });
+
+  describe('generateKeysBetween', () => {
+    it('should generate ascending keys', () => {
+      const keys = generateKeysBetween(null, null, 5);
+      const sorted = [...keys].sort();
+
+      expect(keys).toHaveLength(5);
+      expect(keys).toEqual(sorted);
+      expect(new Set(keys).size).toBe(5);
+    });
+  });
+
+  describe('comparePageOrder', () => {
+    it('should order keyed pages before unkeyed pages', () => {
+      const pages = [
+        { id: '1', sort_order: null, created_at: '2024-01-01' },
+        { id: '2', sort_order: 'b', created_at: '2024-01-03' },
+        { id: '3', sort_order: 'a', created_at: '2024-01-02' },
+        { id: '4', sort_order: null, created_at: '2023-12-31' },
+      ];
+
+      const ordered = [...pages].sort(comparePageOrder).map(page => page.id);
+
+      expect(ordered).toEqual(['3', '2', '4', '1']);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyPropertyFilters,
+  convertPropertyValue,
+  formatPropertyValue,
+  matchesPropertyFilter,
+  propertiesEqual,
+  validatePropertyName,
+} from '../pageProperties';
+import type { PageProperty } from '../../types/database';
+
+const task = (id: string, properties: PageProperty[]) => ({ id, properties });
+
+const properties: PageProperty[] = [
+  { name: 'Status', type: 'select', value: 'Done', options: ['Todo', 'Done'] },
+  { name: 'Estimate', type: 'number', value: 3 },
+  { name: 'Due', type: 'date', value: '2024-05-01' },
+  { name: 'Labels', type: 'multi_select', value: ['Work', 'urgent'] },
+  { name: 'Notes', type: 'text', value: 'Waiting on review' },
+  { name: 'Archived', type: 'checkbox', value: false },
+];
+
+describe('pageProperties', () => {
+  describe('convertPropertyValue', () => {
+    it('keeps values that carry over to the new type', () => {
+      expect(convertPropertyValue('42', 'number')).toBe(42);
+      expect(convertPropertyValue(42, 'text')).toBe('42');
+      expect(convertPropertyValue('a, b,', 'multi_select')).toEqual(['a', 'b']);
+      expect(convertPropertyValue(['a', 'b'], 'select')).toBe('a, b');
+      expect(convertPropertyValue('2024-01-31', 'date')).toBe('2024-01-31');
+    });
+
+    it('empties values that do not convert', () => {
+      expect(convertPropertyValue('soon', 'number')).toBeNull();
+      expect(convertPropertyValue('next week', 'date')).toBeNull();
+      expect(convertPropertyValue('yes', 'checkbox')).toBe(false);
+      expect(convertPropertyValue(true, 'text')).toBeNull();
+    });
+  });
+
+  it('validates property names', () => {
+    expect(validatePropertyName('Owner', properties)).toBeNull();
+    expect(validatePropertyName('  ', properties)).toBe('Property name is required');
+    expect(validatePropertyName('status', properties)).toContain('already has');
+    expect(validatePropertyName('status', properties, 0)).toBeNull();
+    expect(validatePropertyName('Title', properties)).toContain('reserved');
+  });
+
+  it('formats values for display', () => {
+    expect(formatPropertyValue({ type: 'checkbox', value: true })).toBe('Yes');
+    expect(formatPropertyValue({ type: 'multi_select', value: ['a', 'b'] })).toBe('a, b');
+    expect(formatPropertyValue({ type: 'text', value: null })).toBe('');
+  });
+
+  describe('matchesPropertyFilter', () => {
+    it('compares by the property type', () => {
+      expect(matchesPropertyFilter(properties, { name: 'status', operator: 'equals', value: 'done' })).toBe(true);
+      expect(matchesPropertyFilter(properties, { name: 'Estimate', operator: 'greater_than', value: '2' })).toBe(true);
+      expect(matchesPropertyFilter(properties, { name: 'Estimate', operator: 'less_than', value: 3 })).toBe(false);
+      expect(matchesPropertyFilter(properties, { name: 'Due', operator: 'less_than', value: '2024-06-01' })).toBe(true);
+      expect(matchesPropertyFilter(properties, { name: 'Notes', operator: 'contains', value: 'REVIEW' })).toBe(true);
+    });
+
+    it('matches single options and option sets of multi-selects', () => {
+      expect(matchesPropertyFilter(properties, { name: 'Labels', operator: 'contains', value: 'work' })).toBe(true);
+      expect(matchesPropertyFilter(properties, { name: 'Labels', operator: 'equals', value: ['urgent', 'work'] })).toBe(true);
+      expect(matchesPropertyFilter(properties, { name: 'Labels', operator: 'equals', value: ['work'] })).toBe(false);
+    });
+
+    it('treats missing properties as empty and unchecked', () => {
+      expect(matchesPropertyFilter(properties, { name: 'Owner', operator: 'is_empty' })).toBe(true);
+      expect(matchesPropertyFilter(properties, { name: 'Owner', operator: 'equals', value: 'me' })).toBe(false);
+      expect(matchesPropertyFilter(properties, { name: 'Owner', operator: 'not_equals', value: 'me' })).toBe(true);
+      expect(matchesPropertyFilter([], { name: 'Archived', operator: 'equals', value: false })).toBe(true);
+      expect(matchesPropertyFilter(properties, { name: 'Archived', operator: 'is_not_empty' })).toBe(true);
+    });
+  });
+
+  describe('applyPropertyFilters', () => {
+    const pages = [
+      task('a', [{ name: 'Priority', type: 'number', value: 2 }, { name: 'Done', type: 'checkbox', value: true }]),
+      task('b', [{ name: 'Priority', type: 'number', value: 10 }]),
+      task('c', []),
+      task('d', [{ name: 'Priority', type: 'number', value: 1 }]),
+    ];
+
+    it('keeps pages matching every filter', () => {
+      const result = applyPropertyFilters(pages, {
+        properties: [
+          { name: 'Priority', operator: 'is_not_empty' },
+          { name: 'Done', operator: 'equals', value: false },
+        ],
+      });
+      expect(result.map(page => page.id)).toEqual(['b', 'd']);
+    });
+
+    it('sorts by a property with empty values last', () => {
+      expect(applyPropertyFilters(pages, { sortByProperty: 'priority', sortOrder: 'asc' }).map(page => page.id))
+        .toEqual(['d', 'a', 'b', 'c']);
+      expect(applyPropertyFilters(pages, { sortByProperty: 'priority', sortOrder: 'desc' }).map(page => page.id))
+        .toEqual(['b', 'a', 'd', 'c']);
+    });
+
+    it('leaves pages alone without property filters', () => {
+      expect(applyPropertyFilters(pages, { sortBy: 'title' })).toBe(pages);
+    });
+  });
+
+  it('compares property lists', () => {
+    expect(propertiesEqual(undefined, [])).toBe(true);
+    expect(propertiesEqual(properties, [...properties].reverse())).toBe(false);
+  });
+});
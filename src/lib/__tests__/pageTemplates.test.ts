@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { planTemplatePages, renderTemplate, renderTemplateProperties } from '../pageTemplates';
+import type { PageData } from '../../types/database';
+
+const context = {
+  title: 'Weekly sync',
+  date: new Date(2024, 4, 6, 9, 5),
+  user: { email: 'ada@example.com' },
+  notebook: { title: 'Work' },
+};
+
+const page = (id: string, values: Partial<PageData> = {}): PageData => ({
+  id,
+  title: id,
+  content: '',
+  version: 1,
+  notebook_id: 'templates',
+  user_id: 'user-1',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  ...values,
+});
+
+describe('pageTemplates', () => {
+  describe('renderTemplate', () => {
+    it('fills in known variables', () => {
+      expect(renderTemplate('# {{title}} ({{ date }} {{time}})', context)).toBe('# Weekly sync (2024-05-06 09:05)');
+      expect(renderTemplate('By {{user.email}} in {{notebook.title}}', context)).toBe('By ada@example.com in Work');
+      expect(renderTemplate('{{datetime}}', context)).toBe('2024-05-06 09:05');
+    });
+
+    it('leaves unknown variables as written', () => {
+      expect(renderTemplate('{{attendees}} and {{title}}', context)).toBe('{{attendees}} and Weekly sync');
+    });
+
+    it('fills in missing values with nothing', () => {
+      expect(renderTemplate('[{{user.email}}]', { title: '', date: context.date })).toBe('[]');
+    });
+  });
+
+  describe('renderTemplateProperties', () => {
+    it('fills in text and list values and keeps other values', () => {
+      expect(renderTemplateProperties([
+        { name: 'Due', type: 'date', value: '{{date}}' },
+        { name: 'Labels', type: 'multi_select', value: ['{{notebook.title}}', 'meeting'] },
+        { name: 'Estimate', type: 'number', value: 2 },
+      ], context)).toEqual([
+        { name: 'Due', type: 'date', value: '2024-05-06' },
+        { name: 'Labels', type: 'multi_select', value: ['Work', 'meeting'] },
+        { name: 'Estimate', type: 'number', value: 2 },
+      ]);
+    });
+  });
+
+  describe('planTemplatePages', () => {
+    const template = page('template', { title: 'Meeting template', content: 'Notes for {{title}}', is_template: true });
+    const pages = [
+      template,
+      page('actions', { parent_page_id: 'template', title: 'Actions {{date}}', sort_order: 'b' }),
+      page('agenda', { parent_page_id: 'template', title: 'Agenda', sort_order: 'a' }),
+      page('owners', { parent_page_id: 'actions', title: 'Owners' }),
+      page('deleted', { parent_page_id: 'template', deleted_at: '2024-02-01T00:00:00Z' }),
+      page('other', { title: 'Not part of the template' }),
+    ];
+
+    it('copies the template and its child pages with new ids', () => {
+      let next = 0;
+      const planned = planTemplatePages(
+        template,
+        pages,
+        { title: 'Weekly sync', notebook_id: 'work', parent_page_id: 'meetings' },
+        context,
+        () => `new-${++next}`
+      );
+
+      expect(planned.map(values => [values.id, values.title, values.parent_page_id])).toEqual([
+        ['new-1', 'Weekly sync', 'meetings'],
+        ['new-2', 'Agenda', 'new-1'],
+        ['new-3', 'Actions 2024-05-06', 'new-1'],
+        ['new-4', 'Owners', 'new-3'],
+      ]);
+      expect(planned[0].content).toBe('Notes for Weekly sync');
+      expect(planned.every(values => values.notebook_id === 'work')).toBe(true);
+    });
+
+    it('creates a single page for a template without children', () => {
+      expect(planTemplatePages(pages[3], pages, { title: 'Owners', notebook_id: 'work' }, context)).toHaveLength(1);
+    });
+  });
+});
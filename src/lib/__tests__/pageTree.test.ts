@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  flattenPageTree,
+  getPageTreeParents,
+  isPageTreeDescendant,
+  getCollapsedPageIds,
+  setCollapsedPageIds,
+} from '../pageTree';
+import type { PageSummaryWithChildren } from '../../types/database';
+
+function page(id: string, children: PageSummaryWithChildren[] = []): PageSummaryWithChildren {
+  return {
+    id,
+    title: id,
+    notebook_id: 'notebook-1',
+    sort_order: null,
+    excerpt: null,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    children,
+  };
+}
+
+const tree = [
+  page('a', [page('a1', [page('a1x')]), page('a2')]),
+  page('b'),
+];
+
+describe('pageTree', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('flattenPageTree', () => {
+    it('should list expanded pages in tree order with their level and parent', () => {
+      const rows = flattenPageTree(tree, new Set());
+
+      expect(rows.map(row => [row.page.id, row.level, row.parentId])).toEqual([
+        ['a', 0, null],
+        ['a1', 1, 'a'],
+        ['a1x', 2, 'a1'],
+        ['a2', 1, 'a'],
+        ['b', 0, null],
+      ]);
+      expect(rows[0]).toMatchObject({ hasChildren: true, isExpanded: true });
+      expect(rows[4]).toMatchObject({ hasChildren: false, isExpanded: false });
+    });
+
+    it('should hide the subtrees of collapsed pages', () => {
+      const rows = flattenPageTree(tree, new Set(['a1']));
+
+      expect(rows.map(row => row.page.id)).toEqual(['a', 'a1', 'a2', 'b']);
+      expect(rows[1]).toMatchObject({ hasChildren: true, isExpanded: false });
+    });
+  });
+
+  describe('getPageTreeParents', () => {
+    it('should include pages below collapsed pages', () => {
+      const parents = getPageTreeParents(tree);
+
+      expect(parents.get('a1x')).toBe('a1');
+      expect(parents.get('b')).toBeNull();
+      expect(isPageTreeDescendant(parents, 'a1x', 'a')).toBe(true);
+      expect(isPageTreeDescendant(parents, 'a', 'a1x')).toBe(false);
+      expect(isPageTreeDescendant(parents, 'b', 'a')).toBe(false);
+    });
+  });
+
+  describe('collapsed pages', () => {
+    it('should be saved per notebook', () => {
+      setCollapsedPageIds('notebook-1', new Set(['a', 'a1']));
+
+      expect(getCollapsedPageIds('notebook-1')).toEqual(new Set(['a', 'a1']));
+      expect(getCollapsedPageIds('notebook-2')).toEqual(new Set());
+    });
+
+    it('should clear the saved state when nothing is collapsed', () => {
+      setCollapsedPageIds('notebook-1', new Set(['a']));
+      setCollapsedPageIds('notebook-1', new Set());
+
+      expect(localStorage.getItem('mininote:page-tree-collapsed:notebook-1')).toBeNull();
+    });
+
+    it('should ignore unreadable saved state', () => {
+      localStorage.setItem('mininote:page-tree-collapsed:notebook-1', '{not json');
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(getCollapsedPageIds('notebook-1')).toEqual(new Set());
+      consoleError.mockRestore();
+    });
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { searchService } from '../searchService';
 
 describe('SearchService', () => {
@@ -156,4 +156,45 @@ describe('SearchService', () => {
       expect(truncated).toContain('...');
     });
   });
+
+  describe('findUnlinkedMentions', () => {
+    const result = (id: string, content: string) => ({
+      type: 'page' as const,
+      id,
+      title: `Page ${id}`,
+      content,
+      notebook_id: 'nb',
+      notebook_title: 'Notebook',
+      rank: 1,
+      highlights: [],
+      snippet: '',
+    });
+
+    it('should return pages mentioning the title outside of links', async () => {
+      const search = vi.spyOn(searchService, 'searchPagesRanked').mockResolvedValue({
+        results: [
+          result('self', 'Project Alpha is this page'),
+          result('plain', 'Notes on project alpha.'),
+          result('linked', 'See [Project Alpha](#/pages/self)'),
+          result('partial', 'Project Alphabet soup'),
+        ],
+        total: 4,
+        hasMore: false,
+      });
+
+      const mentions = await searchService.findUnlinkedMentions('self', 'Project Alpha');
+
+      expect(search).toHaveBeenCalledWith(expect.objectContaining({ query: '"Project Alpha"', scope: 'all' }));
+      expect(mentions).toEqual([expect.objectContaining({ id: 'plain', snippet: 'Notes on project alpha.' })]);
+      search.mockRestore();
+    });
+
+    it('should skip titles too short to match reliably', async () => {
+      const search = vi.spyOn(searchService, 'searchPagesRanked');
+
+      expect(await searchService.findUnlinkedMentions('self', 'ab')).toEqual([]);
+      expect(search).not.toHaveBeenCalled();
+      search.mockRestore();
+    });
+  });
 });
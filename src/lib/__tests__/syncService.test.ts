@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readThrough, writeThrough, isQueueableError } from '../syncService';
+import { localStore } from '../localStore';
+import { DatabaseError, DatabaseErrorCode } from '../database';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    auth: {
+      getUser: vi.fn(),
+      getSession: vi.fn(),
+      onAuthStateChange: vi.fn(),
+    },
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('../localStore', () => ({
+  localStore: {
+    isAvailable: vi.fn(() => true),
+    get: vi.fn(),
+    getAll: vi.fn(),
+    put: vi.fn(),
+    delete: vi.fn(),
+    replaceByIndex: vi.fn(),
+    clear: vi.fn(),
+  },
+}));
+
+const networkError = new DatabaseError('Offline', DatabaseErrorCode.NETWORK, undefined, true);
+
+describe('syncService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(localStore.isAvailable).mockReturnValue(true);
+  });
+
+  describe('isQueueableError', () => {
+    it('should treat network failures as queueable', () => {
+      expect(isQueueableError(networkError)).toBe(true);
+      expect(isQueueableError(new TypeError('Failed to fetch'))).toBe(true);
+    });
+
+    it('should not queue validation errors', () => {
+      const error = new DatabaseError('Invalid', DatabaseErrorCode.VALIDATION);
+
+      expect(isQueueableError(error)).toBe(false);
+    });
+  });
+
+  describe('readThrough', () => {
+    it('should return and persist remote data when online', async () => {
+      const persist = vi.fn().mockResolvedValue(undefined);
+      const local = vi.fn();
+
+      const data = await readThrough({
+        remote: async () => ['remote'],
+        local,
+        persist,
+      });
+
+      expect(data).toEqual(['remote']);
+      expect(persist).toHaveBeenCalledWith(['remote']);
+      expect(local).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to local data on network errors', async () => {
+      const data = await readThrough({
+        remote: async () => {
+          throw networkError;
+        },
+        local: async () => ['local'],
+      });
+
+      expect(data).toEqual(['local']);
+    });
+
+    it('should rethrow non-network errors', async () => {
+      const error = new DatabaseError('Denied', DatabaseErrorCode.PERMISSION_DENIED);
+
+      await expect(readThrough({
+        remote: async () => {
+          throw error;
+        },
+        local: async () => ['local'],
+      })).rejects.toBe(error);
+    });
+
+    it('should only read remotely when IndexedDB is unavailable', async () => {
+      vi.mocked(localStore.isAvailable).mockReturnValue(false);
+
+      await expect(readThrough({
+        remote: async () => {
+          throw networkError;
+        },
+        local: async () => ['local'],
+      })).rejects.toBe(networkError);
+    });
+  });
+
+  describe('writeThrough', () => {
+    it('should apply the mutation offline on network errors', async () => {
+      const offline = vi.fn().mockResolvedValue('queued');
+
+      const result = await writeThrough({
+        remote: async () => {
+          throw networkError;
+        },
+        offline,
+      });
+
+      expect(result).toBe('queued');
+      expect(offline).toHaveBeenCalled();
+    });
+
+    it('should not queue when the remote write succeeds', async () => {
+      const offline = vi.fn();
+
+      const result = await writeThrough({
+        remote: async () => 'saved',
+        offline,
+      });
+
+      expect(result).toBe('saved');
+      expect(offline).not.toHaveBeenCalled();
+    });
+  });
+});
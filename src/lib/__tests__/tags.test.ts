@@ -0,0 +1,86 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractContentTags, findContentTags, matchesTags, normalizeTag } from '../tags';
+import { renderTagsInHtml, tagHref } from '../../utils/tagRenderer';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+describe('tags', () => {
+  describe('normalizeTag', () => {
+    it('lowercases names and drops a leading #', () => {
+      expect(normalizeTag('#Project')).toBe('project');
+      expect(normalizeTag('  work/Meetings ')).toBe('work/meetings');
+      expect(normalizeTag('Ideen_für-später')).toBe('ideen_für-später');
+    });
+
+    it('rejects empty, numeric and malformed names', () => {
+      expect(normalizeTag('')).toBeNull();
+      expect(normalizeTag('#')).toBeNull();
+      expect(normalizeTag('123')).toBeNull();
+      expect(normalizeTag('two words')).toBeNull();
+      expect(normalizeTag('-dash')).toBeNull();
+    });
+
+    it('drops trailing separators', () => {
+      expect(normalizeTag('todo/')).toBe('todo');
+      expect(normalizeTag('todo-')).toBe('todo');
+    });
+  });
+
+  describe('extractContentTags', () => {
+    it('finds #tags once each in order of first use', () => {
+      const content = '#Work notes about (#project), see #work again;#later';
+      expect(extractContentTags(content)).toEqual(['work', 'project', 'later']);
+    });
+
+    it('ignores headings, URL fragments, numbers and escaped tags', () => {
+      const content = '# Heading\n## Sub\nSee https://example.com/#anchor and issue #42 and \\#not';
+      expect(extractContentTags(content)).toEqual([]);
+    });
+
+    it('ignores tags in code', () => {
+      const content = 'Real #tag\n\n```\n#not-a-tag\n```\n\nand `#inline` code';
+      expect(extractContentTags(content)).toEqual(['tag']);
+    });
+
+    it('leaves out a trailing separator', () => {
+      expect(extractContentTags('Ends with #todo- and #done/.')).toEqual(['todo', 'done']);
+    });
+  });
+
+  it('reports the span of each tag including the #', () => {
+    const text = 'Hi #one and #Two.';
+    expect(findContentTags(text)).toEqual([
+      { start: 3, end: 7, tag: 'one' },
+      { start: 12, end: 16, tag: 'two' },
+    ]);
+    expect(text.slice(12, 16)).toBe('#Two');
+  });
+
+  describe('matchesTags', () => {
+    it('requires every tag in all mode', () => {
+      expect(matchesTags(['a', 'b', 'c'], ['a', 'b'])).toBe(true);
+      expect(matchesTags(['a'], ['a', 'b'], 'all')).toBe(false);
+    });
+
+    it('requires one of the tags in any mode', () => {
+      expect(matchesTags(['a'], ['a', 'b'], 'any')).toBe(true);
+      expect(matchesTags(['c'], ['a', 'b'], 'any')).toBe(false);
+    });
+  });
+
+  describe('renderTagsInHtml', () => {
+    it('links tags in text to the tag browser', () => {
+      const html = renderTagsInHtml('<p>Notes on #Work</p>');
+      expect(html).toBe(`<p>Notes on <a href="${tagHref('work')}" class="tag-link text-primary no-underline hover:underline" data-tag="work">#Work</a></p>`);
+    });
+
+    it('leaves tags in code and links alone', () => {
+      const html = '<p><code>#code</code> <a href="#/pages/x">#linked</a></p>';
+      expect(renderTagsInHtml(html)).toBe(html);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  collectSubtreeToTrash,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  purgeExpiredTrash,
+  DEFAULT_TRASH_RETENTION_DAYS,
+} from '../trash';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+describe('trash', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('collectSubtreeToTrash', () => {
+    it('should collect the page and its live descendants', () => {
+      const pages = [
+        { id: 'root' },
+        { id: 'child', parent_page_id: 'root' },
+        { id: 'grandchild', parent_page_id: 'child' },
+        { id: 'sibling' },
+      ];
+
+      expect(collectSubtreeToTrash(pages, 'root')).toEqual(['root', 'child', 'grandchild']);
+    });
+
+    it('should leave descendants that are already in the trash alone', () => {
+      const pages = [
+        { id: 'root' },
+        { id: 'trashed', parent_page_id: 'root', deleted_at: '2024-01-01T00:00:00Z' },
+        { id: 'under-trashed', parent_page_id: 'trashed', deleted_at: '2024-01-01T00:00:00Z' },
+        { id: 'live', parent_page_id: 'root' },
+      ];
+
+      expect(collectSubtreeToTrash(pages, 'root')).toEqual(['root', 'live']);
+    });
+  });
+
+  describe('retention', () => {
+    it('should default when nothing is stored', () => {
+      expect(getTrashRetentionDays()).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    });
+
+    it('should remember the chosen period', () => {
+      setTrashRetentionDays(7);
+      expect(getTrashRetentionDays()).toBe(7);
+
+      setTrashRetentionDays(0);
+      expect(getTrashRetentionDays()).toBe(0);
+    });
+
+    it('should not purge anything when kept forever', async () => {
+      const { supabase } = await import('../supabase');
+
+      await expect(purgeExpiredTrash('user-1', 0)).resolves.toBe(0);
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+  });
+});
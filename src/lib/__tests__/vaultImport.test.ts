@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseFrontMatter, planVaultImport } from '../vaultImport';
+import { rewriteImportLinks, type ImportFile } from '../importPlan';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+const encoder = new TextEncoder();
+
+function note(path: string, content: string): ImportFile {
+  return { path, data: encoder.encode(content) };
+}
+
+function sequentialIds() {
+  let next = 0;
+  return () => `page-${++next}`;
+}
+
+describe('vaultImport', () => {
+  it('should map folders to nested pages under the picked folder', () => {
+    const plan = planVaultImport([
+      note('Vault/Projects.md', 'About projects'),
+      note('Vault/Projects/Alpha.md', 'Alpha'),
+      note('Vault/Areas/Health.md', 'Health'),
+      note('Vault/.obsidian/app.json', '{}'),
+    ], 'Fallback', sequentialIds());
+
+    expect(plan.notebookTitle).toBe('Vault');
+    expect(plan.pages.map(page => [page.title, page.parentId])).toEqual([
+      ['Areas', null],
+      ['Health', 'page-1'],
+      ['Projects', null],
+      ['Alpha', 'page-3'],
+    ]);
+    expect(plan.pages[0].content).toBe('');
+    expect(plan.pages[2].content).toBe('About projects');
+    expect(plan.pages[0].sortOrder < plan.pages[2].sortOrder).toBe(true);
+    expect(plan.skipped).toEqual([]);
+  });
+
+  it('should collect embedded files and report the rest as skipped', () => {
+    const plan = planVaultImport([
+      note('Daily.md', '![[photo.png]]\n![chart](assets/chart%201.png)\n![[missing.png]]'),
+      note('attachments/photo.png', 'png'),
+      note('assets/chart 1.png', 'png'),
+      note('notes.txt', 'unused'),
+    ], 'Fallback', sequentialIds());
+
+    expect(plan.notebookTitle).toBe('Fallback');
+    expect(Object.keys(plan.assets).sort()).toEqual(['assets/chart 1.png', 'attachments/photo.png']);
+    expect(plan.skipped.map(file => file.path)).toEqual(['missing.png', 'notes.txt']);
+  });
+
+  it('should rewrite wikilinks and embeds', () => {
+    const plan = planVaultImport([
+      note('Index.md', 'See [[Topics/Note|the note]], [[Note#Intro]], [other](Topics/Note.md) and [[Nowhere]]\n![[photo.png]]'),
+      note('Topics/Note.md', 'Body'),
+      note('photo.png', 'png'),
+    ], 'Fallback', sequentialIds());
+
+    const index = plan.pages.find(page => page.title === 'Index')!;
+    const noteId = plan.pageIdsByPath['Topics/Note.md'];
+    const content = rewriteImportLinks(index, plan, 'nb-1', new Map([['photo.png', 'https://files/photo.png']]));
+
+    expect(content).toBe(
+      `See [the note](#/notebooks/nb-1/pages/${noteId}), [Note#Intro](#/notebooks/nb-1/pages/${noteId}), ` +
+      `[other](#/notebooks/nb-1/pages/${noteId}) and [[Nowhere]]\n![photo.png](https://files/photo.png)`
+    );
+  });
+
+  it('should take the title from front matter', () => {
+    expect(parseFrontMatter('---\nid: "1"\ntitle: "A: b"\n---\n\nBody')).toEqual({ title: 'A: b', body: 'Body' });
+    expect(parseFrontMatter('No front matter')).toEqual({ body: 'No front matter' });
+  });
+});
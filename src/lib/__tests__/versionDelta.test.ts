@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyDelta,
+  createDelta,
+  deltaDepth,
+  encodeVersionContent,
+  reconstructVersions,
+  KEYFRAME_INTERVAL,
+  MAX_DELTA_EDITS,
+} from '../versionDelta';
+
+describe('versionDelta', () => {
+  const longText = Array.from({ length: 40 }, (_, i) => `Line ${i + 1} of a long page`).join('\n');
+
+  describe('createDelta', () => {
+    it('should copy unchanged runs and insert new lines', () => {
+      expect(createDelta('a\nb\nc\nd', 'a\nb\nnew\nd')).toEqual([
+        { copy: 0, count: 2 },
+        { insert: ['new'] },
+        { copy: 3, count: 1 },
+      ]);
+    });
+
+    it('should round-trip through applyDelta', () => {
+      const cases: Array<[string, string]> = [
+        ['', ''],
+        ['', 'added'],
+        ['removed', ''],
+        ['a\nb\nc', 'c\nb\na'],
+        ['trailing\n', 'trailing\nnewline\n'],
+        [longText, longText.replace('Line 20', 'Edited line').concat('\nLast')],
+      ];
+
+      cases.forEach(([base, target]) => {
+        expect(applyDelta(base, createDelta(base, target))).toBe(target);
+      });
+    });
+
+    it('should reject a delta applied to the wrong base', () => {
+      expect(() => applyDelta('short', [{ copy: 0, count: 3 }])).toThrow();
+    });
+  });
+
+  describe('encodeVersionContent', () => {
+    it('should store small edits as deltas against the base', () => {
+      const edited = longText.replace('Line 5', 'Line five');
+      const stored = encodeVersionContent(edited, { id: 'v1', content: longText, depth: 0 });
+
+      expect(stored.content).toBe('');
+      expect(stored.base_version_id).toBe('v1');
+      expect(applyDelta(longText, stored.delta!)).toBe(edited);
+    });
+
+    it('should store a keyframe without a base or when one is due', () => {
+      const edited = `${longText}\nMore`;
+
+      expect(encodeVersionContent(edited, null)).toEqual({ content: edited, base_version_id: null, delta: null });
+      expect(encodeVersionContent(edited, { id: 'v1', content: longText, depth: KEYFRAME_INTERVAL - 1 }).delta).toBeNull();
+    });
+
+    it('should store a keyframe when the delta is not smaller than the content', () => {
+      expect(encodeVersionContent('rewritten', { id: 'v1', content: 'original', depth: 0 }).delta).toBeNull();
+    });
+
+    it('should store a keyframe when too many lines changed', () => {
+      const lines = Array.from({ length: MAX_DELTA_EDITS + 2 }, (_, i) => `Line ${i} of a page that is rewritten in large parts`);
+      const base = lines.join('\n');
+      const edited = lines.map((line, i) => (i % 2 ? line.toUpperCase() : line)).join('\n');
+
+      // Half the lines are kept, so the delta alone would be smaller than the content
+      expect(JSON.stringify(createDelta(base, edited)).length).toBeLessThan(edited.length);
+      expect(encodeVersionContent(edited, { id: 'v1', content: base, depth: 0 }).delta).toBeNull();
+    });
+  });
+
+  describe('reconstructVersions', () => {
+    const v1 = longText;
+    const v2 = v1.replace('Line 3', 'Line three');
+    const v3 = v2.replace('Line 30', 'Line thirty');
+    const versions = [
+      { id: 'v3', content: '', base_version_id: 'v2', delta: createDelta(v2, v3) },
+      { id: 'v2', content: '', base_version_id: 'v1', delta: createDelta(v1, v2) },
+      { id: 'v1', content: v1, base_version_id: null, delta: null },
+    ];
+
+    it('should rebuild full content along the delta chain', () => {
+      const resolved = reconstructVersions(versions);
+
+      expect(resolved.map(version => version.content)).toEqual([v3, v2, v1]);
+      expect(resolved.every(version => version.delta === null && version.base_version_id === null)).toBe(true);
+    });
+
+    it('should measure the chain depth', () => {
+      expect(deltaDepth(versions, 'v3')).toBe(2);
+      expect(deltaDepth(versions, 'v1')).toBe(0);
+    });
+
+    it('should fail when a base version is missing', () => {
+      expect(() => reconstructVersions(versions.slice(0, 2))).toThrow(/base version is missing/);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { supabase } from '../supabase';
+import {
+  fetchLatestVersionChain,
+  planVersionWrite,
+  planVersionCleanup,
+  selectVersionsToPrune,
+  DEFAULT_VERSION_CONFIG,
+  TIERED_RETENTION_POLICY,
+} from '../versionManager';
+
+vi.mock('../supabase', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+// Query builder resolving to `result` however the query is built
+function mockQuery(result: { data: unknown; error: unknown }) {
+  const query: Record<string, unknown> = {
+    maybeSingle: vi.fn().mockResolvedValue(result),
+    then: (resolve: (value: typeof result) => unknown) => Promise.resolve(result).then(resolve),
+  };
+  ['select', 'eq', 'order', 'limit'].forEach(method => {
+    query[method] = vi.fn(() => query);
+  });
+  return query as unknown as ReturnType<typeof supabase.from>;
+}
+
+describe('versionManager', () => {
+  describe('fetchLatestVersionChain', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    const version = (id: string, version: number, baseId: string | null) => ({
+      id,
+      version,
+      page_id: 'page-1',
+      title: 'Page',
+      content: baseId ? '' : 'full',
+      base_version_id: baseId,
+      delta: baseId ? [{ copy: 0, count: 1 }] : null,
+      user_id: 'user-1',
+      created_at: '2024-01-01T00:00:00Z',
+    });
+
+    it('should follow the latest version\'s delta chain back to its keyframe', async () => {
+      vi.mocked(supabase.from)
+        .mockReturnValueOnce(mockQuery({
+          data: [version('v30', 30, 'v29'), version('v29', 29, 'v10'), version('v28', 28, 'v27')],
+          error: null,
+        }))
+        .mockReturnValueOnce(mockQuery({ data: version('v10', 10, null), error: null }));
+
+      const chain = await fetchLatestVersionChain('page-1', 'user-1');
+
+      expect(chain.map(entry => entry.id)).toEqual(['v30', 'v29', 'v10']);
+      expect(supabase.from).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return no versions for a page without history', async () => {
+      vi.mocked(supabase.from).mockReturnValueOnce(mockQuery({ data: [], error: null }));
+
+      expect(await fetchLatestVersionChain('page-1', 'user-1')).toEqual([]);
+    });
+  });
+
+  describe('planVersionWrite', () => {
+    const now = new Date('2024-01-01T12:00:00Z').getTime();
+    const previous = { title: 'Page', content: 'old', version: 3 };
+    const next = { title: 'Page', content: 'new', version: 4 };
+
+    it('should overwrite the latest version for saves within the window', () => {
+      const latest = { id: 'v3', version: 3, created_at: '2024-01-01T11:58:00Z' };
+
+      expect(planVersionWrite(latest, previous, next, DEFAULT_VERSION_CONFIG, now)).toEqual({
+        type: 'coalesce',
+        versionId: 'v3',
+        snapshot: next,
+      });
+    });
+
+    it('should add a version once the window has passed', () => {
+      const latest = { id: 'v3', version: 3, created_at: '2024-01-01T11:00:00Z' };
+
+      expect(planVersionWrite(latest, previous, next, DEFAULT_VERSION_CONFIG, now)).toEqual({
+        type: 'insert',
+        snapshots: [next],
+      });
+    });
+
+    it('should also record the previous state when it has no version yet', () => {
+      expect(planVersionWrite(null, previous, next, DEFAULT_VERSION_CONFIG, now)).toEqual({
+        type: 'insert',
+        snapshots: [previous, next],
+      });
+
+      const stale = { id: 'v2', version: 2, created_at: '2024-01-01T11:59:00Z' };
+      expect(planVersionWrite(stale, previous, next, DEFAULT_VERSION_CONFIG, now)).toEqual({
+        type: 'insert',
+        snapshots: [previous, next],
+      });
+    });
+
+    it('should never coalesce when the window is disabled', () => {
+      const latest = { id: 'v3', version: 3, created_at: '2024-01-01T12:00:00Z' };
+      const config = { ...DEFAULT_VERSION_CONFIG, coalesceWindowMs: 0 };
+
+      expect(planVersionWrite(latest, previous, next, config, now).type).toBe('insert');
+    });
+
+    it('should not overwrite labeled or pinned versions', () => {
+      const latest = { id: 'v3', version: 3, created_at: '2024-01-01T11:59:00Z' };
+
+      expect(planVersionWrite({ ...latest, label: 'Draft 1' }, previous, next, DEFAULT_VERSION_CONFIG, now).type).toBe('insert');
+      expect(planVersionWrite({ ...latest, is_pinned: true }, previous, next, DEFAULT_VERSION_CONFIG, now).type).toBe('insert');
+    });
+  });
+
+  describe('selectVersionsToPrune', () => {
+    it('should keep the latest versions and never prune pinned ones', () => {
+      const versions = [
+        { id: 'v5' },
+        { id: 'v4', is_pinned: true },
+        { id: 'v3' },
+        { id: 'v2' },
+        { id: 'v1', is_pinned: true },
+      ];
+
+      expect(selectVersionsToPrune(versions, 2)).toEqual(['v2']);
+      expect(selectVersionsToPrune(versions, 0)).toEqual(['v5', 'v3', 'v2']);
+    });
+  });
+
+  describe('planVersionCleanup', () => {
+    const now = new Date('2024-03-01T12:00:00Z').getTime();
+    const hoursAgo = (hours: number) => new Date(now - hours * 60 * 60 * 1000).toISOString();
+    const tiered = { ...DEFAULT_VERSION_CONFIG, retention: TIERED_RETENTION_POLICY };
+    const ids = (versions: Array<{ id: string }>) => versions.map(version => version.id);
+
+    it('should fall back to the version count without a policy', () => {
+      const versions = [3, 2, 1].map(n => ({ id: `v${n}`, version: n, created_at: hoursAgo(n) }));
+
+      const plan = planVersionCleanup(versions, { ...DEFAULT_VERSION_CONFIG, maxVersions: 2 }, now);
+
+      expect(ids(plan.keep)).toEqual(['v3', 'v2']);
+      expect(ids(plan.prune)).toEqual(['v1']);
+    });
+
+    it('should keep every recent version and one per interval for older ones', () => {
+      const versions = [
+        { id: 'recent-1', version: 6, created_at: hoursAgo(1) },
+        { id: 'recent-2', version: 5, created_at: hoursAgo(2) },
+        // Same hour, two days ago: only the newest survives
+        { id: 'hourly-new', version: 4, created_at: '2024-02-28T10:40:00Z' },
+        { id: 'hourly-old', version: 3, created_at: '2024-02-28T10:10:00Z' },
+        // Same day, two weeks ago
+        { id: 'daily-new', version: 2, created_at: '2024-02-16T18:00:00Z' },
+        { id: 'daily-old', version: 1, created_at: '2024-02-16T09:00:00Z' },
+      ];
+
+      const plan = planVersionCleanup(versions, tiered, now);
+
+      expect(ids(plan.keep)).toEqual(['recent-1', 'recent-2', 'hourly-new', 'daily-new']);
+      expect(ids(plan.prune)).toEqual(['hourly-old', 'daily-old']);
+    });
+
+    it('should prune versions older than every tier', () => {
+      const policy = { tiers: [{ maxAgeMs: 24 * 60 * 60 * 1000, intervalMs: 0 }] };
+      const versions = [
+        { id: 'new', version: 2, created_at: hoursAgo(1) },
+        { id: 'old', version: 1, created_at: hoursAgo(48) },
+      ];
+
+      const plan = planVersionCleanup(versions, { ...DEFAULT_VERSION_CONFIG, retention: policy }, now);
+
+      expect(ids(plan.prune)).toEqual(['old']);
+    });
+
+    it('should always keep the latest and pinned versions', () => {
+      const policy = { tiers: [{ maxAgeMs: 1, intervalMs: 0 }] };
+      const versions = [
+        { id: 'latest', version: 3, created_at: hoursAgo(24 * 90) },
+        { id: 'pinned', version: 2, created_at: hoursAgo(24 * 100), is_pinned: true },
+        { id: 'old', version: 1, created_at: hoursAgo(24 * 110) },
+      ];
+
+      const plan = planVersionCleanup(versions, { ...DEFAULT_VERSION_CONFIG, retention: policy }, now);
+
+      expect(ids(plan.keep)).toEqual(['latest', 'pinned']);
+      expect(ids(plan.prune)).toEqual(['old']);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZip, readZip } from '../zip';
+
+function readUint32(data: Uint8Array, offset: number) {
+  return new DataView(data.buffer, data.byteOffset).getUint32(offset, true);
+}
+
+function readUint16(data: Uint8Array, offset: number) {
+  return new DataView(data.buffer, data.byteOffset).getUint16(offset, true);
+}
+
+describe('zip', () => {
+  it('should compute the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+
+  it('should write stored entries with a central directory', () => {
+    const archive = createZip([
+      { path: 'notes/a.md', data: 'hello' },
+      { path: 'notes/b.bin', data: new Uint8Array([1, 2, 3]) },
+    ]);
+
+    expect(readUint32(archive, 0)).toBe(0x04034b50);
+    expect(readUint32(archive, 14)).toBe(0x3610a686);
+    expect(readUint32(archive, 18)).toBe(5);
+    expect(new TextDecoder().decode(archive.slice(30, 40))).toBe('notes/a.md');
+    expect(new TextDecoder().decode(archive.slice(40, 45))).toBe('hello');
+
+    const end = archive.length - 22;
+    expect(readUint32(archive, end)).toBe(0x06054b50);
+    expect(readUint16(archive, end + 10)).toBe(2);
+
+    const centralOffset = readUint32(archive, end + 16);
+    expect(readUint32(archive, centralOffset)).toBe(0x02014b50);
+    expect(readUint32(archive, centralOffset + 42)).toBe(0);
+  });
+
+  it('should encode file names as UTF-8', () => {
+    const archive = createZip([{ path: 'café.md', data: '' }]);
+
+    expect(readUint16(archive, 6) & 0x0800).toBe(0x0800);
+    expect(readUint16(archive, 26)).toBe(new TextEncoder().encode('café.md').length);
+  });
+
+  it('should read back the files it writes', async () => {
+    const archive = createZip([
+      { path: 'notes/a.md', data: 'hello' },
+      { path: 'notes/b.bin', data: new Uint8Array([1, 2, 3]) },
+    ]);
+
+    const files = await readZip(archive);
+
+    expect(files.map(file => file.path)).toEqual(['notes/a.md', 'notes/b.bin']);
+    expect(new TextDecoder().decode(files[0].data)).toBe('hello');
+    expect(Array.from(files[1].data)).toEqual([1, 2, 3]);
+  });
+
+  it('should reject data that is not a zip archive', async () => {
+    await expect(readZip(new Uint8Array(30))).rejects.toThrow('Not a zip archive');
+  });
+});
@@ -0,0 +1,464 @@
+/**
+ * Account backup
+ * Serializes everything a user owns - notebooks, pages, page versions and
+ * attachment files - into a single JSON archive, and restores such an
+ * archive into the current account. Restored records get new ids, so a
+ * backup can be restored next to the data it was taken from.
+ */
+
+import { supabase } from './supabase';
+import { BATCH_SIZE } from './batching';
+import { removeStoredFiles, replaceAttachmentUrls, STORAGE_BUCKET } from './attachmentFiles';
+import { reconstructVersions } from './versionDelta';
+import { indexNewPages } from './pageIndex';
+import type { PostgrestError } from '@supabase/supabase-js';
+import type { AttachmentData, NotebookData, PageData, PageVersionData } from './supabase';
+
+/**
+ * Version of the archive format. Bump it when the format changes and teach
+ * `parseAccountBackup` to read the older versions.
+ */
+export const BACKUP_SCHEMA_VERSION = 1;
+
+const BACKUP_FORMAT = 'mininote-backup';
+const PAGE_SIZE = 1000; // Rows per request when reading a whole table
+
+export type BackupNotebook = Omit<NotebookData, 'user_id'>;
+export type BackupPage = Omit<PageData, 'user_id'>;
+export type BackupPageVersion = Omit<PageVersionData, 'user_id' | 'base_version_id' | 'delta'>; // Always full content
+export type BackupAttachment = Omit<AttachmentData, 'user_id'> & {
+  data: string; // Base64 file contents
+};
+
+/**
+ * A full account backup, including trashed notebooks and pages
+ */
+export interface AccountBackup {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  createdAt: string;
+  notebooks: BackupNotebook[];
+  pages: BackupPage[];
+  pageVersions: BackupPageVersion[];
+  attachments: BackupAttachment[];
+}
+
+/**
+ * How a restore treats the data already in the account
+ * - merge: restored notebooks are added next to the existing ones
+ * - replace: existing notebooks are deleted once the restore succeeded
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupResult {
+  backup: AccountBackup;
+  skippedAttachments: string[]; // Files that could not be downloaded
+}
+
+export interface RestoreResult {
+  notebooksRestored: number;
+  pagesRestored: number;
+  versionsRestored: number;
+  attachmentsRestored: number;
+  skippedAttachments: string[]; // Files that could not be uploaded
+}
+
+/**
+ * Records of a backup with new ids, owned by the restoring user, in the
+ * order they can be inserted
+ */
+export interface RestorePlan {
+  notebooks: NotebookData[];
+  pages: PageData[]; // Parents come before their children
+  pageVersions: PageVersionData[];
+  attachments: Array<{ attachment: AttachmentData; data: string }>;
+}
+
+type BackupTable = 'notebooks' | 'pages' | 'page_versions' | 'attachments';
+
+function omitKeys<T extends object, K extends keyof T>(row: T, keys: K[]): Omit<T, K> {
+  return Object.fromEntries(
+    Object.entries(row).filter(([key]) => !keys.includes(key as K))
+  ) as Omit<T, K>;
+}
+
+/**
+ * Base64 encode bytes, in chunks so large files stay within argument limits
+ */
+export function encodeBase64(data: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function decodeBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+async function fetchAllRows<T>(table: BackupTable, userId: string): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1) as { data: T[] | null; error: PostgrestError | null };
+
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...(data || []));
+
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Read everything the user owns into a backup
+ * Attachments that fail to download are left out and reported
+ */
+export async function createAccountBackup(
+  userId: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<BackupResult> {
+  const notebooks = await fetchAllRows<NotebookData>('notebooks', userId);
+  const pages = await fetchAllRows<PageData>('pages', userId);
+  const storedVersions = await fetchAllRows<PageVersionData>('page_versions', userId);
+  const attachmentRows = await fetchAllRows<AttachmentData>('attachments', userId);
+
+  // Versions are stored in full so the archive does not depend on how they are stored
+  const pageVersions = reconstructVersions(storedVersions).map(version => (
+    omitKeys(version, ['user_id', 'base_version_id', 'delta'])
+  ));
+
+  const attachments: BackupAttachment[] = [];
+  const skippedAttachments: string[] = [];
+
+  for (const [index, attachment] of attachmentRows.entries()) {
+    const { data: blob, error } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .download(attachment.storage_path);
+
+    if (error || !blob) {
+      console.error('Failed to download attachment for backup:', error);
+      skippedAttachments.push(attachment.filename);
+    } else {
+      attachments.push({
+        ...omitKeys(attachment, ['user_id']),
+        data: encodeBase64(new Uint8Array(await blob.arrayBuffer())),
+      });
+    }
+
+    onProgress?.(index + 1, attachmentRows.length);
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      createdAt: new Date().toISOString(),
+      notebooks: notebooks.map(notebook => omitKeys(notebook, ['user_id'])),
+      pages: pages.map(page => omitKeys(page, ['user_id'])),
+      pageVersions,
+      attachments,
+    },
+    skippedAttachments,
+  };
+}
+
+/**
+ * Read a backup file, checking that it is a backup this version can restore
+ */
+export function parseAccountBackup(text: string): AccountBackup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Not a Mini Note backup: the file is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Not a Mini Note backup');
+  }
+
+  const value = parsed as Record<string, unknown>;
+
+  if (value.format !== BACKUP_FORMAT) {
+    throw new Error('Not a Mini Note backup');
+  }
+
+  if (typeof value.schemaVersion !== 'number' || value.schemaVersion < 1) {
+    throw new Error('Backup has no valid schema version');
+  }
+
+  if (value.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error(
+      `Backup uses schema version ${value.schemaVersion}, which is newer than this app supports (${BACKUP_SCHEMA_VERSION})`
+    );
+  }
+
+  const { schemaVersion, createdAt, notebooks, pages, pageVersions, attachments } = value;
+
+  for (const [key, rows] of Object.entries({ notebooks, pages, pageVersions, attachments })) {
+    if (!Array.isArray(rows)) {
+      throw new Error(`Backup is missing its ${key}`);
+    }
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion,
+    createdAt: typeof createdAt === 'string' ? createdAt : '',
+    notebooks: notebooks as BackupNotebook[],
+    pages: pages as BackupPage[],
+    pageVersions: pageVersions as BackupPageVersion[],
+    attachments: attachments as BackupAttachment[],
+  };
+}
+
+/**
+ * Point in-app links and attachment URLs in restored content at the
+ * restored records. Links to anything outside the backup are left alone.
+ */
+export function rewriteBackupLinks(
+  content: string,
+  ids: Map<string, string>, // Old notebook and page ids -> new ids
+  attachmentUrls: Map<string, string> // Old storage path -> new public URL
+): string {
+  let result = replaceAttachmentUrls(content, attachmentUrls);
+
+  result = result.replace(/#\/pages\/([\w-]+)/g, (match, pageId: string) => {
+    const newPageId = ids.get(pageId);
+    return newPageId ? `#/pages/${newPageId}` : match;
+  });
+
+  return result.replace(
+    /#\/notebooks\/([\w-]+)(\/pages\/([\w-]+))?/g,
+    (match, notebookId: string, pagePart: string | undefined, pageId: string | undefined) => {
+      const newNotebookId = ids.get(notebookId);
+      if (!newNotebookId) return match;
+
+      const newPageId = pageId ? ids.get(pageId) : undefined;
+      if (pagePart && !newPageId) return match;
+
+      return `#/notebooks/${newNotebookId}${newPageId ? `/pages/${newPageId}` : ''}`;
+    }
+  );
+}
+
+/**
+ * Storage path of a restored attachment: the same file name under the
+ * restoring user and the restored page
+ */
+export function remapStoragePath(storagePath: string, userId: string, pageId: string): string {
+  const rest = storagePath.split('/').slice(2);
+  return [userId, pageId, ...(rest.length > 0 ? rest : [storagePath])].join('/');
+}
+
+/**
+ * Give every record of a backup a new id owned by `userId`, keeping the
+ * links between them: pages stay in their notebook and under their parent,
+ * and links in page content follow the pages they point to.
+ * Records whose notebook or page is not in the backup are dropped.
+ */
+export function planAccountRestore(
+  backup: AccountBackup,
+  userId: string,
+  getPublicUrl: (storagePath: string) => string,
+  createId: () => string = () => crypto.randomUUID()
+): RestorePlan {
+  const ids = new Map<string, string>();
+  backup.notebooks.forEach(notebook => ids.set(notebook.id, createId()));
+
+  const backupPages = backup.pages.filter(page => ids.has(page.notebook_id));
+  backupPages.forEach(page => ids.set(page.id, createId()));
+
+  const attachments = backup.attachments.filter(attachment => ids.has(attachment.page_id));
+  const storagePaths = new Map<string, string>();
+  const attachmentUrls = new Map<string, string>();
+  attachments.forEach(attachment => {
+    const storagePath = remapStoragePath(attachment.storage_path, userId, ids.get(attachment.page_id)!);
+    storagePaths.set(attachment.storage_path, storagePath);
+    attachmentUrls.set(attachment.storage_path, getPublicUrl(storagePath));
+  });
+
+  const rewrite = (content: string) => rewriteBackupLinks(content, ids, attachmentUrls);
+
+  // Parents must exist before their children are inserted
+  const pagesById = new Map(backupPages.map(page => [page.id, page]));
+  const depths = new Map<string, number>();
+  const depthOf = (page: BackupPage): number => {
+    let depth = 0;
+    const seen = new Set<string>([page.id]);
+    for (let parent = pagesById.get(page.parent_page_id ?? ''); parent; parent = pagesById.get(parent.parent_page_id ?? '')) {
+      if (seen.has(parent.id)) break; // A cycle can only come from a damaged backup
+      seen.add(parent.id);
+      depth++;
+    }
+    return depth;
+  };
+  backupPages.forEach(page => depths.set(page.id, depthOf(page)));
+
+  const pages = [...backupPages]
+    .sort((a, b) => depths.get(a.id)! - depths.get(b.id)!)
+    .map<PageData>(page => {
+      const parent = pagesById.get(page.parent_page_id ?? '');
+      return {
+        ...page,
+        id: ids.get(page.id)!,
+        content: rewrite(page.content),
+        notebook_id: ids.get(page.notebook_id)!,
+        // Pages moved under a page of another notebook would break the tree
+        parent_page_id: parent && parent.notebook_id === page.notebook_id && depths.get(parent.id)! < depths.get(page.id)!
+          ? ids.get(parent.id)
+          : undefined,
+        deleted_root_id: page.deleted_root_id ? ids.get(page.deleted_root_id) ?? null : null,
+        user_id: userId,
+      };
+    });
+
+  return {
+    notebooks: backup.notebooks.map(notebook => ({
+      ...notebook,
+      id: ids.get(notebook.id)!,
+      default_template_id: notebook.default_template_id ? ids.get(notebook.default_template_id) ?? null : null,
+      user_id: userId,
+    })),
+    pages,
+    pageVersions: backup.pageVersions
+      .filter(version => ids.has(version.page_id))
+      .map(version => ({
+        ...version,
+        id: createId(),
+        page_id: ids.get(version.page_id)!,
+        content: rewrite(version.content),
+        base_version_id: null,
+        delta: null,
+        user_id: userId,
+      })),
+    attachments: attachments.map(({ data, ...attachment }) => ({
+      attachment: {
+        ...attachment,
+        id: createId(),
+        page_id: ids.get(attachment.page_id)!,
+        storage_path: storagePaths.get(attachment.storage_path)!,
+        user_id: userId,
+      },
+      data,
+    })),
+  };
+}
+
+async function insertRows<T>(
+  rows: T[],
+  insert: (batch: T[]) => PromiseLike<{ error: PostgrestError | null }>
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { error } = await insert(rows.slice(i, i + BATCH_SIZE));
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+async function deleteNotebooks(notebookIds: string[], userId: string): Promise<void> {
+  for (let i = 0; i < notebookIds.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from('notebooks')
+      .delete()
+      .in('id', notebookIds.slice(i, i + BATCH_SIZE))
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Restore a backup into the user's account
+ * If anything fails, the records restored so far are removed again and the
+ * existing data is left untouched. In replace mode the existing notebooks,
+ * with their pages, versions and files, are only deleted after the restore
+ * succeeded.
+ */
+export async function restoreAccountBackup(
+  backup: AccountBackup,
+  userId: string,
+  mode: RestoreMode,
+  onProgress?: (done: number, total: number) => void
+): Promise<RestoreResult> {
+  const existingNotebooks = mode === 'replace'
+    ? await fetchAllRows<Pick<NotebookData, 'id'>>('notebooks', userId)
+    : [];
+  const existingAttachments = mode === 'replace'
+    ? await fetchAllRows<Pick<AttachmentData, 'storage_path'>>('attachments', userId)
+    : [];
+
+  const plan = planAccountRestore(
+    backup,
+    userId,
+    storagePath => supabase.storage.from(STORAGE_BUCKET).getPublicUrl(storagePath).data.publicUrl
+  );
+
+  const total = plan.attachments.length + 3;
+  const uploadedPaths: string[] = [];
+  const skippedAttachments: string[] = [];
+
+  try {
+    await insertRows(plan.notebooks, rows => supabase.from('notebooks').insert(rows));
+    onProgress?.(1, total);
+    await insertRows(plan.pages, rows => supabase.from('pages').insert(rows));
+    await indexNewPages(plan.pages, userId);
+    onProgress?.(2, total);
+    await insertRows(plan.pageVersions, rows => supabase.from('page_versions').insert(rows));
+    onProgress?.(3, total);
+
+    for (const [index, { attachment, data }] of plan.attachments.entries()) {
+      const { error: uploadError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .upload(attachment.storage_path, new Blob([decodeBase64(data) as BlobPart], { type: attachment.file_type }), {
+          contentType: attachment.file_type,
+          upsert: false,
+        });
+
+      if (uploadError) {
+        console.error('Failed to upload attachment for restore:', uploadError);
+        skippedAttachments.push(attachment.filename);
+      } else {
+        uploadedPaths.push(attachment.storage_path);
+        await insertRows([attachment], rows => supabase.from('attachments').insert(rows));
+      }
+
+      onProgress?.(index + 4, total);
+    }
+  } catch (error) {
+    // Deleting the notebooks removes their pages, versions and attachment rows
+    await deleteNotebooks(plan.notebooks.map(notebook => notebook.id), userId).catch(cleanupError => {
+      console.error('Failed to remove partially restored notebooks:', cleanupError);
+    });
+    await removeStoredFiles(uploadedPaths);
+    throw error;
+  }
+
+  if (mode === 'replace') {
+    await deleteNotebooks(existingNotebooks.map(notebook => notebook.id), userId);
+    await removeStoredFiles(existingAttachments.map(attachment => attachment.storage_path));
+  }
+
+  return {
+    notebooksRestored: plan.notebooks.length,
+    pagesRestored: plan.pages.length,
+    versionsRestored: plan.pageVersions.length,
+    attachmentsRestored: uploadedPaths.length,
+    skippedAttachments,
+  };
+}
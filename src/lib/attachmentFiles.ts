@@ -0,0 +1,72 @@
+/**
+ * Attachment files
+ * The storage bucket attachments live in, loading the attachment records of
+ * pages, removing stored files and pointing attachment URLs in page content
+ * somewhere else
+ */
+
+import { supabase } from './supabase';
+import { BATCH_SIZE } from './batching';
+import type { AttachmentData } from './supabase';
+
+export const STORAGE_BUCKET = 'user-files';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Attachment records of the given pages
+ */
+export async function fetchPageAttachments(pageIds: string[], userId: string): Promise<AttachmentData[]> {
+  const attachments: AttachmentData[] = [];
+
+  for (let i = 0; i < pageIds.length; i += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('attachments')
+      .select('*')
+      .in('page_id', pageIds.slice(i, i + BATCH_SIZE))
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+
+    attachments.push(...(data || []));
+  }
+
+  return attachments;
+}
+
+/**
+ * Remove files from storage, e.g. the files of an import or copy that is
+ * undone. Failures are only logged: a leftover file takes up space but is
+ * not referenced by anything.
+ */
+export async function removeStoredFiles(storagePaths: string[]): Promise<void> {
+  for (let i = 0; i < storagePaths.length; i += BATCH_SIZE) {
+    const { error } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .remove(storagePaths.slice(i, i + BATCH_SIZE));
+
+    if (error) {
+      console.error('Failed to delete files from storage:', error);
+    }
+  }
+}
+
+/**
+ * Replace the URLs of stored files in content. `replacements` maps storage
+ * paths to the text their URLs become. URLs on any host match, so content
+ * copied from another project is rewritten too.
+ */
+export function replaceAttachmentUrls(content: string, replacements: Map<string, string>): string {
+  let result = content;
+
+  replacements.forEach((replacement, storagePath) => {
+    const pattern = new RegExp(`https?://[^\\s"'()<>]*/${STORAGE_BUCKET}/${escapeRegExp(storagePath)}`, 'g');
+    result = result.replace(pattern, () => replacement);
+  });
+
+  return result;
+}
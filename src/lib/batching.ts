@@ -0,0 +1,9 @@
+/**
+ * Batched requests
+ */
+
+/**
+ * Most ids in one `.in()` filter, or rows in one insert. Keeps request URLs
+ * and bodies within server limits.
+ */
+export const BATCH_SIZE = 100;
@@ -39,6 +39,13 @@ export class DatabaseError extends Error {
   }
 }
 
+/**
+ * Checks if an error message comes from a failed fetch (offline, DNS, CORS)
+ */
+function isFetchFailure(message: string | undefined): boolean {
+  return !!message && /Failed to fetch|NetworkError|Load failed|Network request failed/i.test(message);
+}
+
 /**
  * Maps Supabase PostgrestError to DatabaseError
  */
@@ -47,6 +54,21 @@ export function handleDatabaseError(error: PostgrestError | Error | null): Datab
     return new DatabaseError('An unknown error occurred', DatabaseErrorCode.UNKNOWN);
   }
 
+  // Already mapped
+  if (error instanceof DatabaseError) {
+    return error;
+  }
+
+  // Requests that never reached the server
+  if (isFetchFailure(error.message)) {
+    return new DatabaseError(
+      'Network connection error. Please check your internet connection.',
+      DatabaseErrorCode.NETWORK,
+      'details' in error ? error.details : undefined,
+      true
+    );
+  }
+
   // Handle PostgrestError
   if ('code' in error && 'details' in error) {
     const pgError = error as PostgrestError;
@@ -65,6 +87,7 @@ export function handleDatabaseError(error: PostgrestError | Error | null): Datab
       
       case 'PGRST116': // Not found
       case '42P01':
+      case 'P0002': // Raised by the tree functions
         return new DatabaseError(
           'The requested resource was not found.',
           DatabaseErrorCode.NOT_FOUND,
@@ -96,6 +119,22 @@ export function handleDatabaseError(error: PostgrestError | Error | null): Datab
           false
         );
       
+      case 'MN001': // Page moved under itself or a descendant (check_page_parent)
+        return new DatabaseError(
+          'A page cannot be moved under itself or one of its subpages.',
+          DatabaseErrorCode.VALIDATION,
+          pgError.details,
+          false
+        );
+      
+      case 'MN002': // Parent page in another notebook (check_page_parent)
+        return new DatabaseError(
+          'The parent page must be in the same notebook as the page.',
+          DatabaseErrorCode.VALIDATION,
+          pgError.details,
+          false
+        );
+      
       case '23514': // Check violation
       case '23502': // Not null violation
         return new DatabaseError(
@@ -161,8 +200,19 @@ export async function withErrorHandling<T>(
  * Get current authenticated user ID
  */
 export async function getCurrentUserId(): Promise<string | null> {
-  const { data: { user } } = await supabase.auth.getUser();
-  return user?.id || null;
+  const { data: { user }, error } = await supabase.auth.getUser();
+  
+  if (user) {
+    return user.id;
+  }
+  
+  // getUser needs the network; fall back to the stored session when offline
+  if (error && handleDatabaseError(error).retryable) {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user?.id || null;
+  }
+  
+  return null;
 }
 
 /**
@@ -0,0 +1,529 @@
+/**
+ * Diff utilities
+ * Myers diff for sequences, line and word diffs of text, and a line-based
+ * three-way merge
+ */
+
+import type { PageVersionData, VersionDiff } from '../types/database';
+
+/**
+ * A single edit produced by diffing two sequences
+ */
+export interface DiffEdit<T> {
+  type: 'equal' | 'insert' | 'delete';
+  value: T;
+  oldIndex?: number; // Index in the old sequence (equal, delete)
+  newIndex?: number; // Index in the new sequence (equal, insert)
+}
+
+/**
+ * Point where a shortest edit script of a[aStart..aEnd) against
+ * b[bStart..bEnd) can be split in two, found by running Myers' algorithm
+ * from both ends until the paths meet. Only the current diagonals are kept,
+ * so memory is linear in the input size. Returns null when the script needs
+ * more than `maxEdits` edits. Both ranges must be non-empty.
+ */
+function findMiddle<T>(
+  a: T[],
+  b: T[],
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number,
+  equals: (x: T, y: T) => boolean,
+  maxEdits: number
+): [number, number] | null {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD + 1;
+  const size = 2 * maxD + 4;
+  const forward = new Int32Array(size).fill(-1);
+  const reverse = new Int32Array(size).fill(-1);
+  forward[offset + 1] = 0;
+  reverse[offset + 1] = 0;
+
+  // With an odd length difference the paths can only meet on a forward step
+  const delta = n - m;
+  const forwardMeets = delta % 2 !== 0;
+
+  // Diagonals that ran off the edit graph are skipped from then on
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let reverseStart = 0;
+  let reverseEnd = 0;
+
+  for (let d = 0; d <= maxD; d++) {
+    // Meeting on this forward step means 2d - 1 edits
+    if (2 * d - 1 > maxEdits) {
+      return null;
+    }
+
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && forward[index - 1] < forward[index + 1])
+        ? forward[index + 1]
+        : forward[index - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && equals(a[aStart + x], b[bStart + y])) {
+        x++;
+        y++;
+      }
+
+      forward[index] = x;
+
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (forwardMeets) {
+        const reverseIndex = offset + delta - k;
+        if (reverseIndex >= 0 && reverseIndex < size && reverse[reverseIndex] !== -1 && x >= n - reverse[reverseIndex]) {
+          return [x, y];
+        }
+      }
+    }
+
+    // Meeting on this reverse step means 2d edits
+    if (2 * d > maxEdits) {
+      return null;
+    }
+
+    for (let k = -d + reverseStart; k <= d - reverseEnd; k += 2) {
+      const index = offset + k;
+      let x = k === -d || (k !== d && reverse[index - 1] < reverse[index + 1])
+        ? reverse[index + 1]
+        : reverse[index - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && equals(a[aEnd - x - 1], b[bEnd - y - 1])) {
+        x++;
+        y++;
+      }
+
+      reverse[index] = x;
+
+      if (x > n) {
+        reverseEnd += 2;
+      } else if (y > m) {
+        reverseStart += 2;
+      } else if (!forwardMeets) {
+        const forwardIndex = offset + delta - k;
+        if (forwardIndex >= 0 && forwardIndex < size && forward[forwardIndex] !== -1) {
+          const forwardX = forward[forwardIndex];
+          if (forwardX >= n - x) {
+            return [forwardX, forwardX - (forwardIndex - offset)];
+          }
+        }
+      }
+    }
+  }
+
+  // Not reached for consistent input; deleting a and inserting b is still a valid script
+  return [n, 0];
+}
+
+/**
+ * Append the edits turning a[aStart..aEnd) into b[bStart..bEnd) to `edits`.
+ * Returns false, leaving `edits` incomplete, when more than `maxEdits`
+ * edits are needed.
+ */
+function diffRange<T>(
+  a: T[],
+  b: T[],
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number,
+  equals: (x: T, y: T) => boolean,
+  edits: DiffEdit<T>[],
+  maxEdits: number
+): boolean {
+  // Common prefix and suffix don't need the full algorithm
+  while (aStart < aEnd && bStart < bEnd && equals(a[aStart], b[bStart])) {
+    edits.push({ type: 'equal', value: a[aStart], oldIndex: aStart, newIndex: bStart });
+    aStart++;
+    bStart++;
+  }
+
+  let suffix = 0;
+  while (aEnd - suffix > aStart && bEnd - suffix > bStart && equals(a[aEnd - suffix - 1], b[bEnd - suffix - 1])) {
+    suffix++;
+  }
+  aEnd -= suffix;
+  bEnd -= suffix;
+
+  if (aStart === aEnd || bStart === bEnd) {
+    if (aEnd - aStart + bEnd - bStart > maxEdits) {
+      return false;
+    }
+
+    for (let i = aStart; i < aEnd; i++) {
+      edits.push({ type: 'delete', value: a[i], oldIndex: i });
+    }
+    for (let i = bStart; i < bEnd; i++) {
+      edits.push({ type: 'insert', value: b[i], newIndex: i });
+    }
+  } else {
+    const middle = findMiddle(a, b, aStart, aEnd, bStart, bEnd, equals, maxEdits);
+    if (!middle) {
+      return false;
+    }
+
+    // The halves together need no more edits than were just counted
+    const [x, y] = middle;
+    diffRange(a, b, aStart, aStart + x, bStart, bStart + y, equals, edits, Infinity);
+    diffRange(a, b, aStart + x, aEnd, bStart + y, bEnd, equals, edits, Infinity);
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    edits.push({ type: 'equal', value: a[aEnd + i], oldIndex: aEnd + i, newIndex: bEnd + i });
+  }
+
+  return true;
+}
+
+/**
+ * Compute the shortest edit script turning `a` into `b`
+ */
+export function diffSequences<T>(
+  a: T[],
+  b: T[],
+  equals: (x: T, y: T) => boolean = (x, y) => x === y
+): DiffEdit<T>[] {
+  const edits: DiffEdit<T>[] = [];
+  diffRange(a, b, 0, a.length, 0, b.length, equals, edits, Infinity);
+  return edits;
+}
+
+/**
+ * Compute the shortest edit script turning `a` into `b`, or null when it
+ * has more than `maxEdits` insertions and deletions. Diffing takes time in
+ * proportion to the number of edits, so this bounds the cost of diffing
+ * unrelated inputs.
+ */
+export function diffSequencesWithin<T>(
+  a: T[],
+  b: T[],
+  maxEdits: number,
+  equals: (x: T, y: T) => boolean = (x, y) => x === y
+): DiffEdit<T>[] | null {
+  const edits: DiffEdit<T>[] = [];
+  return diffRange(a, b, 0, a.length, 0, b.length, equals, edits, maxEdits) ? edits : null;
+}
+
+/**
+ * Split text into lines for diffing
+ */
+export function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+/**
+ * Split text into words, whitespace runs and punctuation for word diffs
+ */
+export function splitWords(text: string): string[] {
+  return text.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+}
+
+/**
+ * A run of text in a word-level diff
+ */
+export interface WordDiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Word-level diff of two strings, merging adjacent tokens of the same type
+ */
+export function diffWords(oldText: string, newText: string): WordDiffSegment[] {
+  const segments: WordDiffSegment[] = [];
+
+  diffSequences(splitWords(oldText), splitWords(newText)).forEach(edit => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === edit.type) {
+      last.text += edit.value;
+    } else {
+      segments.push({ type: edit.type, text: edit.value });
+    }
+  });
+
+  return segments;
+}
+
+/**
+ * A row of a line diff
+ * - changed: a removed line paired with the line that replaced it
+ */
+export interface LineDiffRow {
+  type: 'added' | 'removed' | 'changed' | 'unchanged';
+  oldLine?: string;
+  newLine?: string;
+  oldNumber?: number; // 1-based line number in the old text
+  newNumber?: number; // 1-based line number in the new text
+}
+
+/**
+ * Line diff of two texts. Removed lines directly followed by added lines
+ * are paired up as changed rows so they can be shown with word highlights.
+ */
+export function diffLines(oldText: string, newText: string): LineDiffRow[] {
+  const rows: LineDiffRow[] = [];
+  let removed: DiffEdit<string>[] = [];
+  let added: DiffEdit<string>[] = [];
+
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let i = 0; i < paired; i++) {
+      rows.push({
+        type: 'changed',
+        oldLine: removed[i].value,
+        newLine: added[i].value,
+        oldNumber: removed[i].oldIndex! + 1,
+        newNumber: added[i].newIndex! + 1,
+      });
+    }
+    removed.slice(paired).forEach(edit => {
+      rows.push({ type: 'removed', oldLine: edit.value, oldNumber: edit.oldIndex! + 1 });
+    });
+    added.slice(paired).forEach(edit => {
+      rows.push({ type: 'added', newLine: edit.value, newNumber: edit.newIndex! + 1 });
+    });
+    removed = [];
+    added = [];
+  };
+
+  diffSequences(splitLines(oldText), splitLines(newText)).forEach(edit => {
+    if (edit.type === 'delete') {
+      removed.push(edit);
+    } else if (edit.type === 'insert') {
+      added.push(edit);
+    } else {
+      flush();
+      rows.push({
+        type: 'unchanged',
+        oldLine: edit.value,
+        newLine: edit.value,
+        oldNumber: edit.oldIndex! + 1,
+        newNumber: edit.newIndex! + 1,
+      });
+    }
+  });
+  flush();
+
+  return rows;
+}
+
+/**
+ * A block of diff rows; long unchanged runs are folded away
+ */
+export type DiffHunk<T> =
+  | { type: 'visible'; rows: T[] }
+  | { type: 'folded'; rows: T[]; start: number }; // start: index of the first folded row
+
+/**
+ * Fold unchanged runs, keeping `context` rows next to each change.
+ * Runs shorter than `minFolded` once context is kept stay visible.
+ */
+export function foldUnchanged<T extends { type: string }>(
+  rows: T[],
+  context = 3,
+  minFolded = 4
+): DiffHunk<T>[] {
+  const hunks: DiffHunk<T>[] = [];
+  const pushVisible = (visible: T[]) => {
+    if (visible.length === 0) return;
+    const last = hunks[hunks.length - 1];
+    if (last && last.type === 'visible') {
+      last.rows.push(...visible);
+    } else {
+      hunks.push({ type: 'visible', rows: [...visible] });
+    }
+  };
+
+  let i = 0;
+  while (i < rows.length) {
+    if (rows[i].type !== 'unchanged') {
+      pushVisible([rows[i]]);
+      i++;
+      continue;
+    }
+
+    let j = i;
+    while (j < rows.length && rows[j].type === 'unchanged') {
+      j++;
+    }
+
+    // Context is only needed on the sides that border a change
+    const foldStart = i === 0 ? i : i + context;
+    const foldEnd = j === rows.length ? j : j - context;
+
+    if (foldEnd - foldStart >= minFolded) {
+      pushVisible(rows.slice(i, foldStart));
+      hunks.push({ type: 'folded', rows: rows.slice(foldStart, foldEnd), start: foldStart });
+      pushVisible(rows.slice(foldEnd, j));
+    } else {
+      pushVisible(rows.slice(i, j));
+    }
+
+    i = j;
+  }
+
+  return hunks;
+}
+
+/**
+ * Compare the content of two page versions.
+ * `changes` holds lines edited in place, as they read in version_b.
+ */
+export function compareVersions(versionA: PageVersionData, versionB: PageVersionData): VersionDiff {
+  const diff: VersionDiff = {
+    version_a: versionA,
+    version_b: versionB,
+    additions: [],
+    deletions: [],
+    changes: [],
+  };
+
+  diffLines(versionA.content, versionB.content).forEach(row => {
+    if (row.type === 'added') {
+      diff.additions.push(row.newLine!);
+    } else if (row.type === 'removed') {
+      diff.deletions.push(row.oldLine!);
+    } else if (row.type === 'changed') {
+      diff.changes.push(row.newLine!);
+    }
+  });
+
+  return diff;
+}
+
+/**
+ * A region of a three-way merge
+ * - stable: unchanged on both sides
+ * - mine / theirs: changed on one side only, taken automatically
+ * - both: changed identically on both sides
+ * - conflict: changed differently on both sides
+ */
+export type MergeChunk =
+  | { type: 'stable' | 'mine' | 'theirs' | 'both'; lines: string[] }
+  | { type: 'conflict'; base: string[]; mine: string[]; theirs: string[] };
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+  chunks: MergeChunk[];
+  hasConflicts: boolean;
+}
+
+/**
+ * Map each base line index to its matching index in the other side
+ */
+function matchLines(base: string[], other: string[]): Array<number | undefined> {
+  const matches: Array<number | undefined> = new Array(base.length);
+  diffSequences(base, other).forEach(edit => {
+    if (edit.type === 'equal') {
+      matches[edit.oldIndex!] = edit.newIndex;
+    }
+  });
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * Line-based three-way merge (diff3) of two edits of a common base
+ */
+export function threeWayMerge(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = splitLines(base);
+  const mineLines = splitLines(mine);
+  const theirLines = splitLines(theirs);
+  const mineMatches = matchLines(baseLines, mineLines);
+  const theirMatches = matchLines(baseLines, theirLines);
+
+  const chunks: MergeChunk[] = [];
+  const pushLines = (type: 'stable' | 'mine' | 'theirs' | 'both', lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last && last.type === type) {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ type, lines: [...lines] });
+    }
+  };
+
+  let i = 0; // base
+  let a = 0; // mine
+  let b = 0; // theirs
+
+  while (i <= baseLines.length) {
+    // Next base line kept by both sides (or the end of all three)
+    let j = i;
+    while (j < baseLines.length && (mineMatches[j] === undefined || theirMatches[j] === undefined)) {
+      j++;
+    }
+
+    const nextA = j < baseLines.length ? mineMatches[j]! : mineLines.length;
+    const nextB = j < baseLines.length ? theirMatches[j]! : theirLines.length;
+
+    const baseChunk = baseLines.slice(i, j);
+    const mineChunk = mineLines.slice(a, nextA);
+    const theirChunk = theirLines.slice(b, nextB);
+
+    if (sameLines(mineChunk, baseChunk)) {
+      pushLines('theirs', theirChunk);
+    } else if (sameLines(theirChunk, baseChunk)) {
+      pushLines('mine', mineChunk);
+    } else if (sameLines(mineChunk, theirChunk)) {
+      pushLines('both', mineChunk);
+    } else {
+      chunks.push({ type: 'conflict', base: baseChunk, mine: mineChunk, theirs: theirChunk });
+    }
+
+    if (j >= baseLines.length) break;
+
+    pushLines('stable', [baseLines[j]]);
+    i = j + 1;
+    a = nextA + 1;
+    b = nextB + 1;
+  }
+
+  return {
+    chunks,
+    hasConflicts: chunks.some(chunk => chunk.type === 'conflict'),
+  };
+}
+
+/**
+ * Build merged text, resolving each conflict with the given choice
+ * (indexed by the conflict's position among conflict chunks)
+ */
+export function resolveMerge(
+  result: MergeResult,
+  resolutions: Array<'mine' | 'theirs' | 'both'>
+): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+
+  result.chunks.forEach(chunk => {
+    if (chunk.type !== 'conflict') {
+      lines.push(...chunk.lines);
+      return;
+    }
+
+    const resolution = resolutions[conflictIndex++] ?? 'mine';
+    if (resolution === 'mine' || resolution === 'both') {
+      lines.push(...chunk.mine);
+    }
+    if (resolution === 'theirs' || resolution === 'both') {
+      lines.push(...chunk.theirs);
+    }
+  });
+
+  return lines.join('\n');
+}
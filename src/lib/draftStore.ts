@@ -0,0 +1,76 @@
+/**
+ * Page draft storage
+ * Keeps unsaved editor changes in localStorage so they survive a reload
+ */
+
+import type { PageProperty } from './supabase';
+
+const DRAFT_KEY_PREFIX = 'mininote:draft:';
+
+/**
+ * Unsaved edits of a page
+ */
+export interface PageDraft {
+  title: string;
+  content: string;
+  properties?: PageProperty[]; // Missing in drafts saved before pages had properties
+  baseVersion: number; // Page version the edits started from
+  base?: { title: string; content: string }; // Saved state at baseVersion; missing when it wasn't known
+  updatedAt: string;
+}
+
+function draftKey(pageId: string): string {
+  return `${DRAFT_KEY_PREFIX}${pageId}`;
+}
+
+/**
+ * Load the draft for a page, if any
+ */
+export function loadDraft(pageId: string): PageDraft | null {
+  try {
+    const raw = localStorage.getItem(draftKey(pageId));
+    return raw ? (JSON.parse(raw) as PageDraft) : null;
+  } catch (error) {
+    console.error('Failed to load draft:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the draft for a page
+ */
+export function saveDraft(pageId: string, draft: Omit<PageDraft, 'updatedAt'>): void {
+  try {
+    localStorage.setItem(
+      draftKey(pageId),
+      JSON.stringify({ ...draft, updatedAt: new Date().toISOString() })
+    );
+  } catch (error) {
+    // Storage may be full or disabled; autosave still covers the edits
+    console.error('Failed to save draft:', error);
+  }
+}
+
+/**
+ * Remove the draft for a page
+ */
+export function clearDraft(pageId: string): void {
+  try {
+    localStorage.removeItem(draftKey(pageId));
+  } catch (error) {
+    console.error('Failed to clear draft:', error);
+  }
+}
+
+/**
+ * Remove all page drafts, e.g. on sign out
+ */
+export function clearAllDrafts(): void {
+  try {
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(DRAFT_KEY_PREFIX))
+      .forEach(key => localStorage.removeItem(key));
+  } catch (error) {
+    console.error('Failed to clear drafts:', error);
+  }
+}
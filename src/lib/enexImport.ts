@@ -0,0 +1,171 @@
+/**
+ * Evernote import
+ * Turns ENEX exports into import plans: one notebook per file, one page per
+ * note. Resources become attachments where the note shows them, and tags are
+ * kept as #hashtags at the end of the page.
+ */
+
+import { md5 } from './md5';
+import { htmlToMarkdown } from './htmlToMarkdown';
+import { generateKeysBetween } from './pageOrder';
+import {
+  getFileExtension,
+  getFileName,
+  removeFileExtension,
+  type ImportFile,
+  type ImportPlan,
+  type ImportPreview,
+  type PlannedPage,
+  type SkippedImportFile,
+} from './importPlan';
+
+interface EnexResource {
+  path: string;
+  data: Uint8Array;
+  mime: string;
+  hash: string;
+}
+
+function childText(element: Element, tag: string): string {
+  return element.getElementsByTagName(tag)[0]?.textContent?.trim() ?? '';
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const binary = atob(text.replace(/\s+/g, ''));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function resourceLink(resource: EnexResource): string {
+  const name = getFileName(resource.path);
+  const href = resource.path
+    .split('/')
+    .map(segment => encodeURIComponent(segment).replace(/[()]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+  return resource.mime.startsWith('image/') ? `![${name}](${href})` : `[${name}](${href})`;
+}
+
+function hashtag(tag: string): string {
+  return `#${tag.trim().replace(/\s+/g, '-').replace(/#/g, '')}`;
+}
+
+/**
+ * Work out the notebook an ENEX file creates, without writing anything
+ */
+export function planEnexImport(
+  file: ImportFile,
+  createId: () => string = () => crypto.randomUUID()
+): ImportPlan {
+  const xml = new DOMParser().parseFromString(new TextDecoder().decode(file.data), 'application/xml');
+
+  if (xml.getElementsByTagName('parsererror').length > 0 || !xml.getElementsByTagName('en-export')[0]) {
+    throw new Error(`${getFileName(file.path)} is not an Evernote export`);
+  }
+
+  const notes = Array.from(xml.getElementsByTagName('note'));
+  const keys = generateKeysBetween(null, null, notes.length);
+  const pages: PlannedPage[] = [];
+  const pageIdsByPath: Record<string, string> = {};
+  const assets: Record<string, Uint8Array> = {};
+  const skipped: SkippedImportFile[] = [];
+
+  notes.forEach((note, index) => {
+    const title = childText(note, 'title') || 'Untitled';
+    const path = `${index + 1}-${title}`;
+
+    const resources: EnexResource[] = [];
+    Array.from(note.getElementsByTagName('resource')).forEach((resource, resourceIndex) => {
+      const dataElement = resource.getElementsByTagName('data')[0];
+      const mime = childText(resource, 'mime') || 'application/octet-stream';
+      const fileName = childText(resource, 'file-name') || `resource-${resourceIndex + 1}.${mime.split('/')[1] || 'bin'}`;
+
+      if (!dataElement?.textContent) {
+        skipped.push({ path: `${title}/${fileName}`, reason: 'Resource has no data' });
+        return;
+      }
+
+      try {
+        const data = decodeBase64(dataElement.textContent);
+        resources.push({ path: `${path}/${resourceIndex + 1}-${fileName}`, data, mime, hash: md5(data) });
+      } catch {
+        skipped.push({ path: `${title}/${fileName}`, reason: 'Resource data could not be decoded' });
+      }
+    });
+
+    const used = new Set<EnexResource>();
+    const body = htmlToMarkdown(childText(note, 'content'), {
+      convertElement: (element) => {
+        if (element.tagName.toLowerCase() !== 'en-media') return null;
+
+        // Media refer to resources by the MD5 of their data
+        const hash = element.getAttribute('hash')?.toLowerCase();
+        const resource = resources.find(candidate => candidate.hash === hash);
+        if (!resource) return '';
+
+        used.add(resource);
+        return resourceLink(resource);
+      },
+    });
+
+    // Resources the note does not show are attached at the end
+    const unused = resources.filter(resource => !used.has(resource));
+    const tags = Array.from(note.getElementsByTagName('tag'), tag => tag.textContent || '').filter(tag => tag.trim());
+
+    const content = [
+      body,
+      unused.map(resourceLink).join('\n'),
+      tags.map(hashtag).join(' '),
+    ].filter(Boolean).join('\n\n');
+
+    const page: PlannedPage = {
+      id: createId(),
+      path,
+      title,
+      content,
+      parentId: null,
+      sortOrder: keys[index],
+      references: {},
+    };
+
+    resources.forEach(resource => {
+      page.references[resource.path] = resource.path;
+      assets[resource.path] = resource.data;
+    });
+
+    pages.push(page);
+    pageIdsByPath[path] = page.id;
+  });
+
+  return {
+    notebookTitle: removeFileExtension(getFileName(file.path)) || 'Evernote',
+    pages,
+    pageIdsByPath,
+    assets,
+    skipped,
+  };
+}
+
+/**
+ * Plan one notebook per ENEX file; other files are skipped
+ */
+export function planEnexImports(
+  files: ImportFile[],
+  createId?: () => string
+): ImportPreview {
+  const plans: ImportPlan[] = [];
+  const skipped: SkippedImportFile[] = [];
+
+  files.forEach(file => {
+    if (getFileExtension(file.path) !== 'enex') {
+      skipped.push({ path: file.path, reason: 'Not an Evernote export (.enex)' });
+      return;
+    }
+
+    try {
+      plans.push(planEnexImport(file, createId));
+    } catch (error) {
+      skipped.push({ path: file.path, reason: error instanceof Error ? error.message : 'Could not be read' });
+    }
+  });
+
+  return { plans, skipped };
+}
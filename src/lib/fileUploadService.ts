@@ -4,6 +4,7 @@
  */
 
 import { supabase } from './supabase';
+import { STORAGE_BUCKET } from './attachmentFiles';
 import type { AttachmentData } from './supabase';
 
 export interface UploadOptions {
@@ -21,6 +22,11 @@ export interface UploadResult {
   fileSize: number;
 }
 
+export interface StoredFile {
+  storagePath: string;
+  url: string;
+}
+
 export interface FileValidationError {
   type: 'size' | 'type';
   message: string;
@@ -47,7 +53,51 @@ class FileUploadService {
    */
   async uploadFile(options: UploadOptions): Promise<UploadResult> {
     const { file, pageId, userId, onProgress } = options;
+    const { storagePath, url } = await this.storeFile(file, pageId, userId);
+
+    // Simulate progress for better UX (Supabase client doesn't support progress callbacks yet)
+    if (onProgress) {
+      onProgress(100);
+    }
+
+    // Create attachment record
+    const { data: attachment, error: dbError } = await supabase
+      .from('attachments')
+      .insert({
+        filename: file.name,
+        file_type: file.type,
+        file_size: file.size,
+        storage_path: storagePath,
+        page_id: pageId,
+        user_id: userId
+      })
+      .select()
+      .single();
+
+    if (dbError) {
+      // Clean up uploaded file if database insert fails
+      await supabase.storage.from(STORAGE_BUCKET).remove([storagePath]);
+      throw new Error(`Failed to create attachment record: ${dbError.message}`);
+    }
+
+    if (!attachment) {
+      throw new Error('Failed to create attachment record: No data returned');
+    }
+
+    return {
+      url,
+      attachmentId: attachment.id,
+      filename: file.name,
+      fileType: file.type,
+      fileSize: file.size
+    };
+  }
 
+  /**
+   * Validate a file and put it in storage under the page's folder, without
+   * creating its attachment record
+   */
+  async storeFile(file: File, pageId: string, userId: string): Promise<StoredFile> {
     // Validate file
     const validation = this.validateFile(file);
     if (!validation.valid) {
@@ -62,63 +112,24 @@ class FileUploadService {
     const sanitizedName = this.sanitizeFilename(file.name);
     const storagePath = `${userId}/${pageId}/${category}/${timestamp}-${sanitizedName}`;
 
-    try {
-      // Upload to Supabase Storage
-      const { error } = await supabase.storage
-        .from('user-files')
-        .upload(storagePath, file, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (error) {
-        throw new Error(`Upload failed: ${error.message}`);
-      }
-
-      // Simulate progress for better UX (Supabase client doesn't support progress callbacks yet)
-      if (onProgress) {
-        onProgress(100);
-      }
+    // Upload to Supabase Storage
+    const { error } = await supabase.storage
+      .from(STORAGE_BUCKET)
+      .upload(storagePath, file, {
+        cacheControl: '3600',
+        upsert: false
+      });
 
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('user-files')
-        .getPublicUrl(storagePath);
-
-      // Create attachment record
-      const { data: attachment, error: dbError } = await supabase
-        .from('attachments')
-        .insert({
-          filename: file.name,
-          file_type: file.type,
-          file_size: file.size,
-          storage_path: storagePath,
-          page_id: pageId,
-          user_id: userId
-        } as any)
-        .select()
-        .single<AttachmentData>();
-
-      if (dbError) {
-        // Clean up uploaded file if database insert fails
-        await supabase.storage.from('user-files').remove([storagePath]);
-        throw new Error(`Failed to create attachment record: ${dbError.message}`);
-      }
+    if (error) {
+      throw new Error(`Upload failed: ${error.message}`);
+    }
 
-      if (!attachment) {
-        throw new Error('Failed to create attachment record: No data returned');
-      }
+    // Get public URL
+    const { data: urlData } = supabase.storage
+      .from(STORAGE_BUCKET)
+      .getPublicUrl(storagePath);
 
-      return {
-        url: urlData.publicUrl,
-        attachmentId: attachment.id,
-        filename: file.name,
-        fileType: file.type,
-        fileSize: file.size
-      };
-    } catch (error) {
-      throw error;
-    }
+    return { storagePath, url: urlData.publicUrl };
   }
 
   /**
@@ -168,7 +179,7 @@ class FileUploadService {
 
     // Delete from storage
     const { error: storageError } = await supabase.storage
-      .from('user-files')
+      .from(STORAGE_BUCKET)
       .remove([attachment.storage_path]);
 
     if (storageError) {
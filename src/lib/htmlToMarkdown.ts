@@ -0,0 +1,191 @@
+/**
+ * HTML to markdown
+ * Converts imported HTML (such as Evernote's ENML) into the markdown pages
+ * are stored as. Covers headings, emphasis, links, images, lists, task
+ * items, quotes, code blocks and tables; other markup keeps only its text.
+ */
+
+export interface HtmlToMarkdownOptions {
+  /**
+   * Markdown for elements the converter does not know, such as
+   * `<en-media>`; returning null falls back to the element's text
+   */
+  convertElement?: (element: Element) => string | null;
+}
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'center', 'dd', 'div', 'dl', 'dt', 'en-note', 'figure',
+  'footer', 'header', 'main', 'nav', 'p', 'section',
+]);
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'title']);
+
+function escapeText(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+function wrapInline(marker: string, content: string): string {
+  const trimmed = content.trim();
+  if (!trimmed) return content;
+
+  // Markers must touch the text, so surrounding spaces move outside
+  const leading = content.match(/^\s*/)![0];
+  const trailing = content.match(/\s*$/)![0];
+  return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function block(content: string): string {
+  const trimmed = content.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : '\n\n';
+}
+
+function indent(text: string, prefix: string): string {
+  return text.split('\n').map((line, index) => (index === 0 || !line ? line : `${prefix}${line}`)).join('\n');
+}
+
+function tableCell(element: Element, convert: (node: Node) => string): string {
+  return convert(element).trim().replace(/\n+/g, ' ').replace(/\|/g, '\\|') || ' ';
+}
+
+/**
+ * Convert an HTML string to markdown
+ */
+export function htmlToMarkdown(html: string, options: HtmlToMarkdownOptions = {}): string {
+  // HTML parsing ignores the self-closing slash, so custom elements such as
+  // <en-media/> would swallow the content that follows them
+  const expanded = html.replace(/<([a-z][\w]*-[\w-]*)([^>]*?)\/>/gi, '<$1$2></$1>');
+  const document = new DOMParser().parseFromString(expanded, 'text/html');
+
+  const convertChildren = (node: Node, inPre = false): string => (
+    Array.from(node.childNodes).map(child => convert(child, inPre)).join('')
+  );
+
+  const convert = (node: Node, inPre = false): string => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent || '';
+      return inPre ? text : escapeText(text.replace(/\s+/g, ' '));
+    }
+
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return '';
+    }
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+
+    if (SKIPPED_TAGS.has(tag)) {
+      return '';
+    }
+
+    if (inPre) {
+      return element.textContent || '';
+    }
+
+    switch (tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        return block(`${'#'.repeat(Number(tag[1]))} ${convertChildren(element).trim().replace(/\n+/g, ' ')}`);
+
+      case 'br':
+        return '\n';
+
+      case 'hr':
+        return '\n\n---\n\n';
+
+      case 'strong':
+      case 'b':
+        return wrapInline('**', convertChildren(element));
+
+      case 'em':
+      case 'i':
+        return wrapInline('*', convertChildren(element));
+
+      case 's':
+      case 'strike':
+      case 'del':
+        return wrapInline('~~', convertChildren(element));
+
+      case 'code':
+        return `\`${element.textContent || ''}\``;
+
+      case 'pre':
+        return `\n\n\`\`\`\n${(element.textContent || '').replace(/\n$/, '')}\n\`\`\`\n\n`;
+
+      case 'a': {
+        const href = element.getAttribute('href');
+        const text = convertChildren(element);
+        return href ? `[${text.trim() || href}](${href.replace(/ /g, '%20')})` : text;
+      }
+
+      case 'img': {
+        const src = element.getAttribute('src');
+        return src ? `![${escapeText(element.getAttribute('alt') || '')}](${src.replace(/ /g, '%20')})` : '';
+      }
+
+      case 'en-todo':
+        return element.getAttribute('checked') === 'true' ? '- [x] ' : '- [ ] ';
+
+      case 'input':
+        return element.getAttribute('type') === 'checkbox'
+          ? (element.hasAttribute('checked') ? '- [x] ' : '- [ ] ')
+          : '';
+
+      case 'ul':
+      case 'ol': {
+        const ordered = tag === 'ol';
+        const items = Array.from(element.children).filter(child => child.tagName.toLowerCase() === 'li');
+        const lines = items.map((item, index) => {
+          let content = convertChildren(item).trim().replace(/\n{2,}/g, '\n');
+          const marker = ordered ? `${index + 1}. ` : '- ';
+
+          // A checkbox already starts its own list item
+          if (!ordered && /^- \[[ x]\] /.test(content)) {
+            content = content.slice(2);
+          }
+
+          return `${marker}${indent(content, ' '.repeat(marker.length))}`;
+        });
+        return block(lines.join('\n'));
+      }
+
+      case 'blockquote':
+        return block(convertChildren(element).trim().replace(/\n{3,}/g, '\n\n').split('\n').map(line => `> ${line}`.trimEnd()).join('\n'));
+
+      case 'table': {
+        const rows = Array.from(element.querySelectorAll('tr'));
+        if (rows.length === 0) return '';
+
+        const cells = rows.map(row => Array.from(row.children).map(cell => tableCell(cell, node => convertChildren(node))));
+        const width = Math.max(...cells.map(row => row.length));
+        const pad = (row: string[]) => [...row, ...Array(width - row.length).fill(' ')];
+        const lines = [
+          `| ${pad(cells[0]).join(' | ')} |`,
+          `| ${Array(width).fill('---').join(' | ')} |`,
+          ...cells.slice(1).map(row => `| ${pad(row).join(' | ')} |`),
+        ];
+        return block(lines.join('\n'));
+      }
+
+      default: {
+        const custom = options.convertElement?.(element);
+        if (custom != null) {
+          return custom;
+        }
+
+        const content = convertChildren(element);
+        return BLOCK_TAGS.has(tag) ? block(content) : content;
+      }
+    }
+  };
+
+  return convertChildren(document.body)
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,325 @@
+/**
+ * Import plans
+ * Importers turn files from other apps into plans: the notebook, pages and
+ * embedded files an import will create. Plans can be previewed before
+ * anything is written and are then run through the same page creation path
+ * as the editor.
+ */
+
+import { supabase } from './supabase';
+import { BATCH_SIZE } from './batching';
+import { removeStoredFiles } from './attachmentFiles';
+import { readZip } from './zip';
+import { fileUploadService } from './fileUploadService';
+import { createPageWithInitialVersion } from './pageCreation';
+import type { AttachmentData } from './supabase';
+
+/**
+ * A file read from the selected folder or archive
+ */
+export interface ImportFile {
+  path: string; // Forward-slash separated path inside the import
+  data: Uint8Array;
+}
+
+/**
+ * A file that was not imported, with the reason
+ */
+export interface SkippedImportFile {
+  path: string;
+  reason: string;
+}
+
+/**
+ * A page the import will create
+ */
+export interface PlannedPage {
+  id: string; // Generated up front so pages can link to each other
+  path: string; // Source file, or the folder for pages standing in for a folder
+  title: string;
+  content: string;
+  parentId: string | null;
+  sortOrder: string;
+  references: Record<string, string>; // Link target as written -> import path it resolves to
+}
+
+/**
+ * Everything an import of one notebook will create, built before anything is
+ * written
+ */
+export interface ImportPlan {
+  notebookTitle: string;
+  pages: PlannedPage[]; // Parents come before their children
+  pageIdsByPath: Record<string, string>; // Source path -> page id
+  assets: Record<string, Uint8Array>; // Embedded files by import path
+  skipped: SkippedImportFile[];
+}
+
+/**
+ * The plans an import will run, one per notebook, and the files none of them
+ * use
+ */
+export interface ImportPreview {
+  plans: ImportPlan[];
+  skipped: SkippedImportFile[];
+}
+
+/**
+ * Result of running an import plan
+ */
+export interface ImportResult {
+  notebookId: string;
+  notebookTitle: string;
+  pagesCreated: number;
+  attachmentsUploaded: number;
+  skipped: SkippedImportFile[];
+}
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  ogg: 'video/ogg',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+export const WIKILINK_PATTERN = /(!?)\[\[([^\]|#^]+)(#[^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+export const MARKDOWN_LINK_PATTERN = /(!?)\[([^\]]*)\]\(\s*(<[^>]*>|[^)\s]+)(\s+"[^"]*")?\s*\)/g;
+
+/**
+ * Last segment of an import path
+ */
+export function getFileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Folder of an import path, empty at the top level
+ */
+export function getFolderPath(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Lower-case extension of a file name, without the dot
+ */
+export function getFileExtension(path: string): string {
+  const name = getFileName(path);
+  const index = name.lastIndexOf('.');
+  return index > 0 ? name.slice(index + 1).toLowerCase() : '';
+}
+
+/**
+ * Path without its file extension
+ */
+export function removeFileExtension(path: string): string {
+  const extension = getFileExtension(path);
+  return extension ? path.slice(0, -(extension.length + 1)) : path;
+}
+
+/**
+ * MIME type for an imported file, from its extension
+ */
+export function getImportMimeType(path: string): string {
+  return MIME_TYPES[getFileExtension(path)] || 'application/octet-stream';
+}
+
+/**
+ * Link target of a markdown link, without angle brackets or percent-encoding
+ */
+export function decodeLinkTarget(href: string): string {
+  const target = href.startsWith('<') ? href.slice(1, -1) : href;
+  try {
+    return decodeURIComponent(target);
+  } catch {
+    return target;
+  }
+}
+
+/**
+ * Whether a link points outside the import (a URL or an anchor)
+ */
+export function isExternalLink(href: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('#') || href.startsWith('//');
+}
+
+/**
+ * Read the files picked for an import. Zip archives are unpacked; other files
+ * keep the path relative to the picked folder.
+ */
+export async function readImportFiles(files: File[]): Promise<ImportFile[]> {
+  const result: ImportFile[] = [];
+
+  for (const file of files) {
+    const data = new Uint8Array(await file.arrayBuffer());
+
+    if (getFileExtension(file.name) === 'zip') {
+      result.push(...await readZip(data));
+    } else {
+      result.push({ path: file.webkitRelativePath || file.name, data });
+    }
+  }
+
+  return result.map(file => ({ ...file, path: file.path.replace(/\\/g, '/') }));
+}
+
+/**
+ * Replace wikilinks and links between imported files with internal page
+ * links, and embedded files with their uploaded URLs. Links that could not be
+ * resolved are left as they were written.
+ */
+export function rewriteImportLinks(
+  page: PlannedPage,
+  plan: Pick<ImportPlan, 'pageIdsByPath'>,
+  notebookId: string,
+  assetUrls: Map<string, string>
+): string {
+  const pageLink = (path: string) => {
+    const pageId = plan.pageIdsByPath[path];
+    return pageId ? `#/notebooks/${notebookId}/pages/${pageId}` : null;
+  };
+
+  return page.content
+    .replace(WIKILINK_PATTERN, (match, embed: string, target: string, heading: string | undefined, alias: string | undefined) => {
+      const path = page.references[target.trim()];
+      if (!path) return match;
+
+      const url = assetUrls.get(path);
+      if (url) {
+        const name = getFileName(path);
+        return embed && getImportMimeType(path).startsWith('image/') ? `![${name}](${url})` : `[${name}](${url})`;
+      }
+
+      const link = pageLink(path);
+      if (!link) return match;
+
+      const text = alias?.trim() || `${target.trim()}${heading ?? ''}`;
+      return `[${text}](${link})`;
+    })
+    .replace(MARKDOWN_LINK_PATTERN, (match, embed: string, text: string, href: string) => {
+      if (isExternalLink(href)) return match;
+
+      const path = page.references[decodeLinkTarget(href)];
+      if (!path) return match;
+
+      const url = assetUrls.get(path) ?? pageLink(path);
+      return url ? `${embed}[${text}](${url})` : match;
+    });
+}
+
+/**
+ * Create the planned notebook and pages, uploading embedded files as
+ * attachments of the pages that embed them. Pages are created the same way
+ * as from the editor, with an initial version each; a page's files are
+ * uploaded first so it is created with links to them.
+ * If a page cannot be created, everything imported so far is removed again
+ * and the error names the file that failed.
+ */
+export async function runImportPlan(
+  plan: ImportPlan,
+  userId: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult> {
+  const { data: notebook, error: notebookError } = await supabase
+    .from('notebooks')
+    .insert({
+      title: plan.notebookTitle,
+      user_id: userId,
+    })
+    .select()
+    .single();
+
+  if (notebookError || !notebook) {
+    throw notebookError || new Error('Failed to create notebook');
+  }
+
+  const skipped = [...plan.skipped];
+  const storedPaths: string[] = [];
+  let attachmentsUploaded = 0;
+
+  for (const [index, page] of plan.pages.entries()) {
+    try {
+      const assetUrls = new Map<string, string>();
+      const attachments: Array<Omit<AttachmentData, 'id' | 'created_at'>> = [];
+      const assetPaths = [...new Set(Object.values(page.references))].filter(path => plan.assets[path]);
+
+      for (const path of assetPaths) {
+        const file = new File([plan.assets[path] as BlobPart], getFileName(path), { type: getImportMimeType(path) });
+
+        try {
+          const { storagePath, url } = await fileUploadService.storeFile(file, page.id, userId);
+          storedPaths.push(storagePath);
+          assetUrls.set(path, url);
+          attachments.push({
+            filename: file.name,
+            file_type: file.type,
+            file_size: file.size,
+            storage_path: storagePath,
+            page_id: page.id,
+            user_id: userId,
+          });
+        } catch (error) {
+          skipped.push({ path, reason: error instanceof Error ? error.message : 'Upload failed' });
+        }
+      }
+
+      await createPageWithInitialVersion({
+        id: page.id,
+        title: page.title,
+        content: rewriteImportLinks(page, plan, notebook.id, assetUrls),
+        notebook_id: notebook.id,
+        parent_page_id: page.parentId ?? undefined,
+        sort_order: page.sortOrder,
+      }, userId);
+
+      // Attachment records need the page to exist
+      for (let i = 0; i < attachments.length; i += BATCH_SIZE) {
+        const { error } = await supabase
+          .from('attachments')
+          .insert(attachments.slice(i, i + BATCH_SIZE));
+
+        if (error) {
+          throw error;
+        }
+      }
+      attachmentsUploaded += attachments.length;
+    } catch (error) {
+      // Deleting the notebook removes its pages, versions and attachment records
+      await removeStoredFiles(storedPaths);
+      const { error: deleteError } = await supabase
+        .from('notebooks')
+        .delete()
+        .eq('id', notebook.id)
+        .eq('user_id', userId);
+
+      if (deleteError) {
+        console.error('Failed to remove partially imported notebook:', deleteError);
+      }
+
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Could not import "${page.path}": ${reason}. Nothing from "${plan.notebookTitle}" was imported.`);
+    }
+
+    onProgress?.(index + 1, plan.pages.length);
+  }
+
+  return {
+    notebookId: notebook.id,
+    notebookTitle: notebook.title,
+    pagesCreated: plan.pages.length,
+    attachmentsUploaded,
+    skipped,
+  };
+}
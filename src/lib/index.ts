@@ -2,5 +2,31 @@ export * from './supabase';
 export * from './database';
 export { queryClient, QueryProvider } from './queryClient';
 export * from './versionManager';
+export * from './versionDelta';
+export * from './pageOrder';
+export { localStore } from './localStore';
+export * from './draftStore';
+export * from './trash';
+export * from './attachmentFiles';
+export * from './zip';
+export * from './notebookExport';
+export * from './pageCreation';
+export * from './importPlan';
+export * from './vaultImport';
+export * from './enexImport';
+export * from './notionImport';
+export * from './htmlToMarkdown';
+export * from './md5';
+export * from './pageLinks';
+export * from './pageGraph';
+export * from './pageProperties';
+export * from './notebookViews';
+export * from './pageTemplates';
+export * from './pageDuplication';
+export * from './pageTree';
+export * from './tags';
+export * from './pageIndex';
+export * from './accountBackup';
+export * from './syncService';
 export { searchService } from './searchService';
 export type { SearchParams, SearchScope, EnhancedSearchResult, SearchResponse } from './searchService';
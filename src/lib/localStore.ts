@@ -0,0 +1,191 @@
+/**
+ * Local replica storage
+ * IndexedDB-backed copy of notebooks, pages and page versions used when the
+ * app is offline, plus the outbox of mutations waiting to be synced
+ */
+
+const DB_NAME = 'mini-note';
+const DB_VERSION = 2;
+
+/**
+ * Object stores in the local database. `page_summaries` holds the last page
+ * listing of each notebook, since `pages` only has pages that were opened.
+ */
+export type LocalStoreName = 'notebooks' | 'pages' | 'page_summaries' | 'page_versions' | 'outbox';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IDBRequest in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves when a transaction completes
+ */
+function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Opens (and upgrades) the local database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+
+        if (!db.objectStoreNames.contains('notebooks')) {
+          db.createObjectStore('notebooks', { keyPath: 'id' });
+        }
+
+        if (!db.objectStoreNames.contains('pages')) {
+          const pages = db.createObjectStore('pages', { keyPath: 'id' });
+          pages.createIndex('notebook_id', 'notebook_id');
+        }
+
+        if (!db.objectStoreNames.contains('page_summaries')) {
+          const summaries = db.createObjectStore('page_summaries', { keyPath: 'id' });
+          summaries.createIndex('notebook_id', 'notebook_id');
+        }
+
+        if (!db.objectStoreNames.contains('page_versions')) {
+          const versions = db.createObjectStore('page_versions', { keyPath: 'id' });
+          versions.createIndex('page_id', 'page_id');
+        }
+
+        if (!db.objectStoreNames.contains('outbox')) {
+          db.createObjectStore('outbox', { keyPath: 'id', autoIncrement: true });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Local replica store
+ * All methods are no-ops (or return empty results) when IndexedDB is unavailable
+ */
+export const localStore = {
+  /**
+   * Whether IndexedDB can be used in this environment
+   */
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  },
+
+  /**
+   * Get a single record by key
+   */
+  async get<T>(storeName: LocalStoreName, key: IDBValidKey): Promise<T | undefined> {
+    if (!this.isAvailable()) return undefined;
+
+    const db = await openDatabase();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    return promisifyRequest<T | undefined>(store.get(key));
+  },
+
+  /**
+   * Get all records in a store, optionally filtered by an index value
+   */
+  async getAll<T>(
+    storeName: LocalStoreName,
+    index?: { name: string; value: IDBValidKey }
+  ): Promise<T[]> {
+    if (!this.isAvailable()) return [];
+
+    const db = await openDatabase();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const request = index
+      ? store.index(index.name).getAll(index.value)
+      : store.getAll();
+    return promisifyRequest<T[]>(request);
+  },
+
+  /**
+   * Insert or replace records
+   * Returns the keys of the written records
+   */
+  async put<T>(storeName: LocalStoreName, records: T | T[]): Promise<IDBValidKey[]> {
+    if (!this.isAvailable()) return [];
+
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    const list = Array.isArray(records) ? records : [records];
+    const requests = list.map(record => promisifyRequest(store.put(record)));
+
+    const [keys] = await Promise.all([Promise.all(requests), promisifyTransaction(transaction)]);
+    return keys;
+  },
+
+  /**
+   * Delete records by key
+   */
+  async delete(storeName: LocalStoreName, keys: IDBValidKey | IDBValidKey[]): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    (Array.isArray(keys) ? keys : [keys]).forEach(key => store.delete(key));
+
+    await promisifyTransaction(transaction);
+  },
+
+  /**
+   * Replace every record matching an index value with a fresh set,
+   * keeping records for which `keep` returns true
+   */
+  async replaceByIndex<T extends { id: string }>(
+    storeName: LocalStoreName,
+    index: { name: string; value: IDBValidKey },
+    records: T[],
+    keep: (record: T) => boolean = () => false
+  ): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    const existing = await this.getAll<T>(storeName, index);
+    const freshIds = new Set(records.map(record => record.id));
+    const staleIds = existing
+      .filter(record => !freshIds.has(record.id) && !keep(record))
+      .map(record => record.id);
+
+    await this.delete(storeName, staleIds);
+    await this.put(storeName, records);
+  },
+
+  /**
+   * Remove all local data (e.g. on sign out)
+   */
+  async clear(): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    const db = await openDatabase();
+    const storeNames: LocalStoreName[] = ['notebooks', 'pages', 'page_summaries', 'page_versions', 'outbox'];
+    const transaction = db.transaction(storeNames, 'readwrite');
+    storeNames.forEach(name => transaction.objectStore(name).clear());
+
+    await promisifyTransaction(transaction);
+  },
+};
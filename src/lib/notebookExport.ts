@@ -0,0 +1,336 @@
+/**
+ * Notebook export
+ * Builds a zip archive with one Markdown or HTML file per page, folders
+ * mirroring the page hierarchy and, optionally, the page attachments
+ */
+
+import { marked } from 'marked';
+import { supabase } from './supabase';
+import { fetchPageAttachments, replaceAttachmentUrls, STORAGE_BUCKET } from './attachmentFiles';
+import { comparePageOrder } from './pageOrder';
+import { RESERVED_PROPERTY_NAMES, isEmptyPropertyValue } from './pageProperties';
+import { createZip, type ZipEntry } from './zip';
+import type { AttachmentData, ExportOptions, NotebookData, PageData, PageProperty } from '../types/database';
+
+/**
+ * Result of exporting a notebook
+ */
+export interface NotebookExport {
+  filename: string;
+  data: Uint8Array;
+  skippedAttachments: string[]; // Attachments that could not be downloaded
+}
+
+/**
+ * Default export options
+ */
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  includeAttachments: true,
+  format: 'markdown',
+  includeMetadata: true,
+};
+
+const ATTACHMENTS_DIR = 'attachments';
+
+/**
+ * Make a page or notebook title safe to use as a file name
+ */
+export function sanitizeFileName(name: string): string {
+  const sanitized = Array.from(name, char => (char.charCodeAt(0) < 32 ? ' ' : char))
+    .join('')
+    .replace(/[\\/:*?"<>|]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[. ]+$/, '')
+    .slice(0, 100);
+
+  return sanitized || 'Untitled';
+}
+
+function dirname(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+/**
+ * Path of `to` relative to the folder `fromDir`, both archive paths
+ */
+export function relativePath(fromDir: string, to: string): string {
+  const from = fromDir ? fromDir.split('/') : [];
+  const target = to.split('/');
+  let common = 0;
+
+  while (common < from.length && common < target.length - 1 && from[common] === target[common]) {
+    common++;
+  }
+
+  return [...from.slice(common).map(() => '..'), ...target.slice(common)].join('/');
+}
+
+/**
+ * Percent-encode a relative path for use as a link target
+ */
+function encodeLinkPath(path: string): string {
+  return path
+    .split('/')
+    .map(segment => (segment === '..' ? segment : encodeURIComponent(segment).replace(/[()]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)))
+    .join('/');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Archive path of every page. A page is written to `<title>.<extension>` and
+ * its children go in a `<title>/` folder next to it. Sibling names are made
+ * unique with a numeric suffix.
+ */
+export function buildPagePaths(
+  pages: PageData[],
+  extension: string,
+  rootDir: string
+): Map<string, string> {
+  const ids = new Set(pages.map(page => page.id));
+  const paths = new Map<string, string>();
+
+  const visit = (parentId: string | null, dir: string) => {
+    const used = new Set<string>();
+
+    pages
+      .filter(page => {
+        const parent = page.parent_page_id && ids.has(page.parent_page_id) ? page.parent_page_id : null;
+        return parent === parentId;
+      })
+      .sort(comparePageOrder)
+      .forEach(page => {
+        const base = sanitizeFileName(page.title);
+        let name = base;
+        for (let n = 2; used.has(name.toLowerCase()); n++) {
+          name = `${base} (${n})`;
+        }
+        used.add(name.toLowerCase());
+
+        paths.set(page.id, `${dir}/${name}.${extension}`);
+        visit(page.id, `${dir}/${name}`);
+      });
+  };
+
+  visit(null, rootDir);
+
+  return paths;
+}
+
+// Plain keys that YAML would not read as booleans or null are left unquoted
+const PLAIN_YAML_KEY = /^[A-Za-z_][\w-]*(?: [\w-]+)*$/;
+const YAML_KEYWORD = /^(?:true|false|yes|no|on|off|null|y|n)$/i;
+
+function yamlKey(name: string): string {
+  return PLAIN_YAML_KEY.test(name) && !YAML_KEYWORD.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * YAML for a property value. JSON strings are valid YAML, so text is
+ * written as JSON; multi-selects become block lists.
+ */
+function yamlPropertyValue(property: PageProperty): string {
+  const { type, value } = property;
+
+  if (type === 'multi_select' && Array.isArray(value)) {
+    return value.length > 0 ? value.map(option => `\n  - ${JSON.stringify(option)}`).join('') : ' []';
+  }
+  if (isEmptyPropertyValue(value)) {
+    return ' null';
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return ` ${value}`;
+  }
+  if (type === 'date' && typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return ` ${value}`;
+  }
+  return ` ${JSON.stringify(Array.isArray(value) ? value.join(', ') : value)}`;
+}
+
+/**
+ * YAML front matter with a page's ids and timestamps, when metadata is
+ * included, followed by its properties. Empty when there is neither.
+ */
+export function buildFrontMatter(page: PageData, includeMetadata: boolean = true): string {
+  const fields: Array<[string, string | number | null]> = includeMetadata
+    ? [
+        ['id', page.id],
+        ['title', page.title],
+        ['notebook_id', page.notebook_id],
+        ['parent_page_id', page.parent_page_id ?? null],
+        ['version', page.version],
+        ['created_at', page.created_at],
+        ['updated_at', page.updated_at],
+      ]
+    : [];
+
+  const lines = fields.map(([key, value]) => (
+    `${key}: ${value === null ? 'null' : typeof value === 'number' ? value : JSON.stringify(value)}`
+  ));
+
+  // Properties named like metadata fields would be read back as metadata
+  (page.properties || [])
+    .filter(property => !RESERVED_PROPERTY_NAMES.includes(property.name.toLowerCase()))
+    .forEach(property => lines.push(`${yamlKey(property.name)}:${yamlPropertyValue(property)}`));
+
+  return lines.length > 0 ? `---\n${lines.join('\n')}\n---\n\n` : '';
+}
+
+/**
+ * Point links to attachments and to other pages of the notebook at their
+ * files in the archive, relative to the page at `fromPath`
+ */
+export function rewriteExportLinks(
+  content: string,
+  fromPath: string,
+  targets: {
+    pages: Map<string, string>; // Page id -> archive path
+    attachments: Map<string, string>; // Storage path -> archive path
+  }
+): string {
+  const fromDir = dirname(fromPath);
+  const result = replaceAttachmentUrls(content, new Map(
+    [...targets.attachments].map(([storagePath, path]) => [storagePath, encodeLinkPath(relativePath(fromDir, path))])
+  ));
+
+  // In-app links: #/notebooks/<id>/pages/<id> or page links (#/pages/<id>),
+  // optionally with the app URL in front
+  return result.replace(
+    /(?:https?:\/\/[^\s"'()<>#]*)?#\/(?:notebooks\/[\w-]+\/)?pages\/([\w-]+)(?:\/edit)?/g,
+    (match, pageId: string) => {
+      const path = targets.pages.get(pageId);
+      return path ? encodeLinkPath(relativePath(fromDir, path)) : match;
+    }
+  );
+}
+
+function renderHtmlPage(page: PageData, body: string, includeMetadata: boolean): string {
+  const meta = includeMetadata
+    ? [
+        ['mininote:id', page.id],
+        ['mininote:notebook_id', page.notebook_id],
+        ['mininote:parent_page_id', page.parent_page_id ?? ''],
+        ['mininote:version', String(page.version)],
+        ['mininote:created_at', page.created_at],
+        ['mininote:updated_at', page.updated_at],
+      ].map(([name, content]) => `<meta name="${name}" content="${escapeHtml(content)}">\n`).join('')
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(page.title)}</title>
+${meta}</head>
+<body>
+<h1>${escapeHtml(page.title)}</h1>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Archive entries for a notebook export
+ */
+export function buildNotebookExport(
+  notebook: Pick<NotebookData, 'title'>,
+  pages: PageData[],
+  attachments: Array<{ attachment: AttachmentData; data: Uint8Array }>,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+): ZipEntry[] {
+  const rootDir = sanitizeFileName(notebook.title);
+  const extension = options.format === 'html' ? 'html' : 'md';
+  const pagePaths = buildPagePaths(pages, extension, rootDir);
+  const attachmentPaths = new Map<string, string>();
+  const entries: ZipEntry[] = [];
+
+  attachments.forEach(({ attachment, data }) => {
+    const path = `${rootDir}/${ATTACHMENTS_DIR}/${attachment.id.slice(0, 8)}-${sanitizeFileName(attachment.filename)}`;
+    attachmentPaths.set(attachment.storage_path, path);
+    entries.push({ path, data, modifiedAt: new Date(attachment.created_at) });
+  });
+
+  pages.forEach(page => {
+    const path = pagePaths.get(page.id)!;
+    const content = rewriteExportLinks(page.content, path, { pages: pagePaths, attachments: attachmentPaths });
+
+    const data = options.format === 'html'
+      ? renderHtmlPage(page, marked(content, { async: false }) as string, options.includeMetadata)
+      : `${buildFrontMatter(page, options.includeMetadata)}${content}`;
+
+    entries.push({ path, data, modifiedAt: new Date(page.updated_at) });
+  });
+
+  return entries.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Export a notebook as a zip archive
+ * Attachments that fail to download are skipped and reported
+ */
+export async function exportNotebook(
+  notebookId: string,
+  userId: string,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS
+): Promise<NotebookExport> {
+  const { data: notebook, error: notebookError } = await supabase
+    .from('notebooks')
+    .select('*')
+    .eq('id', notebookId)
+    .eq('user_id', userId)
+    .single();
+
+  if (notebookError || !notebook) {
+    throw notebookError || new Error('Notebook not found');
+  }
+
+  const { data: pages, error: pagesError } = await supabase
+    .from('pages')
+    .select('*')
+    .eq('notebook_id', notebookId)
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+
+  if (pagesError) {
+    throw pagesError;
+  }
+
+  const pageList = pages || [];
+  const downloaded: Array<{ attachment: AttachmentData; data: Uint8Array }> = [];
+  const skippedAttachments: string[] = [];
+
+  if (options.includeAttachments) {
+    const attachments = await fetchPageAttachments(pageList.map(page => page.id), userId);
+
+    for (const attachment of attachments) {
+      const { data: blob, error } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .download(attachment.storage_path);
+
+      if (error || !blob) {
+        console.error('Failed to download attachment for export:', error);
+        skippedAttachments.push(attachment.filename);
+        continue;
+      }
+
+      downloaded.push({ attachment, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+  }
+
+  const entries = buildNotebookExport(notebook, pageList, downloaded, options);
+
+  return {
+    filename: `${sanitizeFileName(notebook.title)}.zip`,
+    data: createZip(entries),
+    skippedAttachments,
+  };
+}
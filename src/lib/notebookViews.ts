@@ -0,0 +1,163 @@
+/**
+ * Notebook views
+ * Saved table and board views of a notebook's pages: the property columns
+ * of a table, the groups of a board and moving pages between groups
+ */
+
+import { getPageProperty, isEmptyPropertyValue } from './pageProperties';
+import type { NotebookView, NotebookViewFilters, NotebookViewType, PageData, PageProperty, PagePropertyType } from './supabase';
+
+/**
+ * A property used by pages of a notebook, shown as a table column
+ */
+export interface PropertyColumn {
+  name: string;
+  type: PagePropertyType;
+}
+
+/**
+ * A board column: the pages whose group property has `value`, or no value
+ * when `value` is null
+ */
+export interface BoardGroup<T> {
+  value: string | null;
+  pages: T[];
+}
+
+type PageWithProperties = Pick<PageData, 'properties'>;
+
+/**
+ * A new view with the default settings for its type
+ */
+export function createNotebookView(type: NotebookViewType, name: string, id: string = crypto.randomUUID()): NotebookView {
+  return {
+    id,
+    name,
+    type,
+    filters: { sortBy: 'title', sortOrder: 'asc' },
+    hiddenColumns: [],
+    groupBy: null,
+  };
+}
+
+/**
+ * View filters without the property filters still waiting for a value, so
+ * a filter being set up doesn't hide every page
+ */
+export function getActiveViewFilters(filters: NotebookViewFilters): NotebookViewFilters {
+  const properties = (filters.properties || []).filter(filter => (
+    filter.operator === 'is_empty' || filter.operator === 'is_not_empty' || !isEmptyPropertyValue(filter.value)
+  ));
+  return { ...filters, search: filters.search?.trim() || undefined, properties };
+}
+
+/**
+ * Add a view to a notebook's views, or replace the one with the same id
+ */
+export function saveNotebookView(views: NotebookView[] | undefined, view: NotebookView): NotebookView[] {
+  const current = views || [];
+  return current.some(existing => existing.id === view.id)
+    ? current.map(existing => (existing.id === view.id ? view : existing))
+    : [...current, view];
+}
+
+/**
+ * Every property used by the pages, in order of first use. Names match
+ * regardless of case; the first page using a name sets its type.
+ */
+export function collectPropertyColumns(pages: PageWithProperties[]): PropertyColumn[] {
+  const columns = new Map<string, PropertyColumn>();
+
+  for (const page of pages) {
+    for (const property of page.properties || []) {
+      const key = property.name.toLowerCase();
+      if (!columns.has(key)) {
+        columns.set(key, { name: property.name, type: property.type });
+      }
+    }
+  }
+
+  return [...columns.values()];
+}
+
+/**
+ * Names of the select properties a board can group by
+ */
+export function findGroupableProperties(pages: PageWithProperties[]): string[] {
+  return collectPropertyColumns(pages).filter(column => column.type === 'select').map(column => column.name);
+}
+
+/**
+ * Options of a select property across pages: the options recorded on the
+ * property first, then any other values in use
+ */
+export function collectPropertyOptions(pages: PageWithProperties[], name: string): string[] {
+  const options = new Map<string, string>();
+  const add = (option: string) => {
+    if (!options.has(option.toLowerCase())) options.set(option.toLowerCase(), option);
+  };
+
+  const properties = pages.map(page => getPageProperty(page.properties, name)).filter((property): property is PageProperty => !!property);
+  properties.forEach(property => (property.options || []).forEach(add));
+  properties.forEach(property => {
+    if (typeof property.value === 'string' && property.value.trim()) add(property.value.trim());
+  });
+
+  return [...options.values()];
+}
+
+/**
+ * The value a page is grouped under, matched to the option's spelling
+ */
+function groupValueOf(page: PageWithProperties, name: string, options: string[]): string | null {
+  const property = getPageProperty(page.properties, name);
+  if (!property || isEmptyPropertyValue(property.value) || typeof property.value !== 'string') {
+    return null;
+  }
+  const value = property.value.trim().toLowerCase();
+  return options.find(option => option.toLowerCase() === value) ?? null;
+}
+
+/**
+ * Board columns for grouping pages by a select property: pages without a
+ * value first, then one column per option, keeping the page order.
+ * Pass the options of every page to keep columns that filters emptied.
+ */
+export function getBoardGroups<T extends PageWithProperties>(
+  pages: T[],
+  groupBy: string,
+  options: string[] = collectPropertyOptions(pages, groupBy)
+): BoardGroup<T>[] {
+  const groups = new Map<string | null, T[]>([[null, []], ...options.map(option => [option, []] as [string, T[]])]);
+
+  for (const page of pages) {
+    groups.get(groupValueOf(page, groupBy, options))!.push(page);
+  }
+
+  return [...groups].map(([value, groupPages]) => ({ value, pages: groupPages }));
+}
+
+/**
+ * A page's properties with the group property set to `value`, adding the
+ * property when the page doesn't have it yet
+ */
+export function setGroupValue(
+  properties: PageProperty[] | undefined,
+  groupBy: string,
+  value: string | null,
+  options: string[]
+): PageProperty[] {
+  const current = properties || [];
+  const existing = getPageProperty(current, groupBy);
+
+  if (!existing) {
+    return value === null ? current : [...current, { name: groupBy, type: 'select', value, options }];
+  }
+
+  const knownOptions = existing.options?.length ? existing.options : options;
+  const hasValue = value === null || knownOptions.some(option => option.toLowerCase() === value.toLowerCase());
+
+  return current.map(property => property === existing
+    ? { ...property, type: 'select', value, options: hasValue ? knownOptions : [...knownOptions, value!] }
+    : property);
+}
@@ -0,0 +1,174 @@
+/**
+ * Notion import
+ * Turns Notion's "Markdown & CSV" export into an import plan. The export is a
+ * folder tree like a markdown vault, except that every file and folder name
+ * ends with a page id and databases are CSV files. Databases become pages
+ * holding a table of their rows, with the row pages nested below.
+ */
+
+import { planVaultImport } from './vaultImport';
+import {
+  getFileExtension,
+  getFileName,
+  getFolderPath,
+  removeFileExtension,
+  type ImportFile,
+  type ImportPlan,
+} from './importPlan';
+
+const NOTION_ID_PATTERN = /\s+[0-9a-f]{32}$/i;
+
+/**
+ * Drop the page id Notion appends to names
+ */
+export function stripNotionId(name: string): string {
+  return name.replace(NOTION_ID_PATTERN, '');
+}
+
+/**
+ * Parse CSV text into rows of fields
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function encodeLinkPath(path: string): string {
+  return path
+    .split('/')
+    .map(segment => encodeURIComponent(segment).replace(/[()]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+}
+
+function tableCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>') || ' ';
+}
+
+/**
+ * Markdown table for a database CSV. Cells in the first column link to the
+ * row pages Notion exports in the folder named after the database.
+ */
+function databaseToMarkdown(csvPath: string, csv: string, notePaths: Set<string>): string {
+  const [header, ...rows] = parseCsv(csv).filter(row => row.some(cell => cell.trim()));
+  if (!header) return '';
+
+  const folder = removeFileExtension(csvPath).replace(/_all$/, '');
+  const rowPages = new Map<string, string>();
+  notePaths.forEach(path => {
+    if (getFolderPath(path) === folder) {
+      rowPages.set(stripNotionId(removeFileExtension(getFileName(path))), path);
+    }
+  });
+
+  const lines = [
+    `| ${header.map(tableCell).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => {
+      const cells = header.map((_column, index) => tableCell(row[index] ?? ''));
+      const rowPage = rowPages.get(row[0] ?? '');
+      if (rowPage) {
+        cells[0] = `[${cells[0]}](${encodeLinkPath(getFileName(folder) + '/' + getFileName(rowPage))})`;
+      }
+      return `| ${cells.join(' | ')} |`;
+    }),
+  ];
+
+  return lines.join('\n');
+}
+
+/**
+ * Work out the notebook a Notion export creates, without writing anything
+ */
+export function planNotionImport(
+  files: ImportFile[],
+  fallbackTitle = 'Notion Import',
+  createId?: () => string
+): ImportPlan {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const notePaths = new Set(files.filter(file => getFileExtension(file.path) === 'md').map(file => file.path));
+  const paths = new Set(files.map(file => file.path));
+
+  // Databases become notes next to their folder of row pages. Newer exports
+  // write both the current view and all rows (`_all`); the full one wins.
+  const converted = files.flatMap<ImportFile>(file => {
+    if (getFileExtension(file.path) === 'md') {
+      // Links to a database point at its CSV; they now go to the database page
+      const content = decoder.decode(file.data).replace(/\]\(([^)\s]+?)(?:_all)?\.csv\)/g, ']($1.md)');
+      return [{ path: file.path, data: encoder.encode(content) }];
+    }
+
+    if (getFileExtension(file.path) !== 'csv') {
+      return [file];
+    }
+
+    const stem = removeFileExtension(file.path);
+    if (!stem.endsWith('_all') && paths.has(`${stem}_all.csv`)) {
+      return [];
+    }
+
+    const notePath = `${stem.replace(/_all$/, '')}.md`;
+    if (notePaths.has(notePath)) {
+      return [file];
+    }
+
+    const markdown = databaseToMarkdown(file.path, decoder.decode(file.data), notePaths);
+    return [{ path: notePath, data: encoder.encode(markdown) }];
+  });
+
+  const plan = planVaultImport(converted, fallbackTitle, createId);
+
+  plan.pages.forEach(page => {
+    page.title = stripNotionId(page.title) || 'Untitled';
+
+    // Notion repeats the title as the first heading
+    const heading = page.content.match(/^#\s+(.+)\r?\n+/);
+    if (heading && heading[1].trim() === page.title) {
+      page.content = page.content.slice(heading[0].length);
+    }
+  });
+
+  const notebookTitle = stripNotionId(plan.notebookTitle);
+  plan.notebookTitle = /^Export-[0-9a-f-]+$/i.test(notebookTitle) ? fallbackTitle : notebookTitle;
+
+  return plan;
+}
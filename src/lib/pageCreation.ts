@@ -0,0 +1,249 @@
+/**
+ * Page creation
+ * Inserts a page together with its initial version, the way every new page
+ * starts its history, and plans and creates copies of page subtrees
+ */
+
+import { supabase } from './supabase';
+import { BATCH_SIZE } from './batching';
+import { comparePageOrder, generateKeyBetween, generateKeysBetween } from './pageOrder';
+import { indexNewPages } from './pageIndex';
+import type { PageData, PageProperty } from './supabase';
+
+/**
+ * Values for a new page
+ */
+export interface NewPageValues {
+  id?: string; // Generated by the database when omitted
+  title: string;
+  content?: string;
+  notebook_id: string;
+  parent_page_id?: string;
+  sort_order?: string | null;
+  properties?: PageProperty[];
+}
+
+/**
+ * Sort key placing a page among the pages under a parent: before or after
+ * `anchorId`, or after the last one when there is no anchor or it is not
+ * among them. Siblings created before manual ordering first get keys in
+ * their current display order. `excludeId` leaves out a page being moved.
+ */
+export async function generateSiblingSortKey(
+  location: { notebook_id: string; parent_page_id: string | null },
+  userId: string,
+  placement: { anchorId?: string; position?: 'before' | 'after'; excludeId?: string } = {}
+): Promise<string> {
+  let siblingsQuery = supabase
+    .from('pages')
+    .select('id, sort_order, created_at')
+    .eq('notebook_id', location.notebook_id)
+    .eq('user_id', userId)
+    .is('deleted_at', null);
+
+  siblingsQuery = location.parent_page_id
+    ? siblingsQuery.eq('parent_page_id', location.parent_page_id)
+    : siblingsQuery.is('parent_page_id', null);
+
+  const { data: siblingRows, error } = await siblingsQuery;
+
+  if (error) {
+    throw error;
+  }
+
+  const siblings = (siblingRows || [])
+    .filter(sibling => sibling.id !== placement.excludeId)
+    .sort(comparePageOrder);
+
+  if (siblings.some(sibling => !sibling.sort_order)) {
+    const keys = generateKeysBetween(null, null, siblings.length);
+
+    const results = await Promise.all(
+      siblings.map((sibling, index) => {
+        sibling.sort_order = keys[index];
+        return supabase
+          .from('pages')
+          .update({ sort_order: keys[index] })
+          .eq('id', sibling.id)
+          .eq('user_id', userId);
+      })
+    );
+
+    const failed = results.find(result => result.error);
+    if (failed) {
+      throw failed.error;
+    }
+  }
+
+  let index = siblings.length;
+  if (placement.anchorId) {
+    const anchorIndex = siblings.findIndex(sibling => sibling.id === placement.anchorId);
+    if (anchorIndex !== -1) {
+      index = placement.position === 'before' ? anchorIndex : anchorIndex + 1;
+    }
+  }
+
+  return generateKeyBetween(
+    siblings[index - 1]?.sort_order ?? null,
+    siblings[index]?.sort_order ?? null
+  );
+}
+
+/**
+ * New pages copying a page and its descendants, with the id of each copy
+ */
+export interface PageSubtreePlan {
+  pages: NewPageValues[]; // Parents before children
+  ids: Map<string, string>; // Source page id -> new page id
+}
+
+/**
+ * The pages to create for a copy of `root`: the page itself under the target
+ * with the target's title, then, with `includeChildren`, its descendants in
+ * `pages` with parents before children and siblings in order. Every page gets
+ * a new id; pages in the trash are left out. `copy` gives the title, content
+ * and properties of each copy.
+ */
+export function planPageSubtree(
+  root: PageData,
+  pages: PageData[],
+  target: Pick<NewPageValues, 'title' | 'notebook_id' | 'parent_page_id' | 'sort_order'>,
+  includeChildren: boolean,
+  copy: (page: PageData) => Pick<NewPageValues, 'title' | 'content' | 'properties'>,
+  createId: () => string = () => crypto.randomUUID()
+): PageSubtreePlan {
+  const ids = new Map<string, string>([[root.id, createId()]]);
+  const planned: NewPageValues[] = [{
+    ...copy(root),
+    id: ids.get(root.id),
+    title: target.title,
+    notebook_id: target.notebook_id,
+    parent_page_id: target.parent_page_id,
+    sort_order: target.sort_order,
+  }];
+
+  if (!includeChildren) {
+    return { pages: planned, ids };
+  }
+
+  const queue = [root.id];
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    const children = pages
+      .filter(page => page.parent_page_id === parentId && !page.deleted_at && !ids.has(page.id))
+      .sort(comparePageOrder);
+
+    for (const child of children) {
+      ids.set(child.id, createId());
+      planned.push({
+        ...copy(child),
+        id: ids.get(child.id),
+        notebook_id: target.notebook_id,
+        parent_page_id: ids.get(parentId),
+        sort_order: child.sort_order ?? null,
+      });
+      queue.push(child.id);
+    }
+  }
+
+  return { pages: planned, ids };
+}
+
+/**
+ * Insert a page and save its content as version 1 in page_versions.
+ * A failure to save the initial version or index the page's links and tags is
+ * logged and does not fail the creation.
+ */
+export async function createPageWithInitialVersion(
+  values: NewPageValues,
+  userId: string
+): Promise<PageData | null> {
+  const { data: page, error } = await supabase
+    .from('pages')
+    .insert({
+      ...(values.id ? { id: values.id } : {}),
+      title: values.title,
+      content: values.content || '',
+      version: 1,
+      notebook_id: values.notebook_id,
+      parent_page_id: values.parent_page_id,
+      ...(values.sort_order !== undefined ? { sort_order: values.sort_order } : {}),
+      ...(values.properties?.length ? { properties: values.properties } : {}),
+      user_id: userId,
+    } as any)
+    .select()
+    .single() as { data: PageData | null; error: any };
+
+  if (error) {
+    throw error;
+  }
+
+  // Save the initial version to page_versions
+  if (page) {
+    const { error: versionError } = await supabase
+      .from('page_versions')
+      .insert({
+        page_id: page.id,
+        title: page.title,
+        content: page.content,
+        version: page.version,
+        user_id: userId,
+      } as any);
+
+    if (versionError) {
+      console.error('Failed to save initial version:', versionError);
+      // Don't throw - page was created successfully
+    }
+
+    if (page.content) {
+      try {
+        await indexNewPages([page], userId);
+      } catch (indexError) {
+        console.error('Failed to index page links and tags:', indexError);
+      }
+    }
+  }
+
+  return page;
+}
+
+/**
+ * Delete pages outright, to undo a copy that failed. Their versions,
+ * attachment records and index rows go with them. Failures are only logged,
+ * so the error that caused the undo is the one reported.
+ */
+export async function deletePages(pageIds: string[], userId: string): Promise<void> {
+  for (let i = 0; i < pageIds.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from('pages')
+      .delete()
+      .in('id', pageIds.slice(i, i + BATCH_SIZE))
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Failed to remove partially created pages:', error);
+    }
+  }
+}
+
+/**
+ * Create planned pages in order, each with its initial version. If one
+ * fails, the pages created so far are deleted again. Returns the first page.
+ */
+export async function createPages(planned: NewPageValues[], userId: string): Promise<PageData | null> {
+  const created: PageData[] = [];
+
+  for (const values of planned) {
+    try {
+      const page = await createPageWithInitialVersion(values, userId);
+      if (page) {
+        created.push(page);
+      }
+    } catch (error) {
+      await deletePages(created.map(page => page.id), userId);
+      throw error;
+    }
+  }
+
+  return created[0] ?? null;
+}
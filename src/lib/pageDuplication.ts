@@ -0,0 +1,166 @@
+/**
+ * Page duplication
+ * Copies a page, or a page and its subtree, into the same or another
+ * notebook. Attachments are copied to new storage paths and links between
+ * the copied pages point at the copies.
+ */
+
+import { supabase } from './supabase';
+import { fetchPageAttachments, removeStoredFiles, replaceAttachmentUrls, STORAGE_BUCKET } from './attachmentFiles';
+import { remapStoragePath } from './accountBackup';
+import { createPages, deletePages, generateSiblingSortKey, planPageSubtree, type PageSubtreePlan } from './pageCreation';
+import type { PageData } from './supabase';
+
+/**
+ * Where a copy goes and what it is called
+ */
+export interface DuplicateTarget {
+  notebook_id: string;
+  parent_page_id?: string;
+  title?: string; // Defaults to the page's title marked as a copy
+  sort_order?: string; // Defaults to right after the page when copied among its siblings
+}
+
+/**
+ * Title for a copy of a page
+ */
+export function getDuplicateTitle(title: string): string {
+  return `${title || 'Untitled'} (copy)`;
+}
+
+/**
+ * The pages to create for a copy: the page itself under the target, then,
+ * with `includeChildren`, its descendants with parents before children and
+ * siblings in order. Pages in the trash are left out.
+ */
+export function planPageDuplicate(
+  source: PageData,
+  pages: PageData[],
+  target: DuplicateTarget,
+  includeChildren: boolean,
+  createId: () => string = () => crypto.randomUUID()
+): PageSubtreePlan {
+  return planPageSubtree(source, pages, {
+    title: target.title ?? getDuplicateTitle(source.title),
+    notebook_id: target.notebook_id,
+    parent_page_id: target.parent_page_id,
+    sort_order: target.sort_order,
+  }, includeChildren, page => ({
+    title: page.title,
+    content: page.content,
+    properties: page.properties,
+  }), createId);
+}
+
+/**
+ * Point links to copied pages at their copies, and attachment URLs at the
+ * copied files. Links to pages outside the copy are left alone.
+ */
+export function rewriteDuplicateLinks(
+  content: string,
+  ids: Map<string, string>, // Source page id -> copy id
+  attachmentUrls: Map<string, string> // Source storage path -> URL of the copied file
+): string {
+  const result = replaceAttachmentUrls(content, attachmentUrls);
+
+  // Older notebook-scoped links become plain page links, which work in any notebook
+  return result.replace(/#\/(?:notebooks\/[\w-]+\/)?pages\/([\w-]+)/g, (match, pageId: string) => {
+    const copyId = ids.get(pageId);
+    return copyId ? `#/pages/${copyId}` : match;
+  });
+}
+
+/**
+ * Copy a page, and with `includeChildren` its subtree, under the target.
+ * The copy goes right after the page when they share a parent, and last
+ * otherwise. If anything fails, the files copied and pages created so far
+ * are removed again. Returns the copy of the page.
+ */
+export async function duplicatePage(
+  pageId: string,
+  target: DuplicateTarget,
+  includeChildren: boolean,
+  userId: string
+): Promise<PageData | null> {
+  const { data: source, error } = await supabase
+    .from('pages')
+    .select('*')
+    .eq('id', pageId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!source) {
+    throw new Error('Page not found');
+  }
+
+  let pages: PageData[] = [];
+  if (includeChildren) {
+    const { data, error: pagesError } = await supabase
+      .rpc('get_page_subtree', { root_page_id: pageId });
+
+    if (pagesError) {
+      throw pagesError;
+    }
+
+    pages = data || [];
+  }
+
+  const sortOrder = target.sort_order ?? await generateSiblingSortKey({
+    notebook_id: target.notebook_id,
+    parent_page_id: target.parent_page_id ?? null,
+  }, userId, { anchorId: source.id, position: 'after' });
+
+  const plan = planPageDuplicate(source, pages, { ...target, sort_order: sortOrder }, includeChildren);
+  const attachments = await fetchPageAttachments([...plan.ids.keys()], userId);
+
+  const storage = supabase.storage.from(STORAGE_BUCKET);
+  const copiedPaths: string[] = [];
+  const attachmentUrls = new Map<string, string>();
+
+  try {
+    for (const attachment of attachments) {
+      const storagePath = remapStoragePath(attachment.storage_path, userId, plan.ids.get(attachment.page_id)!);
+      const { error: copyError } = await storage.copy(attachment.storage_path, storagePath);
+
+      if (copyError) {
+        throw new Error(`Failed to copy attachment "${attachment.filename}": ${copyError.message}`);
+      }
+
+      copiedPaths.push(storagePath);
+      attachmentUrls.set(attachment.storage_path, storage.getPublicUrl(storagePath).data.publicUrl);
+    }
+
+    const copy = await createPages(plan.pages.map(values => ({
+      ...values,
+      content: rewriteDuplicateLinks(values.content || '', plan.ids, attachmentUrls),
+    })), userId);
+
+    if (attachments.length > 0) {
+      const { error: attachmentError } = await supabase
+        .from('attachments')
+        .insert(attachments.map((attachment, index) => ({
+          filename: attachment.filename,
+          file_type: attachment.file_type,
+          file_size: attachment.file_size,
+          storage_path: copiedPaths[index],
+          page_id: plan.ids.get(attachment.page_id)!,
+          user_id: userId,
+        })));
+
+      if (attachmentError) {
+        throw attachmentError;
+      }
+    }
+
+    return copy;
+  } catch (error) {
+    // Pages that were never created are simply not found
+    await deletePages([...plan.ids.values()], userId);
+    await removeStoredFiles(copiedPaths);
+    throw error;
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Page graph
+ * Builds the graph of pages with their parent/child hierarchy and the links
+ * between them, and lays it out for drawing
+ */
+
+import { extractLinkTargets } from './pageLinks';
+import type { PageData } from './supabase';
+
+/**
+ * Kind of connection between two pages
+ */
+export type PageGraphEdgeType = 'child' | 'link';
+
+/**
+ * A page in the graph
+ */
+export interface PageGraphNode {
+  id: string;
+  title: string;
+  notebook_id: string;
+  degree: number; // Number of edges touching the page
+  isOrphan: boolean; // No links to or from other pages in the graph
+}
+
+/**
+ * Parent to child page, or linking page to linked page
+ */
+export interface PageGraphEdge {
+  source: string;
+  target: string;
+  type: PageGraphEdgeType;
+}
+
+export interface PageGraph {
+  nodes: PageGraphNode[];
+  edges: PageGraphEdge[];
+}
+
+export interface GraphPosition {
+  x: number;
+  y: number;
+}
+
+export type GraphPageInput = Pick<PageData, 'id' | 'title' | 'content' | 'notebook_id' | 'parent_page_id'>;
+
+const NODE_SPACING = 60;
+const MAX_LAYOUT_WORK = 20_000_000; // Pair comparisons across all iterations
+const MAX_ITERATIONS = 300;
+const MIN_ITERATIONS = 30;
+
+/**
+ * Build the graph of the given pages.
+ * Links to pages outside the set are left out, so filtering the pages
+ * filters the graph.
+ */
+export function buildPageGraph(pages: GraphPageInput[]): PageGraph {
+  const pageIds = new Set(pages.map(page => page.id));
+  const edges: PageGraphEdge[] = [];
+  const degree = new Map<string, number>();
+  const linked = new Set<string>();
+
+  const addEdge = (source: string, target: string, type: PageGraphEdgeType) => {
+    edges.push({ source, target, type });
+    degree.set(source, (degree.get(source) || 0) + 1);
+    degree.set(target, (degree.get(target) || 0) + 1);
+  };
+
+  for (const page of pages) {
+    if (page.parent_page_id && pageIds.has(page.parent_page_id)) {
+      addEdge(page.parent_page_id, page.id, 'child');
+    }
+
+    for (const target of extractLinkTargets(page.content || '', page.id)) {
+      if (pageIds.has(target)) {
+        addEdge(page.id, target, 'link');
+        linked.add(page.id);
+        linked.add(target);
+      }
+    }
+  }
+
+  return {
+    nodes: pages.map(page => ({
+      id: page.id,
+      title: page.title,
+      notebook_id: page.notebook_id,
+      degree: degree.get(page.id) || 0,
+      isOrphan: !linked.has(page.id),
+    })),
+    edges,
+  };
+}
+
+/**
+ * Positions for the nodes of a graph from a force-directed layout:
+ * connected pages pull together and all pages push each other apart.
+ * The layout is deterministic and centered on (0, 0).
+ */
+export function layoutPageGraph(graph: PageGraph): Map<string, GraphPosition> {
+  const count = graph.nodes.length;
+  const index = new Map(graph.nodes.map((node, i) => [node.id, i]));
+  const x = new Float64Array(count);
+  const y = new Float64Array(count);
+
+  // Start on a sunflower spiral so no two pages share a position
+  const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+  for (let i = 0; i < count; i++) {
+    const radius = NODE_SPACING * Math.sqrt(i + 0.5);
+    x[i] = radius * Math.cos(i * goldenAngle);
+    y[i] = radius * Math.sin(i * goldenAngle);
+  }
+
+  const edges = graph.edges.map(edge => [index.get(edge.source)!, index.get(edge.target)!]);
+  // Large graphs get fewer iterations to keep the layout quick
+  const iterations = Math.max(MIN_ITERATIONS, Math.min(MAX_ITERATIONS, Math.floor(MAX_LAYOUT_WORK / Math.max(1, count * count))));
+  const k = NODE_SPACING;
+  const dx = new Float64Array(count);
+  const dy = new Float64Array(count);
+  let temperature = NODE_SPACING * Math.sqrt(count);
+
+  for (let iteration = 0; iteration < iterations && count > 1; iteration++) {
+    dx.fill(0);
+    dy.fill(0);
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const ddx = x[i] - x[j];
+        const ddy = y[i] - y[j];
+        const distanceSquared = Math.max(ddx * ddx + ddy * ddy, 0.01);
+        const force = (k * k) / distanceSquared;
+        dx[i] += ddx * force;
+        dy[i] += ddy * force;
+        dx[j] -= ddx * force;
+        dy[j] -= ddy * force;
+      }
+    }
+
+    for (const [a, b] of edges) {
+      const ddx = x[a] - x[b];
+      const ddy = y[a] - y[b];
+      const distance = Math.max(Math.sqrt(ddx * ddx + ddy * ddy), 0.1);
+      const force = distance / k;
+      dx[a] -= ddx * force;
+      dy[a] -= ddy * force;
+      dx[b] += ddx * force;
+      dy[b] += ddy * force;
+    }
+
+    for (let i = 0; i < count; i++) {
+      // Gravity keeps unconnected pages from drifting away
+      dx[i] -= x[i] * 0.01;
+      dy[i] -= y[i] * 0.01;
+
+      const length = Math.sqrt(dx[i] * dx[i] + dy[i] * dy[i]);
+      if (length > 0) {
+        const step = Math.min(length, temperature);
+        x[i] += (dx[i] / length) * step;
+        y[i] += (dy[i] / length) * step;
+      }
+    }
+
+    temperature *= 0.95;
+  }
+
+  // Center the result
+  let centerX = 0;
+  let centerY = 0;
+  for (let i = 0; i < count; i++) {
+    centerX += x[i] / count;
+    centerY += y[i] / count;
+  }
+
+  return new Map(graph.nodes.map((node, i) => [node.id, { x: x[i] - centerX, y: y[i] - centerY }]));
+}
+
+/**
+ * Bounding box of laid out nodes
+ */
+export function getGraphBounds(positions: Iterable<GraphPosition>): { minX: number; minY: number; maxX: number; maxY: number } {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const { x, y } of positions) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+
+  return minX === Infinity ? { minX: 0, minY: 0, maxX: 0, maxY: 0 } : { minX, minY, maxX, maxY };
+}
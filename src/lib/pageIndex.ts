@@ -0,0 +1,26 @@
+/**
+ * Page indexes
+ * Data derived from page content - the link index and content tags - kept in
+ * step wherever page content is written
+ */
+
+import { indexPageLinks, updatePageLinks } from './pageLinks';
+import { indexContentTags, updateContentTags } from './tags';
+import type { PageData } from './supabase';
+
+/**
+ * Index pages that have nothing indexed yet, such as new pages
+ */
+export async function indexNewPages(
+  pages: Array<Pick<PageData, 'id' | 'content'>>,
+  userId: string
+): Promise<void> {
+  await Promise.all([indexPageLinks(pages, userId), indexContentTags(pages, userId)]);
+}
+
+/**
+ * Re-index a page after its content changed
+ */
+export async function updatePageIndexes(pageId: string, content: string, userId: string): Promise<void> {
+  await Promise.all([updatePageLinks(pageId, content, userId), updateContentTags(pageId, content, userId)]);
+}
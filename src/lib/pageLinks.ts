@@ -0,0 +1,282 @@
+/**
+ * Page links
+ * Links between pages refer to the target by id only (`#/pages/<id>`), so
+ * they keep working when the target is renamed or moved to another
+ * notebook. The title written next to the link is only a fallback; views
+ * show the page's current title.
+ *
+ * Every saved page's links - page links and older `#/notebooks/<id>/pages/<id>`
+ * URLs alike - are kept in the `page_links` table, which backlinks are read
+ * from.
+ */
+
+import { supabase } from './supabase';
+import { BATCH_SIZE } from './batching';
+import type { PageData, PageLinkData } from './supabase';
+
+const DEFAULT_SEARCH_LIMIT = 10;
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Title and location of a linked page
+ */
+export interface PageTitle {
+  id: string;
+  title: string;
+  notebook_id: string;
+  notebook_title?: string;
+  deleted_at?: string | null;
+}
+
+/**
+ * A page linking to another page, with the text around the link
+ */
+export interface Backlink extends PageTitle {
+  snippet: string;
+}
+
+const PAGE_LINK_HREF_PATTERN = /^#\/pages\/([\w-]+)$/;
+const PAGE_LINK_MARKDOWN_PATTERN = /\]\(#\/pages\/([\w-]+)\)/g;
+const LINK_TARGET_PATTERN = /#\/(?:notebooks\/[\w-]+\/)?pages\/([\w-]+)/g;
+const MARKDOWN_LINK_PATTERN = /!?\[([^\]]*)\]\(([^)\s]*)[^)]*\)/g;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * In-app URL of a page link
+ */
+export function pageLinkHref(pageId: string): string {
+  return `#/pages/${pageId}`;
+}
+
+/**
+ * Page id of a page link URL, or null for any other URL
+ */
+export function parsePageLinkHref(href: string | null | undefined): string | null {
+  return href?.match(PAGE_LINK_HREF_PATTERN)?.[1] ?? null;
+}
+
+/**
+ * Markdown for a page link
+ */
+export function serializePageLink(pageId: string, title: string): string {
+  return `[${title.replace(/[\\[\]]/g, '\\$&')}](${pageLinkHref(pageId)})`;
+}
+
+/**
+ * Ids of the pages linked from markdown content, in order of first use
+ */
+export function extractPageLinkIds(content: string): string[] {
+  return [...new Set(Array.from(content.matchAll(PAGE_LINK_MARKDOWN_PATTERN), match => match[1]))];
+}
+
+/**
+ * Current titles of linked pages, including pages in the trash
+ * Pages that no longer exist are missing from the result
+ */
+export async function fetchPageTitles(pageIds: string[], userId: string): Promise<PageTitle[]> {
+  const titles: PageTitle[] = [];
+
+  for (let i = 0; i < pageIds.length; i += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('pages')
+      .select('id, title, notebook_id, deleted_at')
+      .in('id', pageIds.slice(i, i + BATCH_SIZE))
+      .eq('user_id', userId) as {
+        data: Pick<PageData, 'id' | 'title' | 'notebook_id' | 'deleted_at'>[] | null;
+        error: any;
+      };
+
+    if (error) {
+      throw error;
+    }
+
+    titles.push(...(data || []));
+  }
+
+  return titles;
+}
+
+/**
+ * Pages across all notebooks whose title contains `query`, most recently
+ * updated first. An empty query lists the most recently updated pages.
+ */
+export async function searchPageTitles(
+  query: string,
+  userId: string,
+  limit = DEFAULT_SEARCH_LIMIT
+): Promise<PageTitle[]> {
+  let request = supabase
+    .from('pages')
+    .select('id, title, notebook_id, notebooks!inner(title)')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .is('notebooks.deleted_at', null);
+
+  const term = query.trim();
+  if (term) {
+    // Wildcards typed by the user are matched literally
+    request = request.ilike('title', `%${term.replace(/[\\%_]/g, '\\$&')}%`);
+  }
+
+  const { data, error } = await request
+    .order('updated_at', { ascending: false })
+    .limit(limit) as {
+      data: Array<Pick<PageData, 'id' | 'title' | 'notebook_id'> & { notebooks: { title: string } | null }> | null;
+      error: any;
+    };
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).map(({ notebooks, ...page }) => ({
+    ...page,
+    notebook_title: notebooks?.title,
+  }));
+}
+
+/**
+ * Ids of every page linked from markdown content: page links and in-app
+ * page URLs. Links from a page to itself are left out.
+ */
+export function extractLinkTargets(content: string, sourcePageId?: string): string[] {
+  const targets = Array.from(content.matchAll(LINK_TARGET_PATTERN), match => match[1])
+    .filter(id => UUID_PATTERN.test(id) && id !== sourcePageId);
+  return [...new Set(targets)];
+}
+
+/**
+ * Replace the indexed links of a page with the links in its content
+ */
+export async function updatePageLinks(pageId: string, content: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('page_links')
+    .delete()
+    .eq('source_page_id', pageId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  await indexPageLinks([{ id: pageId, content }], userId);
+}
+
+/**
+ * Index the links of pages that have none indexed yet, such as new pages
+ */
+export async function indexPageLinks(
+  pages: Array<Pick<PageData, 'id' | 'content'>>,
+  userId: string
+): Promise<void> {
+  const rows: Array<Omit<PageLinkData, 'created_at'>> = pages.flatMap(page => (
+    extractLinkTargets(page.content, page.id).map(target => ({
+      source_page_id: page.id,
+      target_page_id: target,
+      user_id: userId,
+    }))
+  ));
+
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from('page_links')
+      .insert(rows.slice(i, i + BATCH_SIZE) as any);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Up to SNIPPET_LENGTH characters of a line of markdown as plain text,
+ * around the span from `start` to `end`
+ */
+export function getSnippet(line: string, start: number, end: number): string {
+  // Links read as their text; the span is kept track of with markers
+  const marked = `${line.slice(0, start)}\u0000${line.slice(start, end)}\u0000${line.slice(end)}`;
+  const text = marked
+    .replace(MARKDOWN_LINK_PATTERN, (_match, label: string) => label)
+    .replace(/^\s*(?:#{1,6}\s+|[-*+]\s+(?:\[[ xX]\]\s+)?|\d+\.\s+|>\s*)/, '')
+    .replace(/[*_`~]+/g, '');
+
+  const matchStart = text.indexOf('\u0000');
+  const matchEnd = text.indexOf('\u0000', matchStart + 1) - 1;
+  const plain = text.replaceAll('\u0000', '').trim();
+  const leading = text.length - text.trimStart().length;
+
+  if (plain.length <= SNIPPET_LENGTH) {
+    return plain;
+  }
+
+  const center = Math.max(0, Math.floor((matchStart + matchEnd) / 2) - leading);
+  const from = Math.max(0, Math.min(center - SNIPPET_LENGTH / 2, plain.length - SNIPPET_LENGTH));
+  const to = from + SNIPPET_LENGTH;
+
+  return `${from > 0 ? '...' : ''}${plain.slice(from, to).trim()}${to < plain.length ? '...' : ''}`;
+}
+
+/**
+ * Text around the first link to `targetPageId` in markdown content
+ */
+export function getLinkSnippet(content: string, targetPageId: string): string {
+  for (const line of content.split('\n')) {
+    for (const match of line.matchAll(MARKDOWN_LINK_PATTERN)) {
+      const href = match[2];
+      if (href.endsWith(`pages/${targetPageId}`)) {
+        return getSnippet(line, match.index!, match.index! + match[0].length);
+      }
+    }
+
+    const index = line.indexOf(`pages/${targetPageId}`);
+    if (index !== -1) {
+      return getSnippet(line, index, index);
+    }
+  }
+
+  return '';
+}
+
+/**
+ * Pages linking to a page, by title
+ * Pages in the trash are left out
+ */
+export async function fetchBacklinks(pageId: string, userId: string): Promise<Backlink[]> {
+  const { data: links, error } = await supabase
+    .from('page_links')
+    .select('source_page_id')
+    .eq('target_page_id', pageId)
+    .eq('user_id', userId) as { data: Pick<PageLinkData, 'source_page_id'>[] | null; error: any };
+
+  if (error) {
+    throw error;
+  }
+
+  const sourceIds = (links || []).map(link => link.source_page_id);
+  const backlinks: Backlink[] = [];
+
+  for (let i = 0; i < sourceIds.length; i += BATCH_SIZE) {
+    const { data, error: pagesError } = await supabase
+      .from('pages')
+      .select('id, title, content, notebook_id, notebooks!inner(title)')
+      .in('id', sourceIds.slice(i, i + BATCH_SIZE))
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .is('notebooks.deleted_at', null) as {
+        data: Array<Pick<PageData, 'id' | 'title' | 'content' | 'notebook_id'> & { notebooks: { title: string } | null }> | null;
+        error: any;
+      };
+
+    if (pagesError) {
+      throw pagesError;
+    }
+
+    backlinks.push(...(data || []).map(({ notebooks, content, ...page }) => ({
+      ...page,
+      notebook_title: notebooks?.title,
+      snippet: getLinkSnippet(content, pageId),
+    })));
+  }
+
+  return backlinks.sort((a, b) => a.title.localeCompare(b.title));
+}
@@ -0,0 +1,107 @@
+/**
+ * Page ordering utilities
+ * Provides fractional index keys used to persist sibling order of pages
+ */
+
+import type { PageData } from '../types/database';
+
+/**
+ * Digits used for fractional index keys, in ascending byte order.
+ * Keys are compared with plain string comparison (and `COLLATE "C"` in Postgres).
+ */
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+/**
+ * Returns a key strictly between `a` and `b`.
+ * `a` may be empty (lower bound) and `b` may be null (no upper bound).
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Skip the common prefix
+    let n = 0;
+    while ((a[n] || '0') === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+
+  // Digits are consecutive
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+/**
+ * Validates that a key can be used as a bound
+ */
+function assertValidKey(key: string): void {
+  if (key === '' || key.endsWith('0') || [...key].some(char => !DIGITS.includes(char))) {
+    throw new Error(`Invalid sort key: ${key}`);
+  }
+}
+
+/**
+ * Generate a sort key that orders strictly between two existing keys.
+ * Pass null for `before` to insert at the start and null for `after` to append.
+ */
+export function generateKeyBetween(before: string | null, after: string | null): string {
+  if (before !== null) assertValidKey(before);
+  if (after !== null) assertValidKey(after);
+
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Sort key ${before} must be lower than ${after}`);
+  }
+
+  return midpoint(before ?? '', after);
+}
+
+/**
+ * Generate `count` ascending sort keys between two existing keys
+ */
+export function generateKeysBetween(
+  before: string | null,
+  after: string | null,
+  count: number
+): string[] {
+  const keys: string[] = [];
+  let previous = before;
+
+  for (let i = 0; i < count; i++) {
+    const key = generateKeyBetween(previous, after);
+    keys.push(key);
+    previous = key;
+  }
+
+  return keys;
+}
+
+/**
+ * Compare two sibling pages for display order.
+ * Pages with a sort key come first; pages without one (created before
+ * manual ordering existed) fall back to creation order.
+ */
+export function comparePageOrder(
+  a: Pick<PageData, 'sort_order' | 'created_at'>,
+  b: Pick<PageData, 'sort_order' | 'created_at'>
+): number {
+  if (a.sort_order && b.sort_order) {
+    if (a.sort_order === b.sort_order) return 0;
+    return a.sort_order < b.sort_order ? -1 : 1;
+  }
+
+  if (a.sort_order) return -1;
+  if (b.sort_order) return 1;
+
+  return a.created_at.localeCompare(b.created_at);
+}
@@ -0,0 +1,241 @@
+/**
+ * Page properties
+ * Typed values attached to a page, like the columns of a database row:
+ * value conversion, validation, and filtering and sorting pages by them
+ */
+
+import type { PageData, PageProperty, PagePropertyType, PagePropertyValue } from './supabase';
+import type { PageFilters, PropertyFilter } from '../types/database';
+
+export const PAGE_PROPERTY_TYPES: PagePropertyType[] = ['text', 'number', 'date', 'select', 'multi_select', 'checkbox', 'url'];
+
+/**
+ * Front matter keys the notebook export uses for page metadata, which
+ * properties can't be named after
+ */
+export const RESERVED_PROPERTY_NAMES = ['id', 'title', 'notebook_id', 'parent_page_id', 'version', 'created_at', 'updated_at'];
+
+const MAX_NAME_LENGTH = 100;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Value of a property that hasn't been set
+ */
+export function emptyPropertyValue(type: PagePropertyType): PagePropertyValue {
+  switch (type) {
+    case 'multi_select':
+      return [];
+    case 'checkbox':
+      return false;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a property value counts as not set. An unchecked checkbox is set.
+ */
+export function isEmptyPropertyValue(value: PagePropertyValue | undefined): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+function toText(value: PagePropertyValue): string | null {
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : null;
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string') return value.trim() || null;
+  return null;
+}
+
+/**
+ * Convert a value to a property type, keeping what carries over, e.g. when
+ * the type of a property changes. Values that don't convert become empty.
+ */
+export function convertPropertyValue(value: PagePropertyValue, type: PagePropertyType): PagePropertyValue {
+  switch (type) {
+    case 'number': {
+      if (typeof value === 'number') return value;
+      const text = toText(value);
+      const number = text === null ? NaN : Number(text);
+      return Number.isFinite(number) ? number : null;
+    }
+    case 'date': {
+      const text = toText(value);
+      return text && DATE_PATTERN.test(text) ? text : null;
+    }
+    case 'multi_select':
+      if (Array.isArray(value)) return value;
+      return (toText(value) || '').split(',').map(option => option.trim()).filter(Boolean);
+    case 'checkbox':
+      return typeof value === 'boolean' ? value : false;
+    default:
+      return toText(value);
+  }
+}
+
+/**
+ * Error message for an unusable property name, or null when it's fine.
+ * Names are unique per page regardless of case.
+ */
+export function validatePropertyName(name: string, properties: PageProperty[], ignoreIndex?: number): string | null {
+  const trimmed = name.trim();
+
+  if (!trimmed) {
+    return 'Property name is required';
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    return 'Property name is too long';
+  }
+  if (RESERVED_PROPERTY_NAMES.includes(trimmed.toLowerCase())) {
+    return `"${trimmed}" is reserved for page metadata`;
+  }
+  if (properties.some((property, index) => index !== ignoreIndex && property.name.toLowerCase() === trimmed.toLowerCase())) {
+    return `This page already has a "${trimmed}" property`;
+  }
+
+  return null;
+}
+
+/**
+ * The named property of a page, matching the name regardless of case
+ */
+export function getPageProperty(properties: PageProperty[] | undefined, name: string): PageProperty | undefined {
+  const key = name.trim().toLowerCase();
+  return (properties || []).find(property => property.name.toLowerCase() === key);
+}
+
+/**
+ * Property value as display text
+ */
+export function formatPropertyValue(property: Pick<PageProperty, 'type' | 'value'>): string {
+  if (property.type === 'checkbox') {
+    return property.value ? 'Yes' : 'No';
+  }
+  if (property.type === 'date' && typeof property.value === 'string' && DATE_PATTERN.test(property.value)) {
+    // Dates have no time zone; format them as the calendar date they name
+    const [year, month, day] = property.value.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString();
+  }
+  return toText(property.value) ?? '';
+}
+
+/**
+ * Order two set property values: numbers by size, unchecked before checked,
+ * and text, dates and options alphabetically with numbers in text compared
+ * by size
+ */
+export function comparePropertyValues(a: PagePropertyValue, b: PagePropertyValue): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b);
+  }
+  return (toText(a) ?? '').localeCompare(toText(b) ?? '', undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.localeCompare(b, undefined, { sensitivity: 'base' }) === 0;
+}
+
+function equalsValue(property: PageProperty, target: PagePropertyValue): boolean {
+  const value = property.value;
+
+  if (Array.isArray(value)) {
+    // A single option matches multi-selects that include it
+    if (!Array.isArray(target)) {
+      const option = toText(target);
+      return option !== null && value.some(candidate => sameText(candidate, option));
+    }
+    return value.length === target.length && target.every(option => value.some(candidate => sameText(candidate, option)));
+  }
+  if (typeof value === 'string' && typeof target === 'string') {
+    return sameText(value, target);
+  }
+  return value === target;
+}
+
+/**
+ * Whether a page's properties satisfy a property filter. A missing
+ * property counts as empty, and as unchecked for checkbox filters.
+ */
+export function matchesPropertyFilter(properties: PageProperty[] | undefined, filter: PropertyFilter): boolean {
+  const property = getPageProperty(properties, filter.name);
+  const isEmpty = !property || (property.type !== 'checkbox' && isEmptyPropertyValue(property.value));
+
+  switch (filter.operator) {
+    case 'is_empty':
+      return isEmpty;
+    case 'is_not_empty':
+      return !isEmpty;
+  }
+
+  if (!property) {
+    const uncheckedMatch = filter.value === false && filter.operator === 'equals';
+    return uncheckedMatch || (filter.operator === 'not_equals' && !isEmptyPropertyValue(filter.value));
+  }
+
+  const target = property.type === 'multi_select'
+    ? filter.value ?? null
+    : convertPropertyValue(filter.value ?? null, property.type);
+
+  switch (filter.operator) {
+    case 'equals':
+      return equalsValue(property, target);
+    case 'not_equals':
+      return !equalsValue(property, target);
+    case 'contains': {
+      if (Array.isArray(property.value)) {
+        return equalsValue(property, toText(target));
+      }
+      const text = toText(property.value);
+      const search = toText(target);
+      return text !== null && search !== null && text.toLowerCase().includes(search.toLowerCase());
+    }
+    case 'greater_than':
+      return !isEmpty && !isEmptyPropertyValue(target) && comparePropertyValues(property.value, target) > 0;
+    case 'less_than':
+      return !isEmpty && !isEmptyPropertyValue(target) && comparePropertyValues(property.value, target) < 0;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Apply the property filters and property sort of page filters. Pages keep
+ * their order when values tie; pages without a value sort last.
+ */
+export function applyPropertyFilters<T extends Pick<PageData, 'properties'>>(pages: T[], filters?: PageFilters): T[] {
+  let result = pages;
+
+  if (filters?.properties?.length) {
+    const propertyFilters = filters.properties;
+    result = result.filter(page => propertyFilters.every(filter => matchesPropertyFilter(page.properties, filter)));
+  }
+
+  if (filters?.sortByProperty) {
+    const name = filters.sortByProperty;
+    const direction = (filters.sortOrder || 'desc') === 'asc' ? 1 : -1;
+    const valueOf = (page: T) => {
+      const property = getPageProperty(page.properties, name);
+      return property && !isEmptyPropertyValue(property.value) ? property.value : null;
+    };
+
+    result = [...result].sort((a, b) => {
+      const valueA = valueOf(a);
+      const valueB = valueOf(b);
+      if (valueA === null || valueB === null) {
+        return (valueA === null ? 1 : 0) - (valueB === null ? 1 : 0);
+      }
+      return comparePropertyValues(valueA, valueB) * direction;
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Whether two property lists are the same, in the same order
+ */
+export function propertiesEqual(a: PageProperty[] | undefined, b: PageProperty[] | undefined): boolean {
+  return JSON.stringify(a || []) === JSON.stringify(b || []);
+}
@@ -0,0 +1,186 @@
+/**
+ * Page templates
+ * Any page can be marked as a template. Creating a page from a template
+ * copies the template and its child pages, filling in {{variables}} such as
+ * {{date}} or {{title}} in titles, content and text properties.
+ */
+
+import { supabase } from './supabase';
+import { createPages, planPageSubtree, type NewPageValues } from './pageCreation';
+import type { PageData, PageProperty } from './supabase';
+
+/**
+ * A template offered when creating a page
+ */
+export type PageTemplate = Pick<PageData, 'id' | 'title' | 'notebook_id'>;
+
+/**
+ * Values available to {{variables}} when a page is created from a template
+ */
+export interface TemplateContext {
+  title: string; // Title of the new page
+  date: Date; // When the page is created
+  user?: { email?: string | null } | null;
+  notebook?: { title: string } | null; // Notebook the page is created in
+}
+
+/**
+ * Variables a template can use, for showing in the page creator
+ */
+export const TEMPLATE_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: 'title', description: 'Title of the new page' },
+  { name: 'date', description: 'Date of creation, e.g. 2024-05-01' },
+  { name: 'time', description: 'Time of creation, e.g. 14:30' },
+  { name: 'datetime', description: 'Date and time of creation' },
+  { name: 'weekday', description: 'Day of the week, e.g. Monday' },
+  { name: 'user.email', description: 'Your email address' },
+  { name: 'notebook.title', description: 'Title of the notebook' },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function formatDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatTime(date: Date): string {
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Value of a template variable, or undefined for unknown variables
+ */
+export function resolveTemplateVariable(name: string, context: TemplateContext): string | undefined {
+  switch (name.toLowerCase()) {
+    case 'title':
+      return context.title;
+    case 'date':
+      return formatDate(context.date);
+    case 'time':
+      return formatTime(context.date);
+    case 'datetime':
+      return `${formatDate(context.date)} ${formatTime(context.date)}`;
+    case 'weekday':
+      return context.date.toLocaleDateString(undefined, { weekday: 'long' });
+    case 'user.email':
+      return context.user?.email ?? '';
+    case 'notebook.title':
+      return context.notebook?.title ?? '';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Fill in the {{variables}} of a text. Unknown variables are left as written.
+ */
+export function renderTemplate(text: string, context: TemplateContext): string {
+  return text.replace(VARIABLE_PATTERN, (match, name: string) => resolveTemplateVariable(name, context) ?? match);
+}
+
+/**
+ * Fill in the {{variables}} of text, date, URL and select properties
+ */
+export function renderTemplateProperties(properties: PageProperty[] | undefined, context: TemplateContext): PageProperty[] {
+  return (properties || []).map(property => {
+    if (typeof property.value === 'string') {
+      return { ...property, value: renderTemplate(property.value, context) };
+    }
+    if (Array.isArray(property.value)) {
+      return { ...property, value: property.value.map(value => renderTemplate(value, context)) };
+    }
+    return property;
+  });
+}
+
+/**
+ * The pages to create for a template: the template itself with the given
+ * title, then its child pages, parents before children and siblings in
+ * order. Every page gets a new id; pages in the trash are left out.
+ */
+export function planTemplatePages(
+  template: PageData,
+  pages: PageData[],
+  target: Pick<NewPageValues, 'title' | 'notebook_id' | 'parent_page_id'>,
+  context: TemplateContext,
+  createId: () => string = () => crypto.randomUUID()
+): NewPageValues[] {
+  return planPageSubtree(template, pages, target, true, page => ({
+    title: renderTemplate(page.title, context),
+    content: renderTemplate(page.content, context),
+    properties: renderTemplateProperties(page.properties, context),
+  }), createId).pages;
+}
+
+/**
+ * Every page marked as a template, by title
+ */
+export async function fetchPageTemplates(userId: string): Promise<PageTemplate[]> {
+  const { data, error } = await supabase
+    .from('pages')
+    .select('id, title, notebook_id')
+    .eq('is_template', true)
+    .is('deleted_at', null)
+    .eq('user_id', userId)
+    .order('title');
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Create a page and its child pages from a template. Returns the new page
+ * that takes the template's place. If a page fails, none are kept.
+ */
+export async function createPageFromTemplate(
+  templateId: string,
+  target: Pick<NewPageValues, 'title' | 'notebook_id' | 'parent_page_id'>,
+  context: Omit<TemplateContext, 'title' | 'notebook'>,
+  userId: string
+): Promise<PageData | null> {
+  const { data: template, error } = await supabase
+    .from('pages')
+    .select('*')
+    .eq('id', templateId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!template) {
+    throw new Error('Template not found');
+  }
+
+  const [pagesResult, notebookResult] = await Promise.all([
+    supabase.rpc('get_page_subtree', { root_page_id: templateId }),
+    supabase
+      .from('notebooks')
+      .select('title')
+      .eq('id', target.notebook_id)
+      .eq('user_id', userId)
+      .maybeSingle(),
+  ]);
+
+  if (pagesResult.error) {
+    throw pagesResult.error;
+  }
+
+  if (notebookResult.error) {
+    throw notebookResult.error;
+  }
+
+  const planned = planTemplatePages(template, pagesResult.data || [], target, {
+    ...context,
+    title: target.title,
+    notebook: notebookResult.data,
+  });
+
+  return createPages(planned, userId);
+}
@@ -0,0 +1,113 @@
+/**
+ * Page tree rows
+ * Flattens a notebook's page hierarchy into the rows a page tree shows, and
+ * remembers which pages are collapsed in each notebook
+ */
+
+import type { PageSummaryWithChildren } from '../types/database';
+
+const COLLAPSED_KEY_PREFIX = 'mininote:page-tree-collapsed:';
+
+/**
+ * A visible row of a page tree
+ */
+export interface PageTreeRow {
+  page: PageSummaryWithChildren;
+  level: number; // 0 for top level pages
+  parentId: string | null;
+  hasChildren: boolean;
+  isExpanded: boolean;
+}
+
+function collapsedKey(notebookId: string): string {
+  return `${COLLAPSED_KEY_PREFIX}${notebookId}`;
+}
+
+/**
+ * Rows for the pages that are visible: every top level page, and the
+ * children of expanded pages, in tree order
+ */
+export function flattenPageTree(pages: PageSummaryWithChildren[], collapsedIds: ReadonlySet<string>): PageTreeRow[] {
+  const rows: PageTreeRow[] = [];
+
+  const visit = (siblings: PageSummaryWithChildren[], level: number, parentId: string | null) => {
+    for (const page of siblings) {
+      const hasChildren = !!page.children && page.children.length > 0;
+      const isExpanded = hasChildren && !collapsedIds.has(page.id);
+      rows.push({ page, level, parentId, hasChildren, isExpanded });
+
+      if (isExpanded) {
+        visit(page.children!, level + 1, page.id);
+      }
+    }
+  };
+
+  visit(pages, 0, null);
+  return rows;
+}
+
+/**
+ * Parent of every page in a hierarchy, including pages in collapsed subtrees
+ */
+export function getPageTreeParents(pages: PageSummaryWithChildren[]): Map<string, string | null> {
+  const parents = new Map<string, string | null>();
+
+  const visit = (siblings: PageSummaryWithChildren[], parentId: string | null) => {
+    for (const page of siblings) {
+      parents.set(page.id, parentId);
+      if (page.children) {
+        visit(page.children, page.id);
+      }
+    }
+  };
+
+  visit(pages, null);
+  return parents;
+}
+
+/**
+ * Whether a page is below another page, given the parents from getPageTreeParents
+ */
+export function isPageTreeDescendant(
+  parents: Map<string, string | null>,
+  pageId: string,
+  ancestorId: string
+): boolean {
+  const seen = new Set<string>();
+
+  for (let id = parents.get(pageId) ?? null; id && !seen.has(id); id = parents.get(id) ?? null) {
+    if (id === ancestorId) return true;
+    seen.add(id);
+  }
+
+  return false;
+}
+
+/**
+ * Pages collapsed in a notebook's page tree; all other pages are expanded
+ */
+export function getCollapsedPageIds(notebookId: string): Set<string> {
+  try {
+    const raw = localStorage.getItem(collapsedKey(notebookId));
+    const ids: unknown = raw ? JSON.parse(raw) : [];
+    return new Set(Array.isArray(ids) ? ids.filter((id): id is string => typeof id === 'string') : []);
+  } catch (error) {
+    console.error('Failed to load collapsed pages:', error);
+    return new Set();
+  }
+}
+
+/**
+ * Save the pages collapsed in a notebook's page tree
+ */
+export function setCollapsedPageIds(notebookId: string, ids: ReadonlySet<string>): void {
+  try {
+    if (ids.size === 0) {
+      localStorage.removeItem(collapsedKey(notebookId));
+    } else {
+      localStorage.setItem(collapsedKey(notebookId), JSON.stringify([...ids]));
+    }
+  } catch (error) {
+    console.error('Failed to save collapsed pages:', error);
+  }
+}
@@ -1,5 +1,7 @@
+import { useEffect } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import type { ReactNode } from 'react';
+import { startBackgroundSync } from './syncService';
 
 /**
  * Create a query client with default options
@@ -29,6 +31,9 @@ export const queryClient = new QueryClient({
  * Query client provider component
  */
 export function QueryProvider({ children }: { children: ReactNode }) {
+  // Replay offline changes whenever connectivity returns
+  useEffect(() => startBackgroundSync(queryClient), []);
+
   return (
     <QueryClientProvider client={queryClient}>
       {children}
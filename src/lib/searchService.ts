@@ -1,6 +1,9 @@
 import { supabase } from './supabase';
 import { requireAuth } from './database';
-import type { SearchResult } from '../types/database';
+import { getSnippet, type Backlink } from './pageLinks';
+import { fetchTaggedPageIds } from './tags';
+import type { RankedSearchRow } from './supabase';
+import type { SearchResult, TagMatchMode } from '../types/database';
 
 /**
  * Search scope options
@@ -14,6 +17,8 @@ export interface SearchParams {
   query: string;
   scope: SearchScope;
   notebookId?: string;
+  tags?: string[];
+  tagMode?: TagMatchMode; // Default 'all': pages with every tag
   limit?: number;
   offset?: number;
 }
@@ -42,12 +47,14 @@ export interface SearchResponse {
 class SearchService {
   private readonly DEFAULT_LIMIT = 20;
   private readonly SNIPPET_LENGTH = 150;
+  private readonly MENTION_LIMIT = 50;
+  private readonly MIN_MENTION_LENGTH = 3;
 
   /**
    * Performs full-text search across pages
    */
   async searchPages(params: SearchParams): Promise<SearchResponse> {
-    await requireAuth();
+    const userId = await requireAuth();
     const limit = params.limit || this.DEFAULT_LIMIT;
     const offset = params.offset || 0;
 
@@ -60,13 +67,21 @@ class SearchService {
         content,
         notebook_id,
         notebooks!inner(id, title)
-      `, { count: 'exact' });
+      `, { count: 'exact' })
+      .is('deleted_at', null)
+      .is('notebooks.deleted_at', null);
 
     // Apply scope filter
     if (params.scope === 'notebook' && params.notebookId) {
       query = query.eq('notebook_id', params.notebookId);
     }
 
+    // Apply tag filter
+    if (params.tags?.length) {
+      const pageIds = await fetchTaggedPageIds(params.tags, params.tagMode || 'all', userId);
+      query = query.in('id', [...pageIds]);
+    }
+
     // Apply full-text search using PostgreSQL's text search
     // Use websearch_to_tsquery for better query parsing
     query = query.textSearch('searchable_content', params.query, {
@@ -113,12 +128,12 @@ class SearchService {
    * Performs ranked search using custom RPC function
    */
   async searchPagesRanked(params: SearchParams): Promise<SearchResponse> {
-    await requireAuth();
+    const userId = await requireAuth();
     const limit = params.limit || this.DEFAULT_LIMIT;
     const offset = params.offset || 0;
 
     // Call custom RPC function for ranked search
-    const { data, error } = await (supabase.rpc as any)('search_pages_ranked', {
+    const { data, error } = await supabase.rpc('search_pages_ranked', {
       search_query: params.query,
       notebook_filter: params.scope === 'notebook' ? params.notebookId || null : null,
       result_limit: limit,
@@ -131,14 +146,21 @@ class SearchService {
       return this.searchPages(params);
     }
 
+    // The RPC can't filter by tag, so tagged pages are filtered here
+    let rows: RankedSearchRow[] = data || [];
+    if (params.tags?.length) {
+      const pageIds = await fetchTaggedPageIds(params.tags, params.tagMode || 'all', userId);
+      rows = rows.filter(row => pageIds.has(row.page_id));
+    }
+
     // Transform RPC results
-    const results: EnhancedSearchResult[] = ((data as any[]) || []).map((row: any) => ({
+    const results: EnhancedSearchResult[] = rows.map(row => ({
       type: 'page' as const,
       id: row.page_id,
       title: row.page_title,
       content: row.page_content,
       notebook_title: row.notebook_title,
-      notebook_id: row.notebook_id || row.page_notebook_id,
+      notebook_id: row.notebook_id,
       rank: row.rank,
       highlights: this.extractHighlights(row.page_content, params.query),
       snippet: this.generateSnippet(row.page_content, params.query)
@@ -147,10 +169,68 @@ class SearchService {
     return {
       results,
       total: results.length,
-      hasMore: results.length === limit
+      hasMore: (data || []).length === limit
     };
   }
 
+  /**
+   * Finds pages mentioning a page's title in plain text, outside of links,
+   * as candidates for linking to it
+   */
+  async findUnlinkedMentions(pageId: string, title: string): Promise<Backlink[]> {
+    const term = title.trim();
+    if (term.length < this.MIN_MENTION_LENGTH) {
+      return [];
+    }
+
+    // The phrase search narrows the candidates; the exact title is checked below
+    const { results } = await this.searchPagesRanked({
+      query: `"${term.replace(/"/g, ' ')}"`,
+      scope: 'all',
+      limit: this.MENTION_LIMIT,
+    });
+
+    const mentions: Backlink[] = [];
+    for (const result of results) {
+      if (result.id === pageId) {
+        continue;
+      }
+
+      const snippet = this.findMention(result.content, term);
+      if (snippet !== null) {
+        mentions.push({
+          id: result.id,
+          title: result.title,
+          notebook_id: result.notebook_id,
+          notebook_title: result.notebook_title,
+          snippet,
+        });
+      }
+    }
+
+    return mentions;
+  }
+
+  /**
+   * Snippet around the first whole-word occurrence of `term` outside of
+   * links, or null when there is none
+   */
+  private findMention(content: string, term: string): string | null {
+    const regex = new RegExp(`(?<!\\w)${this.escapeRegex(term)}(?!\\w)`, 'i');
+
+    for (const line of content.split('\n')) {
+      // Blank out links, keeping positions, so linked text doesn't count
+      const unlinked = line.replace(/!?\[[^\]]*\]\([^)]*\)|https?:\/\/\S+/g, match => ' '.repeat(match.length));
+      const match = regex.exec(unlinked);
+
+      if (match) {
+        return getSnippet(line, match.index, match.index + match[0].length);
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Extracts highlighted text snippets from content
    */
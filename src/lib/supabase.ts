@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { PageFilters } from '../types/database';
 
 // Environment variable validation
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
@@ -9,10 +10,83 @@ if (!supabaseUrl || !supabaseAnonKey) {
 }
 
 // Database types
+
+/**
+ * One tier of a version retention policy
+ */
+export interface RetentionTier {
+  maxAgeMs: number | null; // Covers versions younger than this; null covers everything older
+  intervalMs: number; // Keep the newest version per interval; 0 keeps every version
+}
+
+/**
+ * Time-based version retention, tiers ordered from youngest to oldest
+ */
+export interface RetentionPolicy {
+  tiers: RetentionTier[];
+}
+
+/**
+ * One step of a version delta: copy a run of lines from the base version, or
+ * insert new lines
+ */
+export type VersionDeltaOp =
+  | { copy: number; count: number } // Copy `count` base lines starting at line `copy`
+  | { insert: string[] };
+
+/**
+ * Kind of value a page property holds
+ */
+export type PagePropertyType = 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'checkbox' | 'url';
+
+/**
+ * Value of a page property: a string for text, date (YYYY-MM-DD), select and
+ * URL properties, a number, a boolean for checkboxes and a string list for
+ * multi-selects. Null when not set.
+ */
+export type PagePropertyValue = string | number | boolean | string[] | null;
+
+/**
+ * A typed property of a page, like a column of a database row
+ */
+export interface PageProperty {
+  name: string;
+  type: PagePropertyType;
+  value: PagePropertyValue;
+  options?: string[]; // Choices of select and multi-select properties
+}
+
+/**
+ * Layout of a saved notebook view: a table with a row per page, or a board
+ * with a column per option of a select property
+ */
+export type NotebookViewType = 'table' | 'board';
+
+/**
+ * Page filters a view applies; the notebook is given by the view
+ */
+export type NotebookViewFilters = Pick<PageFilters, 'search' | 'properties' | 'sortBy' | 'sortByProperty' | 'sortOrder'>;
+
+/**
+ * A saved table or board view of a notebook's pages
+ */
+export interface NotebookView {
+  id: string;
+  name: string;
+  type: NotebookViewType;
+  filters: NotebookViewFilters;
+  hiddenColumns?: string[]; // Table columns left out: created_at, updated_at, version or property names
+  groupBy?: string | null; // Select property the board groups by
+}
+
 export interface NotebookData {
   id: string;
   title: string;
   description?: string;
+  version_retention?: RetentionPolicy | null; // Null uses the default version config
+  views?: NotebookView[]; // Saved table and board views
+  default_template_id?: string | null; // Template page new pages start from
+  deleted_at?: string | null; // Set while the notebook is in the trash
   user_id: string;
   created_at: string;
   updated_at: string;
@@ -23,8 +97,14 @@ export interface PageData {
   title: string;
   content: string;
   version: number;
-  parent_page_id?: string;
+  parent_page_id?: string | null;
+  sort_order?: string | null; // Fractional index key ordering the page among its siblings
+  properties?: PageProperty[]; // In display order; missing on pages cached before properties existed
+  is_template?: boolean; // Offered as a template when creating pages
+  excerpt?: string | null; // Start of the content, set by the database
   notebook_id: string;
+  deleted_at?: string | null; // Set while the page is in the trash
+  deleted_root_id?: string | null; // Page whose deletion moved this page to the trash
   user_id: string;
   created_at: string;
   updated_at: string;
@@ -36,6 +116,10 @@ export interface PageVersionData {
   title: string;
   content: string;
   version: number;
+  label?: string | null; // User-given name, e.g. "Before refactor"
+  is_pinned?: boolean; // Pinned versions are never removed by cleanup
+  base_version_id?: string | null; // Version the delta applies to; null for keyframes
+  delta?: VersionDeltaOp[] | null; // Line delta against the base; content is empty when set
   user_id: string;
   created_at: string;
 }
@@ -51,6 +135,34 @@ export interface AttachmentData {
   created_at: string;
 }
 
+export interface PageLinkData {
+  source_page_id: string; // Page whose content holds the link
+  target_page_id: string; // Linked page; may no longer exist
+  user_id: string;
+  created_at: string;
+}
+
+export interface TagData {
+  id: string;
+  name: string; // Lowercase, without the leading #
+  user_id: string;
+  created_at: string;
+}
+
+/**
+ * Where a page's tag comes from: a #tag in its content, or the page's own
+ * tag list
+ */
+export type PageTagSource = 'content' | 'manual';
+
+export interface PageTagData {
+  page_id: string;
+  tag_id: string;
+  source: PageTagSource;
+  user_id: string;
+  created_at: string;
+}
+
 export interface SearchResult {
   type: 'page' | 'notebook';
   id: string;
@@ -60,46 +172,132 @@ export interface SearchResult {
   rank: number;
 }
 
+/**
+ * A page without its content, as listed for page trees
+ */
+export type PageSummary = Pick<
+  PageData,
+  'id' | 'title' | 'notebook_id' | 'parent_page_id' | 'sort_order' | 'excerpt' | 'created_at' | 'updated_at'
+>;
+
+/**
+ * A page on the path from the notebook root down to a page, as returned by
+ * the get_page_path function. Depth 0 is the top level of the notebook.
+ */
+export interface PagePathEntry {
+  id: string;
+  title: string;
+  parent_page_id: string | null;
+  notebook_id: string;
+  depth: number;
+}
+
+/**
+ * A page matching a search, as returned by the search_pages_ranked function
+ */
+export interface RankedSearchRow {
+  page_id: string;
+  page_title: string;
+  page_content: string;
+  notebook_id: string;
+  notebook_title: string;
+  rank: number;
+}
+
+// Supabase only accepts row types that are plain object types, not
+// interfaces; mapping the fields turns an interface into one
+type TableRow<T> = { [K in keyof T]: T[K] };
+
 // Database schema type definition
 export type Database = {
   public: {
     Tables: {
       notebooks: {
-        Row: NotebookData;
+        Row: TableRow<NotebookData>;
         Insert: Omit<NotebookData, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<NotebookData, 'id' | 'user_id' | 'created_at'>>;
         Relationships: [];
       };
       pages: {
-        Row: PageData;
+        Row: TableRow<PageData>;
         Insert: Omit<PageData, 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Omit<PageData, 'id' | 'user_id' | 'created_at'>>;
         Relationships: [];
       };
       page_versions: {
-        Row: PageVersionData;
+        Row: TableRow<PageVersionData>;
         Insert: {
           page_id: string;
           title: string;
           content: string;
           version: number;
+          label?: string | null;
+          is_pinned?: boolean;
+          base_version_id?: string | null;
+          delta?: VersionDeltaOp[] | null;
           user_id: string;
         };
         Update: Partial<Omit<PageVersionData, 'id' | 'created_at'>>;
         Relationships: [];
       };
       attachments: {
-        Row: AttachmentData;
+        Row: TableRow<AttachmentData>;
         Insert: Omit<AttachmentData, 'id' | 'created_at'>;
         Update: Partial<Omit<AttachmentData, 'id' | 'created_at'>>;
         Relationships: [];
       };
+      page_links: {
+        Row: TableRow<PageLinkData>;
+        Insert: Omit<PageLinkData, 'created_at'>;
+        Update: never;
+        Relationships: [];
+      };
+      tags: {
+        Row: TableRow<TagData>;
+        Insert: Omit<TagData, 'id' | 'created_at'>;
+        Update: never;
+        Relationships: [];
+      };
+      page_tags: {
+        Row: TableRow<PageTagData>;
+        Insert: Omit<PageTagData, 'created_at'>;
+        Update: never;
+        Relationships: [];
+      };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      search_pages_ranked: {
+        Args: {
+          search_query: string;
+          notebook_filter?: string | null;
+          result_limit?: number;
+          result_offset?: number;
+        };
+        Returns: RankedSearchRow[];
+      };
+      get_page_subtree: {
+        Args: { root_page_id: string };
+        Returns: PageData[];
+      };
+      get_page_path: {
+        Args: { target_page_id: string };
+        Returns: PagePathEntry[];
+      };
+      move_page_subtree: {
+        Args: {
+          target_page_id: string;
+          new_parent_page_id: string | null;
+          new_notebook_id?: string | null;
+        };
+        Returns: PageData;
+      };
+      delete_page_subtree: {
+        Args: { target_page_id: string };
+        Returns: Pick<PageData, 'id' | 'notebook_id' | 'parent_page_id'>[];
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -0,0 +1,378 @@
+/**
+ * Offline sync service
+ * Serves reads from the local replica when Supabase is unreachable, queues
+ * mutations in an outbox and replays them when connectivity returns
+ */
+
+import type { QueryClient } from '@tanstack/react-query';
+import { supabase } from './supabase';
+import { localStore } from './localStore';
+import {
+  DatabaseError,
+  DatabaseErrorCode,
+  getCurrentUserId,
+  handleDatabaseError,
+  withErrorHandling,
+  withRetry,
+} from './database';
+import { updatePageIndexes } from './pageIndex';
+import { useSyncStore } from '../store/syncStore';
+
+/**
+ * Tables whose mutations can be queued
+ */
+export type SyncTable = 'notebooks' | 'pages' | 'page_versions';
+
+/**
+ * A mutation waiting to be sent to Supabase
+ */
+export interface OutboxEntry {
+  id?: number;
+  table: SyncTable;
+  operation: 'insert' | 'update' | 'delete';
+  recordId: string;
+  pageId?: string; // Page whose sync status this entry affects
+  values?: Record<string, unknown>;
+  condition?: Record<string, string | number>; // Extra column matches required for updates
+  createdAt: string;
+  failed?: boolean;
+  lastError?: string;
+}
+
+/**
+ * Result of replaying the outbox
+ */
+export interface ReplayResult {
+  synced: number;
+  failed: number;
+  remaining: number;
+}
+
+let replayPromise: Promise<ReplayResult> | null = null;
+
+/**
+ * Whether the browser reports being offline
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Whether a failed operation should fall back to the local replica.
+ * Only retryable errors (network failures) qualify; validation or
+ * permission errors are surfaced to the caller.
+ */
+export function isQueueableError(error: unknown): boolean {
+  if (error instanceof DatabaseError) {
+    return error.retryable;
+  }
+
+  return handleDatabaseError(error as Error).retryable;
+}
+
+/**
+ * Read from Supabase, keeping the local replica up to date,
+ * and fall back to the replica when offline or unreachable
+ */
+export async function readThrough<T>(options: {
+  remote: () => Promise<T>;
+  local: () => Promise<T | undefined>;
+  persist?: (data: T) => Promise<void>;
+}): Promise<T> {
+  if (!localStore.isAvailable()) {
+    return options.remote();
+  }
+
+  if (!isOffline()) {
+    try {
+      const data = await options.remote();
+      options.persist?.(data).catch((err) => {
+        console.error('Failed to update local replica:', err);
+      });
+      return data;
+    } catch (error) {
+      if (!isQueueableError(error)) {
+        throw error;
+      }
+
+      const localData = await options.local();
+      if (localData === undefined) {
+        throw error;
+      }
+      return localData;
+    }
+  }
+
+  const localData = await options.local();
+  if (localData === undefined) {
+    throw new DatabaseError(
+      'This content is not available offline.',
+      DatabaseErrorCode.NETWORK,
+      undefined,
+      true
+    );
+  }
+  return localData;
+}
+
+/**
+ * Send a mutation to Supabase, or apply it to the local replica and
+ * queue it when offline or unreachable
+ */
+export async function writeThrough<T>(options: {
+  remote: () => Promise<T>;
+  offline: () => Promise<T>;
+}): Promise<T> {
+  if (!localStore.isAvailable()) {
+    return options.remote();
+  }
+
+  if (isOffline()) {
+    return options.offline();
+  }
+
+  try {
+    return await options.remote();
+  } catch (error) {
+    if (!isQueueableError(error)) {
+      throw error;
+    }
+    return options.offline();
+  }
+}
+
+/**
+ * Add mutations to the outbox
+ */
+export async function queueMutations(
+  entries: Array<Omit<OutboxEntry, 'id' | 'createdAt'>>
+): Promise<void> {
+  const createdAt = new Date().toISOString();
+  await localStore.put<OutboxEntry>(
+    'outbox',
+    entries.map(entry => ({ ...entry, createdAt }))
+  );
+  await refreshSyncStatus();
+}
+
+/**
+ * Get queued mutations in the order they were made
+ */
+export async function getOutbox(): Promise<OutboxEntry[]> {
+  const entries = await localStore.getAll<OutboxEntry>('outbox');
+  return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+/**
+ * IDs of records with queued mutations, so replica refreshes keep them
+ */
+export async function getPendingRecordIds(): Promise<Set<string>> {
+  const entries = await getOutbox();
+  return new Set(entries.map(entry => entry.recordId));
+}
+
+/**
+ * Recompute per-page sync status from the outbox
+ */
+export async function refreshSyncStatus(): Promise<void> {
+  const entries = await getOutbox();
+  const { pageStatus, setPageStatus, setPendingCount } = useSyncStore.getState();
+
+  const statuses = new Map<string, { status: 'pending' | 'error'; error?: string }>();
+  entries.forEach(entry => {
+    if (!entry.pageId) return;
+    if (entry.failed) {
+      statuses.set(entry.pageId, { status: 'error', error: entry.lastError });
+    } else if (!statuses.has(entry.pageId)) {
+      statuses.set(entry.pageId, { status: 'pending' });
+    }
+  });
+
+  // Pages that no longer have queued changes are synced
+  Object.keys(pageStatus).forEach(pageId => {
+    if (!statuses.has(pageId) && pageStatus[pageId] !== 'synced') {
+      setPageStatus(pageId, 'synced');
+    }
+  });
+
+  statuses.forEach(({ status, error }, pageId) => {
+    setPageStatus(pageId, status, error);
+  });
+
+  setPendingCount(entries.filter(entry => !entry.failed).length);
+}
+
+/**
+ * Apply a single outbox entry to Supabase
+ */
+async function applyEntry(entry: OutboxEntry, userId: string) {
+  const table = supabase.from(entry.table) as any;
+
+  switch (entry.operation) {
+    case 'insert':
+      // Upsert so a replay after a lost response does not conflict
+      return table.upsert(entry.values);
+    case 'update': {
+      let query = table.update(entry.values).eq('id', entry.recordId).eq('user_id', userId);
+      Object.entries(entry.condition || {}).forEach(([column, value]) => {
+        query = query.eq(column, value);
+      });
+
+      const { data, error } = await query.select('id');
+      if (!error && entry.condition && (!data || data.length === 0)) {
+        // The record changed on the server while this update was queued
+        return {
+          data: null,
+          error: new DatabaseError(
+            'This change conflicts with a newer version on the server.',
+            DatabaseErrorCode.CONFLICT
+          ),
+        };
+      }
+      return { data, error };
+    }
+    case 'delete':
+      return table.delete().eq('id', entry.recordId).eq('user_id', userId);
+  }
+}
+
+/**
+ * Update the links and tags of a page whose content was just replayed
+ */
+async function indexReplayedContent(entry: OutboxEntry, userId: string) {
+  if (entry.table !== 'pages' || entry.operation === 'delete' || typeof entry.values?.content !== 'string') {
+    return;
+  }
+
+  try {
+    await updatePageIndexes(entry.recordId, entry.values.content, userId);
+  } catch (error) {
+    console.error('Failed to update page links and tags:', error);
+  }
+}
+
+/**
+ * Replay queued mutations in order.
+ * Stops at the first retryable failure so later mutations keep their order;
+ * entries the server rejects are kept and flagged as failed.
+ */
+export function replayOutbox(): Promise<ReplayResult> {
+  if (!replayPromise) {
+    replayPromise = doReplay().finally(() => {
+      replayPromise = null;
+    });
+  }
+
+  return replayPromise;
+}
+
+async function doReplay(): Promise<ReplayResult> {
+  const entries = (await getOutbox()).filter(entry => !entry.failed);
+  const result: ReplayResult = { synced: 0, failed: 0, remaining: entries.length };
+
+  if (entries.length === 0 || isOffline()) {
+    return result;
+  }
+
+  // Wait for sign in; the outbox is replayed again on the next sync
+  const userId = await getCurrentUserId();
+  if (!userId) {
+    return result;
+  }
+
+  const { setSyncing, setPageStatus } = useSyncStore.getState();
+
+  setSyncing(true);
+  entries.forEach(entry => {
+    if (entry.pageId) setPageStatus(entry.pageId, 'syncing');
+  });
+
+  try {
+    for (const entry of entries) {
+      const { error } = await withRetry(() => withErrorHandling(() => applyEntry(entry, userId)));
+
+      if (!error) {
+        await localStore.delete('outbox', entry.id!);
+        await indexReplayedContent(entry, userId);
+        result.synced++;
+      } else if (error.retryable) {
+        break;
+      } else {
+        await localStore.put<OutboxEntry>('outbox', { ...entry, failed: true, lastError: error.message });
+        result.failed++;
+      }
+
+      result.remaining--;
+    }
+  } finally {
+    setSyncing(false);
+    await refreshSyncStatus();
+  }
+
+  return result;
+}
+
+/**
+ * Discard a page's failed mutations so the server copy wins
+ */
+export async function discardFailedMutations(pageId: string): Promise<void> {
+  const entries = await getOutbox();
+  const failedIds = entries
+    .filter(entry => entry.pageId === pageId && entry.failed)
+    .map(entry => entry.id!);
+
+  await localStore.delete('outbox', failedIds);
+  await refreshSyncStatus();
+}
+
+/**
+ * Track connectivity and replay the outbox whenever the app comes back online.
+ * Returns a cleanup function that removes the listeners.
+ */
+export function startBackgroundSync(queryClient: QueryClient): () => void {
+  if (typeof window === 'undefined' || !localStore.isAvailable()) {
+    return () => {};
+  }
+
+  const { setOnline } = useSyncStore.getState();
+
+  const sync = async () => {
+    try {
+      const { synced } = await replayOutbox();
+      if (synced > 0) {
+        queryClient.invalidateQueries();
+      }
+    } catch (error) {
+      console.error('Background sync failed:', error);
+    }
+  };
+
+  const handleOnline = () => {
+    setOnline(true);
+    sync();
+  };
+
+  const handleOffline = () => {
+    setOnline(false);
+  };
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+
+  // Changes queued before the session was restored are replayed on sign in
+  const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+    if (event === 'SIGNED_IN') {
+      sync();
+    }
+  });
+
+  refreshSyncStatus().then(sync).catch((error) => {
+    console.error('Failed to load outbox:', error);
+  });
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    subscription.unsubscribe();
+  };
+}
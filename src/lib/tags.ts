@@ -0,0 +1,326 @@
+/**
+ * Tags
+ * Pages are tagged by #tags in their content and by their own tag list.
+ * Both are kept in `page_tags`, told apart by `source`; content tags are
+ * parsed again on every save. Tag names are stored lowercase without the #.
+ */
+
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { BATCH_SIZE } from './batching';
+import type { PageData, PageTagData, PageTagSource, TagData } from './supabase';
+import type { TagMatchMode } from '../types/database';
+
+const PAGE_SIZE = 1000; // Rows per request when reading every page tag
+
+/**
+ * A tag with the number of pages carrying it
+ */
+export interface TagCount {
+  name: string;
+  count: number;
+}
+
+/**
+ * A tag of a page
+ */
+export interface PageTag {
+  name: string;
+  source: PageTagSource;
+}
+
+const TAG_NAME_PATTERN = /^[\p{L}\p{N}_][\p{L}\p{N}_/-]*$/u;
+// A # at the start of a word; headings, URL fragments and escaped \# don't match
+const CONTENT_TAG_PATTERN = /(^|[\s(,;])#([\p{L}\p{N}_][\p{L}\p{N}_/-]*)/gu;
+const CODE_PATTERN = /```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`\n]*`/g;
+
+/**
+ * Tag name as stored, or null when `name` is not a valid tag.
+ * A leading # is dropped; purely numeric names are not tags.
+ */
+export function normalizeTag(name: string): string | null {
+  const tag = name.trim().replace(/^#/, '').replace(/[/-]+$/, '').toLowerCase();
+  return TAG_NAME_PATTERN.test(tag) && /\D/.test(tag) ? tag : null;
+}
+
+/**
+ * #tags in plain text, with the span each takes up including the #
+ */
+export function findContentTags(text: string): Array<{ start: number; end: number; tag: string }> {
+  return Array.from(text.matchAll(CONTENT_TAG_PATTERN)).flatMap(match => {
+    const tag = normalizeTag(match[2]);
+    const start = match.index! + match[1].length;
+    return tag ? [{ start, end: start + 1 + match[2].replace(/[/-]+$/, '').length, tag }] : [];
+  });
+}
+
+/**
+ * Tags written as #tag in markdown content, outside of code, in order of
+ * first use
+ */
+export function extractContentTags(content: string): string[] {
+  const tags = findContentTags(content.replace(CODE_PATTERN, ' ')).map(match => match.tag);
+  return [...new Set(tags)];
+}
+
+/**
+ * Whether a page's tags satisfy a tag filter
+ */
+export function matchesTags(pageTags: Iterable<string>, tags: string[], mode: TagMatchMode = 'all'): boolean {
+  const present = new Set(pageTags);
+  return mode === 'all'
+    ? tags.every(tag => present.has(tag))
+    : tags.some(tag => present.has(tag));
+}
+
+/**
+ * Ids of the named tags, creating the ones that don't exist yet
+ */
+async function ensureTags(names: string[], userId: string): Promise<Map<string, string>> {
+  const ids = new Map<string, string>();
+
+  for (let i = 0; i < names.length; i += BATCH_SIZE) {
+    const batch = names.slice(i, i + BATCH_SIZE);
+
+    const { error: insertError } = await supabase
+      .from('tags')
+      .upsert(batch.map(name => ({ name, user_id: userId })), {
+        onConflict: 'user_id,name',
+        ignoreDuplicates: true,
+      });
+
+    if (insertError) {
+      throw insertError;
+    }
+
+    const { data, error } = await supabase
+      .from('tags')
+      .select('id, name')
+      .in('name', batch)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+
+    (data || []).forEach(tag => ids.set(tag.name, tag.id));
+  }
+
+  return ids;
+}
+
+/**
+ * Insert page tags, skipping ones that already exist
+ */
+async function insertPageTags(rows: Array<Omit<PageTagData, 'created_at'>>): Promise<void> {
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from('page_tags')
+      .upsert(rows.slice(i, i + BATCH_SIZE), {
+        onConflict: 'page_id,tag_id,source',
+        ignoreDuplicates: true,
+      });
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Index the content tags of pages that have none indexed yet, such as new pages
+ */
+export async function indexContentTags(
+  pages: Array<Pick<PageData, 'id' | 'content'>>,
+  userId: string
+): Promise<void> {
+  const pageTags = pages.map(page => ({ pageId: page.id, tags: extractContentTags(page.content) }));
+  const names = [...new Set(pageTags.flatMap(page => page.tags))];
+
+  if (names.length === 0) {
+    return;
+  }
+
+  const ids = await ensureTags(names, userId);
+  await insertPageTags(pageTags.flatMap(({ pageId, tags }) => tags.map(tag => ({
+    page_id: pageId,
+    tag_id: ids.get(tag)!,
+    source: 'content' as const,
+    user_id: userId,
+  }))));
+}
+
+/**
+ * Replace the indexed content tags of a page with the #tags in its content
+ */
+export async function updateContentTags(pageId: string, content: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('page_tags')
+    .delete()
+    .eq('page_id', pageId)
+    .eq('source', 'content')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  await indexContentTags([{ id: pageId, content }], userId);
+}
+
+/**
+ * Add a tag to a page's own tag list
+ */
+export async function addPageTag(pageId: string, name: string, userId: string): Promise<string> {
+  const tag = normalizeTag(name);
+  if (!tag) {
+    throw new Error(`"${name}" is not a valid tag. Tags use letters, numbers, _, - and /, and can't be only numbers.`);
+  }
+
+  const ids = await ensureTags([tag], userId);
+  await insertPageTags([{ page_id: pageId, tag_id: ids.get(tag)!, source: 'manual', user_id: userId }]);
+
+  return tag;
+}
+
+/**
+ * Remove a tag from a page's own tag list. A #tag in the content stays.
+ */
+export async function removePageTag(pageId: string, name: string, userId: string): Promise<void> {
+  const { data: tag, error: tagError } = await supabase
+    .from('tags')
+    .select('id')
+    .eq('name', name)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (tagError) {
+    throw tagError;
+  }
+
+  if (!tag) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('page_tags')
+    .delete()
+    .eq('page_id', pageId)
+    .eq('tag_id', tag.id)
+    .eq('source', 'manual')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+}
+
+/**
+ * Tags of a page by name. A tag both in the content and the page's own list
+ * is listed once, as manual.
+ */
+export async function fetchPageTags(pageId: string, userId: string): Promise<PageTag[]> {
+  const { data, error } = await supabase
+    .from('page_tags')
+    .select('source, tags!inner(name)')
+    .eq('page_id', pageId)
+    .eq('user_id', userId) as {
+      data: Array<Pick<PageTagData, 'source'> & { tags: Pick<TagData, 'name'> | null }> | null;
+      error: PostgrestError | null;
+    };
+
+  if (error) {
+    throw error;
+  }
+
+  const tags = new Map<string, PageTagSource>();
+  for (const row of data || []) {
+    if (row.tags && tags.get(row.tags.name) !== 'manual') {
+      tags.set(row.tags.name, row.source);
+    }
+  }
+
+  return [...tags].map(([name, source]) => ({ name, source })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Page tag rows of pages outside the trash, with their tag names
+ */
+async function fetchActivePageTags(
+  userId: string,
+  names?: string[]
+): Promise<Array<{ page_id: string; name: string }>> {
+  const rows: Array<{ page_id: string; name: string }> = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('page_tags')
+      .select('page_id, tag_id, source, tags!inner(name), pages!inner(deleted_at, notebooks!inner(deleted_at))')
+      .eq('user_id', userId)
+      .is('pages.deleted_at', null)
+      .is('pages.notebooks.deleted_at', null);
+
+    if (names) {
+      query = query.in('tags.name', names);
+    }
+
+    const { data, error } = await query
+      .order('page_id')
+      .order('tag_id')
+      .order('source')
+      .range(from, from + PAGE_SIZE - 1) as {
+        data: Array<Pick<PageTagData, 'page_id'> & { tags: Pick<TagData, 'name'> | null }> | null;
+        error: PostgrestError | null;
+      };
+
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...(data || []).flatMap(row => row.tags ? [{ page_id: row.page_id, name: row.tags.name }] : []));
+
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * Every tag in use with its number of pages, most used first.
+ * Pages in the trash are not counted.
+ */
+export async function fetchTagCounts(userId: string): Promise<TagCount[]> {
+  const pages = new Map<string, Set<string>>();
+
+  for (const row of await fetchActivePageTags(userId)) {
+    if (!pages.has(row.name)) pages.set(row.name, new Set());
+    pages.get(row.name)!.add(row.page_id);
+  }
+
+  return [...pages]
+    .map(([name, pageIds]) => ({ name, count: pageIds.size }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * Ids of the pages matching a tag filter
+ */
+export async function fetchTaggedPageIds(
+  tags: string[],
+  mode: TagMatchMode,
+  userId: string
+): Promise<Set<string>> {
+  const names = [...new Set(tags.map(normalizeTag).filter((tag): tag is string => tag !== null))];
+  const pageTags = new Map<string, Set<string>>();
+
+  if (names.length === 0) {
+    return new Set();
+  }
+
+  for (const row of await fetchActivePageTags(userId, names)) {
+    if (!pageTags.has(row.page_id)) pageTags.set(row.page_id, new Set());
+    pageTags.get(row.page_id)!.add(row.name);
+  }
+
+  return new Set([...pageTags].filter(([, pageTagNames]) => matchesTags(pageTagNames, names, mode)).map(([pageId]) => pageId));
+}
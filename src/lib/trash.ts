@@ -0,0 +1,188 @@
+/**
+ * Trash utilities
+ * Deleted notebooks and pages stay in the trash until they are restored,
+ * purged by hand or purged automatically after the retention period
+ */
+
+import { supabase } from './supabase';
+import { BATCH_SIZE } from './batching';
+import type { PageData } from '../types/database';
+
+const TRASH_RETENTION_KEY = 'mininote:trash-retention-days';
+
+/**
+ * Days items stay in the trash before they are purged
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Trash retention period in days; 0 keeps items until the trash is emptied
+ */
+export function getTrashRetentionDays(): number {
+  try {
+    const raw = localStorage.getItem(TRASH_RETENTION_KEY);
+    const days = raw === null ? NaN : Number(raw);
+    return Number.isFinite(days) && days >= 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  } catch (error) {
+    console.error('Failed to load trash retention:', error);
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+}
+
+/**
+ * Save the trash retention period in days
+ */
+export function setTrashRetentionDays(days: number): void {
+  try {
+    localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+  } catch (error) {
+    console.error('Failed to save trash retention:', error);
+  }
+}
+
+/**
+ * Ids of a page and the descendants that move to the trash with it.
+ * Descendants already in the trash keep their own trash entry, along with
+ * their subtrees.
+ */
+export function collectSubtreeToTrash(
+  pages: Array<Pick<PageData, 'id' | 'parent_page_id' | 'deleted_at'>>,
+  rootId: string
+): string[] {
+  const ids = [rootId];
+
+  for (let i = 0; i < ids.length; i++) {
+    pages
+      .filter(page => page.parent_page_id === ids[i] && !page.deleted_at)
+      .forEach(child => ids.push(child.id));
+  }
+
+  return ids;
+}
+
+/**
+ * Permanently delete trashed page subtrees, given the pages that were deleted.
+ * Other pages below a purged page are detached to the notebook root first, so
+ * ON DELETE CASCADE doesn't take them along.
+ */
+export async function purgeTrashedPages(rootIds: string[], userId: string): Promise<void> {
+  for (let i = 0; i < rootIds.length; i += BATCH_SIZE) {
+    const batch = rootIds.slice(i, i + BATCH_SIZE);
+
+    const { data: members, error: membersError } = await supabase
+      .from('pages')
+      .select('id')
+      .in('deleted_root_id', batch)
+      .eq('user_id', userId);
+
+    if (membersError) {
+      throw membersError;
+    }
+
+    const memberIds = (members || []).map(member => member.id);
+    const memberSet = new Set(memberIds);
+
+    for (let j = 0; j < memberIds.length; j += BATCH_SIZE) {
+      const { data: children, error: childrenError } = await supabase
+        .from('pages')
+        .select('id')
+        .in('parent_page_id', memberIds.slice(j, j + BATCH_SIZE))
+        .eq('user_id', userId);
+
+      if (childrenError) {
+        throw childrenError;
+      }
+
+      const detachIds = (children || []).map(child => child.id).filter(id => !memberSet.has(id));
+
+      if (detachIds.length > 0) {
+        const { error } = await supabase
+          .from('pages')
+          .update({ parent_page_id: null })
+          .in('id', detachIds)
+          .eq('user_id', userId);
+
+        if (error) {
+          throw error;
+        }
+      }
+    }
+
+    const { error } = await supabase
+      .from('pages')
+      .delete()
+      .in('deleted_root_id', batch)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Permanently delete trashed notebooks with all of their pages
+ */
+export async function purgeTrashedNotebooks(notebookIds: string[], userId: string): Promise<void> {
+  for (let i = 0; i < notebookIds.length; i += BATCH_SIZE) {
+    const { error } = await supabase
+      .from('notebooks')
+      .delete()
+      .in('id', notebookIds.slice(i, i + BATCH_SIZE))
+      .eq('user_id', userId)
+      .not('deleted_at', 'is', null);
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Purge everything that has been in the trash longer than the retention period
+ * Returns the number of notebooks and pages purged
+ */
+export async function purgeExpiredTrash(
+  userId: string,
+  retentionDays: number = getTrashRetentionDays(),
+  now: number = Date.now()
+): Promise<number> {
+  if (retentionDays <= 0) {
+    return 0;
+  }
+
+  const cutoff = new Date(now - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const [notebooksResult, pagesResult] = await Promise.all([
+    supabase
+      .from('notebooks')
+      .select('id')
+      .eq('user_id', userId)
+      .lt('deleted_at', cutoff),
+    supabase
+      .from('pages')
+      .select('deleted_root_id')
+      .eq('user_id', userId)
+      .lt('deleted_at', cutoff),
+  ]);
+
+  if (notebooksResult.error) {
+    throw notebooksResult.error;
+  }
+
+  if (pagesResult.error) {
+    throw pagesResult.error;
+  }
+
+  const notebookIds = (notebooksResult.data || []).map(notebook => notebook.id);
+  const rootIds = [...new Set(
+    (pagesResult.data || [])
+      .map(page => page.deleted_root_id)
+      .filter((id): id is string => !!id)
+  )];
+
+  await purgeTrashedNotebooks(notebookIds, userId);
+  await purgeTrashedPages(rootIds, userId);
+
+  return notebookIds.length + rootIds.length;
+}
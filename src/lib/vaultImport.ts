@@ -0,0 +1,250 @@
+/**
+ * Markdown vault import
+ * Turns a folder of markdown notes (an Obsidian vault or any plain markdown
+ * folder) into an import plan. Subfolders become nested pages, embedded files
+ * are uploaded as attachments and [[wikilinks]] become internal page links.
+ */
+
+import { generateKeysBetween } from './pageOrder';
+import {
+  MARKDOWN_LINK_PATTERN,
+  WIKILINK_PATTERN,
+  decodeLinkTarget,
+  getFileExtension,
+  getFileName,
+  getFolderPath,
+  isExternalLink,
+  removeFileExtension,
+  type ImportFile,
+  type ImportPlan,
+  type PlannedPage,
+  type SkippedImportFile,
+} from './importPlan';
+
+const MARKDOWN_EXTENSIONS = ['md', 'markdown'];
+
+function isMarkdown(path: string): boolean {
+  return MARKDOWN_EXTENSIONS.includes(getFileExtension(path));
+}
+
+/**
+ * Resolve `.` and `..` segments of a vault path
+ */
+function normalizePath(path: string): string | null {
+  const segments: string[] = [];
+
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join('/');
+}
+
+/**
+ * Split YAML front matter off a note. A `title` field, as written by the
+ * notebook export, becomes the page title.
+ */
+export function parseFrontMatter(content: string): { title?: string; body: string } {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) {
+    return { body: content };
+  }
+
+  const titleLine = match[1].split(/\r?\n/).find(line => line.startsWith('title:'));
+  let title = titleLine?.slice('title:'.length).trim();
+
+  if (title?.startsWith('"')) {
+    try {
+      title = JSON.parse(title) as string;
+    } catch {
+      title = title.slice(1, -1);
+    }
+  } else if (title?.startsWith("'")) {
+    title = title.slice(1, -1).replace(/''/g, "'");
+  }
+
+  return { title: title || undefined, body: content.slice(match[0].length).replace(/^\r?\n/, '') };
+}
+
+/**
+ * Find the vault file a link points to. Paths are tried relative to the note,
+ * then to the vault root; otherwise the file name is matched anywhere in the
+ * vault, preferring the closest match, as Obsidian does.
+ */
+function resolveLinkTarget(
+  target: string,
+  fromPath: string,
+  paths: Set<string>,
+  pathsByName: Map<string, string[]>,
+  defaultExtension?: string
+): string | null {
+  const candidates = [target];
+  if (defaultExtension && !getFileExtension(target)) {
+    candidates.unshift(`${target}.${defaultExtension}`);
+  }
+
+  for (const candidate of candidates) {
+    for (const path of [normalizePath(`${getFolderPath(fromPath)}/${candidate}`), normalizePath(candidate)]) {
+      if (path && paths.has(path)) {
+        return path;
+      }
+    }
+  }
+
+  for (const candidate of candidates) {
+    const matches = pathsByName.get(getFileName(candidate).toLowerCase());
+    if (matches && matches.length > 0) {
+      const folder = getFolderPath(fromPath);
+      return [...matches].sort((a, b) => (
+        Number(getFolderPath(b) === folder) - Number(getFolderPath(a) === folder) ||
+        a.split('/').length - b.split('/').length ||
+        a.localeCompare(b)
+      ))[0];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Work out the notebook an import creates, without writing anything
+ */
+export function planVaultImport(
+  files: ImportFile[],
+  fallbackTitle = 'Imported Notes',
+  createId: () => string = () => crypto.randomUUID()
+): ImportPlan {
+  // Hidden files and folders hold app settings (.obsidian, .trash), not notes
+  let visible = files.filter(file => (
+    !file.path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX')
+  ));
+
+  // A picked folder or a zipped folder puts everything under one top folder
+  let notebookTitle = fallbackTitle;
+  const topFolders = new Set(visible.map(file => (file.path.includes('/') ? file.path.split('/')[0] : '')));
+  if (topFolders.size === 1 && !topFolders.has('')) {
+    notebookTitle = [...topFolders][0];
+    visible = visible.map(file => ({ ...file, path: file.path.slice(notebookTitle.length + 1) }));
+  }
+
+  const decoder = new TextDecoder();
+  const notes = new Map<string, string>();
+  const others = new Map<string, Uint8Array>();
+
+  visible.forEach(file => {
+    if (isMarkdown(file.path)) {
+      notes.set(file.path, decoder.decode(file.data));
+    } else {
+      others.set(file.path, file.data);
+    }
+  });
+
+  // Folders that contain notes become pages; a note next to the folder with
+  // the same name is used as that page, otherwise it is left empty
+  const folders = new Set<string>();
+  const notesByFolder = new Map<string, string[]>();
+  notes.forEach((_content, path) => {
+    notesByFolder.set(getFolderPath(path), [...(notesByFolder.get(getFolderPath(path)) || []), path]);
+    for (let folder = getFolderPath(path); folder; folder = getFolderPath(folder)) {
+      folders.add(folder);
+    }
+  });
+
+  const pages: PlannedPage[] = [];
+  const pageIdsByPath: Record<string, string> = {};
+
+  const visit = (folder: string, parentId: string | null) => {
+    const childFolders = [...folders].filter(path => getFolderPath(path) === folder);
+    const childNotes = new Map((notesByFolder.get(folder) || []).map(path => [removeFileExtension(path), path]));
+
+    const entries = [
+      ...childFolders.map(path => ({ path, name: getFileName(path), notePath: childNotes.get(path), isFolder: true })),
+      ...[...childNotes.values()]
+        .filter(path => !folders.has(removeFileExtension(path)))
+        .map(path => ({ path, name: removeFileExtension(getFileName(path)), notePath: path, isFolder: false })),
+    ].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+
+    const keys = generateKeysBetween(null, null, entries.length);
+
+    entries.forEach((entry, index) => {
+      const { title, body } = parseFrontMatter(entry.notePath ? notes.get(entry.notePath)! : '');
+      const page: PlannedPage = {
+        id: createId(),
+        path: entry.notePath ?? entry.path,
+        title: title || entry.name,
+        content: body,
+        parentId,
+        sortOrder: keys[index],
+        references: {},
+      };
+
+      pages.push(page);
+      if (entry.notePath) {
+        pageIdsByPath[entry.notePath] = page.id;
+      }
+      if (entry.isFolder) {
+        visit(entry.path, page.id);
+      }
+    });
+  };
+
+  visit('', null);
+
+  // Resolve links and embeds against every file in the vault
+  const paths = new Set([...notes.keys(), ...others.keys()]);
+  const pathsByName = new Map<string, string[]>();
+  paths.forEach(path => {
+    const names = [getFileName(path).toLowerCase()];
+    if (isMarkdown(path)) names.push(removeFileExtension(getFileName(path)).toLowerCase());
+    names.forEach(name => pathsByName.set(name, [...(pathsByName.get(name) || []), path]));
+  });
+
+  const assets: Record<string, Uint8Array> = {};
+  const skipped: SkippedImportFile[] = [];
+  const missing = new Set<string>();
+
+  pages.forEach(page => {
+    const addReference = (target: string, embed: boolean, wiki: boolean) => {
+      const path = resolveLinkTarget(target, page.path, paths, pathsByName, wiki ? 'md' : undefined);
+
+      if (!path) {
+        if (embed && !missing.has(`${page.path}:${target}`)) {
+          missing.add(`${page.path}:${target}`);
+          skipped.push({ path: target, reason: `Embedded in ${page.path} but not found` });
+        }
+        return;
+      }
+
+      if (isMarkdown(path) || others.has(path)) {
+        page.references[target] = path;
+      }
+      if (others.has(path)) {
+        assets[path] = others.get(path)!;
+      }
+    };
+
+    for (const match of page.content.matchAll(WIKILINK_PATTERN)) {
+      addReference(match[2].trim(), match[1] === '!', true);
+    }
+
+    for (const match of page.content.matchAll(MARKDOWN_LINK_PATTERN)) {
+      if (!isExternalLink(match[3])) {
+        addReference(decodeLinkTarget(match[3]), match[1] === '!', false);
+      }
+    }
+  });
+
+  others.forEach((_data, path) => {
+    if (!assets[path]) {
+      skipped.push({ path, reason: 'Not a markdown note or a file embedded in one' });
+    }
+  });
+
+  return { notebookTitle, pages, pageIdsByPath, assets, skipped };
+}
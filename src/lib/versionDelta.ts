@@ -0,0 +1,171 @@
+/**
+ * Version delta storage
+ * Page versions are stored as periodic full keyframes, with the versions in
+ * between stored as line deltas against the version before them
+ */
+
+import { diffSequences, diffSequencesWithin, splitLines, type DiffEdit } from './diff';
+import type { PageVersionData, VersionDeltaOp } from '../types/database';
+
+/**
+ * Longest run of deltas before a version is stored in full again
+ */
+export const KEYFRAME_INTERVAL = 20;
+
+/**
+ * Most changed lines a delta is computed for. Larger rewrites are stored as
+ * keyframes, which also bounds the time spent diffing on save.
+ */
+export const MAX_DELTA_EDITS = 2000;
+
+/**
+ * How a version's content is stored
+ */
+export type StoredVersionContent = Pick<PageVersionData, 'content' | 'base_version_id' | 'delta'>;
+
+/**
+ * A version that a new delta can be made against
+ */
+export interface DeltaBase {
+  id: string;
+  content: string; // Full content
+  depth: number; // Deltas between this version and its keyframe
+}
+
+type StoredVersion = Pick<PageVersionData, 'id' | 'content' | 'base_version_id' | 'delta'>;
+
+function toDeltaOps(edits: DiffEdit<string>[]): VersionDeltaOp[] {
+  const ops: VersionDeltaOp[] = [];
+
+  edits.forEach(edit => {
+    const last = ops[ops.length - 1];
+
+    if (edit.type === 'equal') {
+      if (last && 'copy' in last && last.copy + last.count === edit.oldIndex) {
+        last.count++;
+      } else {
+        ops.push({ copy: edit.oldIndex!, count: 1 });
+      }
+    } else if (edit.type === 'insert') {
+      if (last && 'insert' in last) {
+        last.insert.push(edit.value);
+      } else {
+        ops.push({ insert: [edit.value] });
+      }
+    }
+  });
+
+  return ops;
+}
+
+/**
+ * Line delta that turns `base` into `target`
+ */
+export function createDelta(base: string, target: string): VersionDeltaOp[] {
+  return toDeltaOps(diffSequences(splitLines(base), splitLines(target)));
+}
+
+/**
+ * Rebuild the content a delta was made for from its base
+ */
+export function applyDelta(base: string, delta: VersionDeltaOp[]): string {
+  const baseLines = splitLines(base);
+  const lines: string[] = [];
+
+  delta.forEach(op => {
+    if ('insert' in op) {
+      op.insert.forEach(line => lines.push(line));
+      return;
+    }
+
+    if (op.copy + op.count > baseLines.length) {
+      throw new Error('Version delta does not match its base');
+    }
+
+    for (let i = op.copy; i < op.copy + op.count; i++) {
+      lines.push(baseLines[i]);
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Choose how to store `content` when the previous version is `base`.
+ * A keyframe is stored when there is no base, the delta chain is due a
+ * keyframe, more than MAX_DELTA_EDITS lines changed, or the delta would not
+ * be smaller than the content itself.
+ */
+export function encodeVersionContent(content: string, base: DeltaBase | null): StoredVersionContent {
+  if (base && base.depth + 1 < KEYFRAME_INTERVAL) {
+    const edits = diffSequencesWithin(splitLines(base.content), splitLines(content), MAX_DELTA_EDITS);
+    const delta = edits && toDeltaOps(edits);
+
+    if (delta && JSON.stringify(delta).length < content.length) {
+      return { content: '', base_version_id: base.id, delta };
+    }
+  }
+
+  return { content, base_version_id: null, delta: null };
+}
+
+/**
+ * Number of deltas between a version and the keyframe its chain starts from
+ */
+export function deltaDepth(versions: StoredVersion[], versionId: string): number {
+  const byId = new Map(versions.map(version => [version.id, version]));
+  let depth = 0;
+  let current = byId.get(versionId);
+
+  while (current?.delta && depth <= versions.length) {
+    depth++;
+    current = byId.get(current.base_version_id ?? '');
+  }
+
+  return depth;
+}
+
+/**
+ * Reconstruct the full content of versions stored as deltas.
+ * Every version a delta depends on must be in `versions`. The returned
+ * versions are self-contained: their delta fields are cleared.
+ */
+export function reconstructVersions<T extends StoredVersion>(versions: T[]): T[] {
+  const byId = new Map(versions.map(version => [version.id, version]));
+  const contents = new Map<string, string>();
+
+  const contentOf = (version: T): string => {
+    // Walk back to the nearest keyframe or already reconstructed version
+    const chain: T[] = [];
+    let current: T | undefined = version;
+
+    while (current?.delta && !contents.has(current.id)) {
+      if (chain.length > versions.length) {
+        throw new Error('Version delta chain is circular');
+      }
+
+      chain.push(current);
+      current = byId.get(current.base_version_id ?? '');
+    }
+
+    if (!current) {
+      throw new Error(`Version ${chain[chain.length - 1].id} cannot be reconstructed: its base version is missing`);
+    }
+
+    let content = contents.get(current.id) ?? current.content;
+    contents.set(current.id, content);
+
+    for (let i = chain.length - 1; i >= 0; i--) {
+      content = applyDelta(content, chain[i].delta!);
+      contents.set(chain[i].id, content);
+    }
+
+    return content;
+  };
+
+  return versions.map(version => (
+    version.delta || version.base_version_id
+      ? { ...version, content: contentOf(version), base_version_id: null, delta: null }
+      : version
+  ));
+}
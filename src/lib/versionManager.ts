@@ -4,14 +4,22 @@
  */
 
 import { supabase } from './supabase';
-import type { PageVersionData } from '../types/database';
+import { BATCH_SIZE } from './batching';
+import { deltaDepth, encodeVersionContent, reconstructVersions, KEYFRAME_INTERVAL, type DeltaBase } from './versionDelta';
+import type { PageVersionData, RetentionPolicy } from '../types/database';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
 
 /**
  * Configuration for version management
  */
 export interface VersionConfig {
-  maxVersions: number; // Maximum number of versions to keep per page
+  maxVersions: number; // Maximum number of unpinned versions to keep per page
   autoCleanup: boolean; // Whether to automatically cleanup old versions
+  coalesceWindowMs: number; // Saves within this window of the latest version update it instead of adding one (0 disables)
+  retention?: RetentionPolicy | null; // Tiered time-based retention, applied before maxVersions
 }
 
 /**
@@ -20,8 +28,171 @@ export interface VersionConfig {
 export const DEFAULT_VERSION_CONFIG: VersionConfig = {
   maxVersions: 50, // Keep last 50 versions
   autoCleanup: true,
+  coalesceWindowMs: 5 * 60 * 1000, // Collapse saves made within 5 minutes
+  retention: null,
 };
 
+/**
+ * Every version for a day, hourly for a week, daily for a month, weekly forever
+ */
+export const TIERED_RETENTION_POLICY: RetentionPolicy = {
+  tiers: [
+    { maxAgeMs: DAY_MS, intervalMs: 0 },
+    { maxAgeMs: WEEK_MS, intervalMs: HOUR_MS },
+    { maxAgeMs: 30 * DAY_MS, intervalMs: DAY_MS },
+    { maxAgeMs: null, intervalMs: WEEK_MS },
+  ],
+};
+
+/**
+ * Page state stored in a version
+ */
+export type VersionSnapshot = Pick<PageVersionData, 'title' | 'content' | 'version'>;
+
+/**
+ * How a page save is recorded in its history
+ * - coalesce: overwrite the latest version with the new state
+ * - insert: add new versions
+ */
+export type VersionWrite =
+  | { type: 'coalesce'; versionId: string; snapshot: VersionSnapshot }
+  | { type: 'insert'; snapshots: VersionSnapshot[] };
+
+/**
+ * Decide how to record a save that replaced `previous` with `next`.
+ * The latest version is overwritten when it holds the replaced state, was
+ * created within the coalescing window and is not labeled or pinned.
+ * Otherwise the new state is inserted, along with the replaced state if it
+ * was never recorded.
+ */
+export function planVersionWrite(
+  latest: Pick<PageVersionData, 'id' | 'version' | 'created_at' | 'label' | 'is_pinned'> | null | undefined,
+  previous: VersionSnapshot,
+  next: VersionSnapshot,
+  config: VersionConfig = DEFAULT_VERSION_CONFIG,
+  now: number = Date.now()
+): VersionWrite {
+  const latestIsPrevious = !!latest && latest.version === previous.version;
+
+  const isKept = !!latest?.label || !!latest?.is_pinned;
+
+  if (latestIsPrevious && !isKept && now - new Date(latest.created_at).getTime() < config.coalesceWindowMs) {
+    return { type: 'coalesce', versionId: latest.id, snapshot: next };
+  }
+
+  return { type: 'insert', snapshots: latestIsPrevious ? [next] : [previous, next] };
+}
+
+/**
+ * Sort order for versions of a page, newest first
+ */
+export function compareNewestFirst(
+  a: Pick<PageVersionData, 'version' | 'created_at'>,
+  b: Pick<PageVersionData, 'version' | 'created_at'>
+): number {
+  return b.version - a.version || b.created_at.localeCompare(a.created_at);
+}
+
+/**
+ * Fetch the stored versions of a page, newest first
+ * Delta versions are returned as stored; see reconstructVersions
+ */
+export async function fetchPageVersions(
+  pageId: string,
+  userId: string
+): Promise<PageVersionData[]> {
+  const { data, error } = await supabase
+    .from('page_versions')
+    .select('*')
+    .eq('page_id', pageId)
+    .eq('user_id', userId) as { data: PageVersionData[] | null; error: any };
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []).sort(compareNewestFirst);
+}
+
+async function fetchVersion(versionId: string, userId: string): Promise<PageVersionData | null> {
+  const { data, error } = await supabase
+    .from('page_versions')
+    .select('*')
+    .eq('id', versionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Fetch the latest version of a page and the versions its delta chain
+ * depends on, newest first. Keyframes every KEYFRAME_INTERVAL versions
+ * bound the chain, so the rows read don't grow with the page's history.
+ * Returns an empty list for a page without versions.
+ */
+export async function fetchLatestVersionChain(
+  pageId: string,
+  userId: string
+): Promise<PageVersionData[]> {
+  // A chain normally runs through the newest versions, so one query covers it
+  const { data, error } = await supabase
+    .from('page_versions')
+    .select('*')
+    .eq('page_id', pageId)
+    .eq('user_id', userId)
+    .order('version', { ascending: false })
+    .order('created_at', { ascending: false })
+    .limit(KEYFRAME_INTERVAL);
+
+  if (error) {
+    throw error;
+  }
+
+  const recent = new Map((data || []).map(version => [version.id, version]));
+  const chain: PageVersionData[] = [];
+  let current: PageVersionData | undefined = data?.[0];
+
+  while (current && !chain.some(version => version.id === current?.id)) {
+    chain.push(current);
+
+    const baseId: string | null | undefined = current.delta ? current.base_version_id : null;
+    if (!baseId) {
+      break;
+    }
+
+    // A missing base is reported when the chain is reconstructed
+    current = recent.get(baseId) ?? await fetchVersion(baseId, userId) ?? undefined;
+  }
+
+  return chain;
+}
+
+/**
+ * Full content of a version, following its delta chain if it has one
+ */
+export async function resolveVersion(
+  version: PageVersionData,
+  userId: string
+): Promise<PageVersionData> {
+  if (!version.delta) {
+    return version;
+  }
+
+  const resolved = reconstructVersions(await fetchPageVersions(version.page_id, userId))
+    .find(candidate => candidate.id === version.id);
+
+  if (!resolved) {
+    throw new Error('Version not found');
+  }
+
+  return resolved;
+}
+
 /**
  * Create a version snapshot of a page
  * This is called automatically before updating a page
@@ -58,9 +229,197 @@ export async function createVersionSnapshot(
   }
 }
 
+/**
+ * Record a page save in its version history, coalescing rapid saves
+ * Failures are logged and never block the save itself
+ */
+export async function recordPageVersion(
+  pageId: string,
+  previous: VersionSnapshot,
+  next: VersionSnapshot,
+  userId: string,
+  config: VersionConfig = DEFAULT_VERSION_CONFIG
+): Promise<VersionWrite | null> {
+  try {
+    const chain = await fetchLatestVersionChain(pageId, userId);
+    const latest = chain[0] ?? null;
+    const write = planVersionWrite(latest, previous, next, config);
+    const contents = new Map(reconstructVersions(chain).map(version => [version.id, version.content]));
+    const baseFor = (id: string): DeltaBase => ({
+      id,
+      content: contents.get(id)!,
+      depth: deltaDepth(chain, id),
+    });
+
+    if (write.type === 'coalesce') {
+      // The latest version has no dependents, so only its own delta changes
+      const { error } = await (supabase
+        .from('page_versions')
+        .update as any)({
+          title: write.snapshot.title,
+          version: write.snapshot.version,
+          ...encodeVersionContent(
+            write.snapshot.content,
+            latest?.base_version_id && contents.has(latest.base_version_id) ? baseFor(latest.base_version_id) : null
+          ),
+        })
+        .eq('id', write.versionId)
+        .eq('user_id', userId);
+
+      if (error) {
+        console.error('Failed to update latest version:', error);
+        return null;
+      }
+
+      return write;
+    }
+
+    // Each new version is stored against the one before it
+    let base = latest ? baseFor(latest.id) : null;
+    const rows = write.snapshots.map(snapshot => {
+      const id = crypto.randomUUID();
+      const stored = encodeVersionContent(snapshot.content, base);
+      base = { id, content: snapshot.content, depth: stored.delta && base ? base.depth + 1 : 0 };
+
+      return {
+        id,
+        page_id: pageId,
+        title: snapshot.title,
+        version: snapshot.version,
+        user_id: userId,
+        ...stored,
+      };
+    });
+
+    const { error } = await supabase
+      .from('page_versions')
+      .insert(rows as any);
+
+    if (error) {
+      console.error('Failed to create version snapshot:', error);
+      return null;
+    }
+
+    cleanupOldVersions(pageId, userId, config).catch((err) => {
+      console.error('Failed to cleanup old versions:', err);
+    });
+
+    return write;
+  } catch (error) {
+    console.error('Error recording page version:', error);
+    return null;
+  }
+}
+
+/**
+ * Pick the versions to delete so that only the latest `keep` unpinned
+ * versions remain. Pinned versions are never selected and don't count
+ * towards `keep`. Expects versions sorted newest first.
+ */
+export function selectVersionsToPrune(
+  versions: Array<Pick<PageVersionData, 'id' | 'is_pinned'>>,
+  keep: number
+): string[] {
+  return versions
+    .filter(version => !version.is_pinned)
+    .slice(keep)
+    .map(version => version.id);
+}
+
+/**
+ * Versions a cleanup would keep and remove
+ */
+export interface VersionCleanupPlan<T> {
+  keep: T[];
+  prune: T[];
+}
+
+/**
+ * Work out which versions of one page a cleanup removes, without deleting anything.
+ * The newest version and pinned versions are always kept. With a retention
+ * policy, each version falls into the first tier younger than its age and only
+ * the newest version per tier interval survives; versions older than every
+ * tier are removed. `maxVersions` then caps the unpinned versions left.
+ */
+export function planVersionCleanup<T extends Pick<PageVersionData, 'id' | 'version' | 'created_at' | 'is_pinned'>>(
+  versions: T[],
+  config: VersionConfig = DEFAULT_VERSION_CONFIG,
+  now: number = Date.now()
+): VersionCleanupPlan<T> {
+  const sorted = [...versions].sort(compareNewestFirst);
+  const plan: VersionCleanupPlan<T> = { keep: [], prune: [] };
+  const tiers = config.retention?.tiers ?? [];
+  const usedBuckets = new Set<string>();
+  let keptUnpinned = 0;
+
+  sorted.forEach((version, index) => {
+    if (version.is_pinned) {
+      plan.keep.push(version);
+      return;
+    }
+
+    const createdAt = new Date(version.created_at).getTime();
+    let retained = index === 0 || tiers.length === 0;
+
+    if (tiers.length > 0) {
+      const tierIndex = tiers.findIndex(tier => tier.maxAgeMs === null || now - createdAt < tier.maxAgeMs);
+      const tier = tiers[tierIndex];
+
+      if (tier) {
+        if (tier.intervalMs > 0) {
+          const bucket = `${tierIndex}:${Math.floor(createdAt / tier.intervalMs)}`;
+          retained = retained || !usedBuckets.has(bucket);
+          usedBuckets.add(bucket);
+        } else {
+          retained = true;
+        }
+      }
+    }
+
+    if (retained && (index === 0 || keptUnpinned < config.maxVersions)) {
+      plan.keep.push(version);
+      keptUnpinned++;
+    } else {
+      plan.prune.push(version);
+    }
+  });
+
+  return plan;
+}
+
+/**
+ * Version config for a notebook, using its retention policy if it has one
+ */
+export async function getNotebookVersionConfig(
+  notebookId: string,
+  userId: string
+): Promise<VersionConfig> {
+  try {
+    const { data, error } = await supabase
+      .from('notebooks')
+      .select('version_retention')
+      .eq('id', notebookId)
+      .eq('user_id', userId)
+      .maybeSingle() as { data: { version_retention: RetentionPolicy | null } | null; error: any };
+
+    if (error) {
+      console.error('Failed to fetch notebook retention policy:', error);
+      return DEFAULT_VERSION_CONFIG;
+    }
+
+    return {
+      ...DEFAULT_VERSION_CONFIG,
+      retention: data?.version_retention ?? DEFAULT_VERSION_CONFIG.retention,
+    };
+  } catch (error) {
+    console.error('Error fetching notebook retention policy:', error);
+    return DEFAULT_VERSION_CONFIG;
+  }
+}
+
 /**
  * Cleanup old versions for a page
- * Keeps only the most recent N versions
+ * Applies the retention policy and keeps at most N unpinned versions
  */
 export async function cleanupOldVersions(
   pageId: string,
@@ -75,42 +434,162 @@ export async function cleanupOldVersions(
     // Get all versions for the page
     const { data: versions, error: fetchError } = await supabase
       .from('page_versions')
-      .select('id, version')
+      .select('id, version, created_at, is_pinned')
       .eq('page_id', pageId)
       .eq('user_id', userId)
-      .order('version', { ascending: false }) as { data: Array<{ id: string; version: number }> | null; error: any };
+      .order('version', { ascending: false }) as { data: Array<Pick<PageVersionData, 'id' | 'version' | 'created_at' | 'is_pinned'>> | null; error: any };
 
     if (fetchError) {
       console.error('Failed to fetch versions for cleanup:', fetchError);
       return 0;
     }
 
-    const versionList = versions || [];
+    const idsToDelete = planVersionCleanup(versions || [], config).prune.map(version => version.id);
+
+    if (idsToDelete.length > 0) {
+      await deletePageVersions(idsToDelete, userId);
+      return idsToDelete.length;
+    }
+
+    return 0;
+  } catch (error) {
+    console.error('Error cleaning up old versions:', error);
+    return 0;
+  }
+}
+
+/**
+ * Delete versions without breaking the delta chains of the versions that remain.
+ * Versions stored as deltas against a deleted version are rewritten as
+ * keyframes first. Throws on failure.
+ */
+export async function deletePageVersions(
+  versionIds: string[],
+  userId: string,
+  options: { keepPinned?: boolean } = {}
+): Promise<void> {
+  const deleted = new Set(versionIds);
+  const dependents: Array<Pick<PageVersionData, 'id' | 'page_id'>> = [];
+
+  for (let i = 0; i < versionIds.length; i += BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('page_versions')
+      .select('id, page_id')
+      .in('base_version_id', versionIds.slice(i, i + BATCH_SIZE))
+      .eq('user_id', userId) as { data: Array<Pick<PageVersionData, 'id' | 'page_id'>> | null; error: any };
+
+    if (error) {
+      throw error;
+    }
+
+    dependents.push(...(data || []).filter(version => !deleted.has(version.id)));
+  }
 
-    // Keep only the latest N versions
-    if (versionList.length > config.maxVersions) {
-      const versionsToDelete = versionList.slice(config.maxVersions);
-      const idsToDelete = versionsToDelete.map(v => v.id);
+  for (const pageId of new Set(dependents.map(version => version.page_id))) {
+    const resolved = new Map(
+      reconstructVersions(await fetchPageVersions(pageId, userId)).map(version => [version.id, version])
+    );
 
-      const { error } = await supabase
+    for (const dependent of dependents.filter(version => version.page_id === pageId)) {
+      const { error } = await (supabase
         .from('page_versions')
-        .delete()
-        .in('id', idsToDelete)
+        .update as any)({
+          content: resolved.get(dependent.id)!.content,
+          base_version_id: null,
+          delta: null,
+        })
+        .eq('id', dependent.id)
         .eq('user_id', userId);
 
       if (error) {
-        console.error('Failed to delete old versions:', error);
-        return 0;
+        throw error;
       }
+    }
+  }
 
-      return idsToDelete.length;
+  for (let i = 0; i < versionIds.length; i += BATCH_SIZE) {
+    let query = supabase
+      .from('page_versions')
+      .delete()
+      .in('id', versionIds.slice(i, i + BATCH_SIZE))
+      .eq('user_id', userId);
+
+    if (options.keepPinned) {
+      query = query.eq('is_pinned', false);
     }
 
-    return 0;
-  } catch (error) {
-    console.error('Error cleaning up old versions:', error);
-    return 0;
+    const { error } = await query;
+
+    if (error) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Re-encode the history of a page as keyframes and deltas.
+ * This migrates versions saved before delta storage, which all hold their
+ * full content. Each rewrite keeps the history readable, so it is safe to
+ * interrupt. Returns the number of versions rewritten.
+ */
+export async function compactPageVersions(
+  pageId: string,
+  userId: string
+): Promise<number> {
+  const versions = await fetchPageVersions(pageId, userId);
+  const resolved = reconstructVersions(versions);
+  let base: DeltaBase | null = null;
+  let rewritten = 0;
+
+  // Oldest first, so every base is final before versions are stored against it
+  for (let i = versions.length - 1; i >= 0; i--) {
+    const version = versions[i];
+    const stored = encodeVersionContent(resolved[i].content, base);
+
+    if ((version.base_version_id ?? null) !== stored.base_version_id) {
+      const { error } = await (supabase
+        .from('page_versions')
+        .update as any)(stored)
+        .eq('id', version.id)
+        .eq('user_id', userId);
+
+      if (error) {
+        throw error;
+      }
+
+      rewritten++;
+    }
+
+    base = { id: version.id, content: resolved[i].content, depth: stored.delta && base ? base.depth + 1 : 0 };
   }
+
+  return rewritten;
+}
+
+/**
+ * Compact the version history of every page in a notebook
+ * Returns the number of versions rewritten
+ */
+export async function compactNotebookVersions(
+  notebookId: string,
+  userId: string
+): Promise<number> {
+  const { data: pages, error } = await supabase
+    .from('pages')
+    .select('id')
+    .eq('notebook_id', notebookId)
+    .eq('user_id', userId) as { data: Array<{ id: string }> | null; error: any };
+
+  if (error) {
+    throw error;
+  }
+
+  let rewritten = 0;
+  for (const page of pages || []) {
+    rewritten += await compactPageVersions(page.id, userId);
+  }
+
+  return rewritten;
 }
 
 /**
@@ -136,7 +615,7 @@ export async function getVersionStats(
       throw error;
     }
 
-    const versionList = versions || [];
+    const versionList = reconstructVersions(versions || []);
 
     return {
       totalVersions: versionList.length,
@@ -0,0 +1,9 @@
+import { AccountBackup } from '../components/backup';
+
+export function BackupPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <AccountBackup />
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { useParams } from 'react-router-dom';
+import { GraphView } from '../components/graph';
+
+export function GraphPage() {
+  const { notebookId } = useParams<{ notebookId?: string }>();
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <GraphView notebookId={notebookId} />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { NoteImporter } from '../components/import';
+
+export function ImportPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <NoteImporter />
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useParams, Navigate } from 'react-router-dom';
-import { NotebookEditor } from '../components/notebook';
+import { DefaultTemplateSettings, NotebookEditor, VersionRetentionSettings } from '../components/notebook';
 
 export function NotebookEditPage() {
   const { notebookId } = useParams<{ notebookId: string }>();
@@ -9,8 +9,10 @@ export function NotebookEditPage() {
   }
 
   return (
-    <div className="container mx-auto px-4 py-8">
+    <div className="container mx-auto px-4 py-8 space-y-8">
       <NotebookEditor notebookId={notebookId} />
+      <DefaultTemplateSettings notebookId={notebookId} />
+      <VersionRetentionSettings notebookId={notebookId} />
     </div>
   );
 }
@@ -155,6 +155,7 @@ export function NotebookViewPageEnhanced() {
               </div>
             ) : (
               <PageTree
+                notebookId={notebookId}
                 pages={pages || []}
                 selectedPageId={selectedPageId}
                 onPageSelect={handlePageSelect}
@@ -1,8 +1,9 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { useParams, Navigate, useNavigate } from 'react-router-dom';
 import { marked } from 'marked';
 import { useNotebook } from '../hooks/useNotebooks';
-import { usePagesHierarchy, useMovePage } from '../hooks/usePages';
+import { usePage, usePageTitles, usePagesHierarchy, usePrefetchPage, useReorderPage } from '../hooks/usePages';
+import { useSetPageTemplate } from '../hooks/useTemplates';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../components/ui/dialog';
@@ -13,16 +14,25 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '../components/ui/dropdown-menu';
-import { BookOpen, Edit, ArrowLeft, Plus, Clock, MoreVertical, Trash2 } from 'lucide-react';
+import { BookOpen, Copy, Edit, ArrowLeft, Plus, Clock, Kanban, LayoutTemplate, MoreVertical, Network, Table2, Trash2 } from 'lucide-react';
 import { PageTree } from '../components/page/PageTree';
 import { PageCreator } from '../components/page/PageCreator';
 import { PageEditor } from '../components/page/PageEditor';
 import { PageDeleteDialog } from '../components/page/PageDeleteDialog';
+import { PageDuplicateDialog } from '../components/page/PageDuplicateDialog';
+import { PageSyncBadge } from '../components/page/PageSyncBadge';
+import { PageBacklinks } from '../components/page/PageBacklinks';
+import { PagePropertyValues } from '../components/page/PagePropertyValues';
+import { PageTagList, TagBrowser } from '../components/tags';
 import { VersionHistory } from '../components/page/VersionHistory';
 import { useCodeBlockCopyButtons } from '../components/page/CodeBlockCopyButton';
 import { SearchDialog } from '../components/search/SearchDialog';
 import { renderMathInHtml } from '../utils/mathRenderer';
 import { renderMermaidInHtml } from '../utils/mermaidRenderer';
+import { renderPageLinksInHtml } from '../utils/pageLinkRenderer';
+import { renderTagsInHtml } from '../utils/tagRenderer';
+import { extractPageLinkIds } from '../lib/pageLinks';
+import { useSyncStore } from '../store';
 import type { NotebookData, PageData } from '../types/database';
 
 export function NotebookViewPage() {
@@ -33,6 +43,7 @@ export function NotebookViewPage() {
 
   const [showVersionHistory, setShowVersionHistory] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showDuplicateDialog, setShowDuplicateDialog] = useState(false);
   const contentRef = useRef<HTMLDivElement>(null);
 
   // Use URL params as the source of truth for selected page and edit mode
@@ -45,24 +56,29 @@ export function NotebookViewPage() {
     error: Error | null;
   };
 
-  const { data: pages, isLoading: pagesLoading } = usePagesHierarchy(notebookId);
-  const movePage = useMovePage();
+  const { data: pages, flatPages, isLoading: pagesLoading } = usePagesHierarchy(notebookId);
+  const reorderPage = useReorderPage();
+  const setPageTemplate = useSetPageTemplate();
+  const syncStatus = useSyncStore((state) => state.pageStatus);
 
-  const flattenPages = (pageList: any[]): PageData[] => {
-    const result: PageData[] = [];
-    pageList.forEach((p) => {
-      result.push(p);
-      if (p.children && p.children.length > 0) {
-        result.push(...flattenPages(p.children));
-      }
-    });
-    return result;
-  };
+  const prefetchPage = usePrefetchPage();
 
-  const selectedPage = pages ? flattenPages(pages).find((p: PageData) => p.id === selectedPageId) : undefined;
+  // The tree only lists pages; the open page is loaded whole
+  const { data: pageData, isLoading: selectedPageLoading } = usePage(selectedPageId) as {
+    data: PageData | null | undefined;
+    isLoading: boolean;
+  };
+  const selectedPage = pageData && pageData.notebook_id === notebookId && !pageData.deleted_at ? pageData : undefined;
 
   const [pageContentHtml, setPageContentHtml] = useState('');
 
+  // Linked pages are shown with their current titles
+  const linkedPageIds = useMemo(
+    () => extractPageLinkIds(selectedPage?.content ?? ''),
+    [selectedPage?.content]
+  );
+  const { data: linkedPages } = usePageTitles(linkedPageIds);
+
   // Convert markdown to HTML for display
   useEffect(() => {
     const renderContent = async () => {
@@ -72,13 +88,15 @@ export function NotebookViewPage() {
       }
       
       const html = marked(selectedPage.content, { async: false }) as string;
-      const htmlWithMath = renderMathInHtml(html);
+      const htmlWithLinks = renderPageLinksInHtml(html, linkedPages);
+      const htmlWithTags = renderTagsInHtml(htmlWithLinks);
+      const htmlWithMath = renderMathInHtml(htmlWithTags);
       const htmlWithMermaid = await renderMermaidInHtml(htmlWithMath);
       setPageContentHtml(htmlWithMermaid);
     };
 
     renderContent();
-  }, [selectedPage?.content]);
+  }, [selectedPage?.content, linkedPages]);
 
   // Add copy buttons to code blocks in view mode
   useCodeBlockCopyButtons(contentRef, selectedPage?.id);
@@ -97,14 +115,20 @@ export function NotebookViewPage() {
     setShowDeleteDialog(false);
   };
 
-  const handlePageMove = async (pageId: string, newParentId: string | null, position?: 'before' | 'after') => {
-    console.log('handlePageMove called:', { pageId, newParentId, position });
+  const handlePageMove = async (
+    pageId: string,
+    newParentId: string | null,
+    position?: 'before' | 'after',
+    targetPageId?: string
+  ) => {
     try {
-      await movePage.mutateAsync({
+      await reorderPage.mutateAsync({
         id: pageId,
+        notebook_id: notebookId!,
         parent_page_id: newParentId,
+        anchor_page_id: targetPageId,
+        position,
       });
-      console.log('Page moved successfully');
     } catch (error) {
       console.error('Failed to move page:', error);
     }
@@ -208,6 +232,27 @@ export function NotebookViewPage() {
                   </Button>
                 }
               />
+              <Button
+                variant="outline"
+                onClick={() => navigate(`/notebooks/${notebookId}/table`)}
+                title="Table"
+              >
+                <Table2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => navigate(`/notebooks/${notebookId}/board`)}
+                title="Board"
+              >
+                <Kanban className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => navigate(`/notebooks/${notebookId}/graph`)}
+                title="Graph"
+              >
+                <Network className="h-4 w-4" />
+              </Button>
               <Button
                 variant="outline"
                 onClick={() => navigate(`/notebooks/${notebookId}/edit`)}
@@ -224,7 +269,7 @@ export function NotebookViewPage() {
               <div className="text-sm text-muted-foreground flex items-center gap-6">
                 <span>Created: {new Date(notebook.created_at).toLocaleDateString()}</span>
                 <span>Last updated: {new Date(notebook.updated_at).toLocaleDateString()}</span>
-                <span>Total pages: {pages ? flattenPages(pages).length : 0}</span>
+                <span>Total pages: {flatPages?.length ?? 0}</span>
               </div>
             </CardContent>
           </Card>
@@ -246,20 +291,35 @@ export function NotebookViewPage() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="relative">
-                  {movePage.isPending && (
+                  {reorderPage.isPending && (
                     <div className="absolute inset-0 bg-background/50 flex items-center justify-center z-10 rounded-lg">
                       <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary" />
                     </div>
                   )}
                   <PageTree
+                    notebookId={notebookId}
                     pages={pages}
                     selectedPageId={selectedPageId}
                     onPageSelect={handlePageSelect}
+                    onPageHover={prefetchPage}
                     onPageMove={handlePageMove}
+                    syncStatus={syncStatus}
                     className="max-h-[600px] overflow-y-auto"
                   />
                 </CardContent>
               </Card>
+
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle>Tags</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <TagBrowser
+                    onTagClick={tag => navigate(`/tags?tags=${encodeURIComponent(tag)}`)}
+                    className="max-h-[300px] overflow-y-auto"
+                  />
+                </CardContent>
+              </Card>
             </div>
 
             {/* Right Content - Page Editor/Viewer */}
@@ -271,10 +331,21 @@ export function NotebookViewPage() {
                       <CardHeader>
                         <div className="flex items-center justify-between">
                           <div>
-                            <CardTitle>{selectedPage.title}</CardTitle>
+                            <div className="flex items-center gap-2">
+                              <CardTitle>{selectedPage.title}</CardTitle>
+                              {selectedPage.is_template && (
+                                <span className="rounded-full border px-2 py-0.5 text-xs text-muted-foreground">
+                                  Template
+                                </span>
+                              )}
+                              <PageSyncBadge pageId={selectedPage.id} />
+                            </div>
                             <CardDescription>
                               Last updated: {new Date(selectedPage.updated_at).toLocaleString()} • Version {selectedPage.version}
                             </CardDescription>
+                            <div className="mt-2">
+                              <PageTagList pageId={selectedPage.id} />
+                            </div>
                           </div>
                           <DropdownMenu>
                             <DropdownMenuTrigger asChild>
@@ -291,6 +362,17 @@ export function NotebookViewPage() {
                                 <Clock className="mr-2 h-4 w-4" />
                                 Version History
                               </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => setShowDuplicateDialog(true)}>
+                                <Copy className="mr-2 h-4 w-4" />
+                                Duplicate Page
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setPageTemplate.mutate({ id: selectedPage.id, is_template: !selectedPage.is_template })}
+                                disabled={setPageTemplate.isPending}
+                              >
+                                <LayoutTemplate className="mr-2 h-4 w-4" />
+                                {selectedPage.is_template ? 'Stop Using as Template' : 'Use as Template'}
+                              </DropdownMenuItem>
                               <DropdownMenuSeparator />
                               <DropdownMenuItem
                                 onClick={() => setShowDeleteDialog(true)}
@@ -305,8 +387,12 @@ export function NotebookViewPage() {
                       </CardHeader>
                     )}
                     <CardContent className={isEditing ? 'pt-6' : ''}>
+                      {!isEditing && (
+                        <PagePropertyValues properties={selectedPage.properties} className="mb-6 border-b pb-4" />
+                      )}
                       {isEditing ? (
                         <PageEditor
+                          key={selectedPage.id}
                           page={selectedPage}
                           onSuccess={handleSaveSuccess}
                           onCancel={handleCancelEdit}
@@ -323,6 +409,12 @@ export function NotebookViewPage() {
                     </CardContent>
                   </Card>
 
+                  {!isEditing && (
+                    <div className="mt-6">
+                      <PageBacklinks pageId={selectedPage.id} title={selectedPage.title} />
+                    </div>
+                  )}
+
                   {/* Version History Dialog */}
                   <Dialog open={showVersionHistory} onOpenChange={setShowVersionHistory}>
                     <DialogContent className="max-w-4xl max-h-[90vh]">
@@ -344,6 +436,15 @@ export function NotebookViewPage() {
                     </DialogContent>
                   </Dialog>
 
+                  {showDuplicateDialog && (
+                    <PageDuplicateDialog
+                      page={selectedPage}
+                      open={showDuplicateDialog}
+                      onOpenChange={setShowDuplicateDialog}
+                      onSuccess={(copy) => navigate(`/notebooks/${copy.notebook_id}/pages/${copy.id}`)}
+                    />
+                  )}
+
                   {/* Delete Confirmation Dialog */}
                   {showDeleteDialog && (
                     <PageDeleteDialog
@@ -355,6 +456,10 @@ export function NotebookViewPage() {
                     />
                   )}
                 </>
+              ) : selectedPageLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+                </div>
               ) : (
                 <Card>
                   <CardContent className="py-12">
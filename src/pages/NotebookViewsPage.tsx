@@ -0,0 +1,21 @@
+import { useParams } from 'react-router-dom';
+import { NotebookViews } from '../components/views';
+import type { NotebookViewType } from '../types/database';
+
+interface NotebookViewsPageProps {
+  type?: NotebookViewType;
+}
+
+export function NotebookViewsPage({ type }: NotebookViewsPageProps) {
+  const { notebookId, viewId } = useParams<{ notebookId: string; viewId?: string }>();
+
+  if (!notebookId) {
+    return null;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <NotebookViews key={viewId ?? type} notebookId={notebookId} type={type} viewId={viewId} />
+    </div>
+  );
+}
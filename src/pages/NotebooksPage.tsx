@@ -1,7 +1,11 @@
+import { useNavigate } from 'react-router-dom';
+import { DatabaseBackup, Hash, Network, Trash2, Upload } from 'lucide-react';
+import { Button } from '../components/ui/button';
 import { NotebookList } from '../components/notebook';
 import { SearchDialog } from '../components/search/SearchDialog';
 
 export function NotebooksPage() {
+  const navigate = useNavigate();
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -14,6 +18,21 @@ export function NotebooksPage() {
         </div>
         <div className="flex items-center gap-2">
           <SearchDialog />
+          <Button variant="outline" size="sm" onClick={() => navigate('/graph')} title="Graph">
+            <Network className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => navigate('/tags')} title="Tags">
+            <Hash className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => navigate('/import')} title="Import">
+            <Upload className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => navigate('/backup')} title="Backup & Restore">
+            <DatabaseBackup className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => navigate('/trash')} title="Trash">
+            <Trash2 className="h-4 w-4" />
+          </Button>
           <NotebookList showHeaderOnly />
         </div>
       </div>
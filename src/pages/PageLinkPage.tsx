@@ -0,0 +1,53 @@
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { usePage } from '../hooks/usePages';
+import { Button } from '../components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+
+/**
+ * Target of page links (`#/pages/<id>`): opens the page in its current notebook
+ */
+export function PageLinkPage() {
+  const { pageId } = useParams<{ pageId: string }>();
+  const navigate = useNavigate();
+  const { data: page, isLoading, error } = usePage(pageId);
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-2">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto" />
+            <p className="text-sm text-muted-foreground">Opening page...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (page && !page.deleted_at) {
+    return <Navigate to={`/notebooks/${page.notebook_id}/pages/${page.id}`} replace />;
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <Card className="border-destructive">
+        <CardHeader>
+          <CardTitle className="text-destructive">Page Not Available</CardTitle>
+          <CardDescription>
+            {page?.deleted_at
+              ? `"${page.title}" is in the trash. Restore it to follow links to it.`
+              : 'The linked page no longer exists.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={() => navigate(page?.deleted_at ? '/trash' : '/notebooks')}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            {page?.deleted_at ? 'Go to Trash' : 'Back to Notebooks'}
+          </Button>
+          {error && <p className="mt-4 text-sm text-muted-foreground">{error.message}</p>}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { TagView } from '../components/tags';
+
+export function TagsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <TagView />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { TrashView } from '../components/trash';
+
+export function TrashPage() {
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <TrashView />
+    </div>
+  );
+}
@@ -2,3 +2,10 @@ export { NotebooksPage } from './NotebooksPage';
 export { NotebookCreatePage } from './NotebookCreatePage';
 export { NotebookEditPage } from './NotebookEditPage';
 export { NotebookViewPage } from './NotebookViewPage';
+export { TrashPage } from './TrashPage';
+export { ImportPage } from './ImportPage';
+export { BackupPage } from './BackupPage';
+export { PageLinkPage } from './PageLinkPage';
+export { GraphPage } from './GraphPage';
+export { TagsPage } from './TagsPage';
+export { NotebookViewsPage } from './NotebookViewsPage';
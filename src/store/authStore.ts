@@ -2,6 +2,8 @@ import { create } from 'zustand';
 import type { User as SupabaseUser } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
 import { queryClient } from '@/lib/queryClient';
+import { localStore } from '@/lib/localStore';
+import { clearAllDrafts } from '@/lib/draftStore';
 import type { User } from '@/types';
 
 interface AuthState {
@@ -87,6 +89,10 @@ export const useAuthStore = create<AuthStore>((set) => ({
         // Clear query cache when user signs out or session expires
         if (event === 'SIGNED_OUT' || (!session && event === 'TOKEN_REFRESHED')) {
           queryClient.clear();
+          clearAllDrafts();
+          localStore.clear().catch((err) => {
+            console.error('Failed to clear local data:', err);
+          });
         }
 
         set({
@@ -172,8 +178,10 @@ export const useAuthStore = create<AuthStore>((set) => ({
 
       if (error) throw error;
 
-      // Clear all cached queries to prevent data leakage between users
+      // Clear all cached queries and local data to prevent data leakage between users
       queryClient.clear();
+      clearAllDrafts();
+      await localStore.clear();
 
       set({
         user: null,
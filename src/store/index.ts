@@ -1 +1,3 @@
 export { useAuthStore } from './authStore';
+export { useSyncStore } from './syncStore';
+export type { PageSyncStatus } from './syncStore';
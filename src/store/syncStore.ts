@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+
+/**
+ * Sync state of a single page's local changes
+ * - pending: changes are queued in the outbox
+ * - syncing: queued changes are being replayed
+ * - error: the server rejected a queued change
+ */
+export type PageSyncStatus = 'synced' | 'pending' | 'syncing' | 'error';
+
+interface SyncState {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  pageStatus: Record<string, PageSyncStatus>;
+  pageErrors: Record<string, string>;
+}
+
+interface SyncActions {
+  setOnline: (isOnline: boolean) => void;
+  setSyncing: (isSyncing: boolean) => void;
+  setPendingCount: (pendingCount: number) => void;
+  setPageStatus: (pageId: string, status: PageSyncStatus, error?: string) => void;
+  reset: () => void;
+}
+
+type SyncStore = SyncState & SyncActions;
+
+const initialState: SyncState = {
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  isSyncing: false,
+  pendingCount: 0,
+  pageStatus: {},
+  pageErrors: {},
+};
+
+export const useSyncStore = create<SyncStore>((set) => ({
+  ...initialState,
+
+  setOnline: (isOnline) => {
+    set({ isOnline });
+  },
+
+  setSyncing: (isSyncing) => {
+    set({ isSyncing });
+  },
+
+  setPendingCount: (pendingCount) => {
+    set({ pendingCount });
+  },
+
+  setPageStatus: (pageId, status, error) => {
+    set((state) => {
+      const pageErrors = { ...state.pageErrors };
+      if (status === 'error' && error) {
+        pageErrors[pageId] = error;
+      } else {
+        delete pageErrors[pageId];
+      }
+
+      return {
+        pageStatus: { ...state.pageStatus, [pageId]: status },
+        pageErrors,
+      };
+    });
+  },
+
+  reset: () => {
+    set({ ...initialState, isOnline: typeof navigator === 'undefined' ? true : navigator.onLine });
+  },
+}));
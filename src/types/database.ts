@@ -6,9 +6,24 @@
 import type {
   NotebookData,
   PageData,
+  PageSummary,
   PageVersionData,
   AttachmentData,
+  PageLinkData,
+  TagData,
+  PageTagData,
+  PageTagSource,
+  PageProperty,
+  PagePropertyType,
+  PagePropertyValue,
+  NotebookView,
+  NotebookViewFilters,
+  NotebookViewType,
   SearchResult,
+  PagePathEntry,
+  RetentionPolicy,
+  RetentionTier,
+  VersionDeltaOp,
   Database
 } from '../lib/supabase';
 
@@ -16,9 +31,24 @@ import type {
 export type {
   NotebookData,
   PageData,
+  PageSummary,
   PageVersionData,
   AttachmentData,
+  PageLinkData,
+  TagData,
+  PageTagData,
+  PageTagSource,
+  PageProperty,
+  PagePropertyType,
+  PagePropertyValue,
+  NotebookView,
+  NotebookViewFilters,
+  NotebookViewType,
   SearchResult,
+  PagePathEntry,
+  RetentionPolicy,
+  RetentionTier,
+  VersionDeltaOp,
   Database
 };
 
@@ -29,6 +59,13 @@ export interface PageWithChildren extends PageData {
   children?: PageWithChildren[];
 }
 
+/**
+ * Page summary with nested children, for page trees
+ */
+export interface PageSummaryWithChildren extends PageSummary {
+  children?: PageSummaryWithChildren[];
+}
+
 /**
  * Notebook with page count
  */
@@ -73,6 +110,57 @@ export interface VersionDiff {
   changes: string[];
 }
 
+/**
+ * Dry run of a version cleanup across a notebook
+ */
+export interface VersionCleanupPreview {
+  pages: Array<{
+    pageId: string;
+    title: string;
+    keep: VersionSummary[];
+    prune: VersionSummary[];
+  }>;
+  keepCount: number;
+  pruneCount: number;
+}
+
+/**
+ * Version metadata without content
+ */
+export type VersionSummary = Pick<PageVersionData, 'id' | 'page_id' | 'version' | 'created_at' | 'label' | 'is_pinned'>;
+
+/**
+ * A page in the trash, along with the pages deleted with it
+ */
+export interface TrashedPage {
+  id: string;
+  title: string;
+  notebook_id: string;
+  notebook_title: string;
+  parent_page_id?: string | null;
+  deleted_at: string;
+  descendant_count: number;
+}
+
+/**
+ * Everything in the trash
+ * Pages deleted inside a deleted notebook are listed with the notebook only
+ */
+export interface TrashContents {
+  notebooks: NotebookData[];
+  pages: TrashedPage[];
+}
+
+/**
+ * Details of a CONFLICT DatabaseError raised when a page was saved
+ * against a version that is no longer current
+ */
+export interface PageConflict {
+  pageId: string;
+  baseVersion: number; // Version the editor loaded
+  theirs: Pick<PageData, 'title' | 'content' | 'properties' | 'version' | 'updated_at'>; // Current saved page
+}
+
 /**
  * Export options
  */
@@ -127,10 +215,40 @@ export interface PageFilters {
   notebookId?: string;
   parentPageId?: string | null;
   search?: string;
-  sortBy?: 'title' | 'created_at' | 'updated_at';
+  tags?: string[];
+  tagMode?: TagMatchMode;
+  properties?: PropertyFilter[]; // Pages must match every property filter
+  sortBy?: 'title' | 'created_at' | 'updated_at' | 'version';
+  sortByProperty?: string; // Sort by this property instead, pages without a value last
   sortOrder?: SortOrder;
 }
 
+/**
+ * How a property filter compares a page's property value
+ */
+export type PropertyFilterOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains' // Substring of text, or one of the values of a multi-select
+  | 'greater_than'
+  | 'less_than'
+  | 'is_empty'
+  | 'is_not_empty';
+
+/**
+ * Condition on a page property, by property name
+ */
+export interface PropertyFilter {
+  name: string;
+  operator: PropertyFilterOperator;
+  value?: PagePropertyValue; // Not used by is_empty and is_not_empty
+}
+
+/**
+ * How a tag filter matches: pages with every tag (AND) or any of them (OR)
+ */
+export type TagMatchMode = 'all' | 'any';
+
 /**
  * Search options
  */
@@ -0,0 +1,36 @@
+import type { PageTitle } from '../lib/pageLinks';
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders page links (`#/pages/<id>`) in HTML content with the current
+ * title of the linked page, marking links to missing or trashed pages
+ * Links keep their written text while titles are unknown
+ */
+export function renderPageLinksInHtml(html: string, pages: PageTitle[] | undefined): string {
+  const pagesById = new Map(pages?.map(page => [page.id, page]));
+
+  return html.replace(
+    /<a href="#\/pages\/([\w-]+)"[^>]*>([\s\S]*?)<\/a>/g,
+    (_match, pageId: string, text: string) => {
+      const page = pagesById.get(pageId);
+      const isMissing = !!pages && !page;
+      const unavailable = isMissing || !!page?.deleted_at;
+
+      const attributes = [
+        `href="#/pages/${pageId}"`,
+        `class="page-link ${unavailable ? 'text-muted-foreground line-through' : 'text-primary underline underline-offset-4'}"`,
+        `data-page-id="${pageId}"`,
+        ...(unavailable ? [`title="${isMissing ? 'Page not found' : 'Page is in the trash'}"`] : []),
+      ];
+
+      return `<a ${attributes.join(' ')}>${page ? escapeHtml(page.title || 'Untitled') : text}</a>`;
+    }
+  );
+}
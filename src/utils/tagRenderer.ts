@@ -0,0 +1,62 @@
+import { findContentTags } from '../lib/tags';
+
+// Text in these elements is never a tag
+const SKIPPED_ELEMENTS = new Set(['A', 'CODE', 'PRE', 'SCRIPT', 'STYLE']);
+
+/**
+ * Tag browser URL showing the pages with a tag
+ */
+export function tagHref(tag: string): string {
+  return `#/tags?tags=${encodeURIComponent(tag)}`;
+}
+
+/**
+ * Renders #tags in HTML content as links to the tag browser
+ * Tags in code and inside other links are left alone
+ */
+export function renderTagsInHtml(html: string): string {
+  if (!html.includes('#')) {
+    return html;
+  }
+
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text);
+  }
+
+  for (const node of textNodes) {
+    let skipped = false;
+    for (let parent = node.parentElement; parent; parent = parent.parentElement) {
+      if (SKIPPED_ELEMENTS.has(parent.tagName)) {
+        skipped = true;
+        break;
+      }
+    }
+
+    const matches = skipped ? [] : findContentTags(node.data);
+    if (matches.length === 0) continue;
+
+    const fragment = document.createDocumentFragment();
+    let last = 0;
+    for (const { start, end, tag } of matches) {
+      fragment.append(node.data.slice(last, start));
+
+      const link = document.createElement('a');
+      link.href = tagHref(tag);
+      link.className = 'tag-link text-primary no-underline hover:underline';
+      link.dataset.tag = tag;
+      link.textContent = node.data.slice(start, end);
+      fragment.append(link);
+
+      last = end;
+    }
+    fragment.append(node.data.slice(last));
+    node.replaceWith(fragment);
+  }
+
+  return template.innerHTML;
+}
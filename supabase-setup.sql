@@ -25,6 +25,8 @@ CREATE TABLE IF NOT EXISTS notebooks (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   title TEXT NOT NULL,
   description TEXT,
+  version_retention JSONB,
+  deleted_at TIMESTAMPTZ,
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -37,7 +39,10 @@ CREATE TABLE IF NOT EXISTS pages (
   content TEXT NOT NULL DEFAULT '',
   version INTEGER NOT NULL DEFAULT 1,
   parent_page_id UUID REFERENCES pages(id) ON DELETE CASCADE,
+  sort_order TEXT COLLATE "C",
   notebook_id UUID NOT NULL REFERENCES notebooks(id) ON DELETE CASCADE,
+  deleted_at TIMESTAMPTZ,
+  deleted_root_id UUID,
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   searchable_content TSVECTOR,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
@@ -51,6 +56,10 @@ CREATE TABLE IF NOT EXISTS page_versions (
   title TEXT NOT NULL,
   content TEXT NOT NULL,
   version INTEGER NOT NULL,
+  label TEXT,
+  is_pinned BOOLEAN NOT NULL DEFAULT FALSE,
+  base_version_id UUID,
+  delta JSONB,
   user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -67,6 +76,76 @@ CREATE TABLE IF NOT EXISTS attachments (
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Links between pages, parsed from page content on every save. Targets have
+-- no foreign key: a link may point at a page that was deleted.
+CREATE TABLE IF NOT EXISTS page_links (
+  source_page_id UUID NOT NULL REFERENCES pages(id) ON DELETE CASCADE,
+  target_page_id UUID NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (source_page_id, target_page_id)
+);
+
+-- Tags, stored lowercase without the leading #
+CREATE TABLE IF NOT EXISTS tags (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL CHECK (name <> '' AND name = lower(name)),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+-- Tags of pages. 'content' rows are parsed from #tags in the page content on
+-- every save; 'manual' rows are the page's own tag list.
+CREATE TABLE IF NOT EXISTS page_tags (
+  page_id UUID NOT NULL REFERENCES pages(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('content', 'manual')),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (page_id, tag_id, source)
+);
+
+-- Sibling order for pages (fractional index keys, compared bytewise)
+-- Added after the initial release; safe to re-run on existing databases
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS sort_order TEXT COLLATE "C";
+
+-- Version labels and pins (pinned versions are exempt from cleanup)
+ALTER TABLE page_versions ADD COLUMN IF NOT EXISTS label TEXT;
+ALTER TABLE page_versions ADD COLUMN IF NOT EXISTS is_pinned BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Per-notebook tiered version retention (NULL uses the app default)
+ALTER TABLE notebooks ADD COLUMN IF NOT EXISTS version_retention JSONB;
+
+-- Delta-compressed versions: rows with a delta store an empty content and a
+-- line delta against base_version_id. Existing rows stay full keyframes until
+-- compacted from the app (Notebook settings > Version History Retention).
+ALTER TABLE page_versions ADD COLUMN IF NOT EXISTS base_version_id UUID;
+ALTER TABLE page_versions ADD COLUMN IF NOT EXISTS delta JSONB;
+
+-- Trash: deleted notebooks and pages are kept until purged. A deleted page
+-- subtree shares the deleted_root_id of the page that was deleted.
+ALTER TABLE notebooks ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS deleted_root_id UUID;
+
+-- Saved table and board views of a notebook: a JSON array of view settings
+ALTER TABLE notebooks ADD COLUMN IF NOT EXISTS views JSONB NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(views) = 'array');
+
+-- Typed page properties: a JSON array of { name, type, value, options? }
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS properties JSONB NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(properties) = 'array');
+
+-- Page templates: any page can be a template, and a notebook can start new
+-- pages from one. No foreign key, so restores can insert notebooks first.
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS is_template BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE notebooks ADD COLUMN IF NOT EXISTS default_template_id UUID;
+
+-- Start of a page's content, so page lists can skip the content itself.
+-- Kept up to date by the pages_excerpt_update trigger.
+ALTER TABLE pages ADD COLUMN IF NOT EXISTS excerpt TEXT;
+
 -- ============================================
 -- INDEXES
 -- ============================================
@@ -74,9 +153,15 @@ CREATE TABLE IF NOT EXISTS attachments (
 CREATE INDEX IF NOT EXISTS idx_notebooks_user_id ON notebooks(user_id);
 CREATE INDEX IF NOT EXISTS idx_pages_notebook_id ON pages(notebook_id);
 CREATE INDEX IF NOT EXISTS idx_pages_parent_page_id ON pages(parent_page_id);
+CREATE INDEX IF NOT EXISTS idx_pages_sort_order ON pages(notebook_id, parent_page_id, sort_order);
 CREATE INDEX IF NOT EXISTS idx_pages_user_id ON pages(user_id);
+CREATE INDEX IF NOT EXISTS idx_pages_deleted_root_id ON pages(deleted_root_id) WHERE deleted_root_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_pages_is_template ON pages(user_id) WHERE is_template;
 CREATE INDEX IF NOT EXISTS idx_page_versions_page_id ON page_versions(page_id);
+CREATE INDEX IF NOT EXISTS idx_page_versions_base_version_id ON page_versions(base_version_id);
 CREATE INDEX IF NOT EXISTS idx_attachments_page_id ON attachments(page_id);
+CREATE INDEX IF NOT EXISTS idx_page_links_target_page_id ON page_links(target_page_id);
+CREATE INDEX IF NOT EXISTS idx_page_tags_tag_id ON page_tags(tag_id);
 
 -- Full-text search index
 CREATE INDEX IF NOT EXISTS idx_pages_searchable_content ON pages USING GIN(searchable_content);
@@ -101,6 +186,29 @@ CREATE TRIGGER pages_searchable_content_update
   FOR EACH ROW
   EXECUTE FUNCTION update_searchable_content();
 
+-- Function to shorten page content to an excerpt: whitespace collapsed,
+-- first 200 characters
+CREATE OR REPLACE FUNCTION page_excerpt(content TEXT)
+RETURNS TEXT AS $$
+  SELECT LEFT(BTRIM(regexp_replace(COALESCE(content, ''), '\s+', ' ', 'g')), 200);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Function to update a page's excerpt
+CREATE OR REPLACE FUNCTION update_page_excerpt()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.excerpt := page_excerpt(NEW.content);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to update excerpt when content is written
+DROP TRIGGER IF EXISTS pages_excerpt_update ON pages;
+CREATE TRIGGER pages_excerpt_update
+  BEFORE INSERT OR UPDATE OF content ON pages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_page_excerpt();
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at()
 RETURNS TRIGGER AS $$
@@ -124,6 +232,73 @@ CREATE TRIGGER pages_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at();
 
+-- Fill in excerpts of pages written before the excerpt column existed,
+-- without marking the pages as updated
+ALTER TABLE pages DISABLE TRIGGER pages_updated_at;
+UPDATE pages SET excerpt = page_excerpt(content) WHERE excerpt IS NULL;
+ALTER TABLE pages ENABLE TRIGGER pages_updated_at;
+
+-- Function to keep the page tree a tree: a page can't be placed under itself
+-- or one of its descendants, and its parent must be in the same notebook.
+-- Raises MN001 and MN002, mapped to DatabaseError by the app.
+CREATE OR REPLACE FUNCTION check_page_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_page_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_page_id = NEW.id OR EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_page_id FROM pages WHERE id = NEW.parent_page_id
+      UNION
+      SELECT p.id, p.parent_page_id FROM pages p JOIN ancestors a ON p.id = a.parent_page_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Page % cannot be moved under itself or one of its descendants', NEW.id
+      USING ERRCODE = 'MN001';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pages WHERE id = NEW.parent_page_id AND notebook_id = NEW.notebook_id
+  ) THEN
+    RAISE EXCEPTION 'Parent page % is not in notebook %', NEW.parent_page_id, NEW.notebook_id
+      USING ERRCODE = 'MN002';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to check the parent of inserted and moved pages
+DROP TRIGGER IF EXISTS pages_check_parent ON pages;
+CREATE TRIGGER pages_check_parent
+  BEFORE INSERT OR UPDATE OF parent_page_id, notebook_id ON pages
+  FOR EACH ROW
+  EXECUTE FUNCTION check_page_parent();
+
+-- Function to carry a page's subtree along when it moves to another notebook.
+-- Each child update fires the trigger again, so the whole subtree follows.
+CREATE OR REPLACE FUNCTION move_child_pages_to_notebook()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE pages
+  SET notebook_id = NEW.notebook_id
+  WHERE parent_page_id = NEW.id
+    AND notebook_id <> NEW.notebook_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to move child pages with their parent
+DROP TRIGGER IF EXISTS pages_move_children ON pages;
+CREATE TRIGGER pages_move_children
+  AFTER UPDATE OF notebook_id ON pages
+  FOR EACH ROW
+  WHEN (OLD.notebook_id IS DISTINCT FROM NEW.notebook_id)
+  EXECUTE FUNCTION move_child_pages_to_notebook();
+
 -- ============================================
 -- ROW LEVEL SECURITY (RLS) POLICIES
 -- ============================================
@@ -133,6 +308,9 @@ ALTER TABLE notebooks ENABLE ROW LEVEL SECURITY;
 ALTER TABLE pages ENABLE ROW LEVEL SECURITY;
 ALTER TABLE page_versions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE page_links ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE page_tags ENABLE ROW LEVEL SECURITY;
 
 -- Drop existing policies if they exist (for re-running script)
 DROP POLICY IF EXISTS "Users can view their own notebooks" ON notebooks;
@@ -147,11 +325,25 @@ DROP POLICY IF EXISTS "Users can delete their own pages" ON pages;
 
 DROP POLICY IF EXISTS "Users can view their own page versions" ON page_versions;
 DROP POLICY IF EXISTS "Users can create their own page versions" ON page_versions;
+DROP POLICY IF EXISTS "Users can update their own page versions" ON page_versions;
+DROP POLICY IF EXISTS "Users can delete their own page versions" ON page_versions;
 
 DROP POLICY IF EXISTS "Users can view their own attachments" ON attachments;
 DROP POLICY IF EXISTS "Users can create their own attachments" ON attachments;
 DROP POLICY IF EXISTS "Users can delete their own attachments" ON attachments;
 
+DROP POLICY IF EXISTS "Users can view their own page links" ON page_links;
+DROP POLICY IF EXISTS "Users can create their own page links" ON page_links;
+DROP POLICY IF EXISTS "Users can delete their own page links" ON page_links;
+
+DROP POLICY IF EXISTS "Users can view their own tags" ON tags;
+DROP POLICY IF EXISTS "Users can create their own tags" ON tags;
+DROP POLICY IF EXISTS "Users can delete their own tags" ON tags;
+
+DROP POLICY IF EXISTS "Users can view their own page tags" ON page_tags;
+DROP POLICY IF EXISTS "Users can create their own page tags" ON page_tags;
+DROP POLICY IF EXISTS "Users can delete their own page tags" ON page_tags;
+
 -- Notebooks policies
 CREATE POLICY "Users can view their own notebooks"
   ON notebooks FOR SELECT
@@ -195,6 +387,16 @@ CREATE POLICY "Users can create their own page versions"
   ON page_versions FOR INSERT
   WITH CHECK (auth.uid() = user_id);
 
+-- Needed to coalesce rapid saves into the latest version
+CREATE POLICY "Users can update their own page versions"
+  ON page_versions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Needed to trim old versions
+CREATE POLICY "Users can delete their own page versions"
+  ON page_versions FOR DELETE
+  USING (auth.uid() = user_id);
+
 -- Attachments policies
 CREATE POLICY "Users can view their own attachments"
   ON attachments FOR SELECT
@@ -208,6 +410,74 @@ CREATE POLICY "Users can delete their own attachments"
   ON attachments FOR DELETE
   USING (auth.uid() = user_id);
 
+-- Page links policies
+CREATE POLICY "Users can view their own page links"
+  ON page_links FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own page links"
+  ON page_links FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own page links"
+  ON page_links FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Index links in pages saved before the link index existed
+INSERT INTO page_links (source_page_id, target_page_id, user_id)
+SELECT DISTINCT p.id, m[1]::uuid, p.user_id
+FROM pages p,
+  regexp_matches(p.content, '#/(?:notebooks/[0-9a-fA-F-]+/)?pages/([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})', 'g') AS m
+WHERE m[1]::uuid <> p.id
+ON CONFLICT DO NOTHING;
+
+-- Tags policies
+CREATE POLICY "Users can view their own tags"
+  ON tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags"
+  ON tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+  ON tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Page tags policies
+CREATE POLICY "Users can view their own page tags"
+  ON page_tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own page tags"
+  ON page_tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own page tags"
+  ON page_tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Index #tags in pages saved before tags existed. This approximates the
+-- app's parser (it doesn't skip code); pages are re-indexed on their next save.
+DROP TABLE IF EXISTS pg_temp.content_tags;
+CREATE TEMP TABLE content_tags AS
+SELECT DISTINCT p.id AS page_id, p.user_id, lower(rtrim(m[1], '/-')) AS name
+FROM pages p,
+  regexp_matches(p.content, '(?:^|[\s(,;])#([[:alnum:]_][[:alnum:]_/-]*)', 'g') AS m
+WHERE lower(rtrim(m[1], '/-')) ~ '[^0-9]';
+
+INSERT INTO tags (name, user_id)
+SELECT DISTINCT name, user_id FROM pg_temp.content_tags
+ON CONFLICT (user_id, name) DO NOTHING;
+
+INSERT INTO page_tags (page_id, tag_id, source, user_id)
+SELECT c.page_id, t.id, 'content', c.user_id
+FROM pg_temp.content_tags c
+JOIN tags t ON t.user_id = c.user_id AND t.name = c.name
+ON CONFLICT DO NOTHING;
+
+DROP TABLE pg_temp.content_tags;
+
 -- ============================================
 -- SEARCH FUNCTIONS
 -- ============================================
@@ -244,6 +514,8 @@ BEGIN
   INNER JOIN notebooks n ON p.notebook_id = n.id
   WHERE 
     p.user_id = auth.uid()
+    AND p.deleted_at IS NULL
+    AND n.deleted_at IS NULL
     AND p.searchable_content @@ websearch_to_tsquery('english', search_query)
     AND (notebook_filter IS NULL OR p.notebook_id = notebook_filter)
   ORDER BY rank DESC, p.updated_at DESC
@@ -258,6 +530,129 @@ GRANT EXECUTE ON FUNCTION search_pages_ranked TO authenticated;
 -- Add comment for documentation
 COMMENT ON FUNCTION search_pages_ranked IS 'Performs ranked full-text search across pages with optional notebook filtering';
 
+-- ============================================
+-- TREE FUNCTIONS
+-- ============================================
+-- Page tree reads and changes in a single round trip, so clients don't need
+-- every page of a notebook to walk the tree. They run with the caller's
+-- rights, so RLS applies, and only follow the caller's pages.
+
+-- Function returning a page and its descendants outside the trash,
+-- parents before children and siblings in order
+CREATE OR REPLACE FUNCTION get_page_subtree(root_page_id UUID)
+RETURNS SETOF pages
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT p.id, 0 AS depth
+    FROM pages p
+    WHERE p.id = root_page_id AND p.user_id = auth.uid()
+    UNION ALL
+    SELECT c.id, s.depth + 1
+    FROM pages c
+    INNER JOIN subtree s ON c.parent_page_id = s.id
+    WHERE c.user_id = auth.uid() AND c.deleted_at IS NULL
+  ) CYCLE id SET is_cycle USING visited
+  SELECT p.*
+  FROM pages p
+  INNER JOIN subtree s ON p.id = s.id
+  WHERE NOT s.is_cycle
+  ORDER BY s.depth, p.parent_page_id, p.sort_order NULLS LAST, p.created_at;
+$$;
+
+-- Function returning the path from the notebook root down to a page, for
+-- breadcrumbs. The page itself comes last.
+CREATE OR REPLACE FUNCTION get_page_path(target_page_id UUID)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  parent_page_id UUID,
+  notebook_id UUID,
+  depth INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE path AS (
+    SELECT p.id, p.title, p.parent_page_id, p.notebook_id, 0 AS distance
+    FROM pages p
+    WHERE p.id = target_page_id AND p.user_id = auth.uid()
+    UNION ALL
+    SELECT p.id, p.title, p.parent_page_id, p.notebook_id, path.distance + 1
+    FROM pages p
+    INNER JOIN path ON p.id = path.parent_page_id
+    WHERE p.user_id = auth.uid()
+  ) CYCLE id SET is_cycle USING visited
+  SELECT path.id, path.title, path.parent_page_id, path.notebook_id,
+    (MAX(path.distance) OVER () - path.distance)::INTEGER AS depth
+  FROM path
+  WHERE NOT path.is_cycle
+  ORDER BY path.distance DESC;
+$$;
+
+-- Function moving a page under another parent, or to the root with a NULL
+-- parent, and optionally to another notebook. The page triggers check the
+-- new parent and carry the subtree along to the notebook.
+CREATE OR REPLACE FUNCTION move_page_subtree(
+  target_page_id UUID,
+  new_parent_page_id UUID,
+  new_notebook_id UUID DEFAULT NULL
+)
+RETURNS pages
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  moved pages;
+BEGIN
+  UPDATE pages
+  SET parent_page_id = new_parent_page_id,
+    notebook_id = COALESCE(new_notebook_id, pages.notebook_id)
+  WHERE pages.id = target_page_id AND pages.user_id = auth.uid()
+  RETURNING * INTO moved;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Page % not found', target_page_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN moved;
+END;
+$$;
+
+-- Function moving a page and its descendants to the trash, as deleting a
+-- page does in the app. Descendants already in the trash keep their own
+-- trash entry. Returns the pages that were moved to the trash.
+CREATE OR REPLACE FUNCTION delete_page_subtree(target_page_id UUID)
+RETURNS TABLE (
+  id UUID,
+  notebook_id UUID,
+  parent_page_id UUID
+)
+LANGUAGE sql
+AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT p.id
+    FROM pages p
+    WHERE p.id = target_page_id AND p.user_id = auth.uid()
+    UNION ALL
+    SELECT c.id
+    FROM pages c
+    INNER JOIN subtree s ON c.parent_page_id = s.id
+    WHERE c.user_id = auth.uid() AND c.deleted_at IS NULL
+  ) CYCLE id SET is_cycle USING visited
+  UPDATE pages p
+  SET deleted_at = NOW(), deleted_root_id = target_page_id
+  FROM subtree s
+  WHERE p.id = s.id AND NOT s.is_cycle
+  RETURNING p.id, p.notebook_id, p.parent_page_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_page_subtree TO authenticated;
+GRANT EXECUTE ON FUNCTION get_page_path TO authenticated;
+GRANT EXECUTE ON FUNCTION move_page_subtree TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_page_subtree TO authenticated;
+
 -- ============================================
 -- STORAGE SETUP
 -- ============================================